@@ -30,13 +30,127 @@ export async function runParameterSweep(config) {
     return res.json();
 }
 
-export async function listResults() {
-    const res = await fetch(`${API_BASE}/k-dexter/backtest/results`);
+export async function runWalkForward(config) {
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/walk-forward`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+    });
+    if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(err.details || err.error || 'Walk-forward failed');
+    }
+    return res.json();
+}
+
+/**
+ * 비동기 작업 제출 (?async=true) → job 반환
+ * @param path 'run' | 'parameter-sweep'
+ */
+export async function submitJob(path, config) {
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/${path}?async=true`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+    });
+    if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(err.details || err.error || 'Job submission failed');
+    }
+    return res.json();
+}
+
+/**
+ * 작업 진행률 구독 (SSE) → 종료 상태의 job으로 resolve
+ */
+export function watchJob(id, onUpdate) {
+    return new Promise((resolve, reject) => {
+        const source = new EventSource(`${API_BASE}/k-dexter/backtest/jobs/${id}/events`);
+        const handle = (e) => {
+            const job = JSON.parse(e.data);
+            onUpdate?.(job);
+            if (['completed', 'failed', 'cancelled'].includes(job.status)) {
+                source.close();
+                resolve(job);
+            }
+        };
+        source.addEventListener('status', handle);
+        source.addEventListener('progress', handle);
+        source.onerror = () => {
+            // 스트림이 끊기면 상태를 직접 조회
+            source.close();
+            fetch(`${API_BASE}/k-dexter/backtest/jobs/${id}`)
+                .then(res => res.ok ? res.json() : Promise.reject(new Error('Job not found')))
+                .then(job => ['completed', 'failed', 'cancelled'].includes(job.status)
+                    ? resolve(job)
+                    : watchJob(id, onUpdate).then(resolve, reject))
+                .catch(reject);
+        };
+    });
+}
+
+export async function cancelJob(id) {
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/jobs/${id}`, { method: 'DELETE' });
+    return res.json();
+}
+
+/**
+ * 결과 목록 (query: limit, offset, from, to, symbol, grade, minSharpe, tag, name)
+ */
+export async function listResults(query = {}) {
+    const params = new URLSearchParams(
+        Object.entries(query).filter(([, v]) => v !== undefined && v !== '')
+    );
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/results?${params}`);
+    return res.json();
+}
+
+export async function listUniverses() {
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/universes`);
     return res.json();
 }
 
+export async function updateResultMeta(id, meta) {
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/results/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(meta),
+    });
+    if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(err.details || err.error || 'Update failed');
+    }
+    return res.json();
+}
+
+export async function deleteResult(id) {
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/results/${id}`, { method: 'DELETE' });
+    if (!res.ok) throw new Error('Delete failed');
+    return res.json();
+}
+
+/**
+ * 내보내기 다운로드 URL (format: 'xlsx' | 'csv', CSV는 sheet 하나)
+ */
+export function exportResultUrl(id, format, sheet = 'trades') {
+    const query = format === 'csv' ? `format=csv&sheet=${sheet}` : 'format=xlsx';
+    return `${API_BASE}/k-dexter/backtest/results/${id}/export?${query}`;
+}
+
 export async function getResult(id) {
     const res = await fetch(`${API_BASE}/k-dexter/backtest/results/${id}`);
     if (!res.ok) return null;
     return res.json();
 }
+
+/**
+ * 결과 비교 (ids[0]이 기준)
+ */
+export async function compareResults(ids) {
+    const res = await fetch(`${API_BASE}/k-dexter/backtest/compare?ids=${ids.map(encodeURIComponent).join(',')}`);
+    if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(err.details || err.error || 'Compare failed');
+    }
+    return res.json();
+}
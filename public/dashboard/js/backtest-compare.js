@@ -0,0 +1,225 @@
+/**
+ * backtest-compare.js — 결과 비교 (?ids=기준,비교1,...)
+ */
+import { listResults, compareResults } from './api.js';
+import { pct, num, formatDate } from './utils.js';
+
+const MAX_COMPARE = 5;
+const RUN_COLORS = ['#111827', '#2563eb', '#dc2626', '#16a34a', '#d97706'];
+
+// 선택 순서 유지 (첫 번째가 기준)
+const selected = [];
+
+const params = new URLSearchParams(location.search);
+const initialIds = (params.get('ids') ?? '').split(',').filter(Boolean);
+
+document.getElementById('btn-search').addEventListener('click', loadPicker);
+document.getElementById('btn-compare').addEventListener('click', () => {
+    history.replaceState(null, '', `?ids=${selected.join(',')}`);
+    loadAndRender(selected);
+});
+
+selected.push(...initialIds.slice(0, MAX_COMPARE));
+loadPicker();
+if (selected.length >= 2) loadAndRender(selected);
+
+function showError(message) {
+    const el = document.getElementById('error-msg');
+    el.textContent = message;
+    el.classList.toggle('hidden', !message);
+}
+
+// ── Result Picker ──────────────────────────────────────────────────────
+async function loadPicker() {
+    const { results = [] } = await listResults({
+        limit: 50,
+        name: document.getElementById('filter-name').value.trim(),
+        tag: document.getElementById('filter-tag').value.trim(),
+    });
+
+    const tbody = document.getElementById('picker-tbody');
+    tbody.innerHTML = results.map(r => `
+        <tr>
+            <td><input type="checkbox" data-id="${r.id}" ${selected.includes(r.id) ? 'checked' : ''}></td>
+            <td>${r.name ?? '<span class="text-muted">이름 없음</span>'}</td>
+            <td>${new Date(r.executedAt).toLocaleString()}</td>
+            <td>${r.config.universe.length}</td>
+            <td>${r.config.gradeFilter.join('/')}</td>
+            <td>${r.summary.totalTrades}</td>
+            <td>${num(r.summary.winRate, 1)}%</td>
+            <td>${num(r.summary.sharpeRatio, 2)}</td>
+        </tr>
+    `).join('');
+
+    tbody.querySelectorAll('input[type="checkbox"]').forEach(box => {
+        box.addEventListener('change', () => {
+            const id = box.dataset.id;
+            const idx = selected.indexOf(id);
+            if (box.checked && idx === -1) {
+                if (selected.length >= MAX_COMPARE) {
+                    box.checked = false;
+                    alert(`최대 ${MAX_COMPARE}개까지 비교할 수 있습니다`);
+                    return;
+                }
+                selected.push(id);
+            } else if (!box.checked && idx !== -1) {
+                selected.splice(idx, 1);
+            }
+            updateCompareButton();
+        });
+    });
+    updateCompareButton();
+}
+
+function updateCompareButton() {
+    const btn = document.getElementById('btn-compare');
+    btn.disabled = selected.length < 2;
+    btn.textContent = `비교 (${selected.length})`;
+}
+
+async function loadAndRender(ids) {
+    try {
+        showError('');
+        const comparison = await compareResults(ids);
+        renderAll(comparison);
+    } catch (err) {
+        showError(`오류: ${err.message}`);
+    }
+}
+
+function renderAll(cmp) {
+    document.getElementById('content').classList.remove('hidden');
+
+    const labels = cmp.runs.map((r, i) => `${i === 0 ? '[기준] ' : ''}${r.name || r.id.slice(0, 8)}`);
+    const headerRow = (first) => `<tr><th>${first}</th>${labels.map(l => `<th>${l}</th>`).join('')}</tr>`;
+
+    renderSummary(cmp.summary, headerRow('지표'));
+    renderConfigDiff(cmp.configDiff, headerRow('설정'));
+    renderEquityCurves(cmp.equityCurves, labels);
+    renderGradeDeltas(cmp.gradeDeltas, headerRow('Grade'));
+    renderUniqueTrades(cmp.uniqueTrades, labels);
+}
+
+function withDelta(value, delta, i, format) {
+    if (value == null) return '-';
+    if (i === 0 || delta == null) return format(value);
+    const cls = delta > 0 ? 'text-green' : delta < 0 ? 'text-red' : 'text-muted';
+    const text = format(delta);
+    return `${format(value)} <span class="${cls}" style="font-size:.8rem">(${delta >= 0 && !text.startsWith('+') ? '+' : ''}${text})</span>`;
+}
+
+// ── Summary ────────────────────────────────────────────────────────────
+function renderSummary(summary, header) {
+    document.getElementById('summary-thead').innerHTML = header;
+    document.getElementById('summary-tbody').innerHTML = summary.map(s => `
+        <tr>
+            <td>${s.metric}</td>
+            ${s.values.map((v, i) => `<td>${withDelta(v, s.deltas[i], i, x => num(x, 2))}</td>`).join('')}
+        </tr>
+    `).join('');
+}
+
+// ── Config Diff ────────────────────────────────────────────────────────
+function renderConfigDiff(diff, header) {
+    document.getElementById('config-empty').classList.toggle('hidden', diff.length > 0);
+    document.getElementById('config-thead').innerHTML = diff.length > 0 ? header : '';
+    document.getElementById('config-tbody').innerHTML = diff.map(d => `
+        <tr>
+            <td>${d.path}</td>
+            ${d.values.map(v => `<td>${v == null ? '-' : Array.isArray(v) ? v.join(', ') : v}</td>`).join('')}
+        </tr>
+    `).join('');
+}
+
+// ── Equity Curves ──────────────────────────────────────────────────────
+let equityChart = null;
+
+function renderEquityCurves(curves, labels) {
+    const ctx = document.getElementById('chart-equity')?.getContext('2d');
+    if (!ctx || !window.Chart) return;
+
+    equityChart?.destroy();
+    equityChart = new Chart(ctx, {
+        type: 'line',
+        data: {
+            labels: curves.dates.map(formatDate),
+            datasets: curves.series.map((data, i) => ({
+                label: labels[i],
+                data,
+                borderColor: RUN_COLORS[i % RUN_COLORS.length],
+                fill: false,
+                tension: 0.3,
+                pointRadius: 0,
+                borderWidth: i === 0 ? 2 : 1.5,
+            })),
+        },
+        options: {
+            responsive: true,
+            maintainAspectRatio: false,
+            plugins: { legend: { display: true } },
+            scales: {
+                x: { ticks: { maxTicksLimit: 8, color: '#6b7280' }, grid: { color: '#f3f4f6' } },
+                y: { ticks: { color: '#6b7280', callback: v => `${v.toFixed(1)}%` }, grid: { color: '#f3f4f6' } },
+            },
+        },
+    });
+}
+
+// ── Grade Deltas ───────────────────────────────────────────────────────
+function renderGradeDeltas(gradeDeltas, header) {
+    document.getElementById('grade-thead').innerHTML = header;
+    document.getElementById('grade-tbody').innerHTML = gradeDeltas.map(g => `
+        <tr>
+            <td><span class="badge badge-${g.grade}">${g.grade}</span></td>
+            ${g.runs.map((run, i) => {
+                const d = g.deltas[i];
+                return `<td>
+                    ${withDelta(run.tradeCount, d.tradeCount, i, x => String(x))}건<br>
+                    <span style="font-size:.8rem">승률 ${withDelta(run.winRate, d.winRate, i, x => `${num(x, 1)}%`)}</span><br>
+                    <span style="font-size:.8rem">평균 ${withDelta(run.avgReturn, d.avgReturn, i, x => pct(x, 2))}</span>
+                </td>`;
+            }).join('')}
+        </tr>
+    `).join('');
+}
+
+// ── Unique Trades ──────────────────────────────────────────────────────
+function renderUniqueTrades(uniqueTrades, labels) {
+    document.getElementById('unique-trades').innerHTML = uniqueTrades.map((u, i) => `
+        <div class="card mt-2">
+            <div class="section-title">${labels[i]}에만 있는 거래 (${u.trades.length}건)</div>
+            <div class="table-wrap">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>종목</th>
+                            <th>방향</th>
+                            <th>진입일</th>
+                            <th>청산일</th>
+                            <th>Grade</th>
+                            <th>점수</th>
+                            <th>수익률</th>
+                            <th>비용 차감</th>
+                            <th>청산 사유</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${u.trades.slice(0, 100).map(t => `
+                            <tr>
+                                <td>${t.symbol}</td>
+                                <td>${t.direction === 'short' ? '매도' : '매수'}</td>
+                                <td>${formatDate(t.entryDate)}</td>
+                                <td>${formatDate(t.exitDate)}</td>
+                                <td><span class="badge badge-${t.swingGrade}">${t.swingGrade}</span></td>
+                                <td>${t.gradeScore}</td>
+                                <td class="${t.returnPct >= 0 ? 'text-green' : 'text-red'}">${pct(t.returnPct, 2)}</td>
+                                <td>${pct(t.netReturnPct, 2)}</td>
+                                <td>${t.exitReason ?? '-'}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    `).join('');
+}
@@ -1,7 +1,7 @@
 /**
  * backtest-config.js — 설정 폼 로직
  */
-import { runBacktest, runParameterSweep } from './api.js';
+import { submitJob, watchJob, cancelJob, getResult, runWalkForward, listUniverses } from './api.js';
 
 // ── 슬라이더 라벨 동기화 ──────────────────────────────────────────────
 function bindSlider(sliderId, labelId) {
@@ -21,6 +21,64 @@ bindSlider('w-ma60', 'w-ma60-val');
 bindSlider('t-a', 't-a-val');
 bindSlider('t-b', 't-b-val');
 bindSlider('t-c', 't-c-val');
+bindSlider('pf-max-positions', 'pf-max-positions-val');
+bindSlider('cost-slippage-ticks', 'cost-slippage-ticks-val');
+
+// ── 시장 전환 (비용 기본값 / 거래소 / 벤치마크 선택지) ─────────────────
+const MARKET_DEFAULTS = {
+    KR: { commissionBps: 1.5, sellTaxPct: 0.2, initialCapital: 10_000_000, symbolsPlaceholder: '005930\n000660\n035420', benchmarkPlaceholder: '069500' },
+    US: { commissionBps: 25, sellTaxPct: 0.00278, initialCapital: 10_000, symbolsPlaceholder: 'AAPL\nMSFT\nNVDA', benchmarkPlaceholder: 'SPY' },
+};
+
+function applyMarket() {
+    const market = document.getElementById('market').value;
+    const defaults = MARKET_DEFAULTS[market];
+    document.getElementById('exchange').classList.toggle('hidden', market !== 'US');
+    document.getElementById('cost-commission').value = defaults.commissionBps;
+    document.getElementById('cost-sell-tax').value = defaults.sellTaxPct;
+    const capital = document.getElementById('pf-capital');
+    capital.min = capital.step = defaults.initialCapital / 10;
+    capital.value = defaults.initialCapital;
+    document.getElementById('symbols').placeholder = defaults.symbolsPlaceholder;
+    document.getElementById('benchmark-symbol').placeholder = defaults.benchmarkPlaceholder;
+
+    const benchmarkSelect = document.getElementById('benchmark');
+    for (const option of benchmarkSelect.options) {
+        option.hidden = Boolean(option.dataset.market) && option.dataset.market !== market;
+    }
+    if (benchmarkSelect.selectedOptions[0]?.hidden) benchmarkSelect.value = '';
+}
+
+document.getElementById('market')?.addEventListener('change', applyMarket);
+
+// ── 시점별 유니버스 (선택 시 종목 직접 입력 대신 편입 이력 사용, 시장은 유니버스 기준) ──
+async function loadUniverseOptions() {
+    const select = document.getElementById('universe-name');
+    if (!select) return;
+    const { universes = [] } = await listUniverses().catch(() => ({}));
+    for (const u of universes) {
+        const option = new Option(`${u.name} (${u.market}, 현재 ${u.currentCount} / 이력 ${u.symbolCount}종목)`, u.name);
+        option.dataset.market = u.market;
+        select.add(option);
+    }
+}
+
+document.getElementById('universe-name')?.addEventListener('change', (e) => {
+    const market = e.target.selectedOptions[0]?.dataset.market;
+    document.getElementById('symbols').disabled = Boolean(market);
+    document.getElementById('market').disabled = Boolean(market);
+    if (market) {
+        document.getElementById('market').value = market;
+        applyMarket();
+    }
+});
+
+loadUniverseOptions();
+
+/** 상태 표시용 유니버스 설명 */
+function describeUniverse(config) {
+    return config.universeName ? `유니버스 ${config.universeName}` : `${config.universe.length}종목`;
+}
 
 // ── 설정 수집 ──────────────────────────────────────────────────────────
 function getConfig() {
@@ -31,8 +89,52 @@ function getConfig() {
         document.getElementById(`grade-${g}`)?.checked
     );
 
+    const portfolio = document.getElementById('pf-enabled')?.checked
+        ? {
+            initialCapital: parseInt(document.getElementById('pf-capital').value),
+            maxPositions: parseInt(document.getElementById('pf-max-positions').value),
+        }
+        : undefined;
+
+    const commissionBps = parseFloat(document.getElementById('cost-commission').value) || 0;
+    const slippageTicks = parseInt(document.getElementById('cost-slippage-ticks').value);
+    const costs = {
+        stock: {
+            commissionBps,
+            sellTaxPct: parseFloat(document.getElementById('cost-sell-tax').value) || 0,
+            slippageTicks,
+        },
+        etf: { commissionBps, slippageTicks },
+        etfSymbols: document.getElementById('cost-etf-symbols').value
+            .split(/[\s,]+/).map(s => s.trim()).filter(Boolean),
+    };
+
+    const benchmarkChoice = document.getElementById('benchmark')?.value || '';
+    const benchmark = benchmarkChoice === 'custom'
+        ? document.getElementById('benchmark-symbol').value.trim() || undefined
+        : benchmarkChoice || undefined;
+
+    // 전략 규칙: 비우면 Grade 필터, JSON 문법 오류면 null (규칙 자체 검증은 서버)
+    const strategyRaw = document.getElementById('strategy-rules')?.value.trim();
+    let strategyRules;
+    if (strategyRaw) {
+        try {
+            strategyRules = JSON.parse(strategyRaw);
+        } catch (err) {
+            setStatus(`❌ 전략 규칙 JSON 오류: ${err.message}`);
+            return null;
+        }
+    }
+
+    const market = document.getElementById('market')?.value || 'KR';
+    const universeName = document.getElementById('universe-name')?.value || undefined;
+
     return {
-        universe: symbols,
+        market,
+        exchange: market === 'US' ? document.getElementById('exchange').value : undefined,
+        universe: universeName ? undefined : symbols,
+        universeName,
+        direction: document.getElementById('direction')?.value || 'long',
         gradeFilter: gradeFilter.length > 0 ? gradeFilter : ['A'],
         holdingPeriod: parseInt(document.getElementById('holding-period').value),
         weights: {
@@ -46,6 +148,17 @@ function getConfig() {
             B: parseInt(document.getElementById('t-b').value),
             C: parseInt(document.getElementById('t-c').value),
         },
+        portfolio,
+        exitRule: {
+            mode: document.getElementById('exit-mode')?.value || 'fixed',
+            sameBarPriority: document.getElementById('exit-priority')?.value || 'stop_first',
+        },
+        strategyRules,
+        costs,
+        benchmark,
+        bootstrap: document.getElementById('bootstrap-enabled')?.checked ? {} : undefined,
+        startDate: document.getElementById('start-date')?.value || undefined,
+        endDate: document.getElementById('end-date')?.value || undefined,
     };
 }
 
@@ -62,26 +175,66 @@ function setStatus(msg, pct = null) {
     if (pct === null && barEl) barEl.classList.add('hidden');
 }
 
+let currentJobId = null;
+
 function setRunning(isRunning) {
     const btn = document.getElementById('btn-run');
     const sweepBtn = document.getElementById('btn-sweep');
+    const wfBtn = document.getElementById('btn-walk-forward');
     if (btn) btn.disabled = isRunning;
     if (sweepBtn) sweepBtn.disabled = isRunning;
+    if (wfBtn) wfBtn.disabled = isRunning;
+    if (!isRunning) currentJobId = null;
+    document.getElementById('btn-cancel')?.classList.toggle('hidden', !isRunning || !currentJobId);
+}
+
+const PHASE_LABELS = { load: '데이터 조회', simulate: '시뮬레이션', sweep: '조합 평가' };
+
+/**
+ * 비동기 작업 제출 → SSE 진행률 표시 → 완료 결과 조회
+ * @param phaseRange 단계별 진행 막대 구간 [시작%, 끝%]
+ */
+async function runJob(path, config, label, phaseRange) {
+    const job = await submitJob(path, config);
+    currentJobId = job.id;
+    setRunning(true);
+
+    const finished = await watchJob(job.id, (j) => {
+        const p = j.progress;
+        if (!p || !phaseRange[p.phase]) return;
+        const [from, to] = phaseRange[p.phase];
+        const pct = from + (to - from) * (p.total > 0 ? p.completed / p.total : 0);
+        const symbol = p.symbol ? ` · ${p.symbol}` : '';
+        setStatus(`⏳ ${label} ${PHASE_LABELS[p.phase]} ${p.completed}/${p.total}${symbol}`, Math.round(pct));
+    });
+
+    if (finished.status === 'cancelled') throw new Error('작업이 취소되었습니다');
+    if (finished.status === 'failed') throw new Error(finished.error?.message || `${label} 실패`);
+
+    const result = await getResult(finished.resultId);
+    if (!result) throw new Error('결과를 불러오지 못했습니다');
+    return result;
 }
 
+document.getElementById('btn-cancel')?.addEventListener('click', async () => {
+    if (!currentJobId) return;
+    await cancelJob(currentJobId).catch(() => { });
+});
+
 // ── 백테스트 실행 ────────────────────────────────────────────────────
 document.getElementById('btn-run')?.addEventListener('click', async () => {
     const config = getConfig();
-    if (config.universe.length === 0) {
+    if (!config) return;
+    if (!config.universeName && config.universe.length === 0) {
         setStatus('종목코드를 입력해주세요.');
         return;
     }
 
     setRunning(true);
-    setStatus(`⏳ 백테스트 실행 중... (${config.universe.length}종목)`, 10);
+    setStatus(`⏳ 백테스트 실행 중... (${describeUniverse(config)})`, 5);
 
     try {
-        const result = await runBacktest(config);
+        const result = await runJob('run', config, '백테스트', { load: [5, 40], simulate: [40, 100] });
         setStatus(`✅ 완료! ${result.summary.totalTrades}건 | 승률 ${result.summary.winRate.toFixed(1)}% | 평균 ${result.summary.avgReturn >= 0 ? '+' : ''}${result.summary.avgReturn.toFixed(2)}%`, 100);
 
         // 결과 페이지로 이동 (결과 ID 전달)
@@ -94,22 +247,65 @@ document.getElementById('btn-run')?.addEventListener('click', async () => {
     }
 });
 
+// Sweep / Walk-Forward 공용 탐색 설정 (탐색 방식 + 표본 수)
+function getSweepSearch() {
+    const strategy = document.getElementById('sweep-strategy')?.value || 'grid';
+    const samples = parseInt(document.getElementById('sweep-samples')?.value) || undefined;
+    return {
+        search: strategy === 'grid' ? { strategy } : { strategy, samples },
+        label: strategy === 'grid' ? '324' : samples,
+    };
+}
+
 // ── Parameter Sweep 실행 ─────────────────────────────────────────────
 document.getElementById('btn-sweep')?.addEventListener('click', async () => {
     const config = getConfig();
-    if (config.universe.length === 0) {
+    if (!config) return;
+    if (!config.universeName && config.universe.length === 0) {
         setStatus('종목코드를 입력해주세요.');
         return;
     }
 
+    const { search, label } = getSweepSearch();
+
     setRunning(true);
-    setStatus(`⏳ Parameter Sweep 실행 중... (최대 324 조합 × ${config.universe.length}종목)`, 5);
+    setStatus(`⏳ Parameter Sweep 실행 중... (${label} 조합 × ${describeUniverse(config)})`, 5);
 
     try {
-        const result = await runParameterSweep(config);
+        const result = await runJob('parameter-sweep', { ...config, ...search }, 'Sweep', { load: [5, 15], sweep: [15, 100] });
         const best = result.bestByWinRate;
+        const top = result.combinations[0];
+        setStatus(
+            `✅ Sweep 완료! ${result.search.evaluatedCombinations}/${result.search.searchSpaceSize}조합 | 최고 승률: ${best.winRate.toFixed(1)}% (threshold=${best.gradeThreshold}) | 1위 Sharpe ${top ? top.sharpeRatio.toFixed(2) : '-'}`,
+            100
+        );
+        setRunning(false);
+    } catch (err) {
+        setStatus(`❌ 오류: ${err.message}`);
+        setRunning(false);
+    }
+});
+
+// ── Walk-Forward 실행 ────────────────────────────────────────────────
+document.getElementById('btn-walk-forward')?.addEventListener('click', async () => {
+    const config = getConfig();
+    if (!config) return;
+    if (!config.universeName && config.universe.length === 0) {
+        setStatus('종목코드를 입력해주세요.');
+        return;
+    }
+
+    const { search, label } = getSweepSearch();
+
+    setRunning(true);
+    setStatus(`⏳ Walk-Forward 실행 중... (${label} 조합 × ${describeUniverse(config)})`, 5);
+
+    try {
+        const result = await runWalkForward({ ...config, ...search });
+        const oos = result.outOfSample;
+        const stable = result.parameterStability;
         setStatus(
-            `✅ Sweep 완료! ${result.combinations.length}조합 | 최고 승률: ${best.winRate.toFixed(1)}% (threshold=${best.gradeThreshold})`,
+            `✅ Walk-Forward 완료! ${result.windows.length}개 창 | OOS ${oos.totalTrades}건 · 승률 ${oos.winRate.toFixed(1)}% · 평균 ${oos.avgReturn >= 0 ? '+' : ''}${oos.avgReturn.toFixed(2)}% | 효율 ${result.walkForwardEfficiency.toFixed(2)} | 파라미터 일관성 ${(stable.consistency * 100).toFixed(0)}%`,
             100
         );
         setRunning(false);
@@ -1,7 +1,7 @@
 /**
  * backtest-results.js — 결과 렌더링
  */
-import { getResult } from './api.js';
+import { getResult, updateResultMeta, deleteResult, exportResultUrl } from './api.js';
 import { pct, num, formatDate, gradeColor } from './utils.js';
 
 const params = new URLSearchParams(location.search);
@@ -29,9 +29,15 @@ function renderAll(r) {
     document.getElementById('loading').classList.add('hidden');
     document.getElementById('content').classList.remove('hidden');
 
+    renderResultMeta(r);
     renderSummaryCards(r.summary);
-    renderEquityCurve(r.equityCurve);
+    if (r.summary.risk) renderRisk(r.summary.risk);
+    if (r.portfolio) renderPortfolio(r.portfolio, r.config.market);
+    if (r.summary.benchmark) renderBenchmark(r.summary.benchmark);
+    if (r.summary.bootstrap) renderBootstrap(r.summary.bootstrap);
+    renderEquityCurve(r.equityCurve, r.benchmarkEquityCurve, r.summary.benchmark?.symbol);
     renderGradeBreakdown(r.gradeBreakdown);
+    if (r.periodBreakdown) renderPeriodBreakdown(r.periodBreakdown);
     renderFactorCorrelation(r.factorCorrelation);
     renderTradesTable(r.trades);
 
@@ -42,12 +48,59 @@ function renderAll(r) {
             getResult(sweepId).then(sweepResult => {
                 if (sweepResult && sweepResult.combinations) {
                     renderHeatmap(sweepResult);
+                    renderSweepRanking(sweepResult);
                 }
             }).catch(() => { });
         });
     }
 }
 
+// ── Result Meta ────────────────────────────────────────────────────────
+function renderResultMeta(r) {
+    const render = () => {
+        document.getElementById('result-name').textContent = r.name || '이름 없는 결과';
+        const tags = (r.tags ?? []).map(t => `#${t}`).join(' ');
+        const universe = r.config.universeName
+            ? `${r.config.universeName} (이력 ${r.config.universe.length}종목)`
+            : `${r.config.universe.length}종목`;
+        const skipped = r.skippedSymbols?.length
+            ? ` · 데이터 부족 제외 ${r.skippedSymbols.map(s => s.symbol).join(', ')}`
+            : '';
+        document.getElementById('result-meta').textContent =
+            `${new Date(r.executedAt).toLocaleString()} · ${universe} · ${r.config.gradeFilter.join('/')} grade${tags ? ` · ${tags}` : ''}${skipped}`;
+    };
+    render();
+
+    document.getElementById('btn-export-xlsx').href = exportResultUrl(r.id, 'xlsx');
+    document.getElementById('btn-export-csv').href = exportResultUrl(r.id, 'csv', 'trades');
+
+    document.getElementById('btn-edit-meta')?.addEventListener('click', async () => {
+        const name = prompt('결과 이름', r.name ?? '');
+        if (name === null) return;
+        const tagsRaw = prompt('태그 (쉼표 구분)', (r.tags ?? []).join(', '));
+        if (tagsRaw === null) return;
+        const tags = tagsRaw.split(',').map(t => t.trim()).filter(Boolean);
+        try {
+            const updated = await updateResultMeta(r.id, { name, tags });
+            r.name = updated.name;
+            r.tags = updated.tags;
+            render();
+        } catch (err) {
+            alert(`수정 실패: ${err.message}`);
+        }
+    });
+
+    document.getElementById('btn-delete-result')?.addEventListener('click', async () => {
+        if (!confirm('이 백테스트 결과를 삭제할까요?')) return;
+        try {
+            await deleteResult(r.id);
+            window.location.href = 'index.html';
+        } catch (err) {
+            alert(`삭제 실패: ${err.message}`);
+        }
+    });
+}
+
 // ── Summary Cards ──────────────────────────────────────────────────────
 function renderSummaryCards(s) {
     const set = (id, val) => {
@@ -63,6 +116,15 @@ function renderSummaryCards(s) {
     set('s-stoploss', `${num(s.stopLossHitRate, 1)}%`);
     set('s-pf', num(s.profitFactor, 2));
 
+    // 비용 차감 후 (net)
+    if (s.net) {
+        set('s-winrate-net', `비용 차감 후 ${num(s.net.winRate, 1)}%`);
+        set('s-avgret-net', `비용 차감 후 ${pct(s.net.avgReturn, 2)} (비용 ${num(s.avgCostPct, 2)}%)`);
+        set('s-mdd-net', `비용 차감 후 ${pct(s.net.maxDrawdown, 1)}`);
+        set('s-sharpe-net', `비용 차감 후 ${num(s.net.sharpeRatio, 2)}`);
+        set('s-pf-net', `비용 차감 후 ${num(s.net.profitFactor, 2)}`);
+    }
+
     // 색상 적용
     const retEl = document.getElementById('s-avgret');
     if (retEl) retEl.className = `card-value ${s.avgReturn >= 0 ? 'text-green' : 'text-red'}`;
@@ -70,33 +132,133 @@ function renderSummaryCards(s) {
     if (mddEl) mddEl.className = 'card-value text-red';
 }
 
+// ── Risk ───────────────────────────────────────────────────────────────
+function renderRisk(k) {
+    const set = (id, val) => {
+        const el = document.getElementById(id);
+        if (el) el.textContent = val;
+    };
+
+    set('rk-cagr', pct(k.cagr, 2));
+    set('rk-years', `${num(k.years, 2)}년 기준`);
+    set('rk-sharpe', num(k.annualizedSharpe, 2));
+    set('rk-sortino', `Sortino ${num(k.annualizedSortino, 2)} (거래당 ${num(k.sortinoRatio, 2)})`);
+    set('rk-calmar', num(k.calmarRatio, 2));
+    set('rk-ulcer', `Ulcer ${num(k.ulcerIndex, 2)}`);
+    set('rk-expectancy', `${num(k.expectancyR, 2)}R`);
+    set('rk-expected-rr', `진입 시 예상 R/R 평균 ${num(k.avgExpectedRR, 2)}`);
+    set('rk-exposure', `${num(k.exposurePct, 1)}%`);
+    set('rk-holding', `평균 보유 ${num(k.avgHoldingDays, 1)}일`);
+    set('rk-streak', `${k.longestLosingStreak}연패`);
+
+    const cagrEl = document.getElementById('rk-cagr');
+    if (cagrEl) cagrEl.className = `card-value ${k.cagr >= 0 ? 'text-green' : 'text-red'}`;
+    document.getElementById('risk-section')?.classList.remove('hidden');
+}
+
+// ── Portfolio ──────────────────────────────────────────────────────────
+function renderPortfolio(p, market = 'KR') {
+    const set = (id, val) => {
+        const el = document.getElementById(id);
+        if (el) el.textContent = val;
+    };
+    const won = market === 'US'
+        ? v => `$${v.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+        : v => `${Math.round(v).toLocaleString()}원`;
+    const skipped = p.skippedSignals;
+
+    set('pf-final', won(p.finalEquity));
+    set('pf-initial', `초기 ${won(p.initialCapital)} | MDD ${pct(p.maxDrawdown, 1)} | 비용 ${won(p.totalCosts ?? 0)}`);
+    set('pf-return', pct(p.totalReturnPct, 2));
+    set('pf-invested', `${num(p.avgInvestedPercent, 1)}%`);
+    set('pf-executed', `${p.executedTrades} / ${skipped.maxPositions + skipped.alreadyHolding + skipped.insufficientCash}`);
+    set('pf-skipped', `한도 ${skipped.maxPositions} · 보유중 ${skipped.alreadyHolding} · 현금부족 ${skipped.insufficientCash}`);
+
+    const retEl = document.getElementById('pf-return');
+    if (retEl) retEl.className = `card-value ${p.totalReturnPct >= 0 ? 'text-green' : 'text-red'}`;
+    document.getElementById('portfolio-section')?.classList.remove('hidden');
+}
+
+// ── Benchmark ──────────────────────────────────────────────────────────
+function renderBenchmark(b) {
+    const set = (id, val) => {
+        const el = document.getElementById(id);
+        if (el) el.textContent = val;
+    };
+
+    set('bm-return', pct(b.benchmarkReturn, 2));
+    set('bm-period', `${b.symbol} | ${formatDate(b.startDate)} ~ ${formatDate(b.endDate)}`);
+    set('bm-excess', pct(b.excessReturn, 2));
+    set('bm-strategy', b.strategyReturn !== undefined ? `전략 ${pct(b.strategyReturn, 2)} (net 복리)` : '-');
+    set('bm-beta', num(b.beta, 2));
+    set('bm-alpha', `알파 ${pct(b.alpha, 2)} (관측 ${b.observations})`);
+    set('bm-ir', num(b.informationRatio, 2));
+    set('bm-te', `추적오차 ${num(b.trackingError, 2)}%`);
+
+    const excessEl = document.getElementById('bm-excess');
+    if (excessEl) excessEl.className = `card-value ${b.excessReturn >= 0 ? 'text-green' : 'text-red'}`;
+    document.getElementById('benchmark-section')?.classList.remove('hidden');
+}
+
+// ── Bootstrap ──────────────────────────────────────────────────────────
+function renderBootstrap(b) {
+    const rows = [
+        ['승률', b.winRate, v => `${num(v, 1)}%`],
+        ['평균 수익률', b.avgReturn, v => pct(v, 2)],
+        ['Sharpe', b.sharpeRatio, v => num(v, 2)],
+        ['Profit Factor', b.profitFactor, v => num(v, 2)],
+        ['MDD (거래 순서)', b.maxDrawdown, v => pct(v, 1)],
+    ];
+    document.getElementById('bootstrap-tbody').innerHTML = rows.map(([label, ci, fmt]) => `
+        <tr>
+            <td>${label}</td>
+            <td>${fmt(ci.estimate)}</td>
+            <td>${fmt(ci.lower)}</td>
+            <td>${fmt(ci.upper)}</td>
+        </tr>
+    `).join('');
+    document.getElementById('bootstrap-meta').textContent =
+        `${Math.round(b.confidence * 100)}% 구간 · ${b.iterations.toLocaleString()}회 재표본 · 기대수익 > 0 확률 ${num(b.probPositiveExpectancy * 100, 1)}%`;
+    document.getElementById('bootstrap-section')?.classList.remove('hidden');
+}
+
 // ── Equity Curve ───────────────────────────────────────────────────────
-function renderEquityCurve(equityCurve) {
+function renderEquityCurve(equityCurve, benchmarkCurve, benchmarkSymbol) {
     const ctx = document.getElementById('chart-equity')?.getContext('2d');
     if (!ctx || !window.Chart) return;
 
     const labels = equityCurve.map(p => formatDate(p.date));
     const data = equityCurve.map(p => p.cumulativeReturn);
+    const datasets = [{
+        label: '누적 수익률 (%)',
+        data,
+        borderColor: '#111827',
+        backgroundColor: 'rgba(17,24,39,.05)',
+        fill: true,
+        tension: 0.3,
+        pointRadius: 0,
+        borderWidth: 2,
+    }];
+    if (benchmarkCurve?.length) {
+        datasets.push({
+            label: `${benchmarkSymbol ?? '벤치마크'} (%)`,
+            data: benchmarkCurve.map(p => p.cumulativeReturn),
+            borderColor: '#9ca3af',
+            borderDash: [4, 4],
+            fill: false,
+            tension: 0.3,
+            pointRadius: 0,
+            borderWidth: 1.5,
+        });
+    }
 
     new Chart(ctx, {
         type: 'line',
-        data: {
-            labels,
-            datasets: [{
-                label: '누적 수익률 (%)',
-                data,
-                borderColor: '#111827',
-                backgroundColor: 'rgba(17,24,39,.05)',
-                fill: true,
-                tension: 0.3,
-                pointRadius: 0,
-                borderWidth: 2,
-            }],
-        },
+        data: { labels, datasets },
         options: {
             responsive: true,
             maintainAspectRatio: false,
-            plugins: { legend: { display: false } },
+            plugins: { legend: { display: datasets.length > 1 } },
             scales: {
                 x: { ticks: { maxTicksLimit: 8, color: '#6b7280' }, grid: { color: '#f3f4f6' } },
                 y: { ticks: { color: '#6b7280', callback: v => `${v.toFixed(1)}%` }, grid: { color: '#f3f4f6' } },
@@ -149,6 +311,27 @@ function renderGradeBreakdown(breakdown) {
     });
 }
 
+// ── Period Breakdown ───────────────────────────────────────────────────
+function renderPeriodBreakdown(breakdown) {
+    const select = document.getElementById('period-granularity');
+    const render = () => {
+        document.getElementById('period-tbody').innerHTML = breakdown[select.value].map(p => `
+            <tr>
+                <td>${p.period}</td>
+                <td>${p.tradeCount}</td>
+                <td class="text-muted">${['A', 'B', 'C', 'D'].map(g => p.gradeCounts[g]).join(' / ')}</td>
+                <td>${num(p.winRate, 1)}%</td>
+                <td class="${p.avgReturn >= 0 ? 'text-green' : 'text-red'}">${pct(p.avgReturn, 2)}</td>
+                <td>${num(p.netWinRate, 1)}%</td>
+                <td class="${p.netAvgReturn >= 0 ? 'text-green' : 'text-red'}">${pct(p.netAvgReturn, 2)}</td>
+            </tr>
+        `).join('');
+    };
+    select.addEventListener('change', render);
+    render();
+    document.getElementById('period-section').classList.toggle('hidden', breakdown.yearly.length === 0);
+}
+
 // ── Factor Correlation ─────────────────────────────────────────────────
 function renderFactorCorrelation(factors) {
     const container = document.getElementById('factor-bars');
@@ -182,6 +365,21 @@ function renderFactorCorrelation(factors) {
 }
 
 // ── Trades Table ───────────────────────────────────────────────────────
+const EXIT_REASON_LABELS = {
+    holding_period: '보유만료',
+    stop_loss: '손절',
+    target: '목표가',
+    trailing_stop: '추적손절',
+    target2: '2차목표',
+    breakeven_stop: '본전청산',
+    rule: '규칙청산',
+};
+
+const DIRECTION_LABELS = {
+    long: '매수',
+    short: '매도',
+};
+
 function renderTradesTable(trades) {
     const tbody = document.getElementById('trades-tbody');
     if (!tbody) return;
@@ -192,9 +390,12 @@ function renderTradesTable(trades) {
     tbody.innerHTML = sorted.slice(0, 100).map(t => `
         <tr>
             <td>${t.symbol}</td>
+            <td>${DIRECTION_LABELS[t.direction ?? 'long']}</td>
             <td>${formatDate(t.entryDate)}</td>
             <td>${t.entryPrice.toLocaleString()}</td>
+            <td>${formatDate(t.exitDate)}</td>
             <td>${t.exitPrice.toLocaleString()}</td>
+            <td>${EXIT_REASON_LABELS[t.exitReason] || '-'}</td>
             <td class="${t.returnPct >= 0 ? 'text-green' : 'text-red'}">${pct(t.returnPct, 2)}</td>
             <td><span class="badge badge-${t.swingGrade}">${t.swingGrade}</span></td>
             <td>${t.gradeScore}</td>
@@ -227,8 +428,9 @@ function renderHeatmap(sweepResult) {
     const container = document.getElementById('heatmap-container');
     if (!section || !container) return;
 
-    const combinations = sweepResult.combinations;
-    if (!combinations || combinations.length === 0) return;
+    // 전체 데이터로 평가한 조합만 (successive_halving 초기 탈락 조합 제외)
+    const combinations = (sweepResult.combinations || []).filter(c => (c.dateStride ?? 1) === 1);
+    if (combinations.length === 0) return;
 
     // gradeThreshold 및 technicalScoreMax 고유 값 추출 (오름차순)
     const thresholds = [...new Set(combinations.map(c => c.gradeThreshold))].sort((a, b) => a - b);
@@ -242,9 +444,11 @@ function renderHeatmap(sweepResult) {
 
     // 조합 맵 구성: key = `${threshold}-${techScore}`
     const comboMap = new Map();
+    // 같은 셀에 여러 조합(rr/vp/ma60/보유기간)이 있으면 최고 승률 표시
     for (const c of combinations) {
         const techKey = c.weights?.tech !== undefined ? c.weights.tech : c.weights?.technicalScoreMax;
-        comboMap.set(`${c.gradeThreshold}-${techKey}`, c.winRate);
+        const key = `${c.gradeThreshold}-${techKey}`;
+        comboMap.set(key, Math.max(comboMap.get(key) ?? -Infinity, c.winRate));
     }
 
     // 색상 계산 (낮음: 밝은 회색, 높음: 어두운 회색)
@@ -293,7 +497,7 @@ function renderHeatmap(sweepResult) {
  */
 function downloadCSV(trades) {
     const headers = [
-        '종목코드', '진입일', '진입가', '청산일', '청산가', '수익률(%)',
+        '종목코드', '방향', '진입일', '진입가', '청산일', '청산가', '청산사유', '보유일', '수익률(%)', '순수익률(%)',
         'Grade', '점수', '기술점수', 'RR점수', 'VP점수', 'MA60점수',
         '목표가', '손절가', '기대RR', '목표도달', '손절도달',
         'MFE(%)', 'MAE(%)',
@@ -301,11 +505,15 @@ function downloadCSV(trades) {
 
     const rows = trades.map(t => [
         t.symbol,
+        t.direction ?? 'long',
         t.entryDate,
         t.entryPrice,
         t.exitDate,
         t.exitPrice,
+        t.exitReason ?? '',
+        t.holdingDays ?? '',
         t.returnPct,
+        t.netReturnPct ?? '',
         t.swingGrade,
         t.gradeScore,
         t.technicalScore,
@@ -340,3 +548,38 @@ function downloadCSV(trades) {
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
 }
+
+// ── Parameter Sweep 순위표 ─────────────────────────────────────────────
+const SWEEP_RANKING_LIMIT = 30;
+
+function renderSweepRanking(sweepResult) {
+    const section = document.getElementById('sweep-ranking-section');
+    const tbody = document.getElementById('sweep-ranking-tbody');
+    const meta = document.getElementById('sweep-ranking-meta');
+    if (!section || !tbody) return;
+
+    const rows = sweepResult.combinations.slice(0, SWEEP_RANKING_LIMIT);
+    const search = sweepResult.search;
+    if (meta && search) {
+        meta.textContent = `${search.strategy} · 순위 기준 ${search.rankBy} · 평가 ${search.evaluatedCombinations}/${search.searchSpaceSize} 조합 (전체 데이터 ${search.fullEvaluations})`;
+    }
+
+    tbody.innerHTML = rows.map(c => {
+        const t = c.thresholds ?? { A: c.gradeThreshold, B: c.gradeThreshold - 2, C: c.gradeThreshold - 4 };
+        return `
+        <tr>
+            <td>${c.rank ?? '-'}</td>
+            <td>${t.A} / ${t.B} / ${t.C}</td>
+            <td>${c.weights.tech} / ${c.weights.rr} / ${c.weights.vp} / ${c.weights.ma60}</td>
+            <td>${c.holdingPeriod ?? '-'}</td>
+            <td>${c.totalTrades}</td>
+            <td>${num(c.winRate, 1)}%</td>
+            <td class="${c.avgReturn >= 0 ? 'text-green' : 'text-red'}">${pct(c.avgReturn, 2)}</td>
+            <td>${num(c.sharpeRatio, 2)}</td>
+            <td>${pct(c.maxDrawdown, 1)}</td>
+            <td>${(c.dateStride ?? 1) === 1 ? '전체' : `1/${c.dateStride}`}</td>
+        </tr>`;
+    }).join('');
+
+    section.classList.remove('hidden');
+}
@@ -0,0 +1,79 @@
+/**
+ * 백테스트 엔진 골든 파일 회귀 검증 (오프라인, 픽스처 OHLCV)
+ *
+ * 사용법:
+ *   bun run scripts/backtest-golden.ts [--tolerance <abs>] [--relative <ratio>] [--case <name>]... [--update]
+ *
+ * 픽스처: test/fixtures/backtest-golden (cases.json, ohlcv/*.csv, expected/*.json)
+ * 허용오차를 넘는 지표 차이가 있거나 기대 결과가 없으면 exit code 1
+ * 분석 로직을 의도적으로 바꾼 경우 --update로 기대 결과를 갱신하고 diff를 함께 커밋
+ */
+import { DEFAULT_GOLDEN_TOLERANCE, runGoldenSuite, type GoldenTolerance } from '../src/backtest/golden.js';
+
+/** 케이스당 출력할 최대 차이 수 */
+const MAX_PRINTED_DRIFTS = 20;
+
+function parseArgs(argv: string[]) {
+    const tolerance: GoldenTolerance = { ...DEFAULT_GOLDEN_TOLERANCE };
+    const cases: string[] = [];
+    let update = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--update') update = true;
+        else if (arg === '--case') cases.push(argv[++i]);
+        else if (arg === '--tolerance' || arg === '--relative') {
+            const value = Number(argv[++i]);
+            if (!Number.isFinite(value) || value < 0) throw new Error(`${arg} must be a non-negative number`);
+            tolerance[arg === '--tolerance' ? 'absolute' : 'relative'] = value;
+        } else {
+            throw new Error(`Unknown argument: ${arg}`);
+        }
+    }
+    return { tolerance, cases: cases.length > 0 ? cases : undefined, update };
+}
+
+function format(value: unknown): string {
+    if (value === undefined) return '-';
+    const text = JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+async function main() {
+    const { tolerance, cases, update } = parseArgs(process.argv.slice(2));
+    const reports = await runGoldenSuite({ tolerance, cases, update });
+
+    let failed = 0;
+    for (const report of reports) {
+        if (report.status === 'pass' || report.status === 'updated') {
+            console.log(`${report.status === 'pass' ? '✅' : '📝'} ${report.name}: ${report.status}`);
+            continue;
+        }
+
+        failed++;
+        if (report.status === 'missing') {
+            console.log(`❌ ${report.name}: expected snapshot missing (run with --update)`);
+            continue;
+        }
+        console.log(`❌ ${report.name}: ${report.drifts.length} drift(s)`);
+        console.table(report.drifts.slice(0, MAX_PRINTED_DRIFTS).map(d => ({
+            path: d.path,
+            kind: d.kind,
+            expected: format(d.expected),
+            actual: format(d.actual),
+            delta: d.delta ?? '',
+        })));
+        if (report.drifts.length > MAX_PRINTED_DRIFTS) {
+            console.log(`   ... ${report.drifts.length - MAX_PRINTED_DRIFTS} more`);
+        }
+    }
+
+    console.log(`\n${reports.length - failed}/${reports.length} golden cases passed `
+        + `(tolerance: abs ${tolerance.absolute}, rel ${tolerance.relative})`);
+    if (failed > 0) process.exit(1);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
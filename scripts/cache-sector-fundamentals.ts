@@ -0,0 +1,71 @@
+/**
+ * 섹터 피어 재무지표 캐시 채우기 (네이버 금융 기업실적분석)
+ *
+ * 사용법:
+ *   bun run scripts/cache-sector-fundamentals.ts <sector> [--limit N] [--delay ms]
+ *
+ * 예시:
+ *   bun run scripts/cache-sector-fundamentals.ts 은행
+ *   bun run scripts/cache-sector-fundamentals.ts 의약품 --limit 50
+ *
+ * 종목 목록은 종목 마스터(.dexter/master)의 섹터명 기준 (KOSPI/KOSDAQ)
+ * analyzeKrStock도 조회한 종목을 캐시하므로 이 스크립트는 피어가 부족한 섹터를 미리 채울 때 사용
+ */
+import { loadStockMaster } from '../src/analysis/stock-master.js';
+import { fetchNaverFinancials } from '../src/tools/korea/kr-daily-financials.js';
+import { getSectorPeerFundamentals, upsertFundamentals } from '../src/tools/korea/fundamentals-cache.js';
+
+function parseArgs(argv: string[]) {
+    const positional: string[] = [];
+    let limit = Infinity;
+    let delayMs = 300;
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === '--limit') limit = parseInt(argv[++i], 10);
+        else if (argv[i] === '--delay') delayMs = parseInt(argv[++i], 10);
+        else positional.push(argv[i]);
+    }
+    return { sector: positional[0], limit, delayMs };
+}
+
+async function main() {
+    const { sector, limit, delayMs } = parseArgs(process.argv.slice(2));
+    if (!sector) {
+        console.error('Usage: bun run scripts/cache-sector-fundamentals.ts <sector> [--limit N] [--delay ms]');
+        process.exit(1);
+    }
+
+    const symbols = [...loadStockMaster().values()]
+        .filter(e => e.sector === sector && (e.market === 'KOSPI' || e.market === 'KOSDAQ'))
+        .map(e => e.symbol)
+        .slice(0, limit);
+    if (symbols.length === 0) {
+        console.error(`No KR symbols found for sector "${sector}" (run scripts/refresh-stock-master.ts first)`);
+        process.exit(1);
+    }
+
+    const failed: { symbol: string; error: string }[] = [];
+    for (const [i, symbol] of symbols.entries()) {
+        const data: any = await fetchNaverFinancials(symbol);
+        if (data.error) {
+            failed.push({ symbol, error: data.error });
+        } else {
+            upsertFundamentals(symbol, sector, {
+                per: data.per ?? undefined,
+                pbr: data.pbr ?? undefined,
+                roe: data.roe ?? undefined,
+                debt_ratio: data.debtRatio ?? undefined,
+                op_margin: data.operatingProfitMargin ?? undefined,
+            });
+        }
+        console.log(`[${i + 1}/${symbols.length}] ${symbol}${data.error ? ' (failed)' : ''}`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    console.log(`\n--- ${sector}: ${getSectorPeerFundamentals(sector).length} cached peers ---`);
+    if (failed.length > 0) console.table(failed);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
@@ -0,0 +1,25 @@
+/**
+ * 기존 JSON 백테스트 결과 파일을 SQLite 결과 저장소로 1회 이관
+ *
+ * 사용법:
+ *   bun run scripts/import-backtest-results.ts [dir]
+ *
+ * dir 기본값: ./data/backtest-results
+ * 이미 저장된 결과는 건너뛰고, 원본 파일은 그대로 둠 (Sweep/Walk-forward 파일은 대상 아님)
+ */
+import { importBacktestResultFiles, listBacktestResults, RESULTS_DIR } from '../src/backtest/result-store.js';
+
+async function main() {
+    const [dir = RESULTS_DIR] = process.argv.slice(2);
+
+    const { imported, skipped, failed } = await importBacktestResultFiles(dir);
+    console.log(`Imported ${imported}, skipped ${skipped} (already stored), failed ${failed.length}`);
+    if (failed.length > 0) console.table(failed);
+
+    console.log(`\nStored results: ${listBacktestResults({ limit: 1 }).total}`);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
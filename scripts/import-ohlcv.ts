@@ -0,0 +1,32 @@
+/**
+ * 로컬 OHLCV 저장소에 CSV 일괄 임포트
+ *
+ * 사용법:
+ *   bun run scripts/import-ohlcv.ts <file.csv> [symbol]
+ *
+ * CSV 헤더: [symbol,]date,open,high,low,close,volume
+ * symbol 컬럼이 없는 파일은 두 번째 인자로 종목코드를 지정
+ */
+import { readFile } from 'fs/promises';
+import { importOhlcvCsv, listStoredSymbols } from '../src/backtest/ohlcv-store.js';
+
+async function main() {
+    const [file, symbol] = process.argv.slice(2);
+    if (!file) {
+        console.error('Usage: bun run scripts/import-ohlcv.ts <file.csv> [symbol]');
+        process.exit(1);
+    }
+
+    const csv = await readFile(file, 'utf-8');
+    const imported = importOhlcvCsv(csv, symbol);
+    console.table(imported);
+
+    const stored = listStoredSymbols().filter(s => imported.some(i => i.symbol === s.symbol));
+    console.log('\n--- Stored Coverage ---');
+    console.table(stored);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * 종목 마스터 파일 갱신 (KIS 국내/해외 종목정보 파일)
+ *
+ * 사용법:
+ *   bun run scripts/refresh-stock-master.ts [dir]
+ *
+ * dir 기본값: ./.dexter/master
+ * 갱신 주기와 관계없이 항상 내려받음 → 주기 갱신은 이 스크립트를 cron 등에 등록
+ * (STOCK_MASTER_AUTO_REFRESH=true면 서버가 STOCK_MASTER_MAX_AGE_DAYS가 지난 경우만 자동 갱신)
+ * KRX 업종분류 CSV(krx*.csv)와 overrides.json은 직접 넣어두면 그대로 유지됨
+ */
+import { isDefensiveSector, loadStockMaster, refreshStockMaster, STOCK_MASTER_DIR } from '../src/analysis/stock-master.js';
+
+async function main() {
+    const [dir = STOCK_MASTER_DIR] = process.argv.slice(2);
+
+    const { updated, failed } = await refreshStockMaster(dir);
+    console.log(`Updated: ${updated.join(', ') || '-'}`);
+    if (failed.length > 0) console.table(failed);
+
+    const entries = [...loadStockMaster(dir).values()];
+    const byMarket = new Map<string, { symbols: number; withSector: number; defensive: number }>();
+    for (const e of entries) {
+        const key = e.market ?? '-';
+        const row = byMarket.get(key) ?? { symbols: 0, withSector: 0, defensive: 0 };
+        row.symbols++;
+        if (e.sector) row.withSector++;
+        if (e.isDefensive ?? isDefensiveSector(e.sector)) row.defensive++;
+        byMarket.set(key, row);
+    }
+    console.log('\n--- Stock Master ---');
+    console.table(Object.fromEntries(byMarket));
+
+    if (failed.length > 0) process.exit(1);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
@@ -1,11 +1,23 @@
+import {
+    isDefensiveSector,
+    isStockMasterStale,
+    loadStockMaster,
+    refreshStockMaster,
+    STOCK_MASTER_DIR,
+    type StockMarket,
+    type StockMasterEntry,
+} from './stock-master.js';
 
-interface SymbolMetadata {
-    sector: string;
+export interface SymbolMetadata {
+    name?: string;
+    market?: StockMarket;
+    sector?: string;
+    industryCode?: string;
     isDefensive: boolean;
 }
 
-// Simple in-memory metadata for demonstration.
-// In a real app, this might come from a DB or external API.
+// Built-in defaults for a few US tickers (the KIS overseas master has no sector names).
+// Stock master files / overrides.json in .dexter/master take precedence (see stock-master.ts).
 export const SYMBOL_METADATA: Record<string, SymbolMetadata> = {
     'TSEM': { sector: 'Semiconductors', isDefensive: false },
     'AAPL': { sector: 'Consumer Electronics', isDefensive: false },
@@ -17,6 +29,41 @@ export const SYMBOL_METADATA: Record<string, SymbolMetadata> = {
     'TSLA': { sector: 'Auto Manufacturers', isDefensive: false },
 };
 
+// Loaded lazily on first lookup; reloadMetadata() after refreshing the master files.
+let stockMaster: Map<string, StockMasterEntry> | null = null;
+
+export function reloadMetadata(dir?: string) {
+    stockMaster = loadStockMaster(dir);
+}
+
+/**
+ * Re-downloads the KIS master files once they are older than STOCK_MASTER_MAX_AGE_DAYS, then reloads.
+ * @returns null when the local files are still fresh
+ */
+export async function refreshMetadataIfStale(dir = STOCK_MASTER_DIR) {
+    if (!isStockMasterStale(dir)) return null;
+    const result = await refreshStockMaster(dir);
+    if (result.updated.length > 0) reloadMetadata(dir);
+    return result;
+}
+
+/**
+ * Symbol metadata for KR (6-digit code) and US (ticker) symbols.
+ * isDefensive: explicit override > sector name from the master > built-in default.
+ */
 export function getMetadata(symbol: string): SymbolMetadata | undefined {
-    return SYMBOL_METADATA[symbol];
+    stockMaster ??= loadStockMaster();
+    const key = symbol.trim().toUpperCase();
+    const builtin = SYMBOL_METADATA[key];
+    const entry = stockMaster.get(key);
+    if (!entry) return builtin;
+
+    const sector = entry.sector ?? builtin?.sector;
+    return {
+        name: entry.name,
+        market: entry.market,
+        sector,
+        industryCode: entry.industryCode,
+        isDefensive: entry.isDefensive ?? (entry.sector ? isDefensiveSector(entry.sector) : builtin?.isDefensive ?? false),
+    };
 }
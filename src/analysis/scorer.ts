@@ -1,6 +1,16 @@
 
-import { type AnalysisRequest, type AnalysisResponse, ConfidenceLevel, type AnalysisRequestSchema } from './types.js';
+import {
+    type AnalysisRequest,
+    type AnalysisResponse,
+    ConfidenceLevel,
+    type AnalysisRequestSchema,
+    type FundamentalDetail,
+    type FundamentalMetricDetail,
+    type FundamentalMetricKey,
+    type Fundamentals,
+} from './types.js';
 import { getMetadata } from './metadata.js';
+import { DEFAULT_SCORING_PROFILE, getScoringProfile, toProfileRef, type ScoringProfile } from './scoring-profile.js';
 
 /**
  * ① Trend Score (0~3)
@@ -18,23 +28,26 @@ export function calculateTrendScore(price: number, mas: AnalysisRequest['moving_
 
 /**
  * ② Momentum Score (-1~2)
- * RSI 40~65              -> +1
- * RSI > 70               -> 0
+ * RSI 40~65              -> +1   (구간은 스코어링 프로파일 scorer.rsi)
+ * RSI > 65               -> 0
  * RSI < 40               -> -1
  * volume_5d >= volume_20d -> +1
  */
-export function calculateMomentumScore(rsi: number, vol5: number, vol20: number): number {
+export function calculateMomentumScore(
+    rsi: number,
+    vol5: number,
+    vol20: number,
+    rsiBand: ScoringProfile['scorer']['rsi'] = DEFAULT_SCORING_PROFILE.scorer.rsi
+): number {
     let score = 0;
 
     // RSI Logic
-    if (rsi >= 40 && rsi <= 65) {
+    if (rsi >= rsiBand.min && rsi <= rsiBand.max) {
         score += 1;
-    } else if (rsi > 70) {
-        score += 0;
-    } else if (rsi < 40) {
+    } else if (rsi < rsiBand.min) {
         score -= 1;
     }
-    // If 65 < RSI <= 70, score remains 0 (gap in PRD, safe assumption)
+    // Above max (incl. overbought > 70): score remains 0
 
     // Volume Logic
     if (vol5 >= vol20) {
@@ -91,6 +104,7 @@ export function calculateRiskScore(symbol: string, price: number, ma120: number)
  * OP Margin > 5   -> +1 (simple benchmark)
  * 
  * Note: Data might be missing. If missing, score is 0.
+ * 절대 기준이라 업종 차이를 반영하지 못함 → 섹터 피어가 있으면 calculateSectorFundamentalScore 사용
  */
 export function calculateFundamentalScore(fundamentals?: AnalysisRequest['fundamentals']): number {
     if (!fundamentals) return 0;
@@ -103,7 +117,7 @@ export function calculateFundamentalScore(fundamentals?: AnalysisRequest['fundam
 
     // Profitability (Quality)
     if (fundamentals.roe !== undefined && fundamentals.roe > 10) score += 1;
-    if (fundamentals.op_margin !== undefined && fundamentals.op_margin > 5) score += 1; // Simple benchmark, sector dependent in reality
+    if (fundamentals.op_margin !== undefined && fundamentals.op_margin > 5) score += 1; // Simple benchmark, see sector-relative scoring below
 
     // Stability (Risk)
     if (fundamentals.debt_ratio !== undefined && fundamentals.debt_ratio > 200) score -= 1;
@@ -111,14 +125,223 @@ export function calculateFundamentalScore(fundamentals?: AnalysisRequest['fundam
     return Math.max(-2, Math.min(3, score)); // Clamp range
 }
 
-export function analyze(request: AnalysisRequest): AnalysisResponse {
+/** 지표별 섹터 백분위 채점 최소 피어 수 (미만이면 해당 지표는 절대 기준) */
+export const MIN_SECTOR_PEERS = 5;
+
+/**
+ * 지표별 채점 규칙 (점수 범위는 절대 기준과 같음)
+ * - sector:   PER/PBR 피어 하위 30% +1, ROE/영업이익률 상위 30% +1, 부채비율 상위 10% -1
+ * - absolute: calculateFundamentalScore와 같은 기준
+ * - positiveOnly: 적자 PER 등 0 이하 값은 비교 대상에서 제외 (0점)
+ */
+const FUNDAMENTAL_RULES: Record<FundamentalMetricKey, {
+    positiveOnly: boolean;
+    sector: (percentile: number) => number;
+    absolute: (value: number) => number;
+}> = {
+    per: { positiveOnly: true, sector: p => (p <= 30 ? 1 : 0), absolute: v => (v < 10 ? 1 : 0) },
+    pbr: { positiveOnly: true, sector: p => (p <= 30 ? 1 : 0), absolute: v => (v < 1.0 ? 1 : 0) },
+    roe: { positiveOnly: false, sector: p => (p >= 70 ? 1 : 0), absolute: v => (v > 10 ? 1 : 0) },
+    op_margin: { positiveOnly: false, sector: p => (p >= 70 ? 1 : 0), absolute: v => (v > 5 ? 1 : 0) },
+    debt_ratio: { positiveOnly: false, sector: p => (p >= 90 ? -1 : 0), absolute: v => (v > 200 ? -1 : 0) },
+};
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** 피어 중 value보다 작은 비율 % (같은 값은 절반으로 계산) */
+function percentileRank(value: number, peers: number[]): number {
+    const below = peers.filter(v => v < value).length;
+    const equal = peers.filter(v => v === value).length;
+    return ((below + equal / 2) / peers.length) * 100;
+}
+
+/**
+ * ⑤-b Sector-relative Fundamental Score (-2~3)
+ * 같은 섹터 피어(로컬 캐시된 재무지표) 대비 백분위로 채점
+ * 은행(부채비율), 바이오(영업이익률), 유틸리티(PBR)처럼 업종 특성이 다른 종목을 같은 잣대로 보지 않음
+ * @param peers 대상 종목 자신은 제외한 피어 재무지표
+ */
+export function calculateSectorFundamentalScore(
+    fundamentals: AnalysisRequest['fundamentals'],
+    peers: Fundamentals[],
+    sector: string | null
+): { score: number; detail: FundamentalDetail } {
+    const round = (v: number) => parseFloat(v.toFixed(2));
+    const metrics = {} as Record<FundamentalMetricKey, FundamentalMetricDetail>;
+    let score = 0;
+
+    for (const key of Object.keys(FUNDAMENTAL_RULES) as FundamentalMetricKey[]) {
+        const rule = FUNDAMENTAL_RULES[key];
+        const comparable = (v: number | undefined): v is number =>
+            v !== undefined && Number.isFinite(v) && (!rule.positiveOnly || v > 0);
+
+        const raw = fundamentals?.[key];
+        const value = comparable(raw) ? raw : null;
+        const peerValues = peers.map(p => p[key]).filter(comparable);
+        const bySector = peerValues.length >= MIN_SECTOR_PEERS;
+        const percentile = value !== null && bySector ? percentileRank(value, peerValues) : null;
+        const points = value === null ? 0 : percentile !== null ? rule.sector(percentile) : rule.absolute(value);
+
+        score += points;
+        metrics[key] = {
+            value: raw !== undefined && Number.isFinite(raw) ? raw : null,
+            peer_median: peerValues.length > 0 ? round(median(peerValues)) : null,
+            percentile: percentile !== null ? round(percentile) : null,
+            points,
+            basis: bySector ? 'sector' : 'absolute',
+        };
+    }
+
+    return {
+        score: fundamentals ? Math.max(-2, Math.min(3, score)) : 0,
+        detail: { sector, peer_count: peers.length, metrics },
+    };
+}
+
+/**
+ * 미국 주식 기술 스코어 (펀더멘털 없이 trend/momentum/risk 3가지)
+ * Trend(0~3) + Momentum(-1~2) + Risk(-1~1) → total -2~6
+ * analyzeUsStock / 백테스트(market 'US') 공용
+ */
+export function scoreUsStock(
+    price: number,
+    ma20: number, ma60: number, ma120: number,
+    rsi: number,
+    avgVol5: number, avgVol20: number,
+    atr: number
+): { scores: Record<string, number>; state: string; confidence_level: string } {
+    let trend = 0;
+    if (price > ma20) trend++;
+    if (price > ma60) trend++;
+    if (price > ma120) trend++;
+
+    let momentum = 0;
+    if (rsi > 50 && rsi < 70) momentum++;
+    else if (rsi <= 30) momentum++;        // 과매도 반등 기대
+    else if (rsi >= 70) momentum--;        // 과매수 조정 주의
+    if (avgVol5 > avgVol20 * 1.2) momentum++;  // 거래량 급증
+
+    let risk = 0;
+    const atrPct = (atr / price) * 100;
+    if (atrPct > 5) risk--;                // 고변동성 페널티
+    else if (atrPct < 2) risk++;           // 저변동성 안정적
+
+    const total = trend + momentum + risk;
+
+    const state =
+        total >= 5 ? '강한 상승 추세' :
+            total >= 3 ? '상승 추세' :
+                total >= 1 ? '중립 (약상승)' :
+                    total === 0 ? '중립' :
+                        total >= -1 ? '중립 (약하락)' :
+                            '하락 추세';
+
+    const confidence_level =
+        Math.abs(total) >= 4 ? 'HIGH' :
+            Math.abs(total) >= 2 ? 'MEDIUM' : 'LOW';
+
+    return {
+        scores: { trend, momentum, risk, total },
+        state,
+        confidence_level,
+    };
+}
+
+/** 입력 데이터 최대 경과일 (주말 + 연휴 감안, 초과 시 신뢰도 감점) */
+export const MAX_DATA_AGE_DAYS = 5;
+
+export interface AnalyzeOptions {
+    /** 지정 시 펀더멘털 점수를 섹터 피어 대비 백분위로 계산 (응답에 fundamental_detail 포함) */
+    sectorPeers?: { sector: string | null; peers: Fundamentals[] };
+    /** 입력 데이터 기준 시각 (기본: request.timestamp) */
+    dataAsOf?: Date;
+    /** 신선도 판정 기준 시각 (기본: 현재) */
+    now?: Date;
+    /** 수집 단계 경고 (예: 지수 조회 실패로 flat 가정) → 건당 신뢰도 감점 */
+    dataWarnings?: string[];
+    /** RSI 구간 / 판단 구간 (기본: default 프로파일) */
+    profile?: ScoringProfile;
+}
+
+const FUNDAMENTAL_KEYS: FundamentalMetricKey[] = ['per', 'pbr', 'roe', 'op_margin', 'debt_ratio'];
+
+/**
+ * 신뢰도 판정 (감점 합계: 0 → HIGH, 1~2 → MEDIUM, 3 이상 → LOW)
+ * - 펀더멘털 누락: 1~2개 -1, 3개 이상 -2
+ * - 하위 점수 불일치 (추세/모멘텀/시장흐름/펀더멘털 중 상승·하락 신호 공존): -1
+ * - 데이터 경과일 MAX_DATA_AGE_DAYS 초과: -2
+ * - 총점이 판단 경계(프로파일 scorer.judgment) 바로 위/아래 (경계값 또는 경계값-1): -1
+ * - 수집 단계 경고: 건당 -1
+ */
+export function calculateConfidence(
+    request: AnalysisRequest,
+    scores: AnalysisResponse['scores'],
+    options: Pick<AnalyzeOptions, 'dataAsOf' | 'now' | 'dataWarnings' | 'profile'> = {}
+): { level: ConfidenceLevel; reasons: string[] } {
+    const reasons: string[] = [];
+    let penalty = 0;
+
+    const missing = FUNDAMENTAL_KEYS.filter(key => {
+        const value = request.fundamentals?.[key];
+        return value === undefined || value === null || !Number.isFinite(value);
+    });
+    if (missing.length > 0) {
+        penalty += missing.length >= 3 ? 2 : 1;
+        reasons.push(`펀더멘털 ${FUNDAMENTAL_KEYS.length}개 중 ${missing.length}개 누락 (${missing.join(', ')})`);
+    }
+
+    const signals: [string, number][] = [
+        ['추세', scores.trend >= 2 ? 1 : scores.trend === 0 ? -1 : 0],
+        ['모멘텀', scores.momentum >= 1 ? 1 : scores.momentum < 0 ? -1 : 0],
+        ['시장흐름', Math.sign(scores.flow)],
+        ['펀더멘털', scores.fundamental >= 2 ? 1 : scores.fundamental < 0 ? -1 : 0],
+    ];
+    const ups = signals.filter(([, s]) => s > 0).map(([name]) => name);
+    const downs = signals.filter(([, s]) => s < 0).map(([name]) => name);
+    if (ups.length > 0 && downs.length > 0) {
+        penalty += 1;
+        reasons.push(`하위 점수 불일치: ${ups.join('/')} 긍정 vs ${downs.join('/')} 부정`);
+    }
+
+    const asOf = options.dataAsOf ?? new Date(request.timestamp);
+    const ageDays = ((options.now ?? new Date()).getTime() - asOf.getTime()) / 86_400_000;
+    if (ageDays > MAX_DATA_AGE_DAYS) {
+        penalty += 2;
+        reasons.push(`데이터 기준 시각이 ${Math.floor(ageDays)}일 경과`);
+    }
+
+    const { aggressiveBuy, buyDips, hold } = (options.profile ?? DEFAULT_SCORING_PROFILE).scorer.judgment;
+    const boundary = [aggressiveBuy, buyDips, hold].find(t => scores.total === t || scores.total === t - 1);
+    if (boundary !== undefined) {
+        penalty += 1;
+        reasons.push(`총점 ${scores.total}점이 판단 경계(${boundary}점)에 인접`);
+    }
+
+    for (const warning of options.dataWarnings ?? []) {
+        penalty += 1;
+        reasons.push(warning);
+    }
+
+    const level = penalty === 0 ? ConfidenceLevel.HIGH : penalty <= 2 ? ConfidenceLevel.MEDIUM : ConfidenceLevel.LOW;
+    return { level, reasons: reasons.length > 0 ? reasons : ['입력 완전, 하위 점수 일치, 판단 경계와 거리 충분'] };
+}
+
+export function analyze(request: AnalysisRequest, options: AnalyzeOptions = {}): AnalysisResponse {
+    const { sectorPeers, profile = getScoringProfile() } = options;
     const { price, moving_averages, volume, momentum, index_context, symbol, fundamentals } = request;
 
     const trend = calculateTrendScore(price, moving_averages);
-    const momentumScore = calculateMomentumScore(momentum.rsi_14, volume.avg_5d, volume.avg_20d);
+    const momentumScore = calculateMomentumScore(momentum.rsi_14, volume.avg_5d, volume.avg_20d, profile.scorer.rsi);
     const flow = calculateFlowScore(index_context.index_trend);
     const risk = calculateRiskScore(symbol, price, moving_averages.ma120);
-    const fundamental = calculateFundamentalScore(fundamentals);
+    const sectorFundamental = sectorPeers
+        ? calculateSectorFundamentalScore(fundamentals, sectorPeers.peers, sectorPeers.sector)
+        : null;
+    const fundamental = sectorFundamental?.score ?? calculateFundamentalScore(fundamentals);
 
     // Total Score: Trend(0~3) + Momentum(-1~2) + Flow(-1~1) + Risk(-1~1) + Fundamental(-2~3)
     // Max: 3 + 2 + 1 + 1 + 3 = 10
@@ -127,9 +350,10 @@ export function analyze(request: AnalysisRequest): AnalysisResponse {
 
     let judgment = '';
     // Adjusted thresholds for new total range
-    if (total >= 6) judgment = 'AGRESSIVE_BUY';
-    else if (total >= 3) judgment = 'BUY_DIPS';
-    else if (total >= 0) judgment = 'HOLD';
+    const { aggressiveBuy, buyDips, hold } = profile.scorer.judgment;
+    if (total >= aggressiveBuy) judgment = 'AGRESSIVE_BUY';
+    else if (total >= buyDips) judgment = 'BUY_DIPS';
+    else if (total >= hold) judgment = 'HOLD';
     else judgment = 'AVOID';
 
     // Strings mapping based on Logic
@@ -168,18 +392,24 @@ export function analyze(request: AnalysisRequest): AnalysisResponse {
             break;
     }
 
+    const scores = {
+        trend,
+        momentum: momentumScore,
+        flow,
+        risk,
+        fundamental, // Add to response
+        total
+    };
+    const confidence = calculateConfidence(request, scores, { ...options, profile });
+
     return {
         symbol,
-        scores: {
-            trend,
-            momentum: momentumScore,
-            flow,
-            risk,
-            fundamental, // Add to response
-            total
-        },
+        scores,
         state,
         strategy,
-        confidence_level: ConfidenceLevel.MEDIUM
+        confidence_level: confidence.level,
+        confidence_reasons: confidence.reasons,
+        profile: toProfileRef(profile),
+        ...(sectorFundamental && { fundamental_detail: sectorFundamental.detail }),
     };
 }
@@ -0,0 +1,199 @@
+/**
+ * scoring-profile.ts
+ *
+ * 이름 있는 스코어링 프로파일 (Scorer / calcSwingGrade 임계값 묶음)
+ * - .dexter/profiles/<name>.json | .yaml | .yml 파일 하나가 프로파일 하나 (버전 관리 대상)
+ * - 파일에는 바꿀 항목만 적으면 나머지는 내장 기본값(DEFAULT_SCORING_PROFILE)으로 채움
+ * - 분석/백테스트 요청에서 profile 이름으로 선택, 응답에는 { name, version }을 그대로 표시
+ * - 파일은 처음 조회할 때 읽음 (수정 후에는 서버 재시작 또는 reloadScoringProfiles)
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import type { SwingGradeThresholds, SwingGradeWeights } from './signal-generator.js';
+
+export const SCORING_PROFILE_DIR = '.dexter/profiles';
+export const DEFAULT_PROFILE_NAME = 'default';
+
+/** 스코어링 프로파일 */
+export interface ScoringProfile {
+    name: string;
+    version: string;                  // 파일에 적힌 버전 (응답/백테스트 결과에 그대로 표시)
+    description?: string;
+    scorer: {
+        rsi: { min: number; max: number };    // Momentum: RSI min~max +1, min 미만 -1, 그 외 0
+        judgment: {                           // 총점 판단 구간 하한
+            aggressiveBuy: number;            // 이상이면 AGRESSIVE_BUY
+            buyDips: number;                  // 이상이면 BUY_DIPS
+            hold: number;                     // 이상이면 HOLD, 미만 AVOID
+        };
+    };
+    swingGrade: {
+        technicalBands: { high: number; mid: number; low: number };  // 기술 점수(0~100) → 만점 / 2/3 / 1/3
+        rrBands: { high: number; mid: number };                      // R/R → 만점 / 1/2
+        thresholds: SwingGradeThresholds;     // 요청의 thresholds가 있으면 그쪽 우선
+        weights: SwingGradeWeights;           // 요청의 weights가 있으면 그쪽 우선
+    };
+}
+
+/** 응답에 표시하는 프로파일 식별자 */
+export interface ScoringProfileRef {
+    name: string;
+    version: string;
+}
+
+/** 내장 기본값 (프로파일 도입 전 하드코딩 값과 동일) */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+    name: DEFAULT_PROFILE_NAME,
+    version: '1.0.0',
+    description: '기본 임계값',
+    scorer: {
+        rsi: { min: 40, max: 65 },
+        judgment: { aggressiveBuy: 6, buyDips: 3, hold: 0 },
+    },
+    swingGrade: {
+        technicalBands: { high: 70, mid: 55, low: 45 },
+        rrBands: { high: 3.0, mid: 2.0 },
+        thresholds: { A: 7, B: 5, C: 3 },
+        weights: { technicalScoreMax: 3, rrScoreMax: 2, volumeProfileMax: 2, ma60Max: 1 },
+    },
+};
+
+const PROFILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+function invalidProfile(message: string): Error {
+    const err = new Error(message);
+    (err as any).code = 'INVALID_PROFILE';
+    return err;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** 파일 값으로 기본값 덮어쓰기 (중첩 객체는 항목별, 알 수 없는 키는 오류) */
+function mergeSection(base: Record<string, any>, override: unknown, path: string): Record<string, any> {
+    if (override === undefined) return base;
+    if (!isPlainObject(override)) throw invalidProfile(`${path} must be an object`);
+
+    const merged: Record<string, any> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        if (!(key in base)) throw invalidProfile(`${path}.${key} is not a profile setting`);
+        if (isPlainObject(base[key])) {
+            merged[key] = mergeSection(base[key], value, `${path}.${key}`);
+        } else {
+            if (typeof value !== 'number' || !Number.isFinite(value)) throw invalidProfile(`${path}.${key} must be a number`);
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+/** 구간 순서 검증 (높은 구간 > 낮은 구간) */
+function validateProfileOrder(profile: ScoringProfile): string | null {
+    const { rsi, judgment } = profile.scorer;
+    const { technicalBands, rrBands, thresholds, weights } = profile.swingGrade;
+    if (!(rsi.min < rsi.max)) return 'scorer.rsi.min must be less than max';
+    if (!(judgment.aggressiveBuy > judgment.buyDips && judgment.buyDips > judgment.hold)) {
+        return 'scorer.judgment must satisfy aggressiveBuy > buyDips > hold';
+    }
+    if (!(technicalBands.high > technicalBands.mid && technicalBands.mid > technicalBands.low)) {
+        return 'swingGrade.technicalBands must satisfy high > mid > low';
+    }
+    if (!(rrBands.high > rrBands.mid && rrBands.mid > 0)) return 'swingGrade.rrBands must satisfy high > mid > 0';
+    if (!(thresholds.A > thresholds.B && thresholds.B > thresholds.C)) return 'swingGrade.thresholds must satisfy A > B > C';
+    if (Object.values(weights).some(w => w < 0 || w > 10)) return 'swingGrade.weights must be between 0 and 10';
+    return null;
+}
+
+/**
+ * 프로파일 파일 내용 → ScoringProfile (기본값 병합 + 검증)
+ * @param fallbackName 파일에 name이 없을 때 사용할 이름 (파일명)
+ * @throws 형식 오류 (code 'INVALID_PROFILE')
+ */
+export function parseScoringProfile(raw: unknown, fallbackName: string): ScoringProfile {
+    if (!isPlainObject(raw)) throw invalidProfile('profile must be an object');
+    const { name = fallbackName, version, description, scorer, swingGrade, ...rest } = raw;
+
+    const unknownKey = Object.keys(rest)[0];
+    if (unknownKey) throw invalidProfile(`${unknownKey} is not a profile setting`);
+    if (typeof name !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/i.test(name)) {
+        throw invalidProfile('name must contain only letters, digits, "-" and "_"');
+    }
+    if ((typeof version !== 'string' || version.trim() === '') && typeof version !== 'number') {
+        throw invalidProfile('version is required (e.g. "1.0.0")');
+    }
+    if (description !== undefined && typeof description !== 'string') throw invalidProfile('description must be a string');
+
+    const profile: ScoringProfile = {
+        name,
+        version: String(version).trim(),
+        description: description ?? undefined,
+        scorer: mergeSection(DEFAULT_SCORING_PROFILE.scorer, scorer, 'scorer') as ScoringProfile['scorer'],
+        swingGrade: mergeSection(DEFAULT_SCORING_PROFILE.swingGrade, swingGrade, 'swingGrade') as ScoringProfile['swingGrade'],
+    };
+    const orderError = validateProfileOrder(profile);
+    if (orderError) throw invalidProfile(orderError);
+    return profile;
+}
+
+/**
+ * 디렉터리의 프로파일 파일 전체 로드 (내장 default 포함, 같은 이름은 파일이 우선)
+ * 형식이 틀린 파일은 경고만 남기고 건너뜀
+ */
+export function loadScoringProfiles(dir = SCORING_PROFILE_DIR): Map<string, ScoringProfile> {
+    const profiles = new Map<string, ScoringProfile>([[DEFAULT_PROFILE_NAME, DEFAULT_SCORING_PROFILE]]);
+    if (!existsSync(dir)) return profiles;
+
+    for (const file of readdirSync(dir).sort()) {
+        const ext = extname(file).toLowerCase();
+        if (!PROFILE_EXTENSIONS.includes(ext)) continue;
+        try {
+            const text = readFileSync(join(dir, file), 'utf-8');
+            const raw = ext === '.json' ? JSON.parse(text) : Bun.YAML.parse(text);
+            const profile = parseScoringProfile(raw, basename(file, ext));
+            if (profiles.has(profile.name) && profiles.get(profile.name) !== DEFAULT_SCORING_PROFILE) {
+                throw invalidProfile(`duplicate profile name "${profile.name}"`);
+            }
+            profiles.set(profile.name, profile);
+        } catch (err) {
+            console.warn(`[ScoringProfile] ${file} skipped: ${(err as Error).message}`);
+        }
+    }
+    return profiles;
+}
+
+// Loaded lazily on first lookup; reloadScoringProfiles() after editing the profile files.
+let scoringProfiles: Map<string, ScoringProfile> | null = null;
+
+export function reloadScoringProfiles(dir?: string) {
+    scoringProfiles = loadScoringProfiles(dir);
+}
+
+export function listScoringProfiles(): ScoringProfile[] {
+    scoringProfiles ??= loadScoringProfiles();
+    return [...scoringProfiles.values()];
+}
+
+export function hasScoringProfile(name: string): boolean {
+    scoringProfiles ??= loadScoringProfiles();
+    return scoringProfiles.has(name);
+}
+
+/**
+ * 이름으로 프로파일 조회 (미지정 시 default)
+ * @throws 없는 이름 (code 'UNKNOWN_PROFILE')
+ */
+export function getScoringProfile(name: string = DEFAULT_PROFILE_NAME): ScoringProfile {
+    scoringProfiles ??= loadScoringProfiles();
+    const profile = scoringProfiles.get(name);
+    if (!profile) {
+        const err = new Error(`Unknown scoring profile "${name}" (available: ${[...scoringProfiles.keys()].join(', ')})`);
+        (err as any).code = 'UNKNOWN_PROFILE';
+        throw err;
+    }
+    return profile;
+}
+
+export function toProfileRef(profile: ScoringProfile): ScoringProfileRef {
+    return { name: profile.name, version: profile.version };
+}
@@ -6,6 +6,7 @@
  */
 
 import { calculateVolumeProfile, interpretVolumeProfile, type OhlcvBarWithVolume, type VolumeProfile } from './volume-profile.js';
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from './scoring-profile.js';
 
 /** calcSwingGrade 가중치 오버라이드 */
 export interface SwingGradeWeights {
@@ -22,6 +23,9 @@ export interface SwingGradeThresholds {
     C: number;  // default: 3
 }
 
+/** 기술 점수 / R/R 구간 (스코어링 프로파일) */
+export type SwingGradeBands = Pick<ScoringProfile['swingGrade'], 'technicalBands' | 'rrBands'>;
+
 /** calcSwingGrade 반환 타입 */
 export interface SwingGradeResult {
     grade: 'A' | 'B' | 'C' | 'D';
@@ -180,6 +184,9 @@ export function calculateMFI(bars: OhlcvBar[], period: number = 14): number[] {
  *
  * @param weights  가중치 오버라이드 (백테스트 Parameter Sweep용)
  * @param thresholds  Grade 임계값 오버라이드
+ * @param direction  'short'이면 SELL 관점으로 대칭 평가
+ *                   (낮은 기술 점수 / POC 아래 / MA60 아래가 유리)
+ * @param bands  기술 점수 / R/R 구간 (기본: default 프로파일 70/55/45, 3.0/2.0)
  */
 export function calcSwingGrade(
     score: number,
@@ -188,8 +195,12 @@ export function calcSwingGrade(
     currentPrice: number,
     ma60: number,
     weights?: SwingGradeWeights,
-    thresholds?: SwingGradeThresholds
+    thresholds?: SwingGradeThresholds,
+    direction: 'long' | 'short' = 'long',
+    bands: SwingGradeBands = DEFAULT_SCORING_PROFILE.swingGrade
 ): SwingGradeResult {
+    const isShort = direction === 'short';
+
     const w = {
         technicalScoreMax: weights?.technicalScoreMax ?? 3,
         rrScoreMax: weights?.rrScoreMax ?? 2,
@@ -204,28 +215,30 @@ export function calcSwingGrade(
 
     // 스코어 기여 (max: technicalScoreMax)
     let techPts = 0;
+    const techScore = isShort ? 100 - score : score;
     if (w.technicalScoreMax > 0) {
-        if (score >= 70) techPts = w.technicalScoreMax;
-        else if (score >= 55) techPts = Math.round(w.technicalScoreMax * 2 / 3);
-        else if (score >= 45) techPts = Math.round(w.technicalScoreMax * 1 / 3);
+        const { high, mid, low } = bands.technicalBands;
+        if (techScore >= high) techPts = w.technicalScoreMax;
+        else if (techScore >= mid) techPts = Math.round(w.technicalScoreMax * 2 / 3);
+        else if (techScore >= low) techPts = Math.round(w.technicalScoreMax * 1 / 3);
     }
 
     // R/R 비율 기여 (max: rrScoreMax)
     let rrPts = 0;
     if (w.rrScoreMax > 0) {
-        if (rr >= 3.0) rrPts = w.rrScoreMax;
-        else if (rr >= 2.0) rrPts = Math.round(w.rrScoreMax / 2);
+        if (rr >= bands.rrBands.high) rrPts = w.rrScoreMax;
+        else if (rr >= bands.rrBands.mid) rrPts = Math.round(w.rrScoreMax / 2);
     }
 
     // 매물대 위치 기여 (max: volumeProfileMax)
     let vpPts = 0;
     if (vp && w.volumeProfileMax > 0) {
-        if (vp.pricePosition === 'above_poc') vpPts = w.volumeProfileMax;
+        if (vp.pricePosition === (isShort ? 'below_poc' : 'above_poc')) vpPts = w.volumeProfileMax;
         else if (vp.pricePosition === 'at_poc') vpPts = Math.round(w.volumeProfileMax / 2);
     }
 
-    // MA60 위 여부 (max: ma60Max)
-    const ma60Pts = (currentPrice > ma60) ? w.ma60Max : 0;
+    // MA60 위 여부, short는 아래 여부 (max: ma60Max)
+    const ma60Pts = (isShort ? currentPrice < ma60 : currentPrice > ma60) ? w.ma60Max : 0;
 
     const total = techPts + rrPts + vpPts + ma60Pts;
 
@@ -249,6 +262,7 @@ export function calcSwingGrade(
 
 /**
  * 핵심 함수: 매물대를 고려한 2주 스윙 트레이딩 매매 시그널 생성
+ * @param gradeProfile  스윙 등급 구간/임계값/가중치 (기본: default 프로파일)
  */
 export function generateTradeSignal(
     symbol: string,
@@ -260,7 +274,8 @@ export function generateTradeSignal(
         macdHistogram: number | null;
     },
     technicalScore: number,
-    technicalSignal: 'BUY' | 'SELL' | 'NEUTRAL'
+    technicalSignal: 'BUY' | 'SELL' | 'NEUTRAL',
+    gradeProfile: ScoringProfile['swingGrade'] = DEFAULT_SCORING_PROFILE.swingGrade
 ): TradeSignal {
     const closes = bars.map(b => b.close);
     const highs = bars.map(b => b.high);
@@ -339,7 +354,10 @@ export function generateTradeSignal(
     const estimatedReturnPct = parseFloat(((target1 - aggressiveEntry) / aggressiveEntry * 100).toFixed(2));
 
     // ── 2주 스윙 적합도 등급 ──────────────────────────────────────────
-    const { grade: swingGrade } = calcSwingGrade(technicalScore, riskRewardRatio, vp, currentPrice, indicators.ma60);
+    const { grade: swingGrade } = calcSwingGrade(
+        technicalScore, riskRewardRatio, vp, currentPrice, indicators.ma60,
+        gradeProfile.weights, gradeProfile.thresholds, 'long', gradeProfile
+    );
 
     // ── 분석 근거 ─────────────────────────────────────────────────────
     const rationale: string[] = [];
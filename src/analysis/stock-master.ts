@@ -0,0 +1,289 @@
+/**
+ * stock-master.ts
+ *
+ * 종목 마스터 (KRX / KIS 종목정보 파일) → 종목별 메타데이터
+ * - 로컬 디렉터리(.dexter/master)에 저장된 파일만 읽음 (분석 중 네트워크 호출 없음)
+ *   · kospi_code.mst / kosdaq_code.mst : KIS 국내 종목 마스터 (종목명, 시장, 지수업종 코드)
+ *   · nasmst.cod / nysmst.cod / amsmst.cod : KIS 해외 종목 마스터 (종목명, 거래소)
+ *   · krx*.csv : KRX 정보데이터시스템 '업종분류 현황' 내려받기 (업종명, 선택)
+ *   · overrides.json : 로컬 수정 { "005930": { "sector": "반도체", "isDefensive": false } }
+ * - 우선순위: KIS 마스터 < KRX 업종 < overrides
+ * - refreshStockMaster: KIS 마스터 zip을 받아 디렉터리 갱신 (주기 실행은 scripts/refresh-stock-master.ts, 서버 자동 갱신은 opt-in)
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { inflateRawSync } from 'zlib';
+
+export const STOCK_MASTER_DIR = '.dexter/master';
+
+/** 마스터 파일이 이보다 오래되면 갱신 대상 (상장/폐지/업종 변경 반영) */
+export const STOCK_MASTER_MAX_AGE_DAYS = 7;
+
+const KIS_MASTER_URL = 'https://new.real.download.dws.co.kr/common/master';
+
+export type StockMarket = 'KOSPI' | 'KOSDAQ' | 'KONEX' | 'NAS' | 'NYS' | 'AMS';
+
+/** 종목 메타데이터 */
+export interface StockMasterEntry {
+    symbol: string;
+    name?: string;
+    market?: StockMarket;
+    sector?: string;              // 업종명 (KRX 업종 / KIS 지수업종)
+    industryCode?: string;        // KIS 지수업종 코드 (4자리)
+    isDefensive?: boolean;        // overrides 지정값 (미지정이면 getMetadata가 업종명으로 판정)
+}
+
+/** KIS 국내 마스터 파일 → 시장, 행 끝 고정폭 영역 길이 */
+const KIS_DOMESTIC_FILES: { file: string; market: StockMarket; tailLength: number }[] = [
+    { file: 'kospi_code.mst', market: 'KOSPI', tailLength: 228 },
+    { file: 'kosdaq_code.mst', market: 'KOSDAQ', tailLength: 222 },
+];
+
+const KIS_OVERSEAS_FILES: { file: string; market: StockMarket }[] = [
+    { file: 'nasmst.cod', market: 'NAS' },
+    { file: 'nysmst.cod', market: 'NYS' },
+    { file: 'amsmst.cod', market: 'AMS' },
+];
+
+/** KOSPI 지수업종 코드 → 업종명 (KIS 마스터는 코드만 제공) */
+const KOSPI_INDUSTRY_NAMES: Record<string, string> = {
+    '0005': '음식료품', '0006': '섬유의복', '0007': '종이목재', '0008': '화학',
+    '0009': '의약품', '0010': '비금속광물', '0011': '철강금속', '0012': '기계',
+    '0013': '전기전자', '0014': '의료정밀', '0015': '운수장비', '0016': '유통업',
+    '0017': '전기가스업', '0018': '건설업', '0019': '운수창고업', '0020': '통신업',
+    '0021': '금융업', '0022': '은행', '0024': '증권', '0025': '보험',
+    '0026': '서비스업', '0027': '제조업',
+};
+
+/**
+ * 경기방어 업종 (공백/구분점 제거 후 비교)
+ * 통신장비처럼 이름만 겹치는 경기민감 업종은 제외되도록 통신은 전체 일치
+ */
+const DEFENSIVE_SECTOR_PATTERNS: RegExp[] = [
+    /^음식료/, /^식품/, /담배/, /^의약품$/, /^제약$/, /^전기가스/, /^통신(업|서비스)?$/, /^보험$/,
+    /필수소비재/, /^유틸리티/,
+    /^(utilities|consumerstaples|consumerdefensive|healthcare|telecommunicationservices|beverages|food|householdproducts)/i,
+];
+
+/** 업종명 → 경기방어 여부 */
+export function isDefensiveSector(sector?: string | null): boolean {
+    if (!sector) return false;
+    const normalized = sector.replace(/[\s·,.&]/g, '');
+    return DEFENSIVE_SECTOR_PATTERNS.some(p => p.test(normalized));
+}
+
+// ─── 파싱 (순수 함수) ─────────────────────────────────────────────────
+
+/** UTF-8이 아니면 CP949 (KIS/KRX 파일 기본 인코딩) */
+export function decodeMasterText(buffer: Uint8Array): string {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('euc-kr').decode(buffer);
+    }
+}
+
+/**
+ * KIS 국내 마스터 (.mst)
+ * 행 = [단축코드 9][표준코드 12][한글명 ...] + 고정폭 tailLength
+ * 고정폭 앞부분: 그룹코드 2, 시가총액 규모 1, 지수업종 대/중/소분류 각 4
+ */
+export function parseKisDomesticMaster(text: string, market: StockMarket, tailLength: number): StockMasterEntry[] {
+    const entries: StockMasterEntry[] = [];
+    for (const row of text.split(/\r?\n/)) {
+        if (row.length <= tailLength + 21) continue;
+        const head = row.slice(0, row.length - tailLength);
+        const tail = row.slice(row.length - tailLength);
+
+        const symbol = head.slice(0, 9).trim();
+        const name = head.slice(21).trim();
+        if (!symbol || !name) continue;
+
+        // 가장 세분된 코드부터 (소 → 중 → 대), '0000'은 미분류
+        const codes = [tail.slice(11, 15), tail.slice(7, 11), tail.slice(3, 7)].filter(c => /^\d{4}$/.test(c) && c !== '0000');
+        const industryCode = codes.find(c => KOSPI_INDUSTRY_NAMES[c]) ?? codes[0];
+        entries.push({
+            symbol,
+            name,
+            market,
+            industryCode,
+            sector: market === 'KOSPI' && industryCode ? KOSPI_INDUSTRY_NAMES[industryCode] : undefined,
+        });
+    }
+    return entries;
+}
+
+/**
+ * KIS 해외 마스터 (.cod, 탭 구분)
+ * 컬럼: 국가, 거래소ID, 거래소코드, 거래소명, 심볼, 실시간심볼, 한글명, 영문명, 종목유형(2: 주식, 3: ETP) ...
+ */
+export function parseKisOverseasMaster(text: string, market: StockMarket): StockMasterEntry[] {
+    const entries: StockMasterEntry[] = [];
+    for (const row of text.split(/\r?\n/)) {
+        const cells = row.split('\t');
+        const symbol = cells[4]?.trim().toUpperCase();
+        if (!symbol || !['2', '3'].includes(cells[8]?.trim())) continue;
+        entries.push({ symbol, name: cells[7]?.trim() || cells[6]?.trim() || undefined, market });
+    }
+    return entries;
+}
+
+/** 따옴표 포함 CSV 한 줄 */
+function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else cell += ch;
+        } else if (ch === '"') quoted = true;
+        else if (ch === ',') { cells.push(cell.trim()); cell = ''; }
+        else cell += ch;
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+/**
+ * KRX '업종분류 현황' CSV
+ * 헤더 필수: 종목코드, 업종명 (+ 선택 종목명, 시장구분)
+ */
+export function parseKrxSectorCsv(text: string): StockMasterEntry[] {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim().length > 0);
+    if (lines.length === 0) return [];
+
+    const header = splitCsvLine(lines[0]);
+    const col = (name: string) => header.indexOf(name);
+    const missing = ['종목코드', '업종명'].filter(name => col(name) === -1);
+    if (missing.length > 0) throw new Error(`KRX CSV header missing columns: ${missing.join(', ')}`);
+
+    const markets: StockMarket[] = ['KOSPI', 'KOSDAQ', 'KONEX'];
+    return lines.slice(1).flatMap(line => {
+        const cells = splitCsvLine(line);
+        const symbol = cells[col('종목코드')];
+        const sector = cells[col('업종명')];
+        if (!symbol || !sector) return [];
+        const market = markets.find(m => m === cells[col('시장구분')]?.toUpperCase());
+        return [{ symbol, sector, name: cells[col('종목명')] || undefined, market }];
+    });
+}
+
+// ─── 로드 ─────────────────────────────────────────────────────────────
+
+/** 같은 종목 병합 (뒤 소스의 지정된 값이 우선) */
+function mergeEntries(target: Map<string, StockMasterEntry>, entries: StockMasterEntry[]) {
+    for (const entry of entries) {
+        const defined = Object.fromEntries(Object.entries(entry).filter(([, v]) => v !== undefined));
+        target.set(entry.symbol, { ...target.get(entry.symbol), ...defined } as StockMasterEntry);
+    }
+}
+
+/**
+ * 디렉터리의 마스터 파일 → 종목별 메타데이터 (isDefensive는 overrides에 지정한 경우만 채워짐)
+ * 없는 파일은 건너뜀, 파싱 실패 파일은 경고 후 건너뜀
+ */
+export function loadStockMaster(dir = STOCK_MASTER_DIR): Map<string, StockMasterEntry> {
+    const master = new Map<string, StockMasterEntry>();
+    if (!existsSync(dir)) return master;
+
+    const read = (file: string, parse: (text: string) => StockMasterEntry[]) => {
+        const path = join(dir, file);
+        if (!existsSync(path)) return;
+        try {
+            mergeEntries(master, parse(decodeMasterText(readFileSync(path))));
+        } catch (err) {
+            console.warn(`[Stock Master] Failed to parse ${file}: ${err}`);
+        }
+    };
+
+    for (const { file, market, tailLength } of KIS_DOMESTIC_FILES) {
+        read(file, text => parseKisDomesticMaster(text, market, tailLength));
+    }
+    for (const { file, market } of KIS_OVERSEAS_FILES) {
+        read(file, text => parseKisOverseasMaster(text, market));
+    }
+    for (const file of readdirSync(dir).filter(f => /^krx.*\.csv$/i.test(f)).sort()) {
+        read(file, parseKrxSectorCsv);
+    }
+    read('overrides.json', text => Object.entries(JSON.parse(text) as Record<string, Omit<StockMasterEntry, 'symbol'>>)
+        .map(([symbol, entry]) => ({ ...entry, symbol: symbol.toUpperCase() })));
+
+    return master;
+}
+
+// ─── 갱신 ─────────────────────────────────────────────────────────────
+
+/** 마지막 갱신 시각 (KIS 국내 마스터 기준, 없으면 null) */
+export function getStockMasterUpdatedAt(dir = STOCK_MASTER_DIR): Date | null {
+    const path = join(dir, KIS_DOMESTIC_FILES[0].file);
+    return existsSync(path) ? statSync(path).mtime : null;
+}
+
+export function isStockMasterStale(dir = STOCK_MASTER_DIR, maxAgeDays = STOCK_MASTER_MAX_AGE_DAYS): boolean {
+    const updatedAt = getStockMasterUpdatedAt(dir);
+    return !updatedAt || Date.now() - updatedAt.getTime() > maxAgeDays * 86_400_000;
+}
+
+/** zip에서 파일 하나 추출 (stored / deflate) */
+export function extractZipEntry(zip: Uint8Array, fileName: string): Uint8Array | null {
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    // End of Central Directory (뒤에서 검색, 주석 최대 64KB)
+    let eocd = -1;
+    for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd < 0) throw new Error('Invalid zip: end of central directory not found');
+
+    let offset = view.getUint32(eocd + 16, true);
+    const count = view.getUint16(eocd + 10, true);
+    for (let n = 0; n < count; n++) {
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+        if (name === fileName) {
+            const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+            const data = zip.subarray(dataStart, dataStart + compressedSize);
+            if (method === 0) return data;
+            if (method === 8) return inflateRawSync(data);
+            throw new Error(`Unsupported zip compression method ${method}`);
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return null;
+}
+
+/**
+ * KIS 마스터 파일 내려받기 (국내 + 해외)
+ * 파일별로 실패해도 나머지는 계속 진행, KRX CSV / overrides.json은 건드리지 않음
+ */
+export async function refreshStockMaster(dir = STOCK_MASTER_DIR): Promise<{
+    updated: string[];
+    failed: { file: string; error: string }[];
+}> {
+    mkdirSync(dir, { recursive: true });
+    const updated: string[] = [];
+    const failed: { file: string; error: string }[] = [];
+
+    for (const file of [...KIS_DOMESTIC_FILES, ...KIS_OVERSEAS_FILES].map(f => f.file)) {
+        try {
+            const response = await fetch(`${KIS_MASTER_URL}/${file}.zip`, { signal: AbortSignal.timeout(60_000) });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const content = extractZipEntry(new Uint8Array(await response.arrayBuffer()), file);
+            if (!content) throw new Error(`${file} not found in archive`);
+            writeFileSync(join(dir, file), content);
+            updated.push(file);
+        } catch (err) {
+            failed.push({ file, error: String(err) });
+        }
+    }
+    return { updated, failed };
+}
@@ -1,5 +1,6 @@
 
 import { z } from 'zod';
+import type { ScoringProfileRef } from './scoring-profile.js';
 
 export const AnalysisRequestSchema = z.object({
     symbol: z.string(),
@@ -55,6 +56,8 @@ export const AnalysisResponseSchema = z.object({
         mid_term: z.string(),
     }),
     confidence_level: z.nativeEnum(ConfidenceLevel),
+    confidence_reasons: z.array(z.string()),
+    profile: z.object({ name: z.string(), version: z.string() }),
 });
 
 export interface AnalysisResponse {
@@ -73,4 +76,24 @@ export interface AnalysisResponse {
         mid_term: string;
     };
     confidence_level: ConfidenceLevel;
+    confidence_reasons: string[];   // 신뢰도 판정 근거 (감점 사유, 없으면 한 줄 요약)
+    profile: ScoringProfileRef;     // 적용한 스코어링 프로파일
+    fundamental_detail?: FundamentalDetail; // 섹터 피어 비교 시
+}
+
+export type Fundamentals = NonNullable<AnalysisRequest['fundamentals']>;
+export type FundamentalMetricKey = 'per' | 'pbr' | 'roe' | 'op_margin' | 'debt_ratio';
+
+export interface FundamentalMetricDetail {
+    value: number | null;
+    peer_median: number | null;     // 섹터 피어 중앙값 (피어 없으면 null)
+    percentile: number | null;      // 피어 중 값이 더 작은 비율 0~100 (피어 부족 시 null)
+    points: number;
+    basis: 'sector' | 'absolute';   // 피어가 MIN_SECTOR_PEERS 미만이면 절대 기준
+}
+
+export interface FundamentalDetail {
+    sector: string | null;
+    peer_count: number;
+    metrics: Record<FundamentalMetricKey, FundamentalMetricDetail>;
 }
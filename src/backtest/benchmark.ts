@@ -0,0 +1,131 @@
+/**
+ * benchmark.ts
+ *
+ * 벤치마크(지수/ETF) 대비 성과 비교 (순수 함수)
+ * - KOSPI/KOSDAQ 지수 또는 임의 종목(예: KODEX 200 069500)을 같은 날짜 구간에서 단순 보유했을 때와 비교
+ * - 벤치마크 곡선은 equityCurve와 같은 날짜에 찍어 차트에서 바로 겹쳐 그릴 수 있게 함
+ * - 휴장일 차이는 해당 날짜 이전 마지막 종가로 맞춤
+ * - 초과수익/베타/알파/정보비율은 모두 같은 전략 수익률 시계열(비용 차감 후 net, 복리 누적)에서 계산
+ */
+
+import { buildNetCompoundedCurve } from './stats.js';
+import type { BacktestResult, BacktestTrade, BenchmarkSummary, OhlcvRecord } from './types.js';
+
+type EquityPoint = BacktestResult['equityCurve'][number];
+
+/** 지수 별칭은 대문자로 통일 (저장소 심볼 KOSPI/KOSDAQ), 종목코드는 그대로 */
+export function normalizeBenchmarkSymbol(benchmark: string): string {
+    const trimmed = benchmark.trim();
+    const upper = trimmed.toUpperCase();
+    return upper === 'KOSPI' || upper === 'KOSDAQ' ? upper : trimmed;
+}
+
+/** date 이하(inclusive) 또는 미만(exclusive)인 마지막 봉의 종가 (bars는 날짜 오름차순) */
+function closeAt(bars: OhlcvRecord[], date: string, inclusive: boolean): number | undefined {
+    let lo = 0;
+    let hi = bars.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const ok = inclusive ? bars[mid].date <= date : bars[mid].date < date;
+        if (ok) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found >= 0 ? bars[found].close : undefined;
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/** 표본 공분산 (n-1) */
+function covariance(a: number[], b: number[]): number {
+    if (a.length < 2) return 0;
+    const ma = mean(a);
+    const mb = mean(b);
+    return a.reduce((acc, v, i) => acc + (v - ma) * (b[i] - mb), 0) / (a.length - 1);
+}
+
+/** 전략/벤치마크 기간 수익률 쌍 → 베타, 알파, 추적오차, 정보비율 */
+export function calcRelativeStats(
+    strategy: number[],
+    benchmark: number[]
+): Pick<BenchmarkSummary, 'beta' | 'alpha' | 'trackingError' | 'informationRatio' | 'observations'> {
+    const variance = covariance(benchmark, benchmark);
+    const beta = variance > 0 ? covariance(strategy, benchmark) / variance : 0;
+    const alpha = mean(strategy) - beta * mean(benchmark);
+    const active = strategy.map((r, i) => r - benchmark[i]);
+    const trackingError = Math.sqrt(covariance(active, active));
+    const informationRatio = trackingError > 0 ? mean(active) / trackingError : 0;
+
+    return {
+        beta: parseFloat(beta.toFixed(4)),
+        alpha: parseFloat(alpha.toFixed(4)),
+        trackingError: parseFloat(trackingError.toFixed(4)),
+        informationRatio: parseFloat(informationRatio.toFixed(4)),
+        observations: strategy.length,
+    };
+}
+
+/**
+ * 전략 결과와 벤치마크 비교
+ * - 기준일: 거래별 모드는 첫 진입일, 포트폴리오 모드는 equityCurve 첫 날짜 (기준가는 그 전날 종가)
+ * - 전략 곡선: 포트폴리오 모드는 평가금액 곡선, 거래별 모드는 청산일별 net 수익률 복리 곡선
+ * - 곡선 시점마다 전략 기간 수익률 vs 같은 구간 벤치마크 수익률 (첫 구간은 기준가부터)
+ * @returns 비교할 거래가 없거나 기준일 이전 벤치마크 데이터가 없으면 null
+ */
+export function compareWithBenchmark(
+    symbol: string,
+    benchmarkBars: OhlcvRecord[],
+    equityCurve: EquityPoint[],
+    trades: BacktestTrade[],
+    compounded: boolean
+): { summary: BenchmarkSummary; equityCurve: EquityPoint[] } | null {
+    if (equityCurve.length === 0 || trades.length === 0) return null;
+
+    const startDate = compounded
+        ? equityCurve[0].date
+        : trades.reduce((min, t) => (t.entryDate < min ? t.entryDate : min), trades[0].entryDate);
+    const base = closeAt(benchmarkBars, startDate, false);
+    if (!base) return null;
+
+    const strategyCurve = compounded ? equityCurve : buildNetCompoundedCurve(trades);
+    const benchmarkCurve = strategyCurve.map(p => {
+        const close = closeAt(benchmarkBars, p.date, true) ?? base;
+        return { date: p.date, cumulativeReturn: parseFloat(((close / base - 1) * 100).toFixed(4)) };
+    });
+
+    const strategyReturns: number[] = [];
+    const benchmarkReturns: number[] = [];
+    let prevStrategy = 1;
+    let prevBenchmark = 1;
+    for (let i = 0; i < strategyCurve.length; i++) {
+        const strategy = 1 + strategyCurve[i].cumulativeReturn / 100;
+        const benchmark = 1 + benchmarkCurve[i].cumulativeReturn / 100;
+        strategyReturns.push((strategy / prevStrategy - 1) * 100);
+        benchmarkReturns.push((benchmark / prevBenchmark - 1) * 100);
+        prevStrategy = strategy;
+        prevBenchmark = benchmark;
+    }
+
+    const endDate = strategyCurve[strategyCurve.length - 1].date;
+    const strategyReturn = strategyCurve[strategyCurve.length - 1].cumulativeReturn;
+    const benchmarkReturn = benchmarkCurve[benchmarkCurve.length - 1].cumulativeReturn;
+
+    return {
+        summary: {
+            symbol,
+            startDate,
+            endDate,
+            strategyReturn,
+            benchmarkReturn,
+            excessReturn: parseFloat((strategyReturn - benchmarkReturn).toFixed(4)),
+            ...calcRelativeStats(strategyReturns, benchmarkReturns),
+        },
+        equityCurve: benchmarkCurve,
+    };
+}
@@ -0,0 +1,150 @@
+/**
+ * compare.ts
+ *
+ * 여러 백테스트 결과 나란히 비교 (순수 함수)
+ * - 첫 번째 결과를 기준으로 요약 지표 / grade별 성과 차이 계산
+ * - 설정은 평탄화한 경로 단위로 값이 다른 항목만 보고
+ * - 거래는 (종목, 진입일)로 맞춰 한 결과에만 있는 거래를 추림
+ */
+
+import type { BacktestComparison, BacktestResult, BacktestTrade } from './types.js';
+
+/** 비교 요약 지표 (summary 경로, Sharpe는 거래당 정의 하나만: sharpeRatio / net.sharpeRatio) */
+const SUMMARY_METRICS = [
+    'totalTrades',
+    'winRate',
+    'avgReturn',
+    'medianReturn',
+    'stdReturn',
+    'sharpeRatio',
+    'maxDrawdown',
+    'targetHitRate',
+    'stopLossHitRate',
+    'profitFactor',
+    'avgCostPct',
+    'net.winRate',
+    'net.avgReturn',
+    'net.sharpeRatio',
+    'net.maxDrawdown',
+    'net.profitFactor',
+    'risk.cagr',
+    'risk.annualizedSortino',
+    'risk.calmarRatio',
+    'risk.ulcerIndex',
+    'risk.exposurePct',
+    'risk.longestLosingStreak',
+    'risk.expectancyR',
+    'benchmark.excessReturn',
+    'benchmark.informationRatio',
+] as const;
+
+function round(value: number): number {
+    return parseFloat(value.toFixed(4));
+}
+
+function getPath(obj: unknown, path: string): unknown {
+    return path.split('.').reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), obj);
+}
+
+/** 중첩 객체 → { 'a.b': 값 } (배열/원시값은 잎으로 취급) */
+function flatten(obj: Record<string, unknown>, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+    for (const [key, value] of Object.entries(obj)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+            flatten(value as Record<string, unknown>, path, out);
+        } else if (value !== undefined) {
+            out[path] = value;
+        }
+    }
+    return out;
+}
+
+function tradeKey(t: Pick<BacktestTrade, 'symbol' | 'entryDate' | 'direction'>): string {
+    return `${t.symbol}|${t.entryDate}|${t.direction ?? 'long'}`;
+}
+
+export function compareBacktestResults(results: BacktestResult[]): BacktestComparison {
+    // 1. 요약 지표 (어느 결과에도 없는 지표는 제외, 일부에만 있으면 null)
+    const summary = SUMMARY_METRICS
+        .map(metric => {
+            const values = results.map(r => {
+                const v = getPath(r.summary, metric);
+                return typeof v === 'number' ? v : null;
+            });
+            const base = values[0];
+            const deltas = values.map(v => (v === null || base === null ? null : round(v - base)));
+            return { metric, values, deltas };
+        })
+        .filter(({ values }) => values.some(v => v !== null));
+
+    // 2. 설정 차이
+    const flatConfigs = results.map(r => flatten(r.config as unknown as Record<string, unknown>));
+    const paths = [...new Set(flatConfigs.flatMap(c => Object.keys(c)))].sort();
+    const configDiff = paths
+        .map(path => ({ path, values: flatConfigs.map(c => c[path] ?? null) }))
+        .filter(({ values }) => new Set(values.map(v => JSON.stringify(v))).size > 1);
+
+    // 3. Equity curve 정렬 (날짜 합집합, 빈 날짜는 직전 값 유지)
+    const dates = [...new Set(results.flatMap(r => r.equityCurve.map(p => p.date)))].sort();
+    const series = results.map(r => {
+        const byDate = new Map(r.equityCurve.map(p => [p.date, p.cumulativeReturn]));
+        let last: number | null = null;
+        return dates.map(date => {
+            const value = byDate.get(date);
+            if (value !== undefined) last = value;
+            return last;
+        });
+    });
+
+    // 4. grade별 성과 차이
+    const grades: ('A' | 'B' | 'C' | 'D')[] = ['A', 'B', 'C', 'D'];
+    const gradeDeltas = grades.map(grade => {
+        const runs = results.map(r => {
+            const g = r.gradeBreakdown.find(b => b.grade === grade);
+            return { tradeCount: g?.tradeCount ?? 0, winRate: g?.winRate ?? 0, avgReturn: g?.avgReturn ?? 0 };
+        });
+        const base = runs[0];
+        return {
+            grade,
+            runs,
+            deltas: runs.map(run => ({
+                tradeCount: run.tradeCount - base.tradeCount,
+                winRate: round(run.winRate - base.winRate),
+                avgReturn: round(run.avgReturn - base.avgReturn),
+            })),
+        };
+    });
+
+    // 5. 한 결과에만 있는 거래
+    const occurrences = new Map<string, number>();
+    for (const r of results) {
+        for (const key of new Set(r.trades.map(tradeKey))) {
+            occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+        }
+    }
+    const uniqueTrades = results.map(r => ({
+        runId: r.id,
+        trades: r.trades
+            .filter(t => occurrences.get(tradeKey(t)) === 1)
+            .map(t => ({
+                symbol: t.symbol,
+                direction: t.direction ?? 'long',
+                entryDate: t.entryDate,
+                exitDate: t.exitDate,
+                swingGrade: t.swingGrade,
+                gradeScore: t.gradeScore,
+                returnPct: t.returnPct,
+                netReturnPct: t.netReturnPct,
+                exitReason: t.exitReason,
+            })),
+    }));
+
+    return {
+        runs: results.map(r => ({ id: r.id, name: r.name ?? null, executedAt: r.executedAt })),
+        summary,
+        configDiff,
+        equityCurves: { dates, series },
+        gradeDeltas,
+        uniqueTrades,
+    };
+}
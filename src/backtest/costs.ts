@@ -0,0 +1,125 @@
+/**
+ * costs.ts
+ *
+ * 거래비용 모델 (위탁수수료, 매도 거래세, 체결 슬리피지)
+ * - 주식/ETF 규칙을 분리 (국내 주식형 ETF는 매도 거래세 면제)
+ * - 슬리피지는 매수 시 불리하게(+), 매도 시 불리하게(-) 체결가에 반영
+ * - 부분 익절 거래는 각 청산 가격별로 매도 비용을 따로 계산
+ * - short는 진입 시 매도, 청산 시 매수 (대차 수수료는 미반영)
+ * - 시장별 기본값 (KR: KRX 수수료/거래세/호가단위, US: 수수료 + SEC fee, $0.01 호가단위)
+ */
+
+import type { BacktestMarket, BacktestTrade, CostModel, CostModelConfig, TransactionCostRule } from './types.js';
+
+/** KRX 기본 비용 (2026년 세율 기준, 온라인 위탁수수료 수준) */
+export const DEFAULT_COST_MODEL: CostModel = {
+    stock: { commissionBps: 1.5, sellTaxPct: 0.2, slippageBps: 0, slippageTicks: 1 },
+    etf: { commissionBps: 1.5, sellTaxPct: 0, slippageBps: 0, slippageTicks: 1 },
+    etfSymbols: [],
+};
+
+/**
+ * 미국 주식 기본 비용 (국내 증권사 해외주식 온라인 수수료 수준)
+ * - 거래세 없음, 매도 시 SEC fee (0.00278%)만 부과 → sellTaxPct로 반영
+ * - 주식/ETF 동일 규칙
+ */
+export const US_COST_MODEL: CostModel = {
+    stock: { commissionBps: 25, sellTaxPct: 0.00278, slippageBps: 0, slippageTicks: 1 },
+    etf: { commissionBps: 25, sellTaxPct: 0.00278, slippageBps: 0, slippageTicks: 1 },
+    etfSymbols: [],
+    market: 'US',
+};
+
+/** 비용을 전혀 반영하지 않는 모델 (gross 재현/테스트용) */
+export const ZERO_COST_MODEL: CostModel = {
+    stock: { commissionBps: 0, sellTaxPct: 0, slippageBps: 0, slippageTicks: 0 },
+    etf: { commissionBps: 0, sellTaxPct: 0, slippageBps: 0, slippageTicks: 0 },
+    etfSymbols: [],
+};
+
+/** config.costs → 비용 모델 (지정하지 않은 항목은 시장별 기본값) */
+export function resolveCostModel(config?: CostModelConfig, market: BacktestMarket = 'KR'): CostModel {
+    const base = market === 'US' ? US_COST_MODEL : DEFAULT_COST_MODEL;
+    return {
+        stock: { ...base.stock, ...config?.stock },
+        etf: { ...base.etf, ...config?.etf },
+        etfSymbols: config?.etfSymbols ?? base.etfSymbols,
+        market,
+    };
+}
+
+export function getCostRule(model: CostModel, symbol: string): TransactionCostRule {
+    return model.etfSymbols.includes(symbol) ? model.etf : model.stock;
+}
+
+/**
+ * 호가가격단위
+ * - KR: KRX 2023년 개편 기준, ETF/ETN은 가격대와 무관하게 5원 (2,000원 미만 1원)
+ * - US: $1 이상 $0.01, 미만 $0.0001 (Reg NMS Rule 612)
+ */
+export function getTickSize(price: number, isEtf = false, market: BacktestMarket = 'KR'): number {
+    if (market === 'US') return price < 1 ? 0.0001 : 0.01;
+    if (price < 2_000) return 1;
+    if (isEtf) return 5;
+    if (price < 5_000) return 5;
+    if (price < 20_000) return 10;
+    if (price < 50_000) return 50;
+    if (price < 200_000) return 100;
+    if (price < 500_000) return 500;
+    return 1_000;
+}
+
+function slippage(price: number, rule: TransactionCostRule, isEtf: boolean, market: BacktestMarket): number {
+    return price * rule.slippageBps / 10_000 + rule.slippageTicks * getTickSize(price, isEtf, market);
+}
+
+/** 1주 매수에 실제 지출되는 현금 (슬리피지 + 수수료) */
+export function buyCashPerShare(price: number, rule: TransactionCostRule, isEtf = false, market: BacktestMarket = 'KR'): number {
+    const fill = price + slippage(price, rule, isEtf, market);
+    return fill * (1 + rule.commissionBps / 10_000);
+}
+
+/** 1주 매도로 실제 들어오는 현금 (슬리피지, 수수료, 거래세 차감) */
+export function sellCashPerShare(price: number, rule: TransactionCostRule, isEtf = false, market: BacktestMarket = 'KR'): number {
+    const fill = Math.max(0, price - slippage(price, rule, isEtf, market));
+    return fill * (1 - rule.commissionBps / 10_000 - rule.sellTaxPct / 100);
+}
+
+/**
+ * 부분 익절 거래의 잔량 청산가 (exitPrice는 수량 가중 평균이므로 역산)
+ */
+export function restExitPrice(trade: Pick<BacktestTrade, 'exitPrice' | 'partialExit'>): number {
+    const partial = trade.partialExit;
+    if (!partial || partial.ratio >= 1) return trade.exitPrice;
+    return (trade.exitPrice - partial.ratio * partial.price) / (1 - partial.ratio);
+}
+
+/**
+ * 비용 차감 후 수익률 (%)
+ * - long: 매수 현금 지출 대비 매도 현금 유입 (부분 익절분 포함)
+ * - short: 진입 매도 현금 유입 대비 (유입 - 환매수 현금 지출)
+ */
+export function calcNetReturnPct(
+    trade: Pick<BacktestTrade, 'symbol' | 'direction' | 'entryPrice' | 'exitPrice' | 'partialExit'>,
+    model: CostModel
+): number {
+    const rule = getCostRule(model, trade.symbol);
+    const isEtf = rule === model.etf;
+    const market = model.market ?? 'KR';
+    const isShort = trade.direction === 'short';
+    const exitCash = isShort ? buyCashPerShare : sellCashPerShare;
+
+    const entryCash = isShort
+        ? sellCashPerShare(trade.entryPrice, rule, isEtf, market)
+        : buyCashPerShare(trade.entryPrice, rule, isEtf, market);
+    if (entryCash <= 0) return 0;
+
+    const partial = trade.partialExit;
+    const exitTotal = partial
+        ? partial.ratio * exitCash(partial.price, rule, isEtf, market)
+            + (1 - partial.ratio) * exitCash(restExitPrice(trade), rule, isEtf, market)
+        : exitCash(trade.exitPrice, rule, isEtf, market);
+
+    const net = isShort ? 1 - exitTotal / entryCash : exitTotal / entryCash - 1;
+    return parseFloat((net * 100).toFixed(4));
+}
@@ -0,0 +1,100 @@
+/**
+ * data-provider.ts
+ *
+ * 백테스트용 OHLCV 공급자 구현
+ * - store: 로컬 SQLite 저장소 (기본값, KIS 자격증명이 있으면 부족분만 증분 동기화)
+ * - kis:   매 실행마다 KIS 직접 조회 (저장소 미사용)
+ * - market/exchange로 국내/미국 조회 경로 선택 (ohlcv-store.ts의 fetchKisOhlcv)
+ */
+
+import { shiftDateString } from '../tools/korea/kis-client.js';
+import { fetchKisOhlcv, getStoredOhlcv, syncOhlcvFromKis, type OhlcvMarketTarget } from './ohlcv-store.js';
+import { checkpoint, throwIfCancelled } from './progress.js';
+import type { BacktestRunOptions, OhlcvDateRange, OhlcvProvider, OhlcvRecord } from './types.js';
+
+const KIS_RATE_LIMIT_MS = 100;
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function hasKisCredentials(): boolean {
+    return Boolean(process.env.KIS_APP_KEY && process.env.KIS_APP_SECRET);
+}
+
+/**
+ * 로컬 저장소 공급자
+ * @param syncFromKis  저장소 조회 전 KIS 증분 동기화 여부 (기본: 자격증명 유무)
+ * @param market       동기화 대상 시장 (기본: KR), US는 exchange(기본: NAS)까지 사용
+ */
+export function createStoreProvider(
+    options: { syncFromKis?: boolean } & OhlcvMarketTarget = {}
+): OhlcvProvider {
+    const syncFromKis = options.syncFromKis ?? hasKisCredentials();
+    const target: OhlcvMarketTarget = { market: options.market, exchange: options.exchange };
+
+    return {
+        name: syncFromKis ? 'store+kis' : 'store',
+        async getDailyBars(symbol: string, minBars: number, range?: OhlcvDateRange): Promise<OhlcvRecord[]> {
+            if (syncFromKis) {
+                try {
+                    const called = await syncOhlcvFromKis(symbol, minBars, range, target);
+                    if (called) await sleep(KIS_RATE_LIMIT_MS); // KIS API rate limit
+                } catch (err) {
+                    // 동기화 실패 시 저장된 데이터로 계속 진행
+                    console.warn(`[OHLCV Store] KIS sync failed for ${symbol}: ${err}`);
+                }
+            }
+            if (!range?.startDate) {
+                return getStoredOhlcv(symbol, { endDate: range?.endDate, limit: minBars });
+            }
+            // 워밍업(startDate 이전 minBars개) + 구간 전체
+            const warmup = getStoredOhlcv(symbol, { endDate: shiftDateString(range.startDate, -1), limit: minBars });
+            return [...warmup, ...getStoredOhlcv(symbol, range)];
+        },
+    };
+}
+
+/** KIS 직접 조회 공급자 (저장소 미사용, 기존 동작) */
+export function createKisProvider(target: OhlcvMarketTarget = {}): OhlcvProvider {
+    return {
+        name: 'kis',
+        async getDailyBars(symbol: string, minBars: number, range?: OhlcvDateRange): Promise<OhlcvRecord[]> {
+            const bars = await fetchKisOhlcv(symbol, minBars, range, target);
+            await sleep(KIS_RATE_LIMIT_MS); // KIS API rate limit
+            return bars;
+        },
+    };
+}
+
+/**
+ * 유니버스 전체 OHLCV 로드 (종목별 1회)
+ * 조회 실패 종목은 경고 후 제외, 빈 데이터는 엔진의 데이터 부족 검증에 맡김
+ * 종목마다 'load' 진행률 보고 / 취소 확인
+ * options.range 지정 시 공급자에 조회 구간 전달 (OhlcvProvider.getDailyBars 참고)
+ */
+export async function loadUniverseOhlcv(
+    universe: string[],
+    provider: OhlcvProvider,
+    minBars: number,
+    logTag = 'Backtest',
+    options: Pick<BacktestRunOptions, 'onProgress' | 'signal'> & { range?: OhlcvDateRange } = {}
+): Promise<Map<string, OhlcvRecord[]>> {
+    const ohlcvCache = new Map<string, OhlcvRecord[]>();
+
+    for (const [i, symbol] of universe.entries()) {
+        throwIfCancelled(options.signal);
+        try {
+            const bars = await provider.getDailyBars(symbol, minBars, options.range);
+            if (bars.length === 0) {
+                console.warn(`[${logTag}] No OHLCV data for ${symbol} (provider: ${provider.name})`);
+            }
+            ohlcvCache.set(symbol, bars);
+        } catch (err) {
+            console.warn(`[${logTag}] OHLCV fetch failed for ${symbol}: ${err}`);
+        }
+        await checkpoint(options, { phase: 'load', completed: i + 1, total: universe.length, symbol });
+    }
+
+    return ohlcvCache;
+}
@@ -3,17 +3,19 @@
  *
  * 백테스트 핵심 루프
  * Look-ahead bias 방지: simDate 기준 미래 데이터 사용 금지
+ * 시장(config.market)별로 데이터 조회 경로 / 기술 스코어 / 비용 모델 / 가격 단위가 달라짐
  */
 
-import { SMA, RSI } from 'technicalindicators';
-import { fetchDailyOHLCV } from '../tools/korea/kis-client.js';
-import {
-    calculateATR,
-    calcSwingGrade,
-    type OhlcvBar,
-} from '../analysis/signal-generator.js';
-import { calculateTrendScore, calculateMomentumScore } from '../analysis/scorer.js';
-import { calculateVolumeProfile, type OhlcvBarWithVolume } from '../analysis/volume-profile.js';
+import { calcSwingGrade, calculateFibonacciExtension } from '../analysis/signal-generator.js';
+import { calculateTrendScore, calculateMomentumScore, scoreUsStock } from '../analysis/scorer.js';
+import { DEFAULT_SCORING_PROFILE, getScoringProfile, toProfileRef, type ScoringProfile } from '../analysis/scoring-profile.js';
+import { getIndicatorSeries, type IndicatorSnapshot } from './indicator-series.js';
+import { simulatePortfolio } from './portfolio.js';
+import { resolveExit } from './exit-rules.js';
+import { evaluateRule, type RuleContext } from './strategy-rules.js';
+import { calcNetReturnPct, DEFAULT_COST_MODEL, resolveCostModel } from './costs.js';
+import { compareWithBenchmark, normalizeBenchmarkSymbol } from './benchmark.js';
+import { checkpoint } from './progress.js';
 import {
     buildEquityCurve,
     calcMaxDrawdown,
@@ -24,148 +26,200 @@ import {
     calcSharpeRatio,
     calcProfitFactor,
     calcGradeBreakdown,
+    calcPeriodBreakdown,
+    calcRiskMetrics,
     calcFactorCorrelation,
+    calcReturnSummary,
+    calcAvgCostPct,
+    calcBootstrapSummary,
+    toNetTrades,
 } from './stats.js';
+import { createStoreProvider, loadUniverseOhlcv } from './data-provider.js';
+import { createMembershipFilter } from './universe-store.js';
 import type {
     OhlcvRecord,
+    OhlcvDateRange,
+    BacktestMarket,
     BacktestConfig,
+    BacktestRunOptions,
     BacktestTrade,
     BacktestResult,
+    CostModel,
+    ExitRuleConfig,
+    TradeDirection,
     SwingGradeWeights,
     SwingGradeThresholds,
+    StrategyRules,
+    SkippedSymbol,
 } from './types.js';
 import { randomUUID } from 'crypto';
 
-// ─── OHLCV 정규화 ─────────────────────────────────────────────────────
+// ─── 단일 시뮬레이션 날짜의 거래 계산 ───────────────────────────────
 
-/**
- * KIS API 응답(문자열, 최신→과거 순) → 숫자, 오름차순 정렬
- */
-function normalizeOhlcv(raw: any[]): OhlcvRecord[] {
-    return [...raw]
-        .reverse() // KIS는 최신→과거, 오름차순 변환
-        .map(r => ({
-            date: r.date,
-            open: Number(r.open),
-            high: Number(r.high),
-            low: Number(r.low),
-            close: Number(r.close),
-            volume: Number(r.volume),
-        }));
+interface SimResult {
+    trade: BacktestTrade;
 }
 
-// ─── 지표 계산 유틸 ──────────────────────────────────────────────────
+/** simDate별 거래 계산 파라미터 (엔진/Parameter Sweep 공용) */
+export interface SimulationParams {
+    holdingPeriod: number;
+    weights?: SwingGradeWeights;
+    thresholds?: SwingGradeThresholds;
+    exitRule?: ExitRuleConfig;
+    costs?: CostModel;          // 미지정 시 KRX 기본 비용
+    market?: BacktestMarket;    // 기술 스코어/가격 단위 (default: 'KR')
+    strategy?: StrategyRules;   // 지정 시 entry 불충족 시그널은 null (gradeFilter는 호출부에서 생략)
+    direction?: TradeDirection; // default: 'long' ('both'는 호출부에서 방향별로 각각 호출)
+    profile?: ScoringProfile;   // RSI / 기술 점수 / R/R 구간, weights·thresholds 기본값 (default: 내장 기본 프로파일)
+}
 
-function average(arr: number[]): number {
-    if (arr.length === 0) return 0;
-    return arr.reduce((a, b) => a + b, 0) / arr.length;
+/** config.direction → simDate마다 평가할 방향 목록 */
+export function resolveDirections(direction: BacktestConfig['direction']): TradeDirection[] {
+    if (direction === 'both') return ['long', 'short'];
+    return [direction ?? 'long'];
 }
 
-function sleep(ms: number) {
-    return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * 기술 점수 (0~100)
+ * - KR: trend + momentum (시장흐름/리스크/펀더멘털 중립 0으로 고정), 50 + total×6, RSI 구간은 프로파일
+ * - US: scoreUsStock (trend + momentum + risk), analyzeUsStock과 같은 50 + total×8
+ */
+function calcTechnicalScore(
+    ind: IndicatorSnapshot,
+    ma: { ma20: number; ma60: number; ma120: number },
+    rsi: number,
+    market: BacktestMarket,
+    profile: ScoringProfile
+): number {
+    const price = ind.close;
+    if (market === 'US') {
+        const { scores } = scoreUsStock(price, ma.ma20, ma.ma60, ma.ma120, rsi, ind.avgVol5, ind.avgVol20, ind.atr);
+        return Math.max(0, Math.min(100, 50 + scores.total * 8));
+    }
+    const trendScore = calculateTrendScore(price, ma);
+    const momentumScore = calculateMomentumScore(rsi, ind.avgVol5, ind.avgVol20, profile.scorer.rsi);
+    return Math.max(0, Math.min(100, 50 + (trendScore + momentumScore) * 6));
 }
 
-// ─── 단일 시뮬레이션 날짜의 거래 계산 ───────────────────────────────
+/**
+ * 보유 구간에서 strategy.exit를 처음 충족하는 봉 (holdBars 인덱스, 없으면 -1)
+ * 각 봉의 지표는 그 봉까지의 데이터로 계산된 값 (look-ahead 없음)
+ */
+function findRuleExitIndex(
+    exitRule: StrategyRules['exit'],
+    bars: OhlcvRecord[],
+    entryBarIdx: number,
+    holdLength: number,
+    entryPrice: number,
+    signal: NonNullable<RuleContext['signal']>
+): number {
+    if (!exitRule) return -1;
+    const series = getIndicatorSeries(bars);
+    const sign = signal.direction === 'short' ? -1 : 1;
+    for (let k = 0; k < holdLength; k++) {
+        const bar = bars[entryBarIdx + k];
+        const position = { returnPct: sign * (bar.close - entryPrice) / entryPrice * 100, holdingDays: k + 1 };
+        if (evaluateRule(exitRule, { bar, ind: series.at(entryBarIdx + k), signal, position })) return k;
+    }
+    return -1;
+}
 
-interface SimResult {
-    trade: BacktestTrade;
+/** 가격 표시 단위 반올림 (KR: 원, US: 센트) */
+function roundPrice(price: number, market: BacktestMarket): number {
+    return market === 'US' ? Math.round(price * 100) / 100 : Math.round(price);
 }
 
-function simulateTrade(
+export function simulateTrade(
     symbol: string,
     bars: OhlcvRecord[],
     simDate: number,
-    holdingPeriod: number,
-    weights?: SwingGradeWeights,
-    thresholds?: SwingGradeThresholds
+    params: SimulationParams
 ): SimResult | null {
-    // ── 지표 계산 (bars[0..simDate]만 사용) ───────────────────────────
-    const slice = bars.slice(0, simDate + 1);
-    const closes = slice.map(b => b.close);
-    const volumes = slice.map(b => b.volume);
-
-    if (closes.length < 120) return null;
+    const {
+        holdingPeriod, weights, thresholds, exitRule,
+        costs = DEFAULT_COST_MODEL, market = 'KR', strategy, direction = 'long',
+        profile = DEFAULT_SCORING_PROFILE,
+    } = params;
+    const isShort = direction === 'short';
 
-    // MA 계산 (SMA 라이브러리 사용)
-    const ma20Arr = SMA.calculate({ period: 20, values: closes });
-    const ma60Arr = SMA.calculate({ period: 60, values: closes });
-    const ma120Arr = SMA.calculate({ period: 120, values: closes });
-    const rsiArr = RSI.calculate({ period: 14, values: closes });
+    // ── 지표 조회 (종목별 1회 계산된 시계열, bars[0..simDate]만 반영) ───
+    if (simDate + 1 < 120 || simDate >= bars.length) return null;
 
-    const lastMa20 = ma20Arr[ma20Arr.length - 1];
-    const lastMa60 = ma60Arr[ma60Arr.length - 1];
-    const lastMa120 = ma120Arr[ma120Arr.length - 1];
-    const lastRsi = rsiArr[rsiArr.length - 1];
-    const currentPrice = slice[slice.length - 1].close;
+    const ind = getIndicatorSeries(bars).at(simDate);
+    const { ma20: lastMa20, ma60: lastMa60, ma120: lastMa120, rsi: lastRsi, atr, recentHigh, recentLow } = ind;
+    const currentPrice = ind.close;
 
     if (!lastMa20 || !lastMa60 || !lastMa120 || !lastRsi) return null;
 
-    // 거래량 평균 (모멘텀 점수용)
-    const recentVols = volumes.slice(-20);
-    const avgVol5 = average(recentVols.slice(-5));
-    const avgVol20 = average(recentVols);
-
     // ── 기술 점수 계산 (0~100) ─────────────────────────────────────
-    const trendScore = calculateTrendScore(currentPrice, {
-        ma20: lastMa20,
-        ma60: lastMa60,
-        ma120: lastMa120,
-    });
-    const momentumScore = calculateMomentumScore(lastRsi, avgVol5, avgVol20);
-    // 백테스트: 시장흐름/리스크/펀더멘털 중립(0)으로 고정
-    const scorerTotal = trendScore + momentumScore;
-    const technicalScore = Math.max(0, Math.min(100, 50 + scorerTotal * 6));
-
-    // ── ATR 계산 ─────────────────────────────────────────────────────
-    const ohlcvBars: OhlcvBar[] = slice.map(b => ({
-        high: b.high,
-        low: b.low,
-        close: b.close,
-        volume: b.volume,
-    }));
-    const atr = calculateATR(ohlcvBars, 14);
-
-    // ── Volume Profile 계산 (60일 lookback) ───────────────────────
-    const vpSlice60 = slice.slice(-60);
-    const barsWithVol: OhlcvBarWithVolume[] = vpSlice60
-        .filter(b => b.volume > 0)
-        .map(b => ({ high: b.high, low: b.low, close: b.close, volume: b.volume }));
-    const vp = barsWithVol.length >= 20
-        ? calculateVolumeProfile(barsWithVol, currentPrice, 50, 60)
-        : null;
+    const technicalScore = calcTechnicalScore(
+        ind, { ma20: lastMa20, ma60: lastMa60, ma120: lastMa120 }, lastRsi, market, profile
+    );
 
-    // ── R/R 계산 ─────────────────────────────────────────────────────
-    const recentHighArr = slice.slice(-60).map(b => b.high);
-    const recentHigh = Math.max(...recentHighArr);
+    // ── Volume Profile (60일 lookback) ─────────────────────────────
+    const vp = ind.volumeProfile;
 
+    // ── R/R 계산 ─────────────────────────────────────────────────────
     const entryBarIdx = simDate + 1;
     if (entryBarIdx >= bars.length) return null;
 
     const entryPrice = bars[entryBarIdx].open;
     if (entryPrice <= 0) return null;
 
-    // 목표가: 최근 고점 vs BB 상단 중 큰 값, ATR×10 이내로 캡
     const twoWeekMaxMove = atr * 10;
-    let targetPrice = Math.max(recentHigh, lastMa20 + 2 * atr);
-    if (targetPrice > entryPrice + twoWeekMaxMove) {
-        targetPrice = Math.round(entryPrice + atr * 5);
-    }
+    let targetPrice: number;
+    let target2Price: number;
+    let stopLossPrice: number;
+
+    if (isShort) {
+        // short: long 산식의 대칭 (목표가는 지지선 아래, 손절가는 저항선 위)
+        targetPrice = Math.min(recentLow, lastMa20 - 2 * atr);
+        if (targetPrice < entryPrice - twoWeekMaxMove) {
+            targetPrice = roundPrice(entryPrice - atr * 5, market);
+        }
+        target2Price = Math.max(
+            calculateFibonacciExtension(recentHigh, recentLow, 1.618),
+            entryPrice - twoWeekMaxMove,
+            0
+        );
+        stopLossPrice = Math.min(entryPrice + atr * 2, lastMa60 * 1.01);
+    } else {
+        // 목표가: 최근 고점 vs BB 상단 중 큰 값, ATR×10 이내로 캡
+        targetPrice = Math.max(recentHigh, lastMa20 + 2 * atr);
+        if (targetPrice > entryPrice + twoWeekMaxMove) {
+            targetPrice = roundPrice(entryPrice + atr * 5, market);
+        }
 
-    // 손절가: ATR×2 vs MA60×0.99 중 높은 값
-    const stopLossAtr = entryPrice - atr * 2;
-    const stopLossMa60 = lastMa60 * 0.99;
-    const stopLossPrice = Math.max(stopLossAtr, stopLossMa60);
+        // 2차 목표가: 피보나치 1.618 확장 (2주 캡 적용, generateTradeSignal과 동일)
+        target2Price = Math.min(
+            calculateFibonacciExtension(recentLow, recentHigh, 1.618),
+            entryPrice + twoWeekMaxMove
+        );
+
+        // 손절가: ATR×2 vs MA60×0.99 중 높은 값
+        stopLossPrice = Math.max(entryPrice - atr * 2, lastMa60 * 0.99);
+    }
 
-    const reward = targetPrice - entryPrice;
-    const risk = entryPrice - stopLossPrice;
+    const reward = isShort ? entryPrice - targetPrice : targetPrice - entryPrice;
+    const risk = isShort ? stopLossPrice - entryPrice : entryPrice - stopLossPrice;
     const rr = risk > 0 ? parseFloat((reward / risk).toFixed(2)) : 0;
 
+    // 권고 비중: 계좌 1% 위험 원칙 (generateTradeSignal의 positionSizePercent와 동일)
+    const stopLossPct = (risk / entryPrice) * 100;
+    const positionSizePercent = stopLossPct > 0
+        ? parseFloat(Math.min(100, 1 / stopLossPct * 100).toFixed(1)) : 10;
+
     // ── Grade 계산 ───────────────────────────────────────────────────
     const gradeResult = calcSwingGrade(
         technicalScore, rr, vp, currentPrice, lastMa60,
-        weights, thresholds
+        weights ?? profile.swingGrade.weights, thresholds ?? profile.swingGrade.thresholds,
+        direction, profile.swingGrade
     );
 
+    // ── 선언형 진입 규칙 (시그널 봉 기준) ─────────────────────────────
+    const signal = { grade: gradeResult.grade, gradeScore: gradeResult.score, technicalScore, rr, direction };
+    if (strategy && !evaluateRule(strategy.entry, { bar: bars[simDate], ind, signal })) return null;
+
     // ── 보유기간 성과 계산 ───────────────────────────────────────────
     const holdEnd = simDate + 1 + holdingPeriod;
     if (holdEnd > bars.length) return null;
@@ -173,24 +227,53 @@ function simulateTrade(
     const holdBars = bars.slice(simDate + 1, holdEnd);
     if (holdBars.length === 0) return null;
 
-    const exitBar = holdBars[holdBars.length - 1];
-    const exitPrice = exitBar.close;
-    const peakPrice = Math.max(...holdBars.map(b => b.high));
-    const troughPrice = Math.min(...holdBars.map(b => b.low));
+    // 선언형 청산 규칙: 처음 충족한 봉까지로 보유 구간을 줄이고, 그 전에 exitRule 청산이 없으면 그 봉 종가 청산
+    const ruleExitIndex = findRuleExitIndex(strategy?.exit, bars, entryBarIdx, holdBars.length, entryPrice, signal);
+    const exitWindow = ruleExitIndex >= 0 ? holdBars.slice(0, ruleExitIndex + 1) : holdBars;
 
-    const returnPct = parseFloat(((exitPrice - entryPrice) / entryPrice * 100).toFixed(4));
-    const mfe = parseFloat(((peakPrice - entryPrice) / entryPrice * 100).toFixed(4));
-    const mae = parseFloat(((troughPrice - entryPrice) / entryPrice * 100).toFixed(4));
-
-    const targetAchieved = peakPrice >= targetPrice;
-    const stopLossHit = troughPrice <= stopLossPrice;
+    // 청산 규칙 적용 → 실제 보유 구간은 진입봉 ~ 청산봉
+    let exit = resolveExit(
+        exitWindow,
+        { entryPrice, stopLossPrice, targetPrice, target2Price, atr },
+        exitRule,
+        direction
+    );
+    if (ruleExitIndex >= 0 && exit.exitReason === 'holding_period') {
+        exit = { ...exit, exitReason: 'rule' };
+    }
+    const heldBars = holdBars.slice(0, exit.exitIndex + 1);
+    const exitBar = heldBars[heldBars.length - 1];
+    const exitPrice = exit.exitPrice;
+    const peakPrice = Math.max(...heldBars.map(b => b.high));
+    const troughPrice = Math.min(...heldBars.map(b => b.low));
+
+    // short는 하락이 수익 → 부호 반전, 유리/불리 극값도 뒤바뀜
+    const sign = isShort ? -1 : 1;
+    const toPct = (price: number) => parseFloat((sign * (price - entryPrice) / entryPrice * 100).toFixed(4));
+    const returnPct = toPct(exitPrice);
+    const mfe = toPct(isShort ? troughPrice : peakPrice);
+    const mae = toPct(isShort ? peakPrice : troughPrice);
+
+    const targetAchieved = isShort ? troughPrice <= targetPrice : peakPrice >= targetPrice;
+    const stopLossHit = isShort ? peakPrice >= stopLossPrice : troughPrice <= stopLossPrice;
+
+    const partialExit = exit.partialExit ? {
+        date: holdBars[exit.partialExit.index].date,
+        price: parseFloat(exit.partialExit.price.toFixed(4)),
+        ratio: exit.partialExit.ratio,
+    } : undefined;
+    const netReturnPct = calcNetReturnPct({ symbol, direction, entryPrice, exitPrice, partialExit }, costs);
 
     const trade: BacktestTrade = {
         symbol,
+        direction,
         entryDate: bars[simDate + 1].date,
         entryPrice,
         exitDate: exitBar.date,
-        exitPrice,
+        exitPrice: parseFloat(exitPrice.toFixed(4)),
+        exitReason: exit.exitReason,
+        holdingDays: heldBars.length,
+        partialExit,
         swingGrade: gradeResult.grade,
         gradeScore: gradeResult.score,
         technicalScore: gradeResult.breakdown.technicalScore,
@@ -198,14 +281,17 @@ function simulateTrade(
         volumeProfileScore: gradeResult.breakdown.volumeProfileScore,
         ma60Score: gradeResult.breakdown.ma60Score,
         returnPct,
+        netReturnPct,
         peakPrice,
         maxFavorableExcursion: mfe,
         maxAdverseExcursion: mae,
         targetAchieved,
         stopLossHit,
         expectedRR: rr,
-        targetPrice: Math.round(targetPrice),
-        stopLossPrice: Math.round(stopLossPrice),
+        targetPrice: roundPrice(targetPrice, market),
+        target2Price: roundPrice(target2Price, market),
+        stopLossPrice: roundPrice(stopLossPrice, market),
+        positionSizePercent,
     };
 
     return { trade };
@@ -213,65 +299,157 @@ function simulateTrade(
 
 // ─── 메인 백테스트 함수 ───────────────────────────────────────────────
 
-export async function runBacktest(config: BacktestConfig): Promise<BacktestResult> {
+/** 종목당 조회 봉 수 (MA120 워밍업 + 시뮬레이션 구간, startDate 미지정 시) */
+export const BACKTEST_LOOKBACK_BARS = 200;
+
+/** 지표 워밍업 봉 수 (MA120), startDate 지정 시 그 이전에 추가로 조회하는 봉 수 */
+export const WARMUP_BARS = 120;
+
+/** config.startDate/endDate → 공급자 조회 구간 (미지정이면 최근 BACKTEST_LOOKBACK_BARS봉) */
+export function resolveOhlcvRange(config: Pick<BacktestConfig, 'startDate' | 'endDate'>): {
+    minBars: number;
+    range?: OhlcvDateRange;
+} {
+    if (!config.startDate && !config.endDate) return { minBars: BACKTEST_LOOKBACK_BARS };
+    return {
+        minBars: config.startDate ? WARMUP_BARS : BACKTEST_LOOKBACK_BARS,
+        range: { startDate: config.startDate, endDate: config.endDate },
+    };
+}
+
+/**
+ * 시뮬레이션 simDate 인덱스 범위 (양끝 포함, 비어 있으면 from > to)
+ * - 워밍업 이후 ~ 보유기간 + 익일 진입 버퍼 이전
+ * - startDate/endDate 지정 시 시그널일(bars[simDate].date)이 구간 안인 날만
+ */
+export function simDateBounds(
+    bars: OhlcvRecord[],
+    holdingPeriod: number,
+    config: Pick<BacktestConfig, 'startDate' | 'endDate'> = {}
+): { from: number; to: number } {
+    let from = WARMUP_BARS;
+    let to = bars.length - holdingPeriod - 2;
+    if (config.startDate) {
+        while (from <= to && bars[from].date < config.startDate) from++;
+    }
+    if (config.endDate) {
+        while (to >= from && bars[to].date > config.endDate) to--;
+    }
+    return { from, to };
+}
+
+export async function runBacktest(
+    config: BacktestConfig,
+    options: BacktestRunOptions = {}
+): Promise<BacktestResult> {
     const {
         universe,
         gradeFilter,
         holdingPeriod,
         weights,
         thresholds,
+        portfolio: portfolioConfig,
+        exitRule,
+        strategy,
     } = config;
+    const market = config.market ?? 'KR';
+    const costs = resolveCostModel(config.costs, market);
+    const directions = resolveDirections(config.direction);
+    const profile = getScoringProfile(config.profile);
 
-    // ── 1. OHLCV 캐시 구성 (종목별 1회 fetch) ────────────────────────
-    const ohlcvCache = new Map<string, OhlcvRecord[]>();
-
-    for (const symbol of universe) {
-        try {
-            const raw = await fetchDailyOHLCV(symbol, 200);
-            const normalized = normalizeOhlcv(raw.output2);
-            ohlcvCache.set(symbol, normalized);
-        } catch (err) {
-            console.warn(`[Backtest] OHLCV fetch failed for ${symbol}: ${err}`);
-        }
-        await sleep(100); // KIS API rate limit
-    }
+    // ── 1. OHLCV 캐시 구성 (종목별 1회 조회, 기본: 로컬 저장소) ─────────
+    const provider = options.provider ?? createStoreProvider({ market, exchange: config.exchange });
+    const { minBars, range } = resolveOhlcvRange(config);
+    const ohlcvCache = await loadUniverseOhlcv(universe, provider, minBars, 'Backtest', { ...options, range });
 
     // ── 2. 시뮬레이션 루프 ──────────────────────────────────────────────
-    const trades: BacktestTrade[] = [];
-    const WARMUP = 120; // MA120 워밍업
+    // 데이터가 없거나 부족한 종목(상장폐지, 조회 실패 등)은 그 종목만 제외하고 결과에 기록
+    const candidates: BacktestTrade[] = [];
+    const skippedSymbols: SkippedSymbol[] = universe
+        .filter(symbol => !ohlcvCache.has(symbol))
+        .map(symbol => ({ symbol, reason: 'no_data', bars: 0 }));
+    const isMember = config.membership ? createMembershipFilter(config.membership) : null;
+    let simulatedSymbols = 0;
 
     for (const [symbol, bars] of ohlcvCache) {
+        const bounds = simDateBounds(bars, holdingPeriod, config);
         if (bars.length < 130) {
-            const err = new Error(`Insufficient data for ${symbol}: need 130+ bars, got ${bars.length}`);
-            (err as any).code = 'INSUFFICIENT_DATA';
-            throw err;
-        }
-        if (bars.length < WARMUP + holdingPeriod + 2) {
-            console.warn(`[Backtest] ${symbol}: insufficient data (${bars.length} bars)`);
-            continue;
+            console.warn(`[Backtest] ${symbol}: skipped, need 130+ bars, got ${bars.length}`);
+            skippedSymbols.push({ symbol, reason: bars.length === 0 ? 'no_data' : 'insufficient_data', bars: bars.length });
+        } else if (bounds.from > bounds.to) {
+            // 기간(startDate/endDate) 안에 시그널 가능한 봉이 없음
+            console.warn(`[Backtest] ${symbol}: skipped, no signal date in range (${bars.length} bars)`);
+            skippedSymbols.push({ symbol, reason: 'insufficient_data', bars: bars.length });
+        } else {
+            for (let simDate = bounds.from; simDate <= bounds.to; simDate++) {
+                // 시점별 유니버스: 시그널일에 편입 상태인 종목만
+                if (isMember && !isMember(symbol, bars[simDate].date)) continue;
+
+                for (const direction of directions) {
+                    const result = simulateTrade(symbol, bars, simDate, {
+                        holdingPeriod, weights, thresholds, exitRule, costs, market, strategy, direction, profile,
+                    });
+                    if (!result) continue;
+
+                    // strategy 지정 시 진입 판정은 simulateTrade에서 끝남
+                    const { trade } = result;
+                    if (strategy || gradeFilter.includes(trade.swingGrade)) {
+                        candidates.push(trade);
+                    }
+                }
+            }
         }
 
-        const maxSimDate = bars.length - holdingPeriod - 2;
+        await checkpoint(options, { phase: 'simulate', completed: ++simulatedSymbols, total: ohlcvCache.size, symbol });
+    }
 
-        for (let simDate = WARMUP; simDate <= maxSimDate; simDate++) {
-            const result = simulateTrade(symbol, bars, simDate, holdingPeriod, weights, thresholds);
-            if (!result) continue;
+    if (universe.length > 0 && skippedSymbols.length === universe.length) {
+        const err = new Error(`Insufficient data: no symbol in the universe has 130+ bars in the requested range (provider: ${provider.name})`);
+        (err as any).code = 'INSUFFICIENT_DATA';
+        throw err;
+    }
 
-            const { trade } = result;
-            if (gradeFilter.includes(trade.swingGrade)) {
-                trades.push(trade);
-            }
+    // ── 3. 포트폴리오 체결 (설정 시: 현금/동시보유 제약으로 실제 체결분만 남김) ──
+    let trades = candidates;
+    let equityCurve = buildEquityCurve(candidates);
+    let maxDrawdown = calcMaxDrawdown(equityCurve);
+    let portfolio: BacktestResult['portfolio'];
+
+    if (portfolioConfig) {
+        const simulated = simulatePortfolio(candidates, ohlcvCache, portfolioConfig, costs);
+        const { initialCapital } = simulated.portfolio;
+        trades = simulated.trades;
+        portfolio = simulated.portfolio;
+        equityCurve = simulated.portfolio.equityCurve.map(p => ({
+            date: p.date,
+            cumulativeReturn: parseFloat(((p.equity / initialCapital - 1) * 100).toFixed(4)),
+        }));
+        maxDrawdown = simulated.portfolio.maxDrawdown;
+    }
+
+    // ── 4. 벤치마크 비교 (설정 시: 같은 날짜 구간 단순 보유 대비) ────────
+    let benchmark: ReturnType<typeof compareWithBenchmark> = null;
+    if (config.benchmark) {
+        const symbol = normalizeBenchmarkSymbol(config.benchmark);
+        const benchmarkBars = await provider.getDailyBars(symbol, minBars, range);
+        if (benchmarkBars.length === 0) {
+            const err = new Error(`No OHLCV data for benchmark ${symbol} (provider: ${provider.name})`);
+            (err as any).code = 'INSUFFICIENT_DATA';
+            throw err;
         }
+        benchmark = compareWithBenchmark(symbol, benchmarkBars, equityCurve, trades, Boolean(portfolio));
     }
 
-    // ── 3. 통계 집계 ──────────────────────────────────────────────────
-    const equityCurve = buildEquityCurve(trades);
+    // ── 5. 통계 집계 ──────────────────────────────────────────────────
     const avgReturn = calcAvgReturn(trades);
     const stdReturn = calcStdReturn(trades);
+    const netTrades = toNetTrades(trades);
+    const tradingDays = [...new Set([...ohlcvCache.values()].flatMap(bars => bars.map(b => b.date)))].sort();
 
     const result: BacktestResult = {
         id: randomUUID(),
         config,
+        profile: toProfileRef(profile),
         executedAt: new Date().toISOString(),
         summary: {
             totalTrades: trades.length,
@@ -280,7 +458,7 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
             medianReturn: calcMedianReturn(trades),
             stdReturn,
             sharpeRatio: calcSharpeRatio(avgReturn, stdReturn),
-            maxDrawdown: calcMaxDrawdown(equityCurve),
+            maxDrawdown,
             targetHitRate: trades.length > 0
                 ? parseFloat((trades.filter(t => t.targetAchieved).length / trades.length * 100).toFixed(2))
                 : 0,
@@ -288,69 +466,21 @@ export async function runBacktest(config: BacktestConfig): Promise<BacktestResul
                 ? parseFloat((trades.filter(t => t.stopLossHit).length / trades.length * 100).toFixed(2))
                 : 0,
             profitFactor: calcProfitFactor(trades),
+            avgCostPct: calcAvgCostPct(trades),
+            net: calcReturnSummary(netTrades, portfolio ? maxDrawdown : undefined),
+            risk: calcRiskMetrics(trades, tradingDays, portfolio ? equityCurve : undefined),
+            benchmark: benchmark?.summary,
+            bootstrap: config.bootstrap ? calcBootstrapSummary(netTrades, config.bootstrap) : undefined,
         },
         gradeBreakdown: calcGradeBreakdown(trades),
+        periodBreakdown: calcPeriodBreakdown(trades),
         factorCorrelation: calcFactorCorrelation(trades),
         equityCurve,
+        benchmarkEquityCurve: benchmark?.equityCurve,
+        portfolio,
+        skippedSymbols: skippedSymbols.length > 0 ? skippedSymbols : undefined,
         trades,
     };
 
     return result;
 }
-
-// ─── 결과 파일 저장/조회 ──────────────────────────────────────────────
-
-import { mkdir, writeFile, readFile, readdir } from 'fs/promises';
-import { join } from 'path';
-
-const RESULTS_DIR = './data/backtest-results';
-
-export async function saveBacktestResult(result: BacktestResult): Promise<void> {
-    await mkdir(RESULTS_DIR, { recursive: true });
-    await writeFile(
-        join(RESULTS_DIR, `${result.id}.json`),
-        JSON.stringify(result, null, 2),
-        'utf-8'
-    );
-}
-
-export async function loadBacktestResult(id: string): Promise<BacktestResult | null> {
-    // UUID 형식 검증 (path traversal 방지)
-    if (!/^[0-9a-f-]{36}$/.test(id)) return null;
-    try {
-        const raw = await readFile(join(RESULTS_DIR, `${id}.json`), 'utf-8');
-        return JSON.parse(raw);
-    } catch {
-        return null;
-    }
-}
-
-export async function listBacktestResults(): Promise<{
-    id: string; executedAt: string; config: BacktestConfig;
-    summary: BacktestResult['summary'];
-}[]> {
-    try {
-        const files = await readdir(RESULTS_DIR);
-        const results = await Promise.all(
-            files
-                .filter(f => f.endsWith('.json'))
-                .map(async f => {
-                    try {
-                        const raw = await readFile(join(RESULTS_DIR, f), 'utf-8');
-                        const r: BacktestResult = JSON.parse(raw);
-                        return {
-                            id: r.id,
-                            executedAt: r.executedAt,
-                            config: r.config,
-                            summary: r.summary,
-                        };
-                    } catch {
-                        return null;
-                    }
-                })
-        );
-        return results.filter(Boolean) as any[];
-    } catch {
-        return [];
-    }
-}
@@ -0,0 +1,182 @@
+/**
+ * exit-rules.ts
+ *
+ * 보유기간 중 청산 시점/가격 결정 (순수 함수)
+ * - fixed:        보유기간 마지막 종가 청산 (기존 동작)
+ * - bracket:      손절가/목표가 중 먼저 닿는 쪽에서 청산
+ * - trailing_atr: 보유 중 최고가 - ATR×N 추적 손절
+ * - partial:      target1에서 일부 익절 → 잔량은 손절가를 본전으로 올리고 target2까지 보유
+ *
+ * 일봉만 있으므로 봉 내부 순서는 알 수 없음:
+ * - 시가가 이미 손절/목표를 넘어 시작하면 시가 체결 (갭)
+ * - 같은 봉에서 손절/목표가 모두 닿으면 sameBarPriority로 결정
+ *
+ * short는 가격 부호를 뒤집어(고가↔저가) 같은 long 로직으로 판정한 뒤 되돌림
+ */
+
+import type { ExitReason, ExitRuleConfig, OhlcvRecord, TradeDirection } from './types.js';
+
+export interface ExitLevels {
+    entryPrice: number;
+    stopLossPrice: number;
+    targetPrice: number;
+    target2Price: number;
+    atr: number;
+}
+
+export interface ExitOutcome {
+    exitIndex: number;          // holdBars 내 청산 봉 인덱스
+    exitPrice: number;          // 부분 익절 시 수량 가중 평균 청산가
+    exitReason: ExitReason;
+    partialExit?: {
+        index: number;
+        price: number;
+        ratio: number;
+    };
+}
+
+export const DEFAULT_EXIT_RULE: Required<ExitRuleConfig> = {
+    mode: 'fixed',
+    sameBarPriority: 'stop_first',
+    trailingAtrMultiple: 3,
+    partialRatio: 0.5,
+};
+
+type BarHit = { price: number; reason: 'stop' | 'target' } | null;
+
+/**
+ * 한 봉에서 손절/목표 도달 판정
+ * 시가 갭 → 시가 체결, 봉 내 동시 도달 → priority 순
+ */
+function checkBracketBar(
+    bar: OhlcvRecord,
+    stop: number,
+    target: number,
+    priority: 'stop_first' | 'target_first'
+): BarHit {
+    if (bar.open <= stop) return { price: bar.open, reason: 'stop' };
+    if (bar.open >= target) return { price: bar.open, reason: 'target' };
+
+    const stopHit = bar.low <= stop;
+    const targetHit = bar.high >= target;
+    if (stopHit && targetHit) {
+        return priority === 'stop_first'
+            ? { price: stop, reason: 'stop' }
+            : { price: target, reason: 'target' };
+    }
+    if (stopHit) return { price: stop, reason: 'stop' };
+    if (targetHit) return { price: target, reason: 'target' };
+    return null;
+}
+
+function holdToEnd(holdBars: OhlcvRecord[]): ExitOutcome {
+    const exitIndex = holdBars.length - 1;
+    return { exitIndex, exitPrice: holdBars[exitIndex].close, exitReason: 'holding_period' };
+}
+
+/** short → 가격 부호 반전 (하락이 상승이 되도록) */
+function mirrorBar(bar: OhlcvRecord): OhlcvRecord {
+    return { ...bar, open: -bar.open, high: -bar.low, low: -bar.high, close: -bar.close };
+}
+
+export function resolveExit(
+    holdBars: OhlcvRecord[],
+    levels: ExitLevels,
+    rule?: ExitRuleConfig,
+    direction: TradeDirection = 'long'
+): ExitOutcome {
+    if (direction === 'short') {
+        const outcome = resolveExit(holdBars.map(mirrorBar), {
+            entryPrice: -levels.entryPrice,
+            stopLossPrice: -levels.stopLossPrice,
+            targetPrice: -levels.targetPrice,
+            target2Price: -levels.target2Price,
+            atr: levels.atr,
+        }, rule);
+        return {
+            ...outcome,
+            exitPrice: -outcome.exitPrice,
+            ...(outcome.partialExit && { partialExit: { ...outcome.partialExit, price: -outcome.partialExit.price } }),
+        };
+    }
+
+    const r = { ...DEFAULT_EXIT_RULE, ...rule };
+
+    switch (r.mode) {
+        case 'bracket': {
+            for (let i = 0; i < holdBars.length; i++) {
+                const hit = checkBracketBar(holdBars[i], levels.stopLossPrice, levels.targetPrice, r.sameBarPriority);
+                if (hit) {
+                    return { exitIndex: i, exitPrice: hit.price, exitReason: hit.reason === 'stop' ? 'stop_loss' : 'target' };
+                }
+            }
+            return holdToEnd(holdBars);
+        }
+
+        case 'trailing_atr': {
+            // 추적 손절가는 직전 봉까지의 최고가로만 갱신 (당일 고가 사용 시 look-ahead)
+            let trailingStop = levels.stopLossPrice;
+            let highest = levels.entryPrice;
+            for (let i = 0; i < holdBars.length; i++) {
+                const bar = holdBars[i];
+                if (bar.open <= trailingStop || bar.low <= trailingStop) {
+                    const price = Math.min(bar.open, trailingStop);
+                    const reason: ExitReason = trailingStop > levels.stopLossPrice ? 'trailing_stop' : 'stop_loss';
+                    return { exitIndex: i, exitPrice: price, exitReason: reason };
+                }
+                highest = Math.max(highest, bar.high);
+                trailingStop = Math.max(trailingStop, highest - levels.atr * r.trailingAtrMultiple);
+            }
+            return holdToEnd(holdBars);
+        }
+
+        case 'partial': {
+            const ratio = Math.min(1, Math.max(0, r.partialRatio));
+            const target2 = Math.max(levels.target2Price, levels.targetPrice);
+
+            // 1단계: 전량 보유, 손절 vs target1
+            let partialIndex = -1;
+            let partialPrice = 0;
+            for (let i = 0; i < holdBars.length; i++) {
+                const hit = checkBracketBar(holdBars[i], levels.stopLossPrice, levels.targetPrice, r.sameBarPriority);
+                if (!hit) continue;
+                if (hit.reason === 'stop') {
+                    return { exitIndex: i, exitPrice: hit.price, exitReason: 'stop_loss' };
+                }
+                partialIndex = i;
+                partialPrice = hit.price;
+                break;
+            }
+            if (partialIndex === -1) return holdToEnd(holdBars);
+
+            const blend = (restPrice: number) => ratio * partialPrice + (1 - ratio) * restPrice;
+            const partialExit = { index: partialIndex, price: partialPrice, ratio };
+
+            // 같은 봉에서 target2까지 도달하면 잔량도 즉시 청산
+            if (holdBars[partialIndex].high >= target2) {
+                const restPrice = Math.max(holdBars[partialIndex].open, target2);
+                return { exitIndex: partialIndex, exitPrice: blend(restPrice), exitReason: 'target2', partialExit };
+            }
+
+            // 2단계: 잔량, 본전 손절 vs target2 (다음 봉부터)
+            const breakEven = levels.entryPrice;
+            for (let i = partialIndex + 1; i < holdBars.length; i++) {
+                const hit = checkBracketBar(holdBars[i], breakEven, target2, r.sameBarPriority);
+                if (!hit) continue;
+                return {
+                    exitIndex: i,
+                    exitPrice: blend(hit.price),
+                    exitReason: hit.reason === 'stop' ? 'breakeven_stop' : 'target2',
+                    partialExit,
+                };
+            }
+
+            const end = holdToEnd(holdBars);
+            return { ...end, exitPrice: blend(end.exitPrice), exitReason: 'holding_period', partialExit };
+        }
+
+        case 'fixed':
+        default:
+            return holdToEnd(holdBars);
+    }
+}
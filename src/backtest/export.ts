@@ -0,0 +1,153 @@
+/**
+ * export.ts
+ *
+ * 백테스트 결과 내보내기 (CSV / XLSX)
+ * - 시트: summary, gradeBreakdown, factorCorrelation, equityCurve, trades
+ * - 헤더는 "한글 (English)" 형식, 숫자/불리언은 문자열로 바꾸지 않고 그대로 셀 타입 유지
+ * - CSV는 시트 하나씩 (Excel 한글 인식을 위해 UTF-8 BOM)
+ */
+
+import { buildXlsx } from './xlsx.js';
+import type { BacktestResult } from './types.js';
+
+export const EXPORT_SHEETS = ['summary', 'gradeBreakdown', 'factorCorrelation', 'equityCurve', 'trades'] as const;
+export type ExportSheetName = typeof EXPORT_SHEETS[number];
+
+export type ExportCell = string | number | boolean | null;
+
+export interface ExportTable {
+    name: ExportSheetName;
+    headers: string[];
+    rows: ExportCell[][];
+}
+
+/** YYYYMMDD → YYYY-MM-DD (CSV는 스프레드시트가 날짜로 인식, XLSX는 xlsx.ts에서 날짜 셀로 기록) */
+function formatDate(date: string | undefined): string | null {
+    if (!date) return null;
+    return date.length === 8 ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date;
+}
+
+function summaryTable(result: BacktestResult): ExportTable {
+    const s = result.summary;
+    const rows: ExportCell[][] = [
+        ['totalTrades', '총 거래수', s.totalTrades, null],
+        ['winRate', '승률 %', s.winRate, s.net?.winRate ?? null],
+        ['avgReturn', '평균 수익률 %', s.avgReturn, s.net?.avgReturn ?? null],
+        ['medianReturn', '중앙값 수익률 %', s.medianReturn, s.net?.medianReturn ?? null],
+        ['stdReturn', '수익률 표준편차 %', s.stdReturn, s.net?.stdReturn ?? null],
+        ['sharpeRatio', '거래당 Sharpe', s.sharpeRatio, s.net?.sharpeRatio ?? null],
+        ['maxDrawdown', '최대 낙폭 %', s.maxDrawdown, s.net?.maxDrawdown ?? null],
+        ['profitFactor', 'Profit Factor', s.profitFactor, s.net?.profitFactor ?? null],
+        ['targetHitRate', '목표가 도달률 %', s.targetHitRate, null],
+        ['stopLossHitRate', '손절 도달률 %', s.stopLossHitRate, null],
+        ['avgCostPct', '거래당 평균 비용 %', s.avgCostPct, null],
+    ];
+    if (s.risk) {
+        const k = s.risk;
+        rows.push(
+            ['risk.cagr', 'CAGR %', k.cagr, null],
+            ['risk.annualizedSortino', '연율 Sortino', k.annualizedSortino, null],
+            ['risk.sortinoRatio', '거래당 Sortino', k.sortinoRatio, null],
+            ['risk.calmarRatio', 'Calmar Ratio', k.calmarRatio, null],
+            ['risk.ulcerIndex', 'Ulcer Index', k.ulcerIndex, null],
+            ['risk.years', '측정 기간 (년)', k.years, null],
+            ['risk.avgHoldingDays', '평균 보유일', k.avgHoldingDays, null],
+            ['risk.exposurePct', '시장 노출도 %', k.exposurePct, null],
+            ['risk.longestLosingStreak', '최장 연속 손실', k.longestLosingStreak, null],
+            ['risk.expectancyR', '기대값 (R)', k.expectancyR, null],
+            ['risk.avgExpectedRR', '예상 R/R 평균', k.avgExpectedRR, null],
+        );
+    }
+    if (s.benchmark) {
+        const b = s.benchmark;
+        rows.push(
+            ['benchmark.symbol', '벤치마크', b.symbol, null],
+            ['benchmark.strategyReturn', '전략 수익률 % (net 복리)', b.strategyReturn, null],
+            ['benchmark.benchmarkReturn', '벤치마크 수익률 %', b.benchmarkReturn, null],
+            ['benchmark.excessReturn', '초과 수익률 %p', b.excessReturn, null],
+            ['benchmark.beta', '베타', b.beta, null],
+            ['benchmark.alpha', '알파 %', b.alpha, null],
+            ['benchmark.trackingError', '추적오차 %', b.trackingError, null],
+            ['benchmark.informationRatio', '정보비율', b.informationRatio, null],
+        );
+    }
+    if (result.portfolio) {
+        const p = result.portfolio;
+        rows.push(
+            ['portfolio.initialCapital', '초기 자본', p.initialCapital, null],
+            ['portfolio.finalEquity', '최종 평가금액', p.finalEquity, null],
+            ['portfolio.totalReturnPct', '포트폴리오 수익률 %', p.totalReturnPct, null],
+            ['portfolio.maxDrawdown', '포트폴리오 MDD %', p.maxDrawdown, null],
+            ['portfolio.totalCosts', '누적 거래비용', p.totalCosts, null],
+        );
+    }
+    return {
+        name: 'summary',
+        headers: ['지표 (Metric)', '설명 (Description)', '값 (Gross)', '비용 차감 (Net)'],
+        rows,
+    };
+}
+
+/** 결과 → 내보내기 표 (EXPORT_SHEETS 순서) */
+export function buildExportTables(result: BacktestResult): ExportTable[] {
+    return [
+        summaryTable(result),
+        {
+            name: 'gradeBreakdown',
+            headers: ['등급 (Grade)', '거래수 (Trades)', '승률 % (Win Rate)', '평균 수익률 % (Avg Return)', '목표가 도달률 % (Target Hit Rate)'],
+            rows: result.gradeBreakdown.map(g => [g.grade, g.tradeCount, g.winRate, g.avgReturn, g.targetHitRate]),
+        },
+        {
+            name: 'factorCorrelation',
+            headers: ['팩터 (Factor)', '수익률 상관계수 (Correlation)', '최대 점수 시 평균 수익률 % (Avg Return High)', '0점 시 평균 수익률 % (Avg Return Low)'],
+            rows: result.factorCorrelation.map(f => [f.factor, f.correlationWithReturn, f.avgReturnWhenHigh, f.avgReturnWhenLow]),
+        },
+        {
+            name: 'equityCurve',
+            headers: ['날짜 (Date)', '누적 수익률 % (Cumulative Return)', '벤치마크 누적 수익률 % (Benchmark)'],
+            rows: result.equityCurve.map((p, i) => [
+                formatDate(p.date),
+                p.cumulativeReturn,
+                result.benchmarkEquityCurve?.[i]?.cumulativeReturn ?? null,
+            ]),
+        },
+        {
+            name: 'trades',
+            headers: [
+                '종목 (Symbol)', '방향 (Direction)', '진입일 (Entry Date)', '진입가 (Entry Price)', '청산일 (Exit Date)', '청산가 (Exit Price)',
+                '청산 사유 (Exit Reason)', '보유일 (Holding Days)', '등급 (Grade)', '총점 (Grade Score)',
+                '기술점수 (Technical)', 'R/R 점수 (RR)', '매물대 점수 (Volume Profile)', 'MA60 점수 (MA60)',
+                '수익률 % (Return)', '비용 차감 수익률 % (Net Return)', 'MFE %', 'MAE %',
+                '목표가 도달 (Target Hit)', '손절 도달 (Stop Loss Hit)', '예상 R/R (Expected RR)',
+                '목표가 (Target)', '2차 목표가 (Target 2)', '손절가 (Stop Loss)', '권고 비중 % (Position Size)',
+                '수량 (Quantity)', '진입 금액 (Position Value)',
+            ],
+            rows: result.trades.map(t => [
+                t.symbol, t.direction ?? 'long', formatDate(t.entryDate), t.entryPrice, formatDate(t.exitDate), t.exitPrice,
+                t.exitReason, t.holdingDays, t.swingGrade, t.gradeScore,
+                t.technicalScore, t.rrScore, t.volumeProfileScore, t.ma60Score,
+                t.returnPct, t.netReturnPct ?? null, t.maxFavorableExcursion, t.maxAdverseExcursion,
+                t.targetAchieved, t.stopLossHit, t.expectedRR,
+                t.targetPrice, t.target2Price, t.stopLossPrice, t.positionSizePercent,
+                t.quantity ?? null, t.positionValue ?? null,
+            ]),
+        },
+    ];
+}
+
+function csvCell(value: ExportCell): string {
+    if (value == null) return '';   // 이전 버전 결과에 없는 필드 포함
+    if (typeof value !== 'string') return String(value);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** 표 하나 → CSV (UTF-8 BOM, CRLF) */
+export function toCsv(table: ExportTable): string {
+    const lines = [table.headers, ...table.rows].map(row => row.map(csvCell).join(','));
+    return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/** 전체 표 → XLSX (시트별) */
+export function toXlsx(tables: ExportTable[]): Uint8Array<ArrayBuffer> {
+    return buildXlsx(tables.map(t => ({ name: t.name, rows: [t.headers, ...t.rows] })));
+}
@@ -0,0 +1,229 @@
+/**
+ * golden.ts
+ *
+ * 백테스트 엔진 회귀 검증 (골든 파일)
+ * - 고정 OHLCV 픽스처(ohlcv/<symbol>.csv) + 케이스별 설정(cases.json) → runBacktest
+ * - 기대 결과(expected/<case>.json)와 지표 단위로 비교해 허용오차를 넘는 차이만 보고
+ * - 데이터 공급자는 픽스처 메모리 공급자 (네트워크/로컬 DB 없이 실행)
+ * - calcSwingGrade / calculateVolumeProfile / calculateATR 등 분석 모듈 변경 시 결과 변화 확인용
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { runBacktest } from './engine.js';
+import { parseOhlcvCsv } from './ohlcv-store.js';
+import type { BacktestConfig, BacktestResult, OhlcvDateRange, OhlcvProvider, OhlcvRecord } from './types.js';
+
+export const GOLDEN_DIR = './test/fixtures/backtest-golden';
+
+/** 골든 케이스 (cases.json 항목) */
+export interface GoldenCase {
+    name: string;                 // expected/<name>.json
+    description?: string;
+    config: BacktestConfig;       // 픽스처 구간 안으로 startDate/endDate 고정 (미지정 시 픽스처 끝 기준)
+}
+
+/** 저장/비교 대상 결과 (실행마다 바뀌는 id/실행시각, 케이스에 있는 config 제외) */
+export type GoldenSnapshot = Omit<BacktestResult, 'id' | 'name' | 'tags' | 'config' | 'profile' | 'executedAt'>;
+
+/** 수치 허용오차: |actual - expected| > max(absolute, relative × |expected|) 이면 차이 */
+export interface GoldenTolerance {
+    absolute: number;
+    relative: number;
+}
+
+export const DEFAULT_GOLDEN_TOLERANCE: GoldenTolerance = { absolute: 1e-6, relative: 0 };
+
+/** 지표 차이 한 건 */
+export interface GoldenDrift {
+    path: string;                 // 'summary.winRate', 'trades[005930:long:20240105].returnPct' 등
+    kind: 'changed' | 'added' | 'removed';
+    expected?: unknown;
+    actual?: unknown;
+    delta?: number;               // 수치 변경 시 actual - expected
+}
+
+export interface GoldenCaseReport {
+    name: string;
+    status: 'pass' | 'drift' | 'missing' | 'updated';   // missing = 기대 결과 파일 없음
+    drifts: GoldenDrift[];
+}
+
+// ─── 픽스처 ──────────────────────────────────────────────────────────
+
+/**
+ * 픽스처 메모리 공급자
+ * 조회 구간은 저장소 공급자(createStoreProvider)와 같은 규칙:
+ * startDate 지정 시 그 이전 minBars개(워밍업) + 구간 전체, 미지정 시 endDate까지 최근 minBars개
+ */
+export function createFixtureProvider(barsBySymbol: Map<string, OhlcvRecord[]>): OhlcvProvider {
+    return {
+        name: 'fixture',
+        async getDailyBars(symbol: string, minBars: number, range?: OhlcvDateRange): Promise<OhlcvRecord[]> {
+            const bars = barsBySymbol.get(symbol) ?? [];
+            const upToEnd = range?.endDate ? bars.filter(b => b.date <= range.endDate!) : bars;
+            if (!range?.startDate) return upToEnd.slice(-minBars);
+
+            const warmup = upToEnd.filter(b => b.date < range.startDate!).slice(-minBars);
+            return [...warmup, ...upToEnd.filter(b => b.date >= range.startDate!)];
+        },
+    };
+}
+
+/** dir/cases.json + dir/ohlcv/*.csv (파일명 = 종목코드) */
+export async function loadGoldenFixtures(dir = GOLDEN_DIR): Promise<{
+    cases: GoldenCase[];
+    bars: Map<string, OhlcvRecord[]>;
+}> {
+    const cases: GoldenCase[] = JSON.parse(await readFile(join(dir, 'cases.json'), 'utf-8'));
+    const bars = new Map<string, OhlcvRecord[]>();
+    for (const file of (await readdir(join(dir, 'ohlcv'))).filter(f => f.endsWith('.csv')).sort()) {
+        const symbol = file.slice(0, -'.csv'.length);
+        const parsed = parseOhlcvCsv(await readFile(join(dir, 'ohlcv', file), 'utf-8'), symbol);
+        bars.set(symbol, (parsed.get(symbol) ?? []).sort((a, b) => a.date.localeCompare(b.date)));
+    }
+    return { cases, bars };
+}
+
+// ─── 비교 (순수 함수) ─────────────────────────────────────────────────
+
+/** 결과 → 스냅샷 (JSON 왕복으로 undefined 필드 제거, 저장된 기대 결과와 같은 형태) */
+export function toGoldenSnapshot(result: BacktestResult): GoldenSnapshot {
+    const { id, name, tags, config, profile, executedAt, ...snapshot } = result;
+    return JSON.parse(JSON.stringify(snapshot));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 배열 원소 식별 키 (거래는 종목:방향:진입일, 곡선/분해표는 날짜/기간/등급/팩터)
+ * 키로 맞추면 거래 하나가 추가/삭제돼도 뒤쪽 원소가 전부 밀려 보이지 않음
+ */
+function elementKey(item: unknown): string | null {
+    if (!isRecord(item)) return null;
+    if (typeof item.symbol === 'string' && typeof item.entryDate === 'string') {
+        return `${item.symbol}:${item.direction ?? 'long'}:${item.entryDate}`;
+    }
+    for (const field of ['date', 'period', 'grade', 'factor', 'symbol']) {
+        if (typeof item[field] === 'string') return item[field] as string;
+    }
+    return null;
+}
+
+/** 배열 → 키별 원소 (키가 없거나 겹치는 원소가 있으면 null → 인덱스로 비교) */
+function keyedElements(items: unknown[]): Map<string, unknown> | null {
+    const keyed = new Map<string, unknown>();
+    for (const item of items) {
+        const key = elementKey(item);
+        if (key === null || keyed.has(key)) return null;
+        keyed.set(key, item);
+    }
+    return keyed;
+}
+
+function diffValue(path: string, expected: unknown, actual: unknown, tolerance: GoldenTolerance, out: GoldenDrift[]) {
+    if (typeof expected === 'number' && typeof actual === 'number') {
+        const delta = actual - expected;
+        if (Math.abs(delta) > Math.max(tolerance.absolute, tolerance.relative * Math.abs(expected))) {
+            out.push({ path, kind: 'changed', expected, actual, delta: parseFloat(delta.toFixed(6)) });
+        }
+        return;
+    }
+
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        const expectedKeyed = keyedElements(expected);
+        const actualKeyed = keyedElements(actual);
+        if (expectedKeyed && actualKeyed) {
+            diffEntries(path, expectedKeyed, actualKeyed, tolerance, out, key => `${path}[${key}]`);
+        } else {
+            const toMap = (items: unknown[]) => new Map(items.map((item, i) => [String(i), item]));
+            diffEntries(path, toMap(expected), toMap(actual), tolerance, out, key => `${path}[${key}]`);
+        }
+        return;
+    }
+
+    if (isRecord(expected) && isRecord(actual)) {
+        diffEntries(path, new Map(Object.entries(expected)), new Map(Object.entries(actual)), tolerance, out,
+            key => (path ? `${path}.${key}` : key));
+        return;
+    }
+
+    if (expected !== actual) out.push({ path, kind: 'changed', expected, actual });
+}
+
+function diffEntries(
+    path: string,
+    expected: Map<string, unknown>,
+    actual: Map<string, unknown>,
+    tolerance: GoldenTolerance,
+    out: GoldenDrift[],
+    childPath: (key: string) => string
+) {
+    for (const [key, value] of expected) {
+        if (!actual.has(key)) out.push({ path: childPath(key), kind: 'removed', expected: value });
+        else diffValue(childPath(key), value, actual.get(key), tolerance, out);
+    }
+    for (const [key, value] of actual) {
+        if (!expected.has(key)) out.push({ path: childPath(key), kind: 'added', actual: value });
+    }
+}
+
+/** 기대 스냅샷 대비 차이 (허용오차 이내 수치 차이는 무시) */
+export function diffGoldenSnapshot(
+    expected: GoldenSnapshot,
+    actual: GoldenSnapshot,
+    tolerance: GoldenTolerance = DEFAULT_GOLDEN_TOLERANCE
+): GoldenDrift[] {
+    const drifts: GoldenDrift[] = [];
+    diffValue('', expected, actual, tolerance, drifts);
+    return drifts;
+}
+
+// ─── 실행 ────────────────────────────────────────────────────────────
+
+/**
+ * 골든 케이스 전체 실행
+ * @param update 기대 결과를 현재 결과로 덮어씀 (분석 로직을 의도적으로 바꾼 경우)
+ * @param cases  지정 시 해당 이름의 케이스만
+ */
+export async function runGoldenSuite(options: {
+    dir?: string;
+    tolerance?: GoldenTolerance;
+    update?: boolean;
+    cases?: string[];
+} = {}): Promise<GoldenCaseReport[]> {
+    const dir = options.dir ?? GOLDEN_DIR;
+    const { cases, bars } = await loadGoldenFixtures(dir);
+    const provider = createFixtureProvider(bars);
+
+    const unknown = (options.cases ?? []).filter(name => !cases.some(c => c.name === name));
+    if (unknown.length > 0) throw new Error(`Unknown golden case: ${unknown.join(', ')}`);
+
+    const reports: GoldenCaseReport[] = [];
+    for (const goldenCase of cases) {
+        if (options.cases && !options.cases.includes(goldenCase.name)) continue;
+
+        const snapshot = toGoldenSnapshot(await runBacktest(goldenCase.config, { provider }));
+        const file = join(dir, 'expected', `${goldenCase.name}.json`);
+
+        if (options.update) {
+            await mkdir(join(dir, 'expected'), { recursive: true });
+            await writeFile(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+            reports.push({ name: goldenCase.name, status: 'updated', drifts: [] });
+            continue;
+        }
+
+        let expected: GoldenSnapshot;
+        try {
+            expected = JSON.parse(await readFile(file, 'utf-8'));
+        } catch {
+            reports.push({ name: goldenCase.name, status: 'missing', drifts: [] });
+            continue;
+        }
+        const drifts = diffGoldenSnapshot(expected, snapshot, options.tolerance);
+        reports.push({ name: goldenCase.name, status: drifts.length > 0 ? 'drift' : 'pass', drifts });
+    }
+    return reports;
+}
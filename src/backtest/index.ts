@@ -1,11 +1,111 @@
-export { runBacktest, saveBacktestResult, loadBacktestResult, listBacktestResults } from './engine.js';
-export { runParameterSweep } from './parameter-sweep.js';
+export { runBacktest } from './engine.js';
+export {
+    initializeResultSchema,
+    saveBacktestResult,
+    loadBacktestResult,
+    listBacktestResults,
+    updateBacktestResultMeta,
+    deleteBacktestResult,
+    importBacktestResultFiles,
+} from './result-store.js';
+export type { BacktestResultMeta, BacktestResultQuery, BacktestResultListItem } from './result-store.js';
+export { runParameterSweep, listSweepCombinations, MAX_GRID_COMBINATIONS } from './parameter-sweep.js';
+export { runWalkForward, DEFAULT_WALK_FORWARD } from './walk-forward.js';
+export {
+    submitBacktestJob,
+    getBacktestJob,
+    listBacktestJobs,
+    cancelBacktestJob,
+    subscribeBacktestJob,
+    isJobFinished,
+} from './jobs.js';
+export type { BacktestJobRequest, BacktestJobListener } from './jobs.js';
+export { simulatePortfolio } from './portfolio.js';
+export { resolveExit, DEFAULT_EXIT_RULE } from './exit-rules.js';
+export { evaluateRule, validateStrategyRules, strategyRulesSchema, RULE_FIELDS, MAX_RULE_DEPTH } from './strategy-rules.js';
+export type { RuleContext } from './strategy-rules.js';
+export { buildIndicatorSeries, getIndicatorSeries } from './indicator-series.js';
+export type { IndicatorSeries, IndicatorSnapshot } from './indicator-series.js';
+export { DEFAULT_COST_MODEL, US_COST_MODEL, ZERO_COST_MODEL, resolveCostModel, calcNetReturnPct, getTickSize } from './costs.js';
+export { calcBootstrapSummary, calcRiskMetrics, DEFAULT_BOOTSTRAP, TRADING_DAYS_PER_YEAR } from './stats.js';
+export { compareBacktestResults } from './compare.js';
+export { buildExportTables, toCsv, toXlsx, EXPORT_SHEETS, type ExportSheetName, type ExportTable } from './export.js';
+export { compareWithBenchmark, normalizeBenchmarkSymbol } from './benchmark.js';
+export { createStoreProvider, createKisProvider, hasKisCredentials } from './data-provider.js';
+export {
+    initializeUniverseSchema,
+    saveUniverse,
+    loadUniverse,
+    listUniverses,
+    deleteUniverse,
+    getUniverseSymbolsAsOf,
+    parseUniverseCsv,
+    normalizeUniverseMembers,
+    membersInRange,
+    createMembershipFilter,
+} from './universe-store.js';
+export type { UniverseListItem } from './universe-store.js';
+export {
+    runGoldenSuite,
+    diffGoldenSnapshot,
+    toGoldenSnapshot,
+    loadGoldenFixtures,
+    createFixtureProvider,
+    DEFAULT_GOLDEN_TOLERANCE,
+    GOLDEN_DIR,
+} from './golden.js';
+export type { GoldenCase, GoldenSnapshot, GoldenTolerance, GoldenDrift, GoldenCaseReport } from './golden.js';
+export {
+    initializeOhlcvSchema,
+    importOhlcvCsv,
+    listStoredSymbols,
+} from './ohlcv-store.js';
 export type {
+    BacktestMarket,
+    UsExchange,
+    TradeDirection,
+    UniverseMember,
+    NamedUniverse,
+    SkippedSymbol,
     OhlcvRecord,
+    OhlcvProvider,
+    OhlcvDateRange,
+    BacktestRunOptions,
+    BacktestProgress,
+    BacktestJob,
+    BacktestJobKind,
+    BacktestJobStatus,
+    PortfolioConfig,
+    PortfolioResult,
+    ExitMode,
+    ExitReason,
+    ExitRuleConfig,
+    RuleField,
+    RuleOperator,
+    RuleCondition,
+    RuleNode,
+    StrategyRules,
+    TransactionCostRule,
+    CostModel,
+    CostModelConfig,
+    ReturnSummary,
+    RiskMetrics,
+    BenchmarkSummary,
+    BootstrapConfig,
+    BootstrapSummary,
+    ConfidenceInterval,
     BacktestConfig,
     BacktestTrade,
     BacktestResult,
+    BacktestComparison,
+    PeriodBreakdown,
     ParameterSweepResult,
+    SweepRanges,
+    SweepStrategy,
+    SweepRankBy,
+    SweepSearchConfig,
+    WalkForwardConfig,
+    WalkForwardResult,
     SwingGradeWeights,
     SwingGradeThresholds,
 } from './types.js';
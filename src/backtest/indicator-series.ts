@@ -0,0 +1,145 @@
+/**
+ * indicator-series.ts
+ *
+ * 종목별 지표 시계열 (1회 계산 → 모든 simDate / Sweep 조합에서 재사용)
+ * - SMA20/60/120, RSI14, ATR14, 거래량 평균, 60일 고저, 매물대(60일)
+ * - 인덱스 i의 값은 bars[0..i]만으로 계산 (look-ahead 없음)
+ * - 기존 엔진이 simDate마다 slice 후 계산하던 값과 비트 단위로 동일
+ *   (SMA/RSI/ATR 모두 첫 봉부터 순차 누적이라 접두 구간 결과가 같음)
+ *
+ * bars 배열 객체 단위로 캐시하므로 캐시 후 배열을 수정하면 안 됨
+ */
+
+import { SMA, RSI } from 'technicalindicators';
+import { calculateVolumeProfile, type OhlcvBarWithVolume, type VolumeProfile } from '../analysis/volume-profile.js';
+import type { OhlcvRecord } from './types.js';
+
+/** simDate 시점 지표 값 */
+export interface IndicatorSnapshot {
+    close: number;
+    ma20: number | undefined;
+    ma60: number | undefined;
+    ma120: number | undefined;
+    rsi: number | undefined;
+    atr: number;
+    avgVol5: number;
+    avgVol20: number;
+    recentHigh: number;     // 최근 60봉 최고가
+    recentLow: number;      // 최근 60봉 최저가
+    volumeProfile: VolumeProfile | null;   // 거래량 있는 봉이 20개 미만이면 null
+}
+
+export interface IndicatorSeries {
+    length: number;
+    at(index: number): IndicatorSnapshot;
+}
+
+const ATR_PERIOD = 14;
+const RSI_PERIOD = 14;
+const RANGE_LOOKBACK = 60;
+
+function average(arr: number[]): number {
+    if (arr.length === 0) return 0;
+    return arr.reduce((a, b) => a + b, 0) / arr.length;
+}
+
+/** 전체 구간 SMA/RSI 결과를 봉 인덱스에 맞춰 정렬 (앞쪽 워밍업 구간은 undefined) */
+function alignToBars(values: number[], length: number): (number | undefined)[] {
+    const offset = length - values.length;
+    return Array.from({ length }, (_, i) => (i >= offset ? values[i - offset] : undefined));
+}
+
+/**
+ * signal-generator의 calculateATR(bars[0..i], 14)와 동일한 값을 인덱스별로 산출
+ * - 봉 15개 미만: 최근 14봉 (고가-저가) 평균
+ * - 이후: 첫 14개 TR 단순평균에서 시작하는 Wilder 평활
+ */
+function buildAtrSeries(bars: OhlcvRecord[]): number[] {
+    const atr: number[] = [];
+    const trueRanges: number[] = [];
+    let wilder = 0;
+
+    for (let i = 0; i < bars.length; i++) {
+        if (i > 0) {
+            trueRanges.push(Math.max(
+                bars[i].high - bars[i].low,
+                Math.abs(bars[i].high - bars[i - 1].close),
+                Math.abs(bars[i].low - bars[i - 1].close)
+            ));
+        }
+
+        const length = i + 1;
+        if (length < ATR_PERIOD + 1) {
+            const recent = bars.slice(Math.max(0, length - ATR_PERIOD), length);
+            atr.push(recent.reduce((sum, b) => sum + (b.high - b.low), 0) / recent.length);
+            continue;
+        }
+
+        if (length === ATR_PERIOD + 1) {
+            wilder = trueRanges.slice(0, ATR_PERIOD).reduce((a, b) => a + b, 0) / ATR_PERIOD;
+        } else {
+            wilder = (wilder * (ATR_PERIOD - 1) + trueRanges[trueRanges.length - 1]) / ATR_PERIOD;
+        }
+        atr.push(wilder);
+    }
+
+    return atr;
+}
+
+export function buildIndicatorSeries(bars: OhlcvRecord[]): IndicatorSeries {
+    const closes = bars.map(b => b.close);
+    const ma20 = alignToBars(SMA.calculate({ period: 20, values: closes }), bars.length);
+    const ma60 = alignToBars(SMA.calculate({ period: 60, values: closes }), bars.length);
+    const ma120 = alignToBars(SMA.calculate({ period: 120, values: closes }), bars.length);
+    const rsi = alignToBars(RSI.calculate({ period: RSI_PERIOD, values: closes }), bars.length);
+    const atr = buildAtrSeries(bars);
+
+    // 창(window) 기반 값은 필요한 인덱스만 계산 후 보관
+    const snapshots = new Map<number, IndicatorSnapshot>();
+
+    return {
+        length: bars.length,
+        at(index: number): IndicatorSnapshot {
+            const cached = snapshots.get(index);
+            if (cached) return cached;
+
+            const window60 = bars.slice(Math.max(0, index + 1 - RANGE_LOOKBACK), index + 1);
+            const recentVols = bars.slice(Math.max(0, index + 1 - 20), index + 1).map(b => b.volume);
+            const close = bars[index].close;
+
+            const barsWithVol: OhlcvBarWithVolume[] = window60
+                .filter(b => b.volume > 0)
+                .map(b => ({ high: b.high, low: b.low, close: b.close, volume: b.volume }));
+
+            const snapshot: IndicatorSnapshot = {
+                close,
+                ma20: ma20[index],
+                ma60: ma60[index],
+                ma120: ma120[index],
+                rsi: rsi[index],
+                atr: atr[index],
+                avgVol5: average(recentVols.slice(-5)),
+                avgVol20: average(recentVols),
+                recentHigh: Math.max(...window60.map(b => b.high)),
+                recentLow: Math.min(...window60.map(b => b.low)),
+                volumeProfile: barsWithVol.length >= 20
+                    ? calculateVolumeProfile(barsWithVol, close, 50, 60)
+                    : null,
+            };
+            snapshots.set(index, snapshot);
+            return snapshot;
+        },
+    };
+}
+
+const seriesCache = new WeakMap<OhlcvRecord[], IndicatorSeries>();
+
+/** bars 배열별 지표 시계열 (첫 호출 시 계산, 이후 재사용) */
+export function getIndicatorSeries(bars: OhlcvRecord[]): IndicatorSeries {
+    let series = seriesCache.get(bars);
+    if (!series) {
+        series = buildIndicatorSeries(bars);
+        seriesCache.set(bars, series);
+    }
+    return series;
+}
@@ -0,0 +1,171 @@
+/**
+ * jobs.ts
+ *
+ * 비동기 백테스트 작업 (인메모리 레지스트리)
+ * - 제출 즉시 job id 반환 → 백그라운드에서 한 번에 하나씩 실행 (CPU/KIS rate limit 공유)
+ * - 상태 조회, 진행률 구독(SSE), 취소 지원
+ * - 완료 결과는 동기 실행과 같은 경로로 저장 (run: saveBacktestResult, parameter-sweep: sweep-<id>.json)
+ * - 작업 목록은 프로세스 메모리에만 유지 (서버 재시작 시 사라지고 결과 파일만 남음)
+ */
+
+import { randomUUID } from 'crypto';
+import { runBacktest } from './engine.js';
+import { runParameterSweep } from './parameter-sweep.js';
+import { saveBacktestResult, type BacktestResultMeta } from './result-store.js';
+import type {
+    BacktestConfig,
+    BacktestJob,
+    BacktestRunOptions,
+    SweepSearchConfig,
+} from './types.js';
+
+export type BacktestJobRequest =
+    | { kind: 'run'; config: BacktestConfig; meta?: BacktestResultMeta }
+    | { kind: 'parameter-sweep'; config: BacktestConfig; search: SweepSearchConfig };
+
+/** 'progress': 진행률 갱신, 'status': 상태 전이 (queued → running → completed/failed/cancelled) */
+export type BacktestJobListener = (event: 'progress' | 'status', job: BacktestJob) => void;
+
+interface JobEntry {
+    job: BacktestJob;
+    request: BacktestJobRequest;
+    provider?: BacktestRunOptions['provider'];
+    controller: AbortController;
+    listeners: Set<BacktestJobListener>;
+}
+
+const MAX_FINISHED_JOBS = 100;
+
+const jobs = new Map<string, JobEntry>();
+let queue: Promise<void> = Promise.resolve();
+
+export function isJobFinished(job: BacktestJob): boolean {
+    return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function emit(entry: JobEntry, event: 'progress' | 'status') {
+    for (const listener of entry.listeners) {
+        try {
+            listener(event, entry.job);
+        } catch (err) {
+            console.warn(`[BacktestJob] Listener error for ${entry.job.id}: ${err}`);
+        }
+    }
+}
+
+function finish(entry: JobEntry, status: 'completed' | 'failed' | 'cancelled', patch: Partial<BacktestJob> = {}) {
+    entry.job = { ...entry.job, ...patch, status, finishedAt: new Date().toISOString() };
+    emit(entry, 'status');
+    entry.listeners.clear();
+    pruneFinishedJobs();
+}
+
+/** 오래된 완료 작업부터 정리 (Map은 삽입 순서 유지) */
+function pruneFinishedJobs() {
+    const finished = [...jobs.values()].filter(e => isJobFinished(e.job));
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+        jobs.delete(entry.job.id);
+    }
+}
+
+async function execute(entry: JobEntry): Promise<void> {
+    const { request, controller } = entry;
+    if (controller.signal.aborted) return; // 대기 중 취소됨
+
+    entry.job = { ...entry.job, status: 'running', startedAt: new Date().toISOString() };
+    emit(entry, 'status');
+
+    const options: BacktestRunOptions = {
+        provider: entry.provider,
+        signal: controller.signal,
+        onProgress: progress => {
+            if (controller.signal.aborted) return;
+            entry.job = { ...entry.job, progress };
+            emit(entry, 'progress');
+        },
+    };
+
+    try {
+        let resultId: string;
+        if (request.kind === 'run') {
+            const result = await runBacktest(request.config, options);
+            if (controller.signal.aborted) return;
+            saveBacktestResult(result, request.meta);
+            resultId = result.id;
+        } else {
+            const result = await runParameterSweep(request.config, options, request.search);
+            resultId = `sweep-${result.id}`;
+        }
+        if (controller.signal.aborted) return;
+        finish(entry, 'completed', { resultId });
+        console.log(`[BacktestJob] ${entry.job.kind} ${entry.job.id} completed (result: ${resultId})`);
+    } catch (e: any) {
+        if (controller.signal.aborted) return; // cancelBacktestJob에서 이미 종료 처리
+        console.error(`[BacktestJob] ${entry.job.kind} ${entry.job.id} failed:`, e);
+        finish(entry, 'failed', { error: { message: e.message, code: e.code || 'INTERNAL_ERROR' } });
+    }
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────
+
+/**
+ * @param options  provider 미지정 시 실행 함수 기본값(로컬 저장소) 사용
+ */
+export function submitBacktestJob(
+    request: BacktestJobRequest,
+    options: Pick<BacktestRunOptions, 'provider'> = {}
+): BacktestJob {
+    const entry: JobEntry = {
+        job: {
+            id: randomUUID(),
+            kind: request.kind,
+            status: 'queued',
+            config: request.config,
+            submittedAt: new Date().toISOString(),
+            progress: null,
+        },
+        request,
+        provider: options.provider,
+        controller: new AbortController(),
+        listeners: new Set(),
+    };
+    jobs.set(entry.job.id, entry);
+
+    queue = queue.then(() => execute(entry));
+    return entry.job;
+}
+
+export function getBacktestJob(id: string): BacktestJob | null {
+    return jobs.get(id)?.job ?? null;
+}
+
+/** 최근 제출 순 */
+export function listBacktestJobs(): BacktestJob[] {
+    return [...jobs.values()].map(e => e.job).reverse();
+}
+
+/**
+ * 작업 취소 (대기 중이면 즉시, 실행 중이면 다음 진행 지점에서 중단)
+ * @returns 취소 후 작업 상태, 없는 작업이면 null (이미 끝난 작업은 그대로 반환)
+ */
+export function cancelBacktestJob(id: string): BacktestJob | null {
+    const entry = jobs.get(id);
+    if (!entry) return null;
+    if (isJobFinished(entry.job)) return entry.job;
+
+    entry.controller.abort();
+    finish(entry, 'cancelled');
+    console.log(`[BacktestJob] ${entry.job.kind} ${entry.job.id} cancelled`);
+    return entry.job;
+}
+
+/**
+ * 작업 이벤트 구독
+ * @returns 구독 해제 함수 (이미 끝난 작업이면 구독하지 않음)
+ */
+export function subscribeBacktestJob(id: string, listener: BacktestJobListener): () => void {
+    const entry = jobs.get(id);
+    if (!entry || isJobFinished(entry.job)) return () => { };
+    entry.listeners.add(listener);
+    return () => { entry.listeners.delete(listener); };
+}
@@ -0,0 +1,355 @@
+/**
+ * ohlcv-store.ts
+ *
+ * 일봉 OHLCV 로컬 저장소 (gateway SQLite DB 공유)
+ * - (symbol, date) 키로 upsert → KIS 증분 동기화 / CSV 일괄 임포트 모두 동일 경로
+ * - 백테스트 엔진의 기본 데이터 소스 (KIS 자격증명 없이도 실행 가능)
+ * - 국내(KR)/미국(US) 종목 모두 같은 테이블 (심볼이 겹치지 않음: 6자리 코드 vs 티커)
+ */
+
+import { db } from '../mcp-gateway/db.js';
+import {
+    fetchDailyOHLCV,
+    fetchIndexDailyOHLCV,
+    fetchUsDailyOHLCV,
+    getKSTDateString,
+    shiftDateString,
+} from '../tools/korea/kis-client.js';
+import type { BacktestMarket, OhlcvDateRange, OhlcvRecord, UsExchange } from './types.js';
+
+/** KIS 조회 대상 시장 (US는 거래소까지 지정) */
+export interface OhlcvMarketTarget {
+    market?: BacktestMarket;   // default: 'KR'
+    exchange?: UsExchange;     // default: 'NAS'
+}
+
+/** 지수 일봉 저장 심볼 → KIS 업종코드 (종목과 같은 테이블에 심볼명으로 저장) */
+export const KIS_INDEX_CODES: Record<string, string> = {
+    KOSPI: '0001',
+    KOSDAQ: '1001',
+};
+
+let schemaInitialized = false;
+
+export function initializeOhlcvSchema() {
+    if (schemaInitialized) return;
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ohlcv_daily (
+            symbol TEXT NOT NULL,
+            date TEXT NOT NULL,        -- YYYYMMDD
+            open REAL NOT NULL,
+            high REAL NOT NULL,
+            low REAL NOT NULL,
+            close REAL NOT NULL,
+            volume REAL NOT NULL,
+            source TEXT DEFAULT 'kis', -- 'kis', 'csv'
+            PRIMARY KEY (symbol, date)
+        );
+    `);
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ohlcv_sync_log (
+            symbol TEXT PRIMARY KEY,
+            last_synced_date TEXT NOT NULL, -- 시장 현지 YYYYMMDD (KR: KST, US: 뉴욕)
+            requested_bars INTEGER NOT NULL DEFAULT 0,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+    `);
+
+    schemaInitialized = true;
+    console.log('✅ OHLCV Store Schema Initialized');
+}
+
+// ─── 조회 ──────────────────────────────────────────────────────────────
+
+/**
+ * 저장된 일봉 조회 (날짜 오름차순)
+ * @param limit 지정 시 가장 최근 N개만 반환
+ */
+export function getStoredOhlcv(
+    symbol: string,
+    range: { startDate?: string; endDate?: string; limit?: number } = {}
+): OhlcvRecord[] {
+    initializeOhlcvSchema();
+
+    const where: string[] = ['symbol = ?'];
+    const params: (string | number)[] = [symbol];
+    if (range.startDate) { where.push('date >= ?'); params.push(range.startDate); }
+    if (range.endDate) { where.push('date <= ?'); params.push(range.endDate); }
+
+    let sql = `SELECT date, open, high, low, close, volume FROM ohlcv_daily WHERE ${where.join(' AND ')} ORDER BY date DESC`;
+    if (range.limit && range.limit > 0) {
+        sql += ' LIMIT ?';
+        params.push(range.limit);
+    }
+
+    const rows = db.query(sql).all(...params) as OhlcvRecord[];
+    return rows.reverse();
+}
+
+export function getStoredRange(symbol: string): { firstDate: string; lastDate: string; count: number } | null {
+    initializeOhlcvSchema();
+    const row = db.query(
+        'SELECT MIN(date) as firstDate, MAX(date) as lastDate, COUNT(*) as count FROM ohlcv_daily WHERE symbol = ?'
+    ).get(symbol) as { firstDate: string | null; lastDate: string | null; count: number };
+    if (!row || row.count === 0 || !row.firstDate || !row.lastDate) return null;
+    return { firstDate: row.firstDate, lastDate: row.lastDate, count: row.count };
+}
+
+export function listStoredSymbols(): { symbol: string; firstDate: string; lastDate: string; count: number }[] {
+    initializeOhlcvSchema();
+    return db.query(`
+        SELECT symbol, MIN(date) as firstDate, MAX(date) as lastDate, COUNT(*) as count
+        FROM ohlcv_daily GROUP BY symbol ORDER BY symbol
+    `).all() as { symbol: string; firstDate: string; lastDate: string; count: number }[];
+}
+
+// ─── 저장 ──────────────────────────────────────────────────────────────
+
+/**
+ * 일봉 upsert (동일 symbol/date는 최신 값으로 덮어씀)
+ * @returns 처리한 레코드 수
+ */
+export function upsertOhlcv(symbol: string, records: OhlcvRecord[], source: 'kis' | 'csv' = 'kis'): number {
+    initializeOhlcvSchema();
+    if (records.length === 0) return 0;
+
+    const stmt = db.prepare(`
+        INSERT INTO ohlcv_daily (symbol, date, open, high, low, close, volume, source)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(symbol, date) DO UPDATE SET
+            open = excluded.open, high = excluded.high, low = excluded.low,
+            close = excluded.close, volume = excluded.volume, source = excluded.source
+    `);
+
+    const insertAll = db.transaction((rows: OhlcvRecord[]) => {
+        for (const r of rows) {
+            stmt.run(symbol, r.date, r.open, r.high, r.low, r.close, r.volume, source);
+        }
+    });
+    insertAll(records);
+
+    return records.length;
+}
+
+// ─── CSV 임포트 ────────────────────────────────────────────────────────
+
+/**
+ * OHLCV CSV 파싱
+ * 헤더 필수: date,open,high,low,close,volume (+ 선택 symbol 컬럼)
+ * - date: YYYYMMDD 또는 YYYY-MM-DD
+ * - symbol 컬럼이 없으면 defaultSymbol 사용
+ */
+export function parseOhlcvCsv(text: string, defaultSymbol?: string): Map<string, OhlcvRecord[]> {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim().length > 0);
+    if (lines.length === 0) return new Map();
+
+    const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+    const col = (name: string) => header.indexOf(name);
+    const required = ['date', 'open', 'high', 'low', 'close', 'volume'];
+    const missing = required.filter(name => col(name) === -1);
+    if (missing.length > 0) {
+        throw new Error(`CSV header missing columns: ${missing.join(', ')}`);
+    }
+
+    const symbolCol = col('symbol');
+    if (symbolCol === -1 && !defaultSymbol) {
+        throw new Error('CSV has no "symbol" column and no default symbol was given');
+    }
+
+    const bySymbol = new Map<string, OhlcvRecord[]>();
+    for (let i = 1; i < lines.length; i++) {
+        const cells = lines[i].split(',').map(c => c.trim());
+        const symbol = symbolCol !== -1 ? cells[symbolCol] : defaultSymbol!;
+        const date = cells[col('date')].replace(/-/g, '');
+        if (!/^\d{8}$/.test(date)) {
+            throw new Error(`Invalid date at line ${i + 1}: ${cells[col('date')]}`);
+        }
+
+        const record: OhlcvRecord = {
+            date,
+            open: Number(cells[col('open')]),
+            high: Number(cells[col('high')]),
+            low: Number(cells[col('low')]),
+            close: Number(cells[col('close')]),
+            volume: Number(cells[col('volume')]),
+        };
+        if ([record.open, record.high, record.low, record.close, record.volume].some(v => !Number.isFinite(v))) {
+            throw new Error(`Invalid number at line ${i + 1}`);
+        }
+
+        if (!bySymbol.has(symbol)) bySymbol.set(symbol, []);
+        bySymbol.get(symbol)!.push(record);
+    }
+
+    return bySymbol;
+}
+
+export function importOhlcvCsv(text: string, defaultSymbol?: string): { symbol: string; rows: number }[] {
+    const parsed = parseOhlcvCsv(text, defaultSymbol);
+    return [...parsed.entries()].map(([symbol, records]) => ({
+        symbol,
+        rows: upsertOhlcv(symbol, records, 'csv'),
+    }));
+}
+
+// ─── KIS 증분 동기화 ──────────────────────────────────────────────────
+
+/**
+ * KIS API 응답(문자열, 최신→과거 순) → 숫자, 오름차순 정렬
+ */
+export function normalizeKisOhlcv(raw: any[]): OhlcvRecord[] {
+    return [...raw]
+        .reverse() // KIS는 최신→과거, 오름차순 변환
+        .map(r => ({
+            date: r.date,
+            open: Number(r.open),
+            high: Number(r.high),
+            low: Number(r.low),
+            close: Number(r.close),
+            volume: Number(r.volume),
+        }));
+}
+
+/**
+ * 심볼/시장별 KIS 일봉 조회 → 오름차순 레코드
+ * - KR: KIS_INDEX_CODES 심볼은 업종 지수, 그 외 국내주식
+ * - US: 해외주식 일봉 (수정주가)
+ */
+export async function fetchKisOhlcv(
+    symbol: string,
+    period: number,
+    range: OhlcvDateRange = {},
+    target: OhlcvMarketTarget = {}
+): Promise<OhlcvRecord[]> {
+    if (target.market === 'US') {
+        // 해외주식 응답은 이미 과거→최신, 숫자 필드
+        const raw = await fetchUsDailyOHLCV(symbol, target.exchange ?? 'NAS', period, range);
+        return raw.output2;
+    }
+    const indexCode = KIS_INDEX_CODES[symbol];
+    const raw = indexCode
+        ? await fetchIndexDailyOHLCV(indexCode, period, range)
+        : await fetchDailyOHLCV(symbol, period, range);
+    return normalizeKisOhlcv(raw.output2);
+}
+
+/**
+ * 시장 현지 기준 오늘 (YYYYMMDD)
+ * 휴장일은 따로 달력을 두지 않음: 동기화는 마지막 저장일 이후 달력일수만큼 요청하고,
+ * 휴장일에는 KIS 응답에 봉이 없으므로 저장/시뮬레이션 모두 실제 거래일만 다룸
+ */
+export function getMarketDateString(market: BacktestMarket = 'KR'): string {
+    if (market === 'KR') return getKSTDateString(0);
+    return new Intl.DateTimeFormat('en-CA', { timeZone: 'America/New_York' })
+        .format(new Date())
+        .replace(/-/g, '');
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+    const toMs = (d: string) => Date.UTC(+d.slice(0, 4), +d.slice(4, 6) - 1, +d.slice(6, 8));
+    return Math.round((toMs(toYmd) - toMs(fromYmd)) / 86_400_000);
+}
+
+/** anchor(YYYYMMDD) 이전 저장 봉 수 */
+function countStoredBefore(symbol: string, anchor: string): number {
+    const row = db.query('SELECT COUNT(*) as count FROM ohlcv_daily WHERE symbol = ? AND date < ?')
+        .get(symbol, anchor) as { count: number };
+    return row.count;
+}
+
+/** 과거 이력 보강 최대 조회 횟수 (상장일 이전 등 더 받을 봉이 없으면 그 전에 멈춤) */
+const MAX_BACKFILL_ROUNDS = 10;
+
+/**
+ * 구간 지정 시 과거 이력 보강
+ * - 기준일(startDate, 없으면 endDate 다음날) 이전 봉이 minBars 미만이면 저장된 첫 봉 직전부터 과거로 조회
+ * - 저장 구간 앞쪽으로만 이어붙여 빈 구간을 만들지 않음: endDate가 저장된 첫 봉보다 이전이면
+ *   그 사이 거래일(≤ 달력일수)까지 더해 요청하고, 그래도 모자라면 기준일 이전 봉이 채워질 때까지 반복
+ * - 저장소가 비어 있으면 endDate(없으면 오늘)부터 조회 → 이후 최근 구간 증분 동기화와 이어짐
+ * - 상장일 이전이면 KIS가 빈 응답을 주므로 거기서 멈춤
+ * @param fetchBars 일봉 조회 함수 (테스트에서 교체)
+ * @returns KIS API 호출 여부
+ */
+export async function backfillOhlcvFromKis(
+    symbol: string,
+    minBars: number,
+    range: OhlcvDateRange,
+    target: OhlcvMarketTarget = {},
+    fetchBars: typeof fetchKisOhlcv = fetchKisOhlcv
+): Promise<boolean> {
+    const anchor = range.startDate ?? shiftDateString(range.endDate!, 1);
+    let fetched = false;
+
+    for (let round = 0; round < MAX_BACKFILL_ROUNDS; round++) {
+        const missing = minBars - countStoredBefore(symbol, anchor);
+        if (missing <= 0) break;
+
+        const stored = getStoredRange(symbol);
+        const gap = stored && !range.startDate && range.endDate! < stored.firstDate
+            ? daysBetween(range.endDate!, stored.firstDate)
+            : 0;
+        const fetchRange = {
+            startDate: range.startDate,
+            endDate: stored ? shiftDateString(stored.firstDate, -1) : range.endDate,
+        };
+        const records = await fetchBars(symbol, missing + gap, fetchRange, target);
+        upsertOhlcv(symbol, records, 'kis');
+        fetched = true;
+
+        if (records.length === 0 || getStoredRange(symbol)?.firstDate === stored?.firstDate) break;
+    }
+    return fetched;
+}
+
+/**
+ * 저장소에 없는 최근 구간만 KIS에서 받아 채움
+ * - 저장 봉 수가 minBars 미만이면 minBars 전체 재조회
+ * - 같은 시장 현지 일자(KR: KST, US: 뉴욕)에 이미 동기화한 종목은 호출 생략
+ * - KIS_INDEX_CODES 심볼(KOSPI/KOSDAQ)은 업종 지수 일봉으로 조회
+ * - range 지정 시 기준일 이전 minBars개까지 과거 이력을 먼저 보강 (backfillOhlcvFromKis)
+ * @returns KIS API 호출 여부
+ */
+export async function syncOhlcvFromKis(
+    symbol: string,
+    minBars: number,
+    range?: OhlcvDateRange,
+    target: OhlcvMarketTarget = {}
+): Promise<boolean> {
+    initializeOhlcvSchema();
+    const today = getMarketDateString(target.market);
+
+    const backfilled = range?.startDate || range?.endDate
+        ? await backfillOhlcvFromKis(symbol, minBars, range, target)
+        : false;
+
+    const log = db.query('SELECT last_synced_date, requested_bars FROM ohlcv_sync_log WHERE symbol = ?')
+        .get(symbol) as { last_synced_date: string; requested_bars: number } | null;
+    const stored = getStoredRange(symbol);
+
+    // 오늘 이미 같은(또는 더 긴) 구간을 요청했다면 재호출해도 늘어날 데이터가 없음
+    if (log?.last_synced_date === today && log.requested_bars >= minBars) {
+        return backfilled;
+    }
+
+    let period = minBars;
+    if (stored && stored.count >= minBars) {
+        // 마지막 저장일 이후 달력일수 ≥ 누락 거래일수
+        period = daysBetween(stored.lastDate, today);
+        if (period <= 0) return backfilled;
+    }
+
+    upsertOhlcv(symbol, await fetchKisOhlcv(symbol, period, {}, target), 'kis');
+
+    db.run(`
+        INSERT INTO ohlcv_sync_log (symbol, last_synced_date, requested_bars, updated_at)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(symbol) DO UPDATE SET
+            last_synced_date = excluded.last_synced_date,
+            requested_bars = excluded.requested_bars,
+            updated_at = CURRENT_TIMESTAMP
+    `, [symbol, today, minBars]);
+
+    return true;
+}
@@ -1,18 +1,34 @@
 /**
  * parameter-sweep.ts
  *
- * 가중치 × 임계값 조합으로 백테스트를 반복 실행하여 최적 파라미터를 탐색
+ * 가중치 × 임계값 × 보유기간 조합으로 백테스트를 반복 실행하여 최적 파라미터를 탐색
  * OHLCV 캐시를 공유하여 KIS API 호출 최소화
+ *
+ * 탐색 방식
+ * - grid:               범위 전체 조합
+ * - random:             범위에서 samples개 무작위 추출 (seed 고정 시 재현 가능)
+ * - successive_halving: 후보 전체를 성긴 날짜 간격으로 먼저 평가 → 상위 1/eta만 더 촘촘히 재평가
  */
 
-import { fetchDailyOHLCV } from '../tools/korea/kis-client.js';
 import { randomUUID } from 'crypto';
 import { mkdir, writeFile } from 'fs/promises';
 import { join } from 'path';
+import { createStoreProvider, loadUniverseOhlcv } from './data-provider.js';
+import { resolveDirections, resolveOhlcvRange, simDateBounds, simulateTrade } from './engine.js';
+import { resolveCostModel } from './costs.js';
+import { createMembershipFilter } from './universe-store.js';
+import { checkpoint } from './progress.js';
+import { RESULTS_DIR } from './result-store.js';
+import { getScoringProfile, toProfileRef } from '../analysis/scoring-profile.js';
 import type {
     OhlcvRecord,
     BacktestConfig,
+    BacktestRunOptions,
     ParameterSweepResult,
+    SweepRanges,
+    SweepRankBy,
+    SweepSearchConfig,
+    SwingGradeThresholds,
     SwingGradeWeights,
 } from './types.js';
 import {
@@ -22,27 +38,10 @@ import {
     calcAvgReturn,
     calcStdReturn,
     calcSharpeRatio,
+    createRng,
+    toNetTrades,
 } from './stats.js';
 
-// ─── 전처리 (engine.ts와 동일 로직 로컬 복사) ────────────────────────
-
-function normalizeOhlcv(raw: any[]): OhlcvRecord[] {
-    return [...raw]
-        .reverse()
-        .map(r => ({
-            date: r.date,
-            open: Number(r.open),
-            high: Number(r.high),
-            low: Number(r.low),
-            close: Number(r.close),
-            volume: Number(r.volume),
-        }));
-}
-
-function sleep(ms: number) {
-    return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 // ─── Sweep 범위 정의 ──────────────────────────────────────────────────
 
 const SWEEP_RANGES = {
@@ -53,197 +52,270 @@ const SWEEP_RANGES = {
     ma60Max: [0, 1, 2],
 };
 
-// ─── 경량 백테스트 (sweep용 — engine.ts 의존 없이 인라인) ────────────
+/** grid 방식 허용 최대 조합 수 (초과 시 random/successive_halving 사용) */
+export const MAX_GRID_COMBINATIONS = 2000;
 
-import {
-    calcSwingGrade,
-    calculateATR,
-    type OhlcvBar,
-} from '../analysis/signal-generator.js';
-import { calculateTrendScore, calculateMomentumScore } from '../analysis/scorer.js';
-import { calculateVolumeProfile, type OhlcvBarWithVolume } from '../analysis/volume-profile.js';
-import { SMA, RSI } from 'technicalindicators';
-
-function average(arr: number[]): number {
-    return arr.length === 0 ? 0 : arr.reduce((a, b) => a + b, 0) / arr.length;
+/** 순위/최적 조합 선정 시 최소 거래 수 */
+const MIN_TRADES = 5;
+
+export interface SweepCombination {
+    gradeThreshold: number;
+    thresholds: SwingGradeThresholds;
+    weights: SwingGradeWeights;
+    holdingPeriod: number;
+}
+
+/**
+ * 탐색 범위 전체 순열 (A → B → C → tech → rr → vp → ma60 → 보유기간 순)
+ * A > B > C를 만족하지 않는 커트라인 조합은 제외
+ */
+export function listSweepCombinations(ranges: SweepRanges = {}, holdingPeriod = 10): SweepCombination[] {
+    const combos: SweepCombination[] = [];
+    const holdingPeriods = ranges.holdingPeriod ?? [holdingPeriod];
+
+    for (const A of ranges.gradeThreshold ?? SWEEP_RANGES.gradeThreshold) {
+        for (const B of ranges.thresholdB ?? [A - 2]) {
+            for (const C of ranges.thresholdC ?? [A - 4]) {
+                if (!(A > B && B > C)) continue;
+                for (const technicalScoreMax of ranges.technicalScoreMax ?? SWEEP_RANGES.technicalScoreMax) {
+                    for (const rrScoreMax of ranges.rrScoreMax ?? SWEEP_RANGES.rrScoreMax) {
+                        for (const volumeProfileMax of ranges.volumeProfileMax ?? SWEEP_RANGES.volumeProfileMax) {
+                            for (const ma60Max of ranges.ma60Max ?? SWEEP_RANGES.ma60Max) {
+                                for (const hp of holdingPeriods) {
+                                    combos.push({
+                                        gradeThreshold: A,
+                                        thresholds: { A, B, C },
+                                        weights: { technicalScoreMax, rrScoreMax, volumeProfileMax, ma60Max },
+                                        holdingPeriod: hp,
+                                    });
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+    return combos;
 }
 
-interface SweepTradeResult {
+// ─── 조합별 백테스트 (engine.ts의 simulateTrade 공유) ──────────────────
+
+export interface SweepTradeResult {
+    symbol: string;
     entryDate: string;
     exitDate: string;
     returnPct: number;
+    netReturnPct: number;
 }
 
-function runSweepForCombination(
+/**
+ * @param dateStride 시뮬레이션 날짜 간격 (1 = 모든 거래일, successive_halving 초기 단계에서 3, 9 …)
+ */
+export function runSweepForCombination(
     ohlcvCache: Map<string, OhlcvRecord[]>,
     config: BacktestConfig,
-    gradeThreshold: number,
-    weights: SwingGradeWeights
+    combo: SweepCombination,
+    dateStride = 1
 ): SweepTradeResult[] {
     const trades: SweepTradeResult[] = [];
-    const WARMUP = 120;
-    const { gradeFilter, holdingPeriod } = config;
-
-    const thresholds = { A: gradeThreshold, B: gradeThreshold - 2, C: gradeThreshold - 4 };
+    const { gradeFilter, exitRule, strategy } = config;
+    const { holdingPeriod, weights, thresholds } = combo;
+    const market = config.market ?? 'KR';
+    const costs = resolveCostModel(config.costs, market);
+    const directions = resolveDirections(config.direction);
+    const isMember = config.membership ? createMembershipFilter(config.membership) : null;
+    const profile = getScoringProfile(config.profile);
 
     for (const [symbol, bars] of ohlcvCache) {
-        if (bars.length < WARMUP + holdingPeriod + 2) continue;
-        const maxSimDate = bars.length - holdingPeriod - 2;
-
-        for (let simDate = WARMUP; simDate <= maxSimDate; simDate++) {
-            const slice = bars.slice(0, simDate + 1);
-            const closes = slice.map(b => b.close);
-            const volumes = slice.map(b => b.volume);
-
-            const ma20Arr = SMA.calculate({ period: 20, values: closes });
-            const ma60Arr = SMA.calculate({ period: 60, values: closes });
-            const ma120Arr = SMA.calculate({ period: 120, values: closes });
-            const rsiArr = RSI.calculate({ period: 14, values: closes });
-
-            const lastMa20 = ma20Arr[ma20Arr.length - 1];
-            const lastMa60 = ma60Arr[ma60Arr.length - 1];
-            const lastMa120 = ma120Arr[ma120Arr.length - 1];
-            const lastRsi = rsiArr[rsiArr.length - 1];
-            const currentPrice = slice[slice.length - 1].close;
-
-            if (!lastMa20 || !lastMa60 || !lastMa120 || !lastRsi) continue;
-
-            const avgVol5 = average(volumes.slice(-5));
-            const avgVol20 = average(volumes.slice(-20));
-
-            const trendScore = calculateTrendScore(currentPrice, {
-                ma20: lastMa20, ma60: lastMa60, ma120: lastMa120,
-            });
-            const momentumScore = calculateMomentumScore(lastRsi, avgVol5, avgVol20);
-            const technicalScore = Math.max(0, Math.min(100, 50 + (trendScore + momentumScore) * 6));
-
-            const ohlcvBars: OhlcvBar[] = slice.map(b => ({
-                high: b.high, low: b.low, close: b.close, volume: b.volume,
-            }));
-            const atr = calculateATR(ohlcvBars, 14);
-
-            const vpSlice = slice.slice(-60);
-            const barsWithVol: OhlcvBarWithVolume[] = vpSlice
-                .filter(b => b.volume > 0)
-                .map(b => ({ high: b.high, low: b.low, close: b.close, volume: b.volume }));
-            const vp = barsWithVol.length >= 20
-                ? calculateVolumeProfile(barsWithVol, currentPrice, 50, 60)
-                : null;
-
-            const recentHighArr = slice.slice(-60).map(b => b.high);
-            const recentHigh = Math.max(...recentHighArr);
-
-            const entryBarIdx = simDate + 1;
-            if (entryBarIdx >= bars.length) continue;
-            const entryPrice = bars[entryBarIdx].open;
-            if (entryPrice <= 0) continue;
-
-            const twoWeekMaxMove = atr * 10;
-            let targetPrice = Math.max(recentHigh, lastMa20 + 2 * atr);
-            if (targetPrice > entryPrice + twoWeekMaxMove) targetPrice = entryPrice + atr * 5;
-
-            const stopLossPrice = Math.max(entryPrice - atr * 2, lastMa60 * 0.99);
-            const reward = targetPrice - entryPrice;
-            const risk = entryPrice - stopLossPrice;
-            const rr = risk > 0 ? reward / risk : 0;
-
-            const { grade } = calcSwingGrade(
-                technicalScore, rr, vp, currentPrice, lastMa60, weights, thresholds
-            );
-
-            if (!gradeFilter.includes(grade)) continue;
-
-            const holdEnd = simDate + 1 + holdingPeriod;
-            if (holdEnd > bars.length) continue;
-            const holdBars = bars.slice(simDate + 1, holdEnd);
-            if (holdBars.length === 0) continue;
-
-            const exitPrice = holdBars[holdBars.length - 1].close;
-            trades.push({
-                entryDate: bars[simDate + 1].date,
-                exitDate: holdBars[holdBars.length - 1].date,
-                returnPct: parseFloat(((exitPrice - entryPrice) / entryPrice * 100).toFixed(4)),
-            });
+        const { from, to } = simDateBounds(bars, holdingPeriod, config);
+
+        for (let simDate = from; simDate <= to; simDate += dateStride) {
+            if (isMember && !isMember(symbol, bars[simDate].date)) continue;
+            for (const direction of directions) {
+                const result = simulateTrade(symbol, bars, simDate, {
+                    holdingPeriod, weights, thresholds, exitRule, costs, market, strategy, direction, profile,
+                });
+                if (!result || (!strategy && !gradeFilter.includes(result.trade.swingGrade))) continue;
+
+                const { entryDate, exitDate, returnPct, netReturnPct } = result.trade;
+                trades.push({ symbol, entryDate, exitDate, returnPct, netReturnPct });
+            }
         }
     }
 
     return trades;
 }
 
+// ─── 탐색 유틸 ────────────────────────────────────────────────────────
+
+type SweepRow = ParameterSweepResult['combinations'][number];
+
+/** 비복원 추출 (count ≥ 전체면 원래 순서 그대로) */
+function sampleCombinations(combos: SweepCombination[], count: number, rng: () => number): SweepCombination[] {
+    if (count >= combos.length) return combos;
+    const pool = [...combos];
+    for (let i = 0; i < count; i++) {
+        const j = i + Math.floor(rng() * (pool.length - i));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count);
+}
+
+/**
+ * 탐색 범위 전체 조합 (Parameter Sweep / Walk-forward 공용)
+ * @throws 유효 조합 없음 또는 grid 조합 수 초과 (code 'INVALID_SEARCH')
+ */
+export function listSearchSpace(search: SweepSearchConfig, holdingPeriod: number): SweepCombination[] {
+    const space = listSweepCombinations(search.ranges, holdingPeriod);
+    if (space.length === 0 || ((search.strategy ?? 'grid') === 'grid' && space.length > MAX_GRID_COMBINATIONS)) {
+        const err = new Error(space.length === 0
+            ? 'Sweep ranges produce no valid combinations (thresholds must satisfy A > B > C)'
+            : `Grid search space too large (${space.length} > ${MAX_GRID_COMBINATIONS}); use strategy "random" or "successive_halving"`);
+        (err as any).code = 'INVALID_SEARCH';
+        throw err;
+    }
+    return space;
+}
+
+/** 탐색 방식별 초기 후보 (grid: 전체, random/successive_halving: samples개 표본) */
+export function sampleSearchCandidates(
+    space: SweepCombination[],
+    search: SweepSearchConfig,
+    rng: () => number
+): SweepCombination[] {
+    const strategy = search.strategy ?? 'grid';
+    if (strategy === 'grid') return space;
+    return sampleCombinations(space, search.samples ?? (strategy === 'random' ? 50 : 81), rng);
+}
+
+function evaluateCombination(
+    ohlcvCache: Map<string, OhlcvRecord[]>,
+    config: BacktestConfig,
+    combo: SweepCombination,
+    dateStride: number
+): SweepRow {
+    // 순위는 비용 차감 후(net) 수익률 기준 (walk-forward와 동일)
+    const trades = toNetTrades(runSweepForCombination(ohlcvCache, config, combo, dateStride));
+
+    const avgReturn = calcAvgReturn(trades);
+    const stdReturn = calcStdReturn(trades);
+    const equityCurve = buildEquityCurve(trades);
+
+    return {
+        rank: 0,
+        gradeThreshold: combo.gradeThreshold,
+        thresholds: combo.thresholds,
+        holdingPeriod: combo.holdingPeriod,
+        weights: {
+            tech: combo.weights.technicalScoreMax,
+            rr: combo.weights.rrScoreMax,
+            vp: combo.weights.volumeProfileMax,
+            ma60: combo.weights.ma60Max,
+        },
+        dateStride,
+        totalTrades: trades.length,
+        winRate: calcWinRate(trades),
+        avgReturn,
+        sharpeRatio: calcSharpeRatio(avgReturn, stdReturn),
+        maxDrawdown: calcMaxDrawdown(equityCurve),
+    };
+}
+
+function metricOf(row: SweepRow, rankBy: SweepRankBy): number {
+    if (rankBy === 'winRate') return row.winRate;
+    if (rankBy === 'avgReturn') return row.avgReturn;
+    return row.sharpeRatio;
+}
+
+/**
+ * 순위 비교: 촘촘한 평가(dateStride 작음) → 최소 거래 수 충족 → 지표 → 거래 수
+ * 최소 거래 수는 날짜 간격만큼 줄여서 적용
+ */
+function compareRows(rankBy: SweepRankBy) {
+    const isValid = (r: SweepRow) => r.totalTrades >= Math.max(1, Math.ceil(MIN_TRADES / r.dateStride));
+    return (a: SweepRow, b: SweepRow): number => {
+        if (a.dateStride !== b.dateStride) return a.dateStride - b.dateStride;
+        if (isValid(a) !== isValid(b)) return isValid(a) ? -1 : 1;
+        const diff = metricOf(b, rankBy) - metricOf(a, rankBy);
+        if (diff !== 0) return diff;
+        return b.totalTrades - a.totalTrades;
+    };
+}
+
 // ─── 메인 Parameter Sweep 함수 ───────────────────────────────────────
 
 export async function runParameterSweep(
-    baseConfig: BacktestConfig
+    baseConfig: BacktestConfig,
+    options: BacktestRunOptions = {},
+    search: SweepSearchConfig = {}
 ): Promise<ParameterSweepResult> {
-    // 1. OHLCV 1회 fetch → 캐시
-    const ohlcvCache = new Map<string, OhlcvRecord[]>();
-    for (const symbol of baseConfig.universe) {
-        try {
-            const raw = await fetchDailyOHLCV(symbol, 200);
-            ohlcvCache.set(symbol, normalizeOhlcv(raw.output2));
-        } catch (err) {
-            console.warn(`[Sweep] OHLCV fetch failed for ${symbol}: ${err}`);
+    const strategy = search.strategy ?? 'grid';
+    const rankBy = search.rankBy ?? 'sharpe';
+    const seed = search.seed ?? 42;
+    const eta = search.eta ?? 3;
+
+    const profile = getScoringProfile(baseConfig.profile);
+    const space = listSearchSpace(search, baseConfig.holdingPeriod);
+
+    // 1. OHLCV 1회 조회 → 캐시 (기본: 로컬 저장소)
+    const provider = options.provider ?? createStoreProvider({ market: baseConfig.market, exchange: baseConfig.exchange });
+    const { minBars, range } = resolveOhlcvRange(baseConfig);
+    const ohlcvCache = await loadUniverseOhlcv(baseConfig.universe, provider, minBars, 'Sweep', { ...options, range });
+
+    // 2. 탐색 방식별 평가 (조합별 최종 평가 결과만 유지)
+    const rng = createRng(seed);
+    const latest = new Map<SweepCombination, SweepRow>();
+    let evaluations = 0;
+    let totalEvaluations = 0;
+    const evaluate = async (combo: SweepCombination, dateStride: number) => {
+        const row = evaluateCombination(ohlcvCache, baseConfig, combo, dateStride);
+        latest.set(combo, row);
+        await checkpoint(options, { phase: 'sweep', completed: ++evaluations, total: totalEvaluations });
+        return row;
+    };
+
+    if (strategy === 'successive_halving') {
+        let survivors = sampleSearchCandidates(space, search, rng);
+        const rungs = Math.min(3, 1 + Math.floor(Math.log(survivors.length) / Math.log(eta)));
+        for (let rung = 0, size = survivors.length; rung < rungs; rung++, size = Math.max(1, Math.ceil(size / eta))) {
+            totalEvaluations += size;
         }
-        await sleep(100);
-    }
 
-    // 2. 조합 순열 실행
-    const combinations: ParameterSweepResult['combinations'] = [];
-
-    for (const gradeThreshold of SWEEP_RANGES.gradeThreshold) {
-        for (const technicalScoreMax of SWEEP_RANGES.technicalScoreMax) {
-            for (const rrScoreMax of SWEEP_RANGES.rrScoreMax) {
-                for (const volumeProfileMax of SWEEP_RANGES.volumeProfileMax) {
-                    for (const ma60Max of SWEEP_RANGES.ma60Max) {
-                        const weights: SwingGradeWeights = {
-                            technicalScoreMax,
-                            rrScoreMax,
-                            volumeProfileMax,
-                            ma60Max,
-                        };
-
-                        const trades = runSweepForCombination(
-                            ohlcvCache, baseConfig, gradeThreshold, weights
-                        );
-
-                        const avgReturn = calcAvgReturn(trades as any);
-                        const stdReturn = calcStdReturn(trades as any);
-                        const equityCurve = buildEquityCurve(trades as any);
-
-                        combinations.push({
-                            gradeThreshold,
-                            weights: {
-                                tech: technicalScoreMax,
-                                rr: rrScoreMax,
-                                vp: volumeProfileMax,
-                                ma60: ma60Max,
-                            },
-                            totalTrades: trades.length,
-                            winRate: calcWinRate(trades as any),
-                            avgReturn,
-                            sharpeRatio: calcSharpeRatio(avgReturn, stdReturn),
-                            maxDrawdown: calcMaxDrawdown(equityCurve),
-                        });
-                    }
-                }
-            }
+        for (let rung = 0; rung < rungs; rung++) {
+            const dateStride = Math.pow(eta, rungs - 1 - rung);
+            const rows: { combo: SweepCombination; row: SweepRow }[] = [];
+            for (const combo of survivors) rows.push({ combo, row: await evaluate(combo, dateStride) });
+            if (rung === rungs - 1) break;
+
+            const keep = Math.max(1, Math.ceil(rows.length / eta));
+            const order = compareRows(rankBy);
+            survivors = rows.sort((a, b) => order(a.row, b.row)).slice(0, keep).map(r => r.combo);
         }
+    } else {
+        const combos = sampleSearchCandidates(space, search, rng);
+        totalEvaluations = combos.length;
+        for (const combo of combos) await evaluate(combo, 1);
     }
 
-    // 3. 최적 조합 찾기
-    const validCombinations = combinations.filter(c => c.totalTrades >= 5);
+    // 3. 전체 순위표 & 최적 조합 찾기 (전체 데이터 평가 조합 중)
+    const combinations = [...latest.values()].sort(compareRows(rankBy));
+    combinations.forEach((row, i) => { row.rank = i + 1; });
+
+    const fullRows = combinations.filter(c => c.dateStride === 1);
+    const validCombinations = fullRows.filter(c => c.totalTrades >= MIN_TRADES);
 
     const bestByWinRate = validCombinations.reduce(
         (best, c) => c.winRate > best.winRate ? c : best,
-        validCombinations[0] ?? combinations[0]
+        validCombinations[0] ?? fullRows[0]
     );
 
     const bestBySharpe = validCombinations.reduce(
         (best, c) => c.sharpeRatio > best.sharpeRatio ? c : best,
-        validCombinations[0] ?? combinations[0]
+        validCombinations[0] ?? fullRows[0]
     );
 
-    const toWeights = (c: typeof combinations[0]): SwingGradeWeights => ({
+    const toWeights = (c: SweepRow): SwingGradeWeights => ({
         technicalScoreMax: c.weights.tech,
         rrScoreMax: c.weights.rr,
         volumeProfileMax: c.weights.vp,
@@ -253,21 +325,33 @@ export async function runParameterSweep(
     const result: ParameterSweepResult = {
         id: randomUUID(),
         executedAt: new Date().toISOString(),
+        profile: toProfileRef(profile),
+        search: {
+            strategy,
+            rankBy,
+            searchSpaceSize: space.length,
+            evaluatedCombinations: combinations.length,
+            fullEvaluations: fullRows.length,
+            seed: strategy === 'grid' ? undefined : seed,
+        },
         combinations,
         bestByWinRate: {
             gradeThreshold: bestByWinRate.gradeThreshold,
+            thresholds: bestByWinRate.thresholds,
+            holdingPeriod: bestByWinRate.holdingPeriod,
             weights: toWeights(bestByWinRate),
             winRate: bestByWinRate.winRate,
         },
         bestBySharpe: {
             gradeThreshold: bestBySharpe.gradeThreshold,
+            thresholds: bestBySharpe.thresholds,
+            holdingPeriod: bestBySharpe.holdingPeriod,
             weights: toWeights(bestBySharpe),
             sharpeRatio: bestBySharpe.sharpeRatio,
         },
     };
 
     // 4. 결과 저장
-    const RESULTS_DIR = './data/backtest-results';
     await mkdir(RESULTS_DIR, { recursive: true });
     await writeFile(
         join(RESULTS_DIR, `sweep-${result.id}.json`),
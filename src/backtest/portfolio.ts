@@ -0,0 +1,200 @@
+/**
+ * portfolio.ts
+ *
+ * 포트폴리오 단위 시뮬레이션
+ * - 엔진이 만든 거래 후보(시그널)를 날짜순으로 실제 계좌에 체결
+ * - 현금 제약, 종목당 비중(positionSizePercent), 최대 동시 보유 수, 보유 중 재진입 금지
+ * - 일별 종가 평가로 현금 포함 평가금액 곡선 생성
+ * - 매수/매도 현금 흐름에 거래비용(수수료, 거래세, 슬리피지) 반영
+ * - short는 진입가 전액을 증거금으로 묶고, 1주 평가액 = 증거금 + 손익 = 2×진입가 - 현재가
+ */
+
+import { buyCashPerShare, DEFAULT_COST_MODEL, getCostRule, restExitPrice, sellCashPerShare } from './costs.js';
+import { calcEquityDrawdown } from './stats.js';
+import type { BacktestTrade, CostModel, OhlcvRecord, PortfolioConfig, PortfolioResult } from './types.js';
+
+interface OpenPosition {
+    trade: BacktestTrade;
+    quantity: number;
+    heldRatio: number;  // 부분 익절 후 잔여 비율 (1 → 1 - partialExit.ratio)
+}
+
+/** 같은 날 후보가 여러 개면 grade 점수 → 예상 R/R 순으로 우선 체결 */
+function byPriority(a: BacktestTrade, b: BacktestTrade): number {
+    if (b.gradeScore !== a.gradeScore) return b.gradeScore - a.gradeScore;
+    return b.expectedRR - a.expectedRR;
+}
+
+export function simulatePortfolio(
+    candidates: BacktestTrade[],
+    ohlcvCache: Map<string, OhlcvRecord[]>,
+    config: PortfolioConfig,
+    costs: CostModel = DEFAULT_COST_MODEL
+): { trades: BacktestTrade[]; portfolio: PortfolioResult } {
+    const { initialCapital, maxPositions } = config;
+    const maxPositionPercent = config.maxPositionPercent ?? 100;
+
+    const skippedSignals = { maxPositions: 0, alreadyHolding: 0, insufficientCash: 0 };
+
+    if (candidates.length === 0) {
+        return {
+            trades: [],
+            portfolio: {
+                initialCapital,
+                finalEquity: initialCapital,
+                totalReturnPct: 0,
+                maxDrawdown: 0,
+                avgInvestedPercent: 0,
+                executedTrades: 0,
+                skippedSignals,
+                totalCosts: 0,
+                equityCurve: [],
+            },
+        };
+    }
+
+    // ── 날짜 축 & 종가 조회표 ─────────────────────────────────────────
+    const closeBySymbol = new Map<string, Map<string, number>>();
+    const allDates = new Set<string>();
+    for (const [symbol, bars] of ohlcvCache) {
+        const closes = new Map<string, number>();
+        for (const b of bars) {
+            closes.set(b.date, b.close);
+            allDates.add(b.date);
+        }
+        closeBySymbol.set(symbol, closes);
+    }
+
+    const firstDate = candidates.reduce((min, t) => t.entryDate < min ? t.entryDate : min, candidates[0].entryDate);
+    const lastDate = candidates.reduce((max, t) => t.exitDate > max ? t.exitDate : max, candidates[0].exitDate);
+    const dates = [...allDates].filter(d => d >= firstDate && d <= lastDate).sort();
+
+    const entriesByDate = new Map<string, BacktestTrade[]>();
+    for (const t of candidates) {
+        if (!entriesByDate.has(t.entryDate)) entriesByDate.set(t.entryDate, []);
+        entriesByDate.get(t.entryDate)!.push(t);
+    }
+
+    // ── 일별 루프: 시가 진입 → 종가 청산 → 종가 평가 ──────────────────
+    let cash = initialCapital;
+    const positions = new Map<string, OpenPosition>();
+    const lastClose = new Map<string, number>();
+    const executed: BacktestTrade[] = [];
+    const equityCurve: PortfolioResult['equityCurve'] = [];
+    let investedPercentSum = 0;
+    let totalCosts = 0;
+
+    /** 1주 평가액 (short: 증거금 + 손익) */
+    const shareValue = (trade: BacktestTrade, price: number) =>
+        trade.direction === 'short' ? 2 * trade.entryPrice - price : price;
+
+    /** 청산 현금 유입 (long: 매도, short: 환매수 후 증거금 반환, 비용 차감), 비용은 totalCosts에 누적 */
+    const close = (trade: BacktestTrade, quantity: number, price: number) => {
+        const rule = getCostRule(costs, trade.symbol);
+        const isEtf = rule === costs.etf;
+        if (trade.direction === 'short') {
+            const coverCost = buyCashPerShare(price, rule, isEtf, costs.market);
+            totalCosts += quantity * (coverCost - price);
+            return quantity * (2 * trade.entryPrice - coverCost);
+        }
+        const proceeds = quantity * sellCashPerShare(price, rule, isEtf, costs.market);
+        totalCosts += quantity * price - proceeds;
+        return proceeds;
+    };
+
+    const markToMarket = () => {
+        let value = cash;
+        for (const [symbol, pos] of positions) {
+            value += pos.quantity * pos.heldRatio * shareValue(pos.trade, lastClose.get(symbol) ?? pos.trade.entryPrice);
+        }
+        return value;
+    };
+
+    for (const date of dates) {
+        // 1. 진입 (익일 시가): 평가금액은 전일 종가 기준
+        const todaysEntries = (entriesByDate.get(date) ?? []).sort(byPriority);
+        for (const candidate of todaysEntries) {
+            if (positions.has(candidate.symbol)) {
+                skippedSignals.alreadyHolding++;
+                continue;
+            }
+            if (positions.size >= maxPositions) {
+                skippedSignals.maxPositions++;
+                continue;
+            }
+
+            const sizePercent = Math.min(candidate.positionSizePercent, maxPositionPercent);
+            const targetValue = Math.min(markToMarket() * sizePercent / 100, cash);
+            const rule = getCostRule(costs, candidate.symbol);
+            const isEtf = rule === costs.etf;
+            // short: 증거금(진입가) + 진입 매도 비용
+            const costPerShare = candidate.direction === 'short'
+                ? 2 * candidate.entryPrice - sellCashPerShare(candidate.entryPrice, rule, isEtf, costs.market)
+                : buyCashPerShare(candidate.entryPrice, rule, isEtf, costs.market);
+            const quantity = Math.floor(targetValue / costPerShare);
+            if (quantity <= 0) {
+                skippedSignals.insufficientCash++;
+                continue;
+            }
+
+            cash -= quantity * costPerShare;
+            totalCosts += quantity * (costPerShare - candidate.entryPrice);
+            const trade: BacktestTrade = {
+                ...candidate,
+                quantity,
+                positionValue: quantity * candidate.entryPrice,
+            };
+            positions.set(candidate.symbol, { trade, quantity, heldRatio: 1 });
+            executed.push(trade);
+        }
+
+        // 2. 종가 갱신
+        for (const [symbol, closes] of closeBySymbol) {
+            const close = closes.get(date);
+            if (close !== undefined) lastClose.set(symbol, close);
+        }
+
+        // 3. 청산 (부분 익절분은 해당일 현금화, 잔량은 잔량 청산가로 청산)
+        for (const [symbol, pos] of positions) {
+            const partial = pos.trade.partialExit;
+            if (partial && partial.date === date && pos.heldRatio === 1) {
+                cash += close(pos.trade, pos.quantity * partial.ratio, partial.price);
+                pos.heldRatio = 1 - partial.ratio;
+            }
+            if (pos.trade.exitDate === date) {
+                const price = partial ? restExitPrice(pos.trade) : pos.trade.exitPrice;
+                cash += close(pos.trade, pos.quantity * pos.heldRatio, price);
+                positions.delete(symbol);
+            }
+        }
+
+        // 4. 종가 평가
+        const equity = markToMarket();
+        investedPercentSum += equity > 0 ? (equity - cash) / equity * 100 : 0;
+        equityCurve.push({
+            date,
+            equity: Math.round(equity),
+            cash: Math.round(cash),
+            openPositions: positions.size,
+        });
+    }
+
+    const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+
+    return {
+        trades: executed,
+        portfolio: {
+            initialCapital,
+            finalEquity,
+            totalReturnPct: parseFloat(((finalEquity / initialCapital - 1) * 100).toFixed(4)),
+            maxDrawdown: calcEquityDrawdown(equityCurve.map(p => p.equity)),
+            avgInvestedPercent: equityCurve.length > 0
+                ? parseFloat((investedPercentSum / equityCurve.length).toFixed(2))
+                : 0,
+            executedTrades: executed.length,
+            skippedSignals,
+            totalCosts: Math.round(totalCosts),
+            equityCurve,
+        },
+    };
+}
@@ -0,0 +1,27 @@
+/**
+ * progress.ts
+ *
+ * 장시간 실행(백테스트/Sweep)의 진행률 보고와 취소 확인
+ * - 시뮬레이션 루프는 동기 CPU 작업이라 signal이 있으면 checkpoint마다 이벤트 루프에 양보
+ *   (그래야 실행 중에도 취소 요청/SSE 전송이 처리됨)
+ */
+
+import type { BacktestProgress, BacktestRunOptions } from './types.js';
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (!signal?.aborted) return;
+    const err = new Error('Backtest job cancelled');
+    (err as any).code = 'CANCELLED';
+    throw err;
+}
+
+/** 진행률 보고 → (취소 가능 실행이면) 양보 후 취소 여부 확인 */
+export async function checkpoint(
+    options: Pick<BacktestRunOptions, 'onProgress' | 'signal'>,
+    progress: BacktestProgress
+): Promise<void> {
+    options.onProgress?.(progress);
+    if (!options.signal) return;
+    await new Promise(resolve => setImmediate(resolve));
+    throwIfCancelled(options.signal);
+}
@@ -0,0 +1,312 @@
+/**
+ * result-store.ts
+ *
+ * 백테스트 결과 저장소 (gateway SQLite DB 공유)
+ * - 목록/필터용 컬럼(실행일, 유니버스, grade, Sharpe 등)과 전체 결과 JSON을 한 행에 저장
+ * - 목록 조회는 요약 컬럼만 읽음 (거래 내역 JSON 파싱 없음)
+ * - 이름/태그는 사용자 메타데이터로 결과 본문과 분리해 수정 가능
+ * - Parameter Sweep / Walk-forward 결과는 기존처럼 ./data/backtest-results의 JSON 파일
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { db } from '../mcp-gateway/db.js';
+import type { BacktestConfig, BacktestResult } from './types.js';
+
+export const RESULTS_DIR = './data/backtest-results';
+
+/** 결과 사용자 메타데이터 */
+export interface BacktestResultMeta {
+    name?: string | null;
+    tags?: string[];
+}
+
+/** 목록 조회 조건 */
+export interface BacktestResultQuery {
+    limit?: number;           // default: 20 (max 100)
+    offset?: number;
+    from?: string;            // executedAt 하한 (YYYY-MM-DD 또는 ISO 8601, inclusive)
+    to?: string;              // executedAt 상한 (YYYY-MM-DD는 당일 포함)
+    symbol?: string;          // universe에 포함된 종목
+    grades?: ('A' | 'B' | 'C' | 'D')[];   // gradeFilter가 모두 포함하는 결과
+    minSharpe?: number;
+    tag?: string;
+    name?: string;            // 이름 부분 일치
+}
+
+export interface BacktestResultListItem {
+    id: string;
+    name: string | null;
+    tags: string[];
+    executedAt: string;
+    config: BacktestConfig;
+    summary: BacktestResult['summary'];
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+let schemaInitialized = false;
+
+export function initializeResultSchema() {
+    if (schemaInitialized) return;
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS backtest_results (
+            id TEXT PRIMARY KEY,
+            name TEXT,
+            executed_at TEXT NOT NULL,      -- ISO 8601
+            universe TEXT NOT NULL,         -- JSON array
+            grade_filter TEXT NOT NULL,     -- JSON array
+            holding_period INTEGER NOT NULL,
+            total_trades INTEGER NOT NULL,
+            win_rate REAL NOT NULL,
+            sharpe_ratio REAL NOT NULL,
+            config TEXT NOT NULL,           -- JSON
+            summary TEXT NOT NULL,          -- JSON
+            payload TEXT NOT NULL,          -- 전체 결과 JSON
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+    `);
+    db.run('CREATE INDEX IF NOT EXISTS idx_backtest_results_executed_at ON backtest_results(executed_at);');
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS backtest_result_tags (
+            result_id TEXT NOT NULL,
+            tag TEXT NOT NULL,
+            PRIMARY KEY (result_id, tag)
+        );
+    `);
+
+    schemaInitialized = true;
+    console.log('✅ Backtest Result Store Schema Initialized');
+}
+
+function normalizeTags(tags: string[] | undefined): string[] {
+    return [...new Set((tags ?? []).map(t => t.trim()).filter(Boolean))];
+}
+
+function getTags(id: string): string[] {
+    const rows = db.query('SELECT tag FROM backtest_result_tags WHERE result_id = ? ORDER BY tag').all(id) as { tag: string }[];
+    return rows.map(r => r.tag);
+}
+
+function replaceTags(id: string, tags: string[]) {
+    db.run('DELETE FROM backtest_result_tags WHERE result_id = ?', [id]);
+    const stmt = db.prepare('INSERT INTO backtest_result_tags (result_id, tag) VALUES (?, ?)');
+    for (const tag of normalizeTags(tags)) stmt.run(id, tag);
+}
+
+// ─── 저장 ──────────────────────────────────────────────────────────────
+
+/**
+ * 결과 저장 (같은 id는 덮어씀)
+ * @param ifNotExists true면 이미 있는 id는 건너뜀 (임포트용)
+ * @returns 저장 여부
+ */
+export function saveBacktestResult(
+    result: BacktestResult,
+    meta: BacktestResultMeta = {},
+    ifNotExists = false
+): boolean {
+    initializeResultSchema();
+    const { name, tags, ...body } = result;
+    const resolvedName = meta.name ?? name ?? null;
+    const resolvedTags = meta.tags ?? tags ?? [];
+
+    const insert = db.transaction(() => {
+        const changes = db.run(`
+            INSERT INTO backtest_results (
+                id, name, executed_at, universe, grade_filter, holding_period,
+                total_trades, win_rate, sharpe_ratio, config, summary, payload
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO ${ifNotExists ? 'NOTHING' : `UPDATE SET
+                name = excluded.name, executed_at = excluded.executed_at,
+                universe = excluded.universe, grade_filter = excluded.grade_filter,
+                holding_period = excluded.holding_period, total_trades = excluded.total_trades,
+                win_rate = excluded.win_rate, sharpe_ratio = excluded.sharpe_ratio,
+                config = excluded.config, summary = excluded.summary, payload = excluded.payload`}
+        `, [
+            body.id,
+            resolvedName,
+            body.executedAt,
+            JSON.stringify(body.config.universe),
+            JSON.stringify(body.config.gradeFilter),
+            body.config.holdingPeriod,
+            body.summary.totalTrades,
+            body.summary.winRate,
+            body.summary.sharpeRatio,
+            JSON.stringify(body.config),
+            JSON.stringify(body.summary),
+            JSON.stringify(body),
+        ]).changes;
+        if (changes > 0) replaceTags(body.id, resolvedTags);
+        return changes > 0;
+    });
+
+    return insert();
+}
+
+/**
+ * 이름/태그 수정 (지정한 항목만 변경)
+ * @returns 결과가 없으면 false
+ */
+export function updateBacktestResultMeta(id: string, meta: BacktestResultMeta): boolean {
+    initializeResultSchema();
+    const exists = db.query('SELECT 1 FROM backtest_results WHERE id = ?').get(id);
+    if (!exists) return false;
+
+    db.transaction(() => {
+        if (meta.name !== undefined) {
+            db.run('UPDATE backtest_results SET name = ? WHERE id = ?', [meta.name?.trim() || null, id]);
+        }
+        if (meta.tags !== undefined) replaceTags(id, meta.tags);
+    })();
+    return true;
+}
+
+/** @returns 삭제 여부 */
+export function deleteBacktestResult(id: string): boolean {
+    initializeResultSchema();
+    return db.transaction(() => {
+        db.run('DELETE FROM backtest_result_tags WHERE result_id = ?', [id]);
+        return db.run('DELETE FROM backtest_results WHERE id = ?', [id]).changes > 0;
+    })();
+}
+
+// ─── 조회 ──────────────────────────────────────────────────────────────
+
+/**
+ * 결과 단건 조회 (이름/태그 포함)
+ * sweep- 접두사 ID는 Parameter Sweep 결과 파일에서 읽음
+ */
+export async function loadBacktestResult(id: string): Promise<BacktestResult | null> {
+    // UUID 형식 검증 (path traversal 방지, Sweep 결과는 sweep- 접두사)
+    if (!/^(sweep-)?[0-9a-f-]{36}$/.test(id)) return null;
+
+    if (id.startsWith('sweep-')) {
+        try {
+            const raw = await readFile(join(RESULTS_DIR, `${id}.json`), 'utf-8');
+            return JSON.parse(raw);
+        } catch {
+            return null;
+        }
+    }
+
+    initializeResultSchema();
+    const row = db.query('SELECT name, payload FROM backtest_results WHERE id = ?').get(id) as
+        { name: string | null; payload: string } | null;
+    if (!row) return null;
+
+    return { ...JSON.parse(row.payload), name: row.name, tags: getTags(id) };
+}
+
+/** 조건별 결과 목록 (실행일 최신순) */
+export function listBacktestResults(query: BacktestResultQuery = {}): {
+    results: BacktestResultListItem[];
+    total: number;
+    limit: number;
+    offset: number;
+} {
+    initializeResultSchema();
+
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.from) {
+        where.push('executed_at >= ?');
+        params.push(query.from);
+    }
+    if (query.to) {
+        // 날짜만 주면 당일 전체 포함
+        where.push('executed_at <= ?');
+        params.push(/^\d{4}-\d{2}-\d{2}$/.test(query.to) ? `${query.to}T23:59:59.999Z` : query.to);
+    }
+    if (query.symbol) {
+        where.push('EXISTS (SELECT 1 FROM json_each(universe) WHERE value = ?)');
+        params.push(query.symbol);
+    }
+    for (const grade of query.grades ?? []) {
+        where.push('EXISTS (SELECT 1 FROM json_each(grade_filter) WHERE value = ?)');
+        params.push(grade);
+    }
+    if (query.minSharpe !== undefined) {
+        where.push('sharpe_ratio >= ?');
+        params.push(query.minSharpe);
+    }
+    if (query.tag) {
+        where.push('id IN (SELECT result_id FROM backtest_result_tags WHERE tag = ?)');
+        params.push(query.tag);
+    }
+    if (query.name) {
+        where.push("name LIKE ? ESCAPE '\\'");
+        params.push(`%${query.name.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+    }
+
+    const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    const limit = Math.min(MAX_LIST_LIMIT, Math.max(1, query.limit ?? DEFAULT_LIST_LIMIT));
+    const offset = Math.max(0, query.offset ?? 0);
+
+    const { total } = db.query(`SELECT COUNT(*) as total FROM backtest_results ${whereSql}`)
+        .get(...params) as { total: number };
+    const rows = db.query(`
+        SELECT id, name, executed_at, config, summary FROM backtest_results ${whereSql}
+        ORDER BY executed_at DESC, id LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as
+        { id: string; name: string | null; executed_at: string; config: string; summary: string }[];
+
+    return {
+        results: rows.map(r => ({
+            id: r.id,
+            name: r.name,
+            tags: getTags(r.id),
+            executedAt: r.executed_at,
+            config: JSON.parse(r.config),
+            summary: JSON.parse(r.summary),
+        })),
+        total,
+        limit,
+        offset,
+    };
+}
+
+// ─── JSON 파일 임포트 (1회성) ─────────────────────────────────────────
+
+/**
+ * 기존 ./data/backtest-results/*.json 백테스트 결과를 저장소로 이관
+ * - 이미 저장된 id는 건너뜀 (여러 번 실행해도 안전)
+ * - Sweep / Walk-forward 결과 파일은 대상 아님
+ * - 원본 파일은 삭제하지 않음
+ */
+export async function importBacktestResultFiles(dir = RESULTS_DIR): Promise<{
+    imported: number;
+    skipped: number;
+    failed: { file: string; error: string }[];
+}> {
+    let files: string[];
+    try {
+        files = (await readdir(dir)).filter(f => f.endsWith('.json') && /^[0-9a-f-]{36}\.json$/.test(f));
+    } catch {
+        return { imported: 0, skipped: 0, failed: [] };
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    const failed: { file: string; error: string }[] = [];
+
+    for (const file of files) {
+        try {
+            const result: BacktestResult = JSON.parse(await readFile(join(dir, file), 'utf-8'));
+            if (!result.id || !result.summary || !result.config) {
+                failed.push({ file, error: 'not a backtest result' });
+                continue;
+            }
+            if (saveBacktestResult(result, {}, true)) imported++;
+            else skipped++;
+        } catch (err) {
+            failed.push({ file, error: String(err) });
+        }
+    }
+
+    return { imported, skipped, failed };
+}
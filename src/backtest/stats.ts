@@ -5,23 +5,36 @@
  * 외부 의존성 없음
  */
 
-import type { BacktestTrade, BacktestResult } from './types.js';
+import type {
+    BacktestTrade,
+    BacktestResult,
+    BootstrapConfig,
+    BootstrapSummary,
+    ConfidenceInterval,
+    PeriodBreakdown,
+    ReturnSummary,
+    RiskMetrics,
+} from './types.js';
+
+/** 수익률 집계에 필요한 거래 필드 (BacktestTrade / SweepTradeResult 공용) */
+type TradeReturn = Pick<BacktestTrade, 'returnPct'>;
+type DatedTradeReturn = Pick<BacktestTrade, 'exitDate' | 'returnPct'>;
 
 // ─── 기본 통계 ──────────────────────────────────────────────────────
 
-export function calcWinRate(trades: BacktestTrade[]): number {
+export function calcWinRate(trades: TradeReturn[]): number {
     if (trades.length === 0) return 0;
     const wins = trades.filter(t => t.returnPct > 0).length;
     return parseFloat(((wins / trades.length) * 100).toFixed(2));
 }
 
-export function calcAvgReturn(trades: BacktestTrade[]): number {
+export function calcAvgReturn(trades: TradeReturn[]): number {
     if (trades.length === 0) return 0;
     const sum = trades.reduce((acc, t) => acc + t.returnPct, 0);
     return parseFloat((sum / trades.length).toFixed(4));
 }
 
-export function calcMedianReturn(trades: BacktestTrade[]): number {
+export function calcMedianReturn(trades: TradeReturn[]): number {
     if (trades.length === 0) return 0;
     const sorted = [...trades].sort((a, b) => a.returnPct - b.returnPct);
     const mid = Math.floor(sorted.length / 2);
@@ -31,7 +44,7 @@ export function calcMedianReturn(trades: BacktestTrade[]): number {
     return parseFloat(sorted[mid].returnPct.toFixed(4));
 }
 
-export function calcStdReturn(trades: BacktestTrade[]): number {
+export function calcStdReturn(trades: TradeReturn[]): number {
     if (trades.length < 2) return 0;
     const avg = calcAvgReturn(trades);
     const variance = trades.reduce((acc, t) => acc + Math.pow(t.returnPct - avg, 2), 0) / (trades.length - 1);
@@ -43,7 +56,7 @@ export function calcSharpeRatio(avg: number, std: number): number {
     return parseFloat((avg / std).toFixed(4));
 }
 
-export function calcProfitFactor(trades: BacktestTrade[]): number {
+export function calcProfitFactor(trades: TradeReturn[]): number {
     const totalGain = trades.filter(t => t.returnPct > 0).reduce((acc, t) => acc + t.returnPct, 0);
     const totalLoss = Math.abs(trades.filter(t => t.returnPct <= 0).reduce((acc, t) => acc + t.returnPct, 0));
     if (totalLoss === 0) return totalGain > 0 ? 999 : 0;
@@ -57,7 +70,7 @@ export function calcProfitFactor(trades: BacktestTrade[]): number {
  * 동일 날짜에 여러 거래가 있으면 평균 수익률 사용
  */
 export function buildEquityCurve(
-    trades: BacktestTrade[]
+    trades: DatedTradeReturn[]
 ): { date: string; cumulativeReturn: number }[] {
     if (trades.length === 0) return [];
 
@@ -104,6 +117,316 @@ export function calcMaxDrawdown(
     return parseFloat(maxDD.toFixed(4));
 }
 
+/**
+ * 평가금액 시계열 기준 최대 낙폭 (고점 대비 하락률 %, 음수 반환)
+ * 포트폴리오 모드처럼 복리 평가금액이 있을 때 사용
+ */
+export function calcEquityDrawdown(equities: number[]): number {
+    if (equities.length === 0) return 0;
+
+    let peak = equities[0];
+    let maxDD = 0;
+
+    for (const equity of equities) {
+        if (equity > peak) peak = equity;
+        if (peak <= 0) continue;
+        const dd = (equity / peak - 1) * 100;
+        if (dd < maxDD) maxDD = dd;
+    }
+
+    return parseFloat(maxDD.toFixed(4));
+}
+
+/**
+ * 거래별 모드 net 곡선: 청산일별 평균 net 수익률을 복리로 누적
+ * (buildEquityCurve는 gross 단순 합산이라 리스크 지표·벤치마크 비교에 쓰지 않음)
+ */
+export function buildNetCompoundedCurve(
+    trades: Pick<BacktestTrade, 'exitDate' | 'netReturnPct'>[]
+): { date: string; cumulativeReturn: number }[] {
+    const byDate = new Map<string, number[]>();
+    for (const trade of trades) {
+        if (!byDate.has(trade.exitDate)) byDate.set(trade.exitDate, []);
+        byDate.get(trade.exitDate)!.push(trade.netReturnPct);
+    }
+
+    let equity = 1;
+    return [...byDate.keys()].sort().map(date => {
+        const returns = byDate.get(date)!;
+        equity *= 1 + returns.reduce((a, b) => a + b, 0) / returns.length / 100;
+        return { date, cumulativeReturn: parseFloat(((equity - 1) * 100).toFixed(4)) };
+    });
+}
+
+// ─── Gross / Net 요약 ─────────────────────────────────────────────────
+
+/** returnPct 자리에 netReturnPct를 넣은 거래 목록 (기존 집계 함수를 net 기준으로 재사용) */
+export function toNetTrades<T extends Pick<BacktestTrade, 'returnPct' | 'netReturnPct'>>(trades: T[]): T[] {
+    return trades.map(t => ({ ...t, returnPct: t.netReturnPct }));
+}
+
+/**
+ * 수익률 요약 통계
+ * @param maxDrawdown 미지정 시 거래별 equity curve로 계산 (포트폴리오 모드는 계좌 MDD 전달)
+ */
+export function calcReturnSummary(trades: DatedTradeReturn[], maxDrawdown?: number): ReturnSummary {
+    const avgReturn = calcAvgReturn(trades);
+    const stdReturn = calcStdReturn(trades);
+    return {
+        winRate: calcWinRate(trades),
+        avgReturn,
+        medianReturn: calcMedianReturn(trades),
+        stdReturn,
+        sharpeRatio: calcSharpeRatio(avgReturn, stdReturn),
+        maxDrawdown: maxDrawdown ?? calcMaxDrawdown(buildEquityCurve(trades)),
+        profitFactor: calcProfitFactor(trades),
+    };
+}
+
+/** 거래당 평균 비용 (gross - net, %) */
+export function calcAvgCostPct(trades: BacktestTrade[]): number {
+    if (trades.length === 0) return 0;
+    const sum = trades.reduce((acc, t) => acc + (t.returnPct - t.netReturnPct), 0);
+    return parseFloat((sum / trades.length).toFixed(4));
+}
+
+// ─── 시간축 리스크 지표 ───────────────────────────────────────────────
+
+/** 연율화 기준 거래일 수 */
+export const TRADING_DAYS_PER_YEAR = 252;
+
+function round4(value: number): number {
+    return Number.isFinite(value) ? parseFloat(value.toFixed(4)) : 0;
+}
+
+function calendarDays(fromYmd: string, toYmd: string): number {
+    const toMs = (d: string) => Date.UTC(+d.slice(0, 4), +d.slice(4, 6) - 1, +d.slice(6, 8));
+    return Math.round((toMs(toYmd) - toMs(fromYmd)) / 86_400_000);
+}
+
+/** 평균 / 하방편차(기준 0) 비율 */
+function sortino(returns: number[]): number {
+    if (returns.length === 0) return 0;
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const downside = Math.sqrt(returns.reduce((acc, r) => acc + Math.min(r, 0) ** 2, 0) / returns.length);
+    return downside > 0 ? mean / downside : 0;
+}
+
+/**
+ * 리스크 지표 (RiskMetrics 참고, 모두 비용 차감 후 net 기준)
+ * @param tradingDays     시뮬레이션 종목 봉 날짜 합집합 (오름차순, 비어 있으면 거래 진입/청산일로 대체)
+ * @param portfolioCurve  포트폴리오 모드 평가금액 곡선 (미지정 시 buildNetCompoundedCurve로 거래별 net 복리 곡선 생성)
+ */
+export function calcRiskMetrics(
+    trades: BacktestTrade[],
+    tradingDays: string[],
+    portfolioCurve?: { date: string; cumulativeReturn: number }[]
+): RiskMetrics {
+    const empty: RiskMetrics = {
+        sortinoRatio: 0, annualizedSharpe: 0, annualizedSortino: 0, cagr: 0, calmarRatio: 0, years: 0,
+        avgHoldingDays: 0, exposurePct: 0, longestLosingStreak: 0, ulcerIndex: 0, expectancyR: 0, avgExpectedRR: 0,
+    };
+    if (trades.length === 0) return empty;
+
+    // 1. 시간축: 첫 진입일 ~ 마지막 청산일의 거래일
+    const start = trades.reduce((min, t) => (t.entryDate < min ? t.entryDate : min), trades[0].entryDate);
+    const end = trades.reduce((max, t) => (t.exitDate > max ? t.exitDate : max), trades[0].exitDate);
+    const axisSource = tradingDays.length > 0 ? tradingDays : trades.flatMap(t => [t.entryDate, t.exitDate]);
+    const days = [...new Set(axisSource)].filter(d => d >= start && d <= end).sort();
+
+    // 2. 일별 평가 지수 (곡선 값이 없는 날은 직전 값 유지)
+    const curve = [...(portfolioCurve ?? buildNetCompoundedCurve(trades))].sort((a, b) => a.date.localeCompare(b.date));
+    const index: number[] = [];
+    let cursor = 0;
+    let level = 100;
+    for (const day of days) {
+        while (cursor < curve.length && curve[cursor].date <= day) {
+            level = 100 + curve[cursor++].cumulativeReturn;
+        }
+        index.push(level);
+    }
+
+    const dailyReturns: number[] = [];
+    for (let i = 1; i < index.length; i++) {
+        if (index[i - 1] > 0) dailyReturns.push(index[i] / index[i - 1] - 1);
+    }
+    const dailyMean = dailyReturns.length > 0 ? dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length : 0;
+    const dailyStd = dailyReturns.length > 1
+        ? Math.sqrt(dailyReturns.reduce((acc, r) => acc + (r - dailyMean) ** 2, 0) / (dailyReturns.length - 1))
+        : 0;
+    const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+    // 3. CAGR / Calmar / Ulcer
+    const years = calendarDays(start, end) / 365.25;
+    const finalLevel = index.length > 0 ? index[index.length - 1] : 100;
+    const cagr = finalLevel <= 0 ? -100 : years > 0 ? ((finalLevel / 100) ** (1 / years) - 1) * 100 : 0;
+    const maxDrawdown = calcEquityDrawdown(index);
+
+    let peak = index[0] ?? 100;
+    let sumSquares = 0;
+    for (const value of index) {
+        if (value > peak) peak = value;
+        const dd = peak > 0 ? (value / peak - 1) * 100 : 0;
+        sumSquares += dd * dd;
+    }
+
+    // 4. 노출도 (보유 구간 차분 누적)
+    const position = new Map(days.map((d, i) => [d, i]));
+    const diff = new Array<number>(days.length + 1).fill(0);
+    for (const t of trades) {
+        const from = position.get(t.entryDate) ?? days.findIndex(d => d >= t.entryDate);
+        if (from === -1) continue;
+        const to = position.get(t.exitDate) ?? days.findLastIndex(d => d <= t.exitDate);
+        if (to < from) continue;
+        diff[from]++;
+        diff[to + 1]--;
+    }
+    let open = 0;
+    let exposedDays = 0;
+    for (let i = 0; i < days.length; i++) {
+        open += diff[i];
+        if (open > 0) exposedDays++;
+    }
+
+    // 5. 최장 연속 손실 (청산일 순, net 기준)
+    let streak = 0;
+    let longestLosingStreak = 0;
+    for (const t of [...trades].sort((a, b) => a.exitDate.localeCompare(b.exitDate) || a.entryDate.localeCompare(b.entryDate))) {
+        streak = t.netReturnPct <= 0 ? streak + 1 : 0;
+        if (streak > longestLosingStreak) longestLosingStreak = streak;
+    }
+
+    // 6. R 배수 = 주당 net 손익 / 주당 초기 위험(진입가-손절가 거리), 손절가가 진입가 반대편인 거래만
+    // (netReturnPct는 비용 차감·short 부호 반영 후 값이므로 long/short 산식 동일)
+    const rMultiples = trades
+        .filter(t => t.direction === 'short' ? t.stopLossPrice > t.entryPrice : t.entryPrice > t.stopLossPrice)
+        .map(t => (t.entryPrice * t.netReturnPct / 100) / Math.abs(t.entryPrice - t.stopLossPrice));
+
+    return {
+        sortinoRatio: round4(sortino(trades.map(t => t.netReturnPct))),
+        annualizedSharpe: round4(dailyStd > 0 ? dailyMean / dailyStd * annualize : 0),
+        annualizedSortino: round4(sortino(dailyReturns) * annualize),
+        cagr: round4(cagr),
+        calmarRatio: round4(maxDrawdown < 0 ? cagr / Math.abs(maxDrawdown) : 0),
+        years: round4(years),
+        avgHoldingDays: round4(trades.reduce((acc, t) => acc + t.holdingDays, 0) / trades.length),
+        exposurePct: round4(days.length > 0 ? exposedDays / days.length * 100 : 0),
+        longestLosingStreak,
+        ulcerIndex: round4(index.length > 0 ? Math.sqrt(sumSquares / index.length) : 0),
+        expectancyR: round4(rMultiples.length > 0 ? rMultiples.reduce((a, b) => a + b, 0) / rMultiples.length : 0),
+        avgExpectedRR: round4(trades.reduce((acc, t) => acc + t.expectedRR, 0) / trades.length),
+    };
+}
+
+// ─── 부트스트랩 신뢰구간 ─────────────────────────────────────────────
+
+export const DEFAULT_BOOTSTRAP: Required<BootstrapConfig> = {
+    iterations: 1000,
+    confidence: 0.95,
+    seed: 42,
+};
+
+/** 시드 고정 난수 (mulberry32) */
+export function createRng(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** 오름차순 정렬된 값의 분위수 (선형 보간) */
+function quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0;
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** 수익률 시퀀스 1개의 통계 (반올림 전, MDD는 주어진 순서대로 단순 누적) */
+function sequenceStats(returns: number[]) {
+    const n = returns.length;
+    let sum = 0, wins = 0, gain = 0, loss = 0;
+    let cumulative = 0, peak = 0, maxDD = 0;
+    for (const r of returns) {
+        sum += r;
+        if (r > 0) { wins++; gain += r; } else { loss -= r; }
+        cumulative += r;
+        if (cumulative > peak) peak = cumulative;
+        if (cumulative - peak < maxDD) maxDD = cumulative - peak;
+    }
+    const avgReturn = n > 0 ? sum / n : 0;
+    const variance = n > 1 ? returns.reduce((acc, r) => acc + (r - avgReturn) ** 2, 0) / (n - 1) : 0;
+    const std = Math.sqrt(variance);
+
+    return {
+        winRate: n > 0 ? (wins / n) * 100 : 0,
+        avgReturn,
+        sharpeRatio: std > 0 ? avgReturn / std : 0,
+        profitFactor: loss === 0 ? (gain > 0 ? 999 : 0) : gain / loss,
+        maxDrawdown: maxDD,
+    };
+}
+
+type SequenceStats = ReturnType<typeof sequenceStats>;
+
+/**
+ * 거래 복원 추출 부트스트랩
+ * - 재표본마다 거래 n개를 뽑은 순서 그대로 누적해 MDD 산출 (거래 순서 운 반영)
+ * - 점추정치의 MDD는 청산일 순 단순 누적 (summary.maxDrawdown의 날짜별 평균 누적과 다를 수 있음)
+ * @param trades returnPct 기준 (net 기준은 toNetTrades 결과 전달)
+ */
+export function calcBootstrapSummary(trades: BacktestTrade[], config: BootstrapConfig = {}): BootstrapSummary {
+    const { iterations, confidence, seed } = { ...DEFAULT_BOOTSTRAP, ...config };
+    const returns = [...trades]
+        .sort((a, b) => a.exitDate.localeCompare(b.exitDate))
+        .map(t => t.returnPct);
+    const n = returns.length;
+
+    const estimate = sequenceStats(returns);
+    const samples: Record<keyof SequenceStats, number[]> = {
+        winRate: [], avgReturn: [], sharpeRatio: [], profitFactor: [], maxDrawdown: [],
+    };
+    let positive = 0;
+
+    if (n > 0) {
+        const rng = createRng(seed);
+        const resampled = new Array<number>(n);
+        for (let it = 0; it < iterations; it++) {
+            for (let i = 0; i < n; i++) resampled[i] = returns[Math.floor(rng() * n)];
+            const stats = sequenceStats(resampled);
+            for (const key of Object.keys(samples) as (keyof SequenceStats)[]) samples[key].push(stats[key]);
+            if (stats.avgReturn > 0) positive++;
+        }
+    }
+
+    const tail = (1 - confidence) / 2;
+    const interval = (key: keyof SequenceStats): ConfidenceInterval => {
+        const sorted = samples[key].sort((a, b) => a - b);
+        return {
+            estimate: parseFloat(estimate[key].toFixed(4)),
+            lower: parseFloat(quantile(sorted, tail).toFixed(4)),
+            upper: parseFloat(quantile(sorted, 1 - tail).toFixed(4)),
+        };
+    };
+
+    return {
+        iterations,
+        confidence,
+        seed,
+        winRate: interval('winRate'),
+        avgReturn: interval('avgReturn'),
+        sharpeRatio: interval('sharpeRatio'),
+        profitFactor: interval('profitFactor'),
+        maxDrawdown: interval('maxDrawdown'),
+        probPositiveExpectancy: n > 0 ? parseFloat((positive / iterations).toFixed(4)) : 0,
+    };
+}
+
 // ─── 피어슨 상관계수 ─────────────────────────────────────────────────
 
 export function calcPearsonCorrelation(xs: number[], ys: number[]): number {
@@ -147,6 +470,41 @@ export function calcGradeBreakdown(
     });
 }
 
+// ─── 기간별 집계 ──────────────────────────────────────────────────────
+
+function groupByPeriod(trades: BacktestTrade[], keyOf: (entryDate: string) => string): PeriodBreakdown[] {
+    const groups = new Map<string, BacktestTrade[]>();
+    for (const trade of trades) {
+        const key = keyOf(trade.entryDate);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(trade);
+    }
+
+    return [...groups.keys()].sort().map(period => {
+        const group = groups.get(period)!;
+        const net = toNetTrades(group);
+        const gradeCounts = { A: 0, B: 0, C: 0, D: 0 };
+        for (const t of group) gradeCounts[t.swingGrade]++;
+        return {
+            period,
+            tradeCount: group.length,
+            winRate: calcWinRate(group),
+            avgReturn: calcAvgReturn(group),
+            netWinRate: calcWinRate(net),
+            netAvgReturn: calcAvgReturn(net),
+            gradeCounts,
+        };
+    });
+}
+
+/** 진입일 기준 연도별/월별 성과 (시장 국면별 grade 성과 비교용) */
+export function calcPeriodBreakdown(trades: BacktestTrade[]): NonNullable<BacktestResult['periodBreakdown']> {
+    return {
+        yearly: groupByPeriod(trades, d => d.slice(0, 4)),
+        monthly: groupByPeriod(trades, d => `${d.slice(0, 4)}-${d.slice(4, 6)}`),
+    };
+}
+
 // ─── Factor 상관계수 집계 ─────────────────────────────────────────────
 
 type FactorKey = 'technicalScore' | 'rrScore' | 'volumeProfileScore' | 'ma60Score';
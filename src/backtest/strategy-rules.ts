@@ -0,0 +1,201 @@
+/**
+ * strategy-rules.ts
+ *
+ * 선언형 전략 규칙 (JSON 규칙 트리) 검증 / 평가
+ * - 예: rsi < 35 AND close > ma60 AND vp.pricePosition == 'above_poc'
+ *   → { all: [{ field: 'rsi', op: '<', value: 35 },
+ *             { field: 'close', op: '>', value: { field: 'ma60' } },
+ *             { field: 'vp.pricePosition', op: '==', value: 'above_poc' }] }
+ * - 값이 없는 필드(워밍업 전 MA, 매물대 없음 등)와의 비교는 항상 거짓
+ * - 평가는 순수 함수, 지표는 indicator-series 스냅샷(해당 봉까지의 데이터)만 사용
+ */
+
+import { z } from 'zod';
+import type { IndicatorSnapshot } from './indicator-series.js';
+import type { OhlcvRecord, RuleCondition, RuleField, RuleNode, TradeDirection } from './types.js';
+
+const NUMERIC_FIELDS = [
+    'open', 'high', 'low', 'close', 'volume',
+    'ma20', 'ma60', 'ma120', 'rsi', 'atr',
+    'avgVol5', 'avgVol20', 'recentHigh', 'recentLow',
+    'vp.poc', 'vp.valueAreaHigh', 'vp.valueAreaLow', 'vp.nearestResistance', 'vp.nearestSupport',
+    'gradeScore', 'technicalScore', 'rr',
+    'returnPct', 'holdingDays',
+] as const;
+
+/** 문자열 필드 → 허용 값 (==, != 만 가능) */
+const STRING_FIELD_VALUES: Record<string, readonly string[]> = {
+    'vp.pricePosition': ['above_poc', 'at_poc', 'below_poc'],
+    'grade': ['A', 'B', 'C', 'D'],
+    'direction': ['long', 'short'],
+};
+
+/** 청산 규칙에서만 쓸 수 있는 보유 포지션 필드 */
+const POSITION_FIELDS: readonly RuleField[] = ['returnPct', 'holdingDays'];
+
+/** 규칙 트리 최대 깊이 (요청 본문 크기 제한 용도) */
+export const MAX_RULE_DEPTH = 8;
+
+export const RULE_FIELDS = [...NUMERIC_FIELDS, ...Object.keys(STRING_FIELD_VALUES)] as RuleField[];
+
+const fieldSchema = z.enum(RULE_FIELDS as [RuleField, ...RuleField[]]);
+
+const conditionSchema = z.object({
+    field: fieldSchema,
+    op: z.enum(['<', '<=', '>', '>=', '==', '!=']),
+    value: z.union([z.number().finite(), z.string(), z.object({ field: fieldSchema }).strict()]),
+}).strict().superRefine((cond, ctx) => {
+    const allowed = STRING_FIELD_VALUES[cond.field];
+    const refField = typeof cond.value === 'object' ? cond.value.field : null;
+
+    if (allowed) {
+        if (cond.op !== '==' && cond.op !== '!=') {
+            ctx.addIssue({ code: 'custom', message: `${cond.field} only supports == and !=`, path: ['op'] });
+        }
+        if (refField ? !STRING_FIELD_VALUES[refField] : typeof cond.value !== 'string' || !allowed.includes(cond.value)) {
+            ctx.addIssue({ code: 'custom', message: `${cond.field} must be compared with one of ${allowed.join(', ')}`, path: ['value'] });
+        }
+    } else if (refField ? STRING_FIELD_VALUES[refField] : typeof cond.value !== 'number') {
+        ctx.addIssue({ code: 'custom', message: `${cond.field} must be compared with a number or numeric field`, path: ['value'] });
+    }
+});
+
+export const ruleNodeSchema: z.ZodType<RuleNode> = z.lazy(() => z.union([
+    z.object({ all: z.array(ruleNodeSchema).min(1) }).strict(),
+    z.object({ any: z.array(ruleNodeSchema).min(1) }).strict(),
+    z.object({ not: ruleNodeSchema }).strict(),
+    conditionSchema,
+]));
+
+function ruleDepth(node: RuleNode): number {
+    if ('all' in node) return 1 + Math.max(...node.all.map(ruleDepth));
+    if ('any' in node) return 1 + Math.max(...node.any.map(ruleDepth));
+    if ('not' in node) return 1 + ruleDepth(node.not);
+    return 1;
+}
+
+function ruleFields(node: RuleNode): RuleField[] {
+    if ('all' in node) return node.all.flatMap(ruleFields);
+    if ('any' in node) return node.any.flatMap(ruleFields);
+    if ('not' in node) return ruleFields(node.not);
+    return typeof node.value === 'object' ? [node.field, node.value.field] : [node.field];
+}
+
+export const strategyRulesSchema = z.object({
+    entry: ruleNodeSchema,
+    exit: ruleNodeSchema.optional(),
+}).strict().superRefine((rules, ctx) => {
+    for (const key of ['entry', 'exit'] as const) {
+        const node = rules[key];
+        if (node && ruleDepth(node) > MAX_RULE_DEPTH) {
+            ctx.addIssue({ code: 'custom', message: `rule tree is deeper than ${MAX_RULE_DEPTH}`, path: [key] });
+        }
+    }
+    const positionFields = ruleFields(rules.entry).filter(f => POSITION_FIELDS.includes(f));
+    if (positionFields.length > 0) {
+        ctx.addIssue({ code: 'custom', message: `${positionFields[0]} is only available in exit rules`, path: ['entry'] });
+    }
+});
+
+/**
+ * 첫 번째 검증 오류 (경로 포함)
+ * 규칙 노드는 union이라 그대로면 "Invalid input"만 남으므로,
+ * 노드 형태(all/any/not/조건)가 맞는 분기 = 최상위에 키/타입 오류가 없는 분기로 내려가서 찾음
+ */
+function firstIssue(issues: z.core.$ZodIssue[], basePath: PropertyKey[] = []): { path: PropertyKey[]; message: string } {
+    const issue = issues[0];
+    const path = [...basePath, ...issue.path];
+    if (issue.code === 'invalid_union') {
+        const branch = issue.errors.find(branchIssues => !branchIssues.some(i =>
+            i.path.length === 0 && (i.code === 'unrecognized_keys' || i.code === 'invalid_type')
+        ));
+        if (branch && branch.length > 0) return firstIssue(branch, path);
+    }
+    return { path, message: issue.message };
+}
+
+/**
+ * 전략 규칙 검증
+ * @returns 오류 메시지 (정상이면 null)
+ */
+export function validateStrategyRules(input: unknown): string | null {
+    const parsed = strategyRulesSchema.safeParse(input);
+    if (parsed.success) return null;
+    const { path, message } = firstIssue(parsed.error.issues);
+    return path.length > 0 ? `${path.map(String).join('.')}: ${message}` : message;
+}
+
+// ─── 평가 ─────────────────────────────────────────────────────────────
+
+/** 규칙 평가 시점의 값 */
+export interface RuleContext {
+    bar: OhlcvRecord;
+    ind: IndicatorSnapshot;
+    signal?: {                      // 시그널 시점 calcSwingGrade 결과 (청산 규칙에서도 진입 당시 값)
+        grade: 'A' | 'B' | 'C' | 'D';
+        gradeScore: number;
+        technicalScore: number;     // 0~100
+        rr: number;
+        direction: TradeDirection;
+    };
+    position?: {                    // 청산 규칙 평가 시에만
+        returnPct: number;
+        holdingDays: number;
+    };
+}
+
+function fieldValue(field: RuleField, ctx: RuleContext): number | string | null | undefined {
+    const { bar, ind, signal, position } = ctx;
+    const vp = ind.volumeProfile;
+    switch (field) {
+        case 'open': return bar.open;
+        case 'high': return bar.high;
+        case 'low': return bar.low;
+        case 'close': return bar.close;
+        case 'volume': return bar.volume;
+        case 'ma20': return ind.ma20;
+        case 'ma60': return ind.ma60;
+        case 'ma120': return ind.ma120;
+        case 'rsi': return ind.rsi;
+        case 'atr': return ind.atr;
+        case 'avgVol5': return ind.avgVol5;
+        case 'avgVol20': return ind.avgVol20;
+        case 'recentHigh': return ind.recentHigh;
+        case 'recentLow': return ind.recentLow;
+        case 'vp.poc': return vp?.poc;
+        case 'vp.valueAreaHigh': return vp?.valueAreaHigh;
+        case 'vp.valueAreaLow': return vp?.valueAreaLow;
+        case 'vp.nearestResistance': return vp?.nearestResistance;
+        case 'vp.nearestSupport': return vp?.nearestSupport;
+        case 'vp.pricePosition': return vp?.pricePosition;
+        case 'grade': return signal?.grade;
+        case 'gradeScore': return signal?.gradeScore;
+        case 'technicalScore': return signal?.technicalScore;
+        case 'rr': return signal?.rr;
+        case 'direction': return signal?.direction;
+        case 'returnPct': return position?.returnPct;
+        case 'holdingDays': return position?.holdingDays;
+    }
+}
+
+function evaluateCondition(cond: RuleCondition, ctx: RuleContext): boolean {
+    const left = fieldValue(cond.field, ctx);
+    const right = typeof cond.value === 'object' ? fieldValue(cond.value.field, ctx) : cond.value;
+    if (left == null || right == null || (typeof left === 'number' && Number.isNaN(left))) return false;
+
+    switch (cond.op) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+    }
+}
+
+export function evaluateRule(node: RuleNode, ctx: RuleContext): boolean {
+    if ('all' in node) return node.all.every(child => evaluateRule(child, ctx));
+    if ('any' in node) return node.any.some(child => evaluateRule(child, ctx));
+    if ('not' in node) return !evaluateRule(node.not, ctx);
+    return evaluateCondition(node, ctx);
+}
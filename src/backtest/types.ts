@@ -4,6 +4,8 @@
  * 백테스트 엔진에서 사용하는 모든 타입 정의
  */
 
+import type { ScoringProfileRef } from '../analysis/scoring-profile.js';
+
 /** KIS fetchDailyOHLCV 응답을 숫자로 정규화한 OHLCV 레코드 (날짜 오름차순) */
 export interface OhlcvRecord {
     date: string;    // "YYYYMMDD"
@@ -14,6 +16,51 @@ export interface OhlcvRecord {
     volume: number;
 }
 
+/** 백테스트 대상 시장 */
+export type BacktestMarket = 'KR' | 'US';
+
+/** 해외주식 거래소 코드 (KIS EXCD: 나스닥 / 뉴욕 / 아멕스) */
+export type UsExchange = 'NAS' | 'NYS' | 'AMS';
+
+/** 거래 방향 (short: SELL 시그널 공매도 / 인버스 ETF 진입) */
+export type TradeDirection = 'long' | 'short';
+
+/** 유니버스 편입 기간 (YYYYMMDD, 양끝 포함) */
+export interface UniverseMember {
+    symbol: string;
+    effectiveFrom: string;
+    effectiveTo?: string | null;      // 미지정/null = 현재까지 편입
+}
+
+/** 이름 있는 시점별 편입 유니버스 (예: KOSPI200, 상장폐지/편출 종목 포함) */
+export interface NamedUniverse {
+    name: string;
+    description?: string | null;
+    market?: BacktestMarket;          // default: 'KR'
+    members: UniverseMember[];
+}
+
+/** 일봉 조회 구간 (YYYYMMDD, 양끝 포함) */
+export interface OhlcvDateRange {
+    startDate?: string;
+    endDate?: string;     // 미지정 시 최근까지
+}
+
+/**
+ * 백테스트 OHLCV 데이터 공급자
+ * 엔진은 공급자만 바라보므로 로컬 저장소/KIS 직접 조회/테스트 스텁을 교체 가능
+ */
+export interface OhlcvProvider {
+    name: string;
+    /**
+     * 일봉 (날짜 오름차순)
+     * - range 미지정: 최근 minBars개 이상
+     * - range.startDate 지정: startDate 이전 minBars개(지표 워밍업) + startDate~endDate 전체
+     * - range.endDate만 지정: endDate까지 최근 minBars개
+     */
+    getDailyBars(symbol: string, minBars: number, range?: OhlcvDateRange): Promise<OhlcvRecord[]>;
+}
+
 /** calcSwingGrade 가중치 오버라이드 */
 export interface SwingGradeWeights {
     technicalScoreMax: number;  // default: 3
@@ -29,43 +76,303 @@ export interface SwingGradeThresholds {
     C: number;  // default: 3
 }
 
+/** 청산 방식 */
+export type ExitMode = 'fixed' | 'bracket' | 'trailing_atr' | 'partial';
+
+/** 실제 청산 사유 */
+export type ExitReason =
+    | 'holding_period'   // 보유기간 만료 (마지막 종가)
+    | 'stop_loss'        // 손절가 도달
+    | 'target'           // 목표가(target1) 도달
+    | 'trailing_stop'    // 추적 손절 도달
+    | 'target2'          // 부분 익절 후 2차 목표가 도달
+    | 'breakeven_stop'   // 부분 익절 후 본전 손절
+    | 'rule';            // strategy.exit 규칙 충족 (해당 봉 종가)
+
+/** 청산 규칙 설정 */
+export interface ExitRuleConfig {
+    mode: ExitMode;                                       // default: 'fixed'
+    sameBarPriority?: 'stop_first' | 'target_first';      // 같은 봉에서 손절/목표 동시 도달 시 (default: 'stop_first')
+    trailingAtrMultiple?: number;                         // trailing_atr: 최고가 - ATR×N (default: 3)
+    partialRatio?: number;                                // partial: target1 청산 비율 0~1 (default: 0.5)
+}
+
+/**
+ * 규칙에서 참조 가능한 필드
+ * - 봉/지표: simDate(진입 규칙) 또는 보유 중 각 봉(청산 규칙) 기준
+ * - vp.*: 60봉 매물대 (Volume Profile)
+ * - grade/gradeScore/technicalScore/rr: 시그널 시점 calcSwingGrade 결과
+ * - direction: 시그널 방향 ('long' | 'short', direction 'both'에서 방향별 규칙 분기용)
+ * - returnPct/holdingDays: 청산 규칙 전용 (진입가 대비 종가 수익률 %, short는 하락이 +, 진입봉 포함 보유일)
+ */
+export type RuleField =
+    | 'open' | 'high' | 'low' | 'close' | 'volume'
+    | 'ma20' | 'ma60' | 'ma120' | 'rsi' | 'atr'
+    | 'avgVol5' | 'avgVol20' | 'recentHigh' | 'recentLow'
+    | 'vp.poc' | 'vp.valueAreaHigh' | 'vp.valueAreaLow'
+    | 'vp.nearestResistance' | 'vp.nearestSupport' | 'vp.pricePosition'
+    | 'grade' | 'gradeScore' | 'technicalScore' | 'rr' | 'direction'
+    | 'returnPct' | 'holdingDays';
+
+export type RuleOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+/** 비교 조건: field op value (value는 상수 또는 다른 필드 참조) */
+export interface RuleCondition {
+    field: RuleField;
+    op: RuleOperator;
+    value: number | string | { field: RuleField };
+}
+
+/** 규칙 트리 (all = AND, any = OR, not = NOT) */
+export type RuleNode =
+    | RuleCondition
+    | { all: RuleNode[] }
+    | { any: RuleNode[] }
+    | { not: RuleNode };
+
+/** 선언형 전략 규칙 (지정 시 gradeFilter 대신 entry로 진입 판정) */
+export interface StrategyRules {
+    entry: RuleNode;          // 시그널 봉 기준 진입 조건 (충족 시 다음 봉 시가 진입)
+    exit?: RuleNode;          // 보유 중 봉마다 평가, 충족 시 그 봉 종가 청산 (exitRule 청산이 먼저면 그쪽 우선)
+}
+
+/** 거래비용 규칙 (매수/매도 각 편도 기준) */
+export interface TransactionCostRule {
+    commissionBps: number;    // 위탁수수료 bp (매수/매도 각각)
+    sellTaxPct: number;       // 매도 시 증권거래세(농특세 포함) %
+    slippageBps: number;      // 체결 슬리피지 bp
+    slippageTicks: number;    // 체결 슬리피지 호가단위 틱 수 (bp와 합산)
+}
+
+/** 거래비용 모델 (주식/ETF 규칙 분리) */
+export interface CostModel {
+    stock: TransactionCostRule;
+    etf: TransactionCostRule;
+    etfSymbols: string[];     // ETF 규칙을 적용할 종목코드
+    market?: BacktestMarket;  // 슬리피지 호가단위 규칙 (default: 'KR' → KRX 호가단위, 'US' → $0.01)
+}
+
+/** BacktestConfig.costs: 지정한 항목만 시장별 기본값(KRX/US) 위에 덮어씀 */
+export interface CostModelConfig {
+    stock?: Partial<TransactionCostRule>;
+    etf?: Partial<TransactionCostRule>;
+    etfSymbols?: string[];
+}
+
+/** 포트폴리오 시뮬레이션 설정 (지정 시 현금/동시보유 제약 적용) */
+export interface PortfolioConfig {
+    initialCapital: number;       // 초기 자본 (원, US는 달러)
+    maxPositions: number;         // 최대 동시 보유 종목 수
+    maxPositionPercent?: number;  // 종목당 최대 비중 % (default: 100, positionSizePercent 상한)
+}
+
 /** 백테스트 실행 설정 */
 export interface BacktestConfig {
-    universe: string[];                          // 종목코드 리스트
-    gradeFilter: ('A' | 'B' | 'C' | 'D')[];    // 진입 대상 grade (default: ['A'])
+    market?: BacktestMarket;                     // 미지정 시 'KR'
+    exchange?: UsExchange;                       // market 'US'일 때 거래소 (default: 'NAS')
+    universe: string[];                          // 종목코드 리스트 (US: 티커, universeName 지정 시 편입 이력 종목 전체)
+    universeName?: string;                       // 시점별 편입 유니버스 이름 (실행 시 universe/membership으로 풀어서 저장)
+    membership?: UniverseMember[];               // 지정 시 종목별 편입 기간의 시그널일에만 진입
+    direction?: TradeDirection | 'both';         // 미지정 시 'long', 'both'는 시그널마다 long/short 각각 평가
+    gradeFilter: ('A' | 'B' | 'C' | 'D')[];    // 진입 대상 grade (default: ['A']), strategy 지정 시 미사용
+    strategy?: StrategyRules;                    // 선언형 진입/청산 규칙 (결과와 함께 저장되어 재현 가능)
     holdingPeriod: number;                       // 보유 거래일 (default: 10)
-    weights?: SwingGradeWeights;                 // 미지정 시 기본값 사용
-    thresholds?: SwingGradeThresholds;           // 미지정 시 기본값 사용
+    profile?: string;                            // 스코어링 프로파일 이름 (.dexter/profiles, 미지정 시 'default')
+    weights?: SwingGradeWeights;                 // 미지정 시 프로파일 값 사용
+    thresholds?: SwingGradeThresholds;           // 미지정 시 프로파일 값 사용
+    portfolio?: PortfolioConfig;                 // 미지정 시 거래별 독립 시뮬레이션
+    exitRule?: ExitRuleConfig;                   // 미지정 시 fixed (보유기간 만료 청산)
+    costs?: CostModelConfig;                     // 미지정 시 시장별 기본 비용 (KR: 수수료 1.5bp, 거래세 0.2%, 1틱 / US: US_COST_MODEL)
+    benchmark?: string;                          // 'KOSPI' | 'KOSDAQ' | 종목코드 (예: 069500, US: SPY), 미지정 시 비교 생략
+    bootstrap?: BootstrapConfig;                 // 지정 시 거래 재표본 신뢰구간 산출
+    startDate?: string;                          // 시그널 구간 시작 (YYYYMMDD), 미지정 시 최근 200봉 기준
+    endDate?: string;                            // 시그널 구간 끝 (YYYYMMDD), 미지정 시 최근까지
+}
+
+/** 부트스트랩 설정 */
+export interface BootstrapConfig {
+    iterations?: number;      // 재표본 횟수 (default: 1000)
+    confidence?: number;      // 신뢰수준 (default: 0.95)
+    seed?: number;            // 재현용 시드 (default: 42)
+}
+
+/** runBacktest / runParameterSweep 실행 옵션 (설정과 달리 결과에 저장되지 않음) */
+export interface BacktestRunOptions {
+    provider?: OhlcvProvider;   // 미지정 시 로컬 저장소 (KIS 자격증명이 있으면 증분 동기화)
+    onProgress?: (progress: BacktestProgress) => void;
+    signal?: AbortSignal;       // abort 시 다음 진행 지점에서 code 'CANCELLED' 오류로 중단
+}
+
+/** 실행 진행률 (종목/조합 단위) */
+export interface BacktestProgress {
+    phase: 'load' | 'simulate' | 'sweep';   // OHLCV 조회 / 종목별 시뮬레이션 / Sweep 조합 평가
+    completed: number;
+    total: number;
+    symbol?: string;                        // load/simulate 단계에서 방금 처리한 종목
+}
+
+export type BacktestJobKind = 'run' | 'parameter-sweep';
+export type BacktestJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** 비동기 백테스트 작업 */
+export interface BacktestJob {
+    id: string;
+    kind: BacktestJobKind;
+    status: BacktestJobStatus;
+    config: BacktestConfig;
+    submittedAt: string;          // ISO 8601
+    startedAt?: string;
+    finishedAt?: string;
+    progress: BacktestProgress | null;
+    resultId?: string;            // 완료 시 결과 조회 ID (parameter-sweep은 'sweep-<id>')
+    error?: { message: string; code: string };
 }
 
 /** 개별 거래 결과 */
 export interface BacktestTrade {
     symbol: string;
+    direction?: TradeDirection;       // 미지정 = long (이전 버전 결과)
     entryDate: string;                // 진입일 (YYYYMMDD)
     entryPrice: number;               // 진입가 (익일 시가)
-    exitDate: string;                 // 청산일
-    exitPrice: number;                // 청산가 (보유기간 마지막 종가)
+    exitDate: string;                 // 실제 청산일
+    exitPrice: number;                // 청산가 (부분 익절 시 수량 가중 평균)
+    exitReason: ExitReason;           // 청산 사유
+    holdingDays: number;              // 실제 보유 거래일 (진입일 포함)
+    partialExit?: {                   // partial 모드에서 target1 부분 익절 시
+        date: string;
+        price: number;
+        ratio: number;
+    };
     swingGrade: 'A' | 'B' | 'C' | 'D';
     gradeScore: number;               // 총점 (0~8)
     technicalScore: number;           // 기술점수 기여 (0~3)
     rrScore: number;                  // R/R 기여 (0~2)
     volumeProfileScore: number;       // 매물대 기여 (0~2)
     ma60Score: number;                // MA60 기여 (0~1)
-    returnPct: number;                // (exitPrice - entryPrice) / entryPrice × 100
-    peakPrice: number;                // 보유기간 최고가
-    maxFavorableExcursion: number;    // (peakPrice - entryPrice) / entryPrice × 100
-    maxAdverseExcursion: number;      // (troughPrice - entryPrice) / entryPrice × 100
-    targetAchieved: boolean;          // 목표가 도달 여부
-    stopLossHit: boolean;             // 손절가 도달 여부
+    returnPct: number;                // (exitPrice - entryPrice) / entryPrice × 100 (gross, short는 부호 반대)
+    netReturnPct: number;             // 수수료/거래세/슬리피지 차감 후 수익률 (net)
+    peakPrice: number;                // 실제 보유기간 최고가
+    maxFavorableExcursion: number;    // 유리한 방향 최대 변동 % (long: 최고가, short: 최저가 기준, 0 이상)
+    maxAdverseExcursion: number;      // 불리한 방향 최대 변동 % (long: 최저가, short: 최고가 기준, 0 이하)
+    targetAchieved: boolean;          // 보유 중 목표가 도달 여부
+    stopLossHit: boolean;             // 보유 중 손절가 도달 여부
     expectedRR: number;               // 예상 R/R
-    targetPrice: number;              // 목표가
-    stopLossPrice: number;            // 손절가
+    targetPrice: number;              // 목표가 (target1, short는 진입가 아래)
+    target2Price: number;             // 2차 목표가 (피보나치 1.618, ATR×10 캡)
+    stopLossPrice: number;            // 손절가 (short는 진입가 위)
+    positionSizePercent: number;      // 권고 비중 % (계좌 1% 위험 원칙, TradeLevels와 동일 산식)
+    quantity?: number;                // 체결 수량 (포트폴리오 모드)
+    positionValue?: number;           // 진입 금액 (포트폴리오 모드)
+}
+
+/** 포트폴리오 시뮬레이션 결과 */
+export interface PortfolioResult {
+    initialCapital: number;
+    finalEquity: number;
+    totalReturnPct: number;           // %
+    maxDrawdown: number;              // % (음수, 평가금액 고점 대비)
+    avgInvestedPercent: number;       // 평균 투자 비중 % (현금 제외)
+    executedTrades: number;
+    skippedSignals: {
+        maxPositions: number;         // 동시 보유 한도 초과
+        alreadyHolding: number;       // 동일 종목 보유 중 (재진입 금지)
+        insufficientCash: number;     // 현금 부족 (1주 미만)
+    };
+    totalCosts: number;               // 누적 거래비용 (원, 수수료+거래세+슬리피지)
+    equityCurve: { date: string; equity: number; cash: number; openPositions: number }[];
+}
+
+/** 수익률 기반 요약 통계 (gross/net 공통 형태) */
+export interface ReturnSummary {
+    winRate: number;          // 0~100
+    avgReturn: number;        // %
+    medianReturn: number;     // %
+    stdReturn: number;        // %
+    sharpeRatio: number;      // 거래당 Sharpe: avgReturn / stdReturn (연율화 안 함, 연율 값은 RiskMetrics.annualizedSharpe)
+    maxDrawdown: number;      // % (음수)
+    profitFactor: number;     // 총이익 / |총손실|
+}
+
+/**
+ * 시간축 기반 리스크 지표 (stats.ts calcRiskMetrics)
+ * 일별 평가 지수 = 100 + net 복리 누적 수익률 (거래별 모드: 청산일별 평균 net 수익률 복리, 포트폴리오 모드: 계좌 평가금액)
+ * 시간축은 첫 진입일 ~ 마지막 청산일의 실제 거래일
+ */
+export interface RiskMetrics {
+    sortinoRatio: number;         // 거래당 평균 net 수익률 / 하방편차 (기준 0)
+    annualizedSharpe: number;     // 일별 net 평가 지수 수익률 기준 × √252
+    annualizedSortino: number;    // 일별 net 평가 지수 수익률 기준 × √252
+    cagr: number;                 // 연평균 복리 수익률 % (달력일 기준 연수)
+    calmarRatio: number;          // CAGR / |평가 지수 MDD|
+    years: number;                // 측정 기간 (년)
+    avgHoldingDays: number;       // 평균 보유 거래일
+    exposurePct: number;          // 포지션을 하나 이상 보유한 거래일 비율 %
+    longestLosingStreak: number;  // 청산일 순 최장 연속 손실(net 수익률 ≤ 0) 거래 수
+    ulcerIndex: number;           // 일별 고점 대비 낙폭 %의 제곱평균제곱근
+    expectancyR: number;          // 거래당 평균 R 배수 (주당 net 손익 / 진입가-손절가 거리)
+    avgExpectedRR: number;        // 진입 시점 예상 R/R 평균 (expectancyR과 비교용)
+}
+
+/**
+ * 벤치마크 대비 성과
+ * 전략/벤치마크 수익률 쌍: 거래별 모드는 거래마다 (net 수익률, 같은 보유 구간 벤치마크 수익률),
+ * 포트폴리오 모드는 일별 (평가금액 수익률, 벤치마크 일간 수익률)
+ */
+export interface BenchmarkSummary {
+    symbol: string;           // 'KOSPI' | 'KOSDAQ' | 종목코드
+    startDate: string;        // 비교 기준일 (YYYYMMDD)
+    endDate: string;
+    strategyReturn: number;   // 기준일 대비 전략 누적 수익률 % (net 복리, 거래별 모드는 청산일별 평균 net 수익률 누적)
+    benchmarkReturn: number;  // 기준일 대비 벤치마크 누적 수익률 %
+    excessReturn: number;     // strategyReturn - benchmarkReturn (%p)
+    beta: number;
+    alpha: number;            // 기간당 Jensen's alpha % (전략 곡선 시점 간 구간 기준: 거래별 모드는 청산일, 포트폴리오 모드는 일간)
+    trackingError: number;    // 초과수익률 표준편차 %
+    informationRatio: number; // 평균 초과수익률 / trackingError
+    observations: number;     // 수익률 쌍 개수
+}
+
+/** 점추정치와 신뢰구간 */
+export interface ConfidenceInterval {
+    estimate: number;         // 원 표본 값
+    lower: number;
+    upper: number;
+}
+
+/**
+ * 부트스트랩 신뢰구간 (비용 차감 후 net 수익률 기준)
+ * 거래를 복원 추출로 재표본 → 재표본 순서대로 누적한 곡선으로 MDD 분포 산출
+ */
+export interface BootstrapSummary {
+    iterations: number;
+    confidence: number;
+    seed: number;
+    winRate: ConfidenceInterval;        // 0~100
+    avgReturn: ConfidenceInterval;      // %
+    sharpeRatio: ConfidenceInterval;
+    profitFactor: ConfidenceInterval;
+    maxDrawdown: ConfidenceInterval;    // % (음수, 거래 순서 누적 기준)
+    probPositiveExpectancy: number;     // 평균 수익률 > 0 인 재표본 비율 (0~1)
+}
+
+/** 기간별 성과 (거래가 있는 기간만) */
+export interface PeriodBreakdown {
+    period: string;           // 'YYYY' 또는 'YYYY-MM'
+    tradeCount: number;
+    winRate: number;          // 0~100
+    avgReturn: number;        // %
+    netWinRate: number;       // 0~100 (비용 차감 후)
+    netAvgReturn: number;     // % (비용 차감 후)
+    gradeCounts: Record<'A' | 'B' | 'C' | 'D', number>;
 }
 
 /** 백테스트 종합 결과 */
 export interface BacktestResult {
     id: string;               // UUID
+    name?: string | null;     // 결과 저장소 사용자 메타데이터 (조회 시 채워짐)
+    tags?: string[];
     config: BacktestConfig;
+    profile?: ScoringProfileRef;  // 적용한 스코어링 프로파일 (이전 버전 결과에는 없음)
     executedAt: string;       // ISO 8601
     summary: {
         totalTrades: number;
@@ -78,6 +385,11 @@ export interface BacktestResult {
         targetHitRate: number;    // 0~100
         stopLossHitRate: number;  // 0~100
         profitFactor: number;     // 총이익 / |총손실|
+        avgCostPct: number;       // 거래당 평균 비용 % (gross - net)
+        net: ReturnSummary;       // 비용 차감 후 (포트폴리오 모드 MDD는 계좌 기준으로 gross와 동일)
+        risk?: RiskMetrics;             // 이전 버전 결과에는 없음
+        benchmark?: BenchmarkSummary;   // config.benchmark 지정 시
+        bootstrap?: BootstrapSummary;   // config.bootstrap 지정 시
     };
     gradeBreakdown: {
         grade: 'A' | 'B' | 'C' | 'D';
@@ -92,17 +404,106 @@ export interface BacktestResult {
         avgReturnWhenHigh: number;      // 해당 factor 최대 점수일 때 평균 수익률
         avgReturnWhenLow: number;       // 0점일 때 평균 수익률
     }[];
+    periodBreakdown?: {               // 이전 버전 결과에는 없음
+        yearly: PeriodBreakdown[];    // 진입일 기준 'YYYY'
+        monthly: PeriodBreakdown[];   // 진입일 기준 'YYYY-MM'
+    };
     equityCurve: { date: string; cumulativeReturn: number }[];
+    benchmarkEquityCurve?: { date: string; cumulativeReturn: number }[];   // equityCurve와 같은 날짜의 벤치마크 누적 수익률
+    portfolio?: PortfolioResult;      // config.portfolio 지정 시
+    skippedSymbols?: SkippedSymbol[]; // 데이터가 없거나 부족해 시뮬레이션에서 제외한 종목 (상장폐지 등)
     trades: BacktestTrade[];
 }
 
+/** 시뮬레이션 제외 종목 */
+export interface SkippedSymbol {
+    symbol: string;
+    reason: 'no_data' | 'insufficient_data';
+    bars: number;                     // 조회된 봉 수
+}
+
+/**
+ * 백테스트 결과 비교 (첫 번째 결과가 기준, delta = 각 결과 - 기준)
+ */
+export interface BacktestComparison {
+    runs: { id: string; name: string | null; executedAt: string }[];
+    summary: {
+        metric: string;           // 'winRate', 'net.sharpeRatio' 등
+        values: (number | null)[];    // runs 순서, 해당 결과에 없는 지표는 null
+        deltas: (number | null)[];    // 기준(첫 번째) 대비 차이
+    }[];
+    configDiff: {
+        path: string;             // 'weights.technicalScoreMax' 등 (배열은 통째로 비교)
+        values: unknown[];        // 미지정이면 null
+    }[];
+    equityCurves: {
+        dates: string[];          // 전체 결과 날짜 합집합 (오름차순)
+        series: (number | null)[][];   // runs 순서, 해당 날짜 값 없으면 직전 값 유지 (첫 값 이전은 null)
+    };
+    gradeDeltas: {
+        grade: 'A' | 'B' | 'C' | 'D';
+        runs: { tradeCount: number; winRate: number; avgReturn: number }[];
+        deltas: { tradeCount: number; winRate: number; avgReturn: number }[];
+    }[];
+    /** 한 결과에만 있는 거래 (종목 + 진입일 기준) */
+    uniqueTrades: {
+        runId: string;
+        trades: Pick<BacktestTrade, 'symbol' | 'direction' | 'entryDate' | 'exitDate' | 'swingGrade' | 'gradeScore' | 'returnPct' | 'netReturnPct' | 'exitReason'>[];
+    }[];
+}
+
+/**
+ * Parameter Sweep 탐색 범위 (미지정 항목은 기본 그리드)
+ * thresholdB/C 미지정 시 A 커트라인 기준 -2/-4, holdingPeriod 미지정 시 config.holdingPeriod
+ */
+export interface SweepRanges {
+    gradeThreshold?: number[];      // A grade 커트라인 (default: [5, 6, 7, 8])
+    thresholdB?: number[];
+    thresholdC?: number[];
+    technicalScoreMax?: number[];   // default: [2, 3, 4]
+    rrScoreMax?: number[];          // default: [1, 2, 3]
+    volumeProfileMax?: number[];    // default: [1, 2, 3]
+    ma60Max?: number[];             // default: [0, 1, 2]
+    holdingPeriod?: number[];
+}
+
+/** Sweep 탐색 방식 */
+export type SweepStrategy = 'grid' | 'random' | 'successive_halving';
+
+/** Sweep 순위 기준 */
+export type SweepRankBy = 'sharpe' | 'winRate' | 'avgReturn';
+
+/** Parameter Sweep 탐색 설정 */
+export interface SweepSearchConfig {
+    ranges?: SweepRanges;
+    strategy?: SweepStrategy;       // default: 'grid'
+    samples?: number;               // random: 평가할 조합 수 / successive_halving: 초기 후보 수 (default: 50 / 81)
+    eta?: number;                   // successive_halving: 단계별 생존 비율 1/eta (default: 3)
+    seed?: number;                  // random/successive_halving 표본 추출 시드 (default: 42)
+    rankBy?: SweepRankBy;           // 순위 기준 (default: 'sharpe')
+}
+
 /** Parameter Sweep 결과 */
 export interface ParameterSweepResult {
     id: string;
     executedAt: string;
+    profile: ScoringProfileRef;     // 조합 밖의 구간 (RSI, 기술 점수/R/R 구간)
+    search: {
+        strategy: SweepStrategy;
+        rankBy: SweepRankBy;
+        searchSpaceSize: number;        // 범위 전체 조합 수
+        evaluatedCombinations: number;  // 한 번 이상 평가한 조합 수
+        fullEvaluations: number;        // 전체 데이터로 평가한 조합 수
+        seed?: number;
+    };
+    /** 전체 순위표 (rank 오름차순, 전체 데이터 평가 조합이 먼저, 수익률 지표는 비용 차감 후 net) */
     combinations: {
+        rank: number;
         gradeThreshold: number;
+        thresholds: SwingGradeThresholds;
+        holdingPeriod: number;
         weights: { tech: number; rr: number; vp: number; ma60: number };
+        dateStride: number;             // 평가에 사용한 시뮬레이션 날짜 간격 (1 = 전체 데이터)
         totalTrades: number;
         winRate: number;
         avgReturn: number;
@@ -111,12 +512,86 @@ export interface ParameterSweepResult {
     }[];
     bestByWinRate: {
         gradeThreshold: number;
+        thresholds: SwingGradeThresholds;
+        holdingPeriod: number;
         weights: SwingGradeWeights;
         winRate: number;
     };
     bestBySharpe: {
         gradeThreshold: number;
+        thresholds: SwingGradeThresholds;
+        holdingPeriod: number;
         weights: SwingGradeWeights;
         sharpeRatio: number;
     };
 }
+
+/** Walk-forward 설정 (단위: 거래일) */
+export interface WalkForwardConfig {
+    trainBars: number;                              // 학습 구간 길이 (default: 40)
+    testBars: number;                               // 검증 구간 길이 (default: 10)
+    stepBars?: number;                              // 창 이동 폭 (default: testBars → 검증 구간이 겹치지 않음)
+    objective?: 'sharpe' | 'winRate' | 'avgReturn'; // 학습 구간 최적화 기준 (default: 'sharpe')
+    minTrades?: number;                             // 학습 구간 최소 거래 수 (default: 5)
+}
+
+/** Walk-forward 구간 성과 (비용 차감 후 net 수익률 기준) */
+export interface WalkForwardStats {
+    totalTrades: number;
+    winRate: number;
+    avgReturn: number;
+    sharpeRatio: number;
+}
+
+/** Walk-forward 결과 */
+export interface WalkForwardResult {
+    id: string;
+    executedAt: string;
+    config: BacktestConfig;
+    profile: ScoringProfileRef;
+    walkForward: Required<WalkForwardConfig>;
+    search: {
+        strategy: SweepStrategy;
+        searchSpaceSize: number;                    // 범위 전체 조합 수
+        evaluatedCombinations: number;              // 창마다 비교한 후보 조합 수
+        seed?: number;
+    };
+    windows: {
+        index: number;
+        trainStart: string;
+        trainEnd: string;
+        testStart: string;
+        testEnd: string;
+        selected: {                                 // 학습 구간 최적 조합 (조건 충족 조합이 없으면 null → 검증 구간 미거래)
+            gradeThreshold: number;
+            thresholds: SwingGradeThresholds;
+            weights: SwingGradeWeights;
+            holdingPeriod: number;
+            inSample: WalkForwardStats;
+        } | null;
+        outOfSample: WalkForwardStats;
+    }[];
+    outOfSample: ReturnSummary & { totalTrades: number };
+    inSampleAvgReturn: number;                      // 선택 조합의 학습 구간 평균 수익률 평균
+    walkForwardEfficiency: number;                  // OOS 평균 수익률 / IS 평균 수익률 (1에 가까울수록 과최적화 적음)
+    equityCurve: { date: string; cumulativeReturn: number }[];   // 검증 구간만 이어붙인 OOS 곡선
+    parameterStability: {
+        parameters: {
+            parameter: 'gradeThreshold' | 'thresholdB' | 'thresholdC' | 'technicalScoreMax' | 'rrScoreMax'
+                | 'volumeProfileMax' | 'ma60Max' | 'holdingPeriod';
+            values: number[];                       // 창별 선택값 (선택 없는 창 제외)
+            mean: number;
+            std: number;
+            changes: number;                        // 연속 창 사이 값이 바뀐 횟수
+        }[];
+        distinctCombinations: number;
+        mostFrequent: {
+            gradeThreshold: number;
+            thresholds: SwingGradeThresholds;
+            weights: SwingGradeWeights;
+            holdingPeriod: number;
+            count: number;
+        } | null;
+        consistency: number;                        // mostFrequent 선택 창 비율 (0~1)
+    };
+}
@@ -0,0 +1,218 @@
+/**
+ * universe-store.ts
+ *
+ * 시점별 편입 유니버스 저장소 (gateway SQLite DB 공유)
+ * - 이름 있는 유니버스 (예: KOSPI200) = 종목별 편입 기간(effectiveFrom ~ effectiveTo) 목록
+ * - 상장폐지/합병/지수 편출 종목도 편입 기간 동안은 유니버스에 남겨 생존 편향을 줄임
+ * - 백테스트 실행 시 시그널 구간과 겹치는 편입 기간을 config.membership으로 복사 (결과만으로 재현 가능)
+ */
+
+import { db } from '../mcp-gateway/db.js';
+import type { BacktestMarket, NamedUniverse, OhlcvDateRange, UniverseMember } from './types.js';
+
+/** 유니버스 목록 항목 */
+export interface UniverseListItem {
+    name: string;
+    description: string | null;
+    market: BacktestMarket;
+    symbolCount: number;        // 편입 이력이 있는 종목 수
+    currentCount: number;       // 현재(effectiveTo 미지정) 편입 종목 수
+    updatedAt: string;
+}
+
+let schemaInitialized = false;
+
+export function initializeUniverseSchema() {
+    if (schemaInitialized) return;
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS backtest_universes (
+            name TEXT PRIMARY KEY,
+            description TEXT,
+            market TEXT NOT NULL DEFAULT 'KR',
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+    `);
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS backtest_universe_members (
+            universe TEXT NOT NULL,
+            symbol TEXT NOT NULL,
+            effective_from TEXT NOT NULL,   -- YYYYMMDD (포함)
+            effective_to TEXT,              -- YYYYMMDD (포함), NULL = 현재까지
+            PRIMARY KEY (universe, symbol, effective_from)
+        );
+    `);
+
+    schemaInitialized = true;
+    console.log('✅ Backtest Universe Store Schema Initialized');
+}
+
+// ─── 편입 기간 판정 (순수 함수) ───────────────────────────────────────
+
+/** YYYY-MM-DD / YYYYMMDD → YYYYMMDD (형식이 틀리면 null) */
+function toYmd(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const date = value.trim().replace(/-/g, '');
+    return /^\d{8}$/.test(date) ? date : null;
+}
+
+function invalidUniverse(message: string): Error {
+    const err = new Error(message);
+    (err as any).code = 'INVALID_UNIVERSE';
+    return err;
+}
+
+/**
+ * 편입 기간 검증 + 정규화 (날짜 YYYYMMDD, 심볼 대문자, 같은 종목의 기간 겹침 금지)
+ * @throws 형식 오류 (code 'INVALID_UNIVERSE')
+ */
+export function normalizeUniverseMembers(input: unknown): UniverseMember[] {
+    if (!Array.isArray(input) || input.length === 0) throw invalidUniverse('members must be a non-empty array');
+
+    const members = input.map((m, i): UniverseMember => {
+        const symbol = typeof m?.symbol === 'string' ? m.symbol.trim().toUpperCase() : '';
+        if (!symbol) throw invalidUniverse(`members[${i}].symbol is required`);
+
+        const effectiveFrom = toYmd(m.effectiveFrom);
+        if (!effectiveFrom) throw invalidUniverse(`members[${i}].effectiveFrom must be YYYYMMDD or YYYY-MM-DD`);
+
+        const openEnded = m.effectiveTo == null || m.effectiveTo === '';
+        const effectiveTo = openEnded ? null : toYmd(m.effectiveTo);
+        if (!openEnded && !effectiveTo) throw invalidUniverse(`members[${i}].effectiveTo must be YYYYMMDD or YYYY-MM-DD`);
+        if (effectiveTo && effectiveTo < effectiveFrom) throw invalidUniverse(`members[${i}]: effectiveTo is before effectiveFrom`);
+
+        return { symbol, effectiveFrom, effectiveTo };
+    });
+
+    const sorted = members.sort((a, b) =>
+        a.symbol.localeCompare(b.symbol) || a.effectiveFrom.localeCompare(b.effectiveFrom));
+    for (let i = 1; i < sorted.length; i++) {
+        const prev = sorted[i - 1];
+        const cur = sorted[i];
+        if (prev.symbol === cur.symbol && (prev.effectiveTo == null || prev.effectiveTo >= cur.effectiveFrom)) {
+            throw invalidUniverse(`overlapping membership periods for ${cur.symbol}`);
+        }
+    }
+    return sorted;
+}
+
+/** date(YYYYMMDD)에 편입 상태인지 */
+function isActive(member: UniverseMember, date: string): boolean {
+    return member.effectiveFrom <= date && (member.effectiveTo == null || date <= member.effectiveTo);
+}
+
+/**
+ * 편입 기간 → (symbol, date) 편입 여부 판정 함수
+ * 목록에 없는 종목은 항상 false
+ */
+export function createMembershipFilter(members: UniverseMember[]): (symbol: string, date: string) => boolean {
+    const bySymbol = new Map<string, UniverseMember[]>();
+    for (const m of members) {
+        if (!bySymbol.has(m.symbol)) bySymbol.set(m.symbol, []);
+        bySymbol.get(m.symbol)!.push(m);
+    }
+    return (symbol, date) => bySymbol.get(symbol)?.some(m => isActive(m, date)) ?? false;
+}
+
+/** 시그널 구간과 겹치는 편입 기간만 (구간 미지정 쪽은 열린 끝) */
+export function membersInRange(members: UniverseMember[], range: OhlcvDateRange = {}): UniverseMember[] {
+    return members.filter(m =>
+        (!range.endDate || m.effectiveFrom <= range.endDate)
+        && (!range.startDate || m.effectiveTo == null || m.effectiveTo >= range.startDate)
+    );
+}
+
+/**
+ * 편입 기간 CSV 파싱
+ * 헤더 필수: symbol,effective_from (+ 선택 effective_to, 비우면 현재까지)
+ * @throws 형식 오류 (code 'INVALID_UNIVERSE')
+ */
+export function parseUniverseCsv(text: string): UniverseMember[] {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim().length > 0);
+    if (lines.length === 0) return [];
+
+    const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+    const col = (name: string) => header.indexOf(name);
+    const missing = ['symbol', 'effective_from'].filter(name => col(name) === -1);
+    if (missing.length > 0) {
+        throw invalidUniverse(`CSV header missing columns: ${missing.join(', ')}`);
+    }
+
+    return normalizeUniverseMembers(lines.slice(1).map(line => {
+        const cells = line.split(',').map(c => c.trim());
+        return {
+            symbol: cells[col('symbol')],
+            effectiveFrom: cells[col('effective_from')],
+            effectiveTo: col('effective_to') === -1 ? null : cells[col('effective_to')] || null,
+        };
+    }));
+}
+
+// ─── 저장 / 조회 ──────────────────────────────────────────────────────
+
+/** 유니버스 저장 (같은 이름이면 편입 기간 전체를 교체) */
+export function saveUniverse(universe: NamedUniverse): NamedUniverse {
+    initializeUniverseSchema();
+    const members = normalizeUniverseMembers(universe.members);
+    const market = universe.market ?? 'KR';
+    const description = universe.description?.trim() || null;
+
+    db.transaction(() => {
+        db.run(`
+            INSERT INTO backtest_universes (name, description, market, updated_at)
+            VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+            ON CONFLICT(name) DO UPDATE SET
+                description = excluded.description, market = excluded.market, updated_at = excluded.updated_at
+        `, [universe.name, description, market]);
+        db.run('DELETE FROM backtest_universe_members WHERE universe = ?', [universe.name]);
+        const stmt = db.prepare(`
+            INSERT INTO backtest_universe_members (universe, symbol, effective_from, effective_to)
+            VALUES (?, ?, ?, ?)
+        `);
+        for (const m of members) stmt.run(universe.name, m.symbol, m.effectiveFrom, m.effectiveTo ?? null);
+    })();
+
+    return { name: universe.name, description, market, members };
+}
+
+export function loadUniverse(name: string): NamedUniverse | null {
+    initializeUniverseSchema();
+    const row = db.query('SELECT name, description, market FROM backtest_universes WHERE name = ?').get(name) as
+        { name: string; description: string | null; market: BacktestMarket } | null;
+    if (!row) return null;
+
+    const members = db.query(`
+        SELECT symbol, effective_from AS effectiveFrom, effective_to AS effectiveTo
+        FROM backtest_universe_members WHERE universe = ?
+        ORDER BY symbol, effective_from
+    `).all(name) as UniverseMember[];
+    return { ...row, members };
+}
+
+export function listUniverses(): UniverseListItem[] {
+    initializeUniverseSchema();
+    return db.query(`
+        SELECT u.name, u.description, u.market, u.updated_at AS updatedAt,
+               COUNT(DISTINCT m.symbol) AS symbolCount,
+               COUNT(DISTINCT CASE WHEN m.effective_to IS NULL THEN m.symbol END) AS currentCount
+        FROM backtest_universes u
+        LEFT JOIN backtest_universe_members m ON m.universe = u.name
+        GROUP BY u.name
+        ORDER BY u.name
+    `).all() as UniverseListItem[];
+}
+
+/** @returns 삭제 여부 */
+export function deleteUniverse(name: string): boolean {
+    initializeUniverseSchema();
+    return db.transaction(() => {
+        db.run('DELETE FROM backtest_universe_members WHERE universe = ?', [name]);
+        return db.run('DELETE FROM backtest_universes WHERE name = ?', [name]).changes > 0;
+    })();
+}
+
+/** date(YYYYMMDD) 시점 편입 종목 */
+export function getUniverseSymbolsAsOf(universe: NamedUniverse, date: string): string[] {
+    return [...new Set(universe.members.filter(m => isActive(m, date)).map(m => m.symbol))];
+}
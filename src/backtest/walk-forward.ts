@@ -0,0 +1,359 @@
+/**
+ * walk-forward.ts
+ *
+ * Parameter Sweep의 Walk-forward 검증
+ * - 거래일 축을 학습(train) → 검증(test) 창으로 굴려가며
+ *   학습 구간 최적 조합을 바로 다음 미관측 구간에서만 평가
+ * - 학습 구간 거래는 학습 구간 안에서 청산된 것만 사용 (검증 구간 결과 유출 방지)
+ * - 검증 구간 거래만 이어붙여 OOS equity curve 생성, 창별 선택 파라미터 안정성 보고
+ * - 후보 조합은 Parameter Sweep과 같은 탐색 설정(ranges/strategy/samples/eta/seed)으로 결정
+ *   successive_halving은 창마다 학습 구간 안에서만 단계별로 후보를 줄임
+ * - 모든 수익률은 비용 차감 후(net) 기준
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createStoreProvider, loadUniverseOhlcv } from './data-provider.js';
+import { resolveOhlcvRange, simDateBounds } from './engine.js';
+import { checkpoint } from './progress.js';
+import { RESULTS_DIR } from './result-store.js';
+import { getScoringProfile, toProfileRef } from '../analysis/scoring-profile.js';
+import {
+    listSearchSpace,
+    runSweepForCombination,
+    sampleSearchCandidates,
+    type SweepCombination,
+    type SweepTradeResult,
+} from './parameter-sweep.js';
+import {
+    buildEquityCurve,
+    calcAvgReturn,
+    calcReturnSummary,
+    calcSharpeRatio,
+    calcStdReturn,
+    calcWinRate,
+    createRng,
+    toNetTrades,
+} from './stats.js';
+import type {
+    BacktestConfig,
+    BacktestRunOptions,
+    OhlcvRecord,
+    SweepSearchConfig,
+    WalkForwardConfig,
+    WalkForwardResult,
+    WalkForwardStats,
+} from './types.js';
+
+export const DEFAULT_WALK_FORWARD: Required<WalkForwardConfig> = {
+    trainBars: 40,
+    testBars: 10,
+    stepBars: 10,
+    objective: 'sharpe',
+    minTrades: 5,
+};
+
+type StabilityParameter = WalkForwardResult['parameterStability']['parameters'][number]['parameter'];
+
+// ─── 유틸 ─────────────────────────────────────────────────────────────
+
+function calcWindowStats(trades: SweepTradeResult[]): WalkForwardStats {
+    const net = toNetTrades(trades);
+    const avgReturn = calcAvgReturn(net);
+    return {
+        totalTrades: trades.length,
+        winRate: calcWinRate(net),
+        avgReturn,
+        sharpeRatio: calcSharpeRatio(avgReturn, calcStdReturn(net)),
+    };
+}
+
+function objectiveValue(stats: WalkForwardStats, objective: Required<WalkForwardConfig>['objective']): number {
+    if (objective === 'winRate') return stats.winRate;
+    if (objective === 'avgReturn') return stats.avgReturn;
+    return stats.sharpeRatio;
+}
+
+/** 진입 가능한 거래일 축 (종목별 simDateBounds 구간의 합집합) */
+function buildEntryDateAxis(ohlcvCache: Map<string, OhlcvRecord[]>, config: BacktestConfig): string[] {
+    const dates = new Set<string>();
+    for (const bars of ohlcvCache.values()) {
+        const { from, to } = simDateBounds(bars, config.holdingPeriod, config);
+        for (let simDate = from; simDate <= to; simDate++) {
+            dates.add(bars[simDate + 1].date);
+        }
+    }
+    return [...dates].sort();
+}
+
+type WindowCandidate = { combo: SweepCombination; trades: SweepTradeResult[]; inSampleTrades: SweepTradeResult[] };
+
+/**
+ * successive halving (학습 구간 한정)
+ * 학습 구간 거래를 진입일 간격(eta^k)으로 솎아 성기게 평가 → 상위 1/eta만 다음 단계로
+ * 마지막 단계(학습 구간 전체 거래)는 호출부의 선택 루프가 평가
+ */
+function halveCandidates(
+    candidates: WindowCandidate[],
+    entryIndex: (date: string) => number,
+    wf: Required<WalkForwardConfig>,
+    eta: number
+): WindowCandidate[] {
+    const rungs = Math.min(3, 1 + Math.floor(Math.log(candidates.length) / Math.log(eta)));
+    let survivors = candidates;
+
+    for (let rung = 0; rung < rungs - 1; rung++) {
+        const dateStride = Math.pow(eta, rungs - 1 - rung);
+        const minTrades = Math.max(1, Math.ceil(wf.minTrades / dateStride));
+        const scored = survivors.map(candidate => {
+            const sampled = candidate.inSampleTrades.filter(t => entryIndex(t.entryDate) % dateStride === 0);
+            const stats = calcWindowStats(sampled);
+            return { candidate, valid: sampled.length >= minTrades, score: objectiveValue(stats, wf.objective), trades: sampled.length };
+        });
+        scored.sort((a, b) => {
+            if (a.valid !== b.valid) return a.valid ? -1 : 1;
+            return (b.score - a.score) || (b.trades - a.trades);
+        });
+        survivors = scored.slice(0, Math.max(1, Math.ceil(scored.length / eta))).map(s => s.candidate);
+    }
+    return survivors;
+}
+
+function comboKey(c: SweepCombination): string {
+    const { thresholds: t, weights: w } = c;
+    return `${c.gradeThreshold}|${t.B}|${t.C}|${w.technicalScoreMax}|${w.rrScoreMax}|${w.volumeProfileMax}|${w.ma60Max}|${c.holdingPeriod}`;
+}
+
+function calcParameterStability(
+    selections: SweepCombination[]
+): WalkForwardResult['parameterStability'] {
+    const pick: Record<StabilityParameter, (c: SweepCombination) => number> = {
+        gradeThreshold: c => c.gradeThreshold,
+        thresholdB: c => c.thresholds.B,
+        thresholdC: c => c.thresholds.C,
+        technicalScoreMax: c => c.weights.technicalScoreMax,
+        rrScoreMax: c => c.weights.rrScoreMax,
+        volumeProfileMax: c => c.weights.volumeProfileMax,
+        ma60Max: c => c.weights.ma60Max,
+        holdingPeriod: c => c.holdingPeriod,
+    };
+
+    const parameters = (Object.keys(pick) as StabilityParameter[]).map(parameter => {
+        const values = selections.map(pick[parameter]);
+        const mean = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+        const variance = values.length > 0
+            ? values.reduce((acc, v) => acc + Math.pow(v - mean, 2), 0) / values.length
+            : 0;
+        const changes = values.filter((v, i) => i > 0 && v !== values[i - 1]).length;
+        return {
+            parameter,
+            values,
+            mean: parseFloat(mean.toFixed(4)),
+            std: parseFloat(Math.sqrt(variance).toFixed(4)),
+            changes,
+        };
+    });
+
+    const counts = new Map<string, { combo: SweepCombination; count: number }>();
+    for (const combo of selections) {
+        const key = comboKey(combo);
+        const entry = counts.get(key) ?? { combo, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+    }
+    const top = [...counts.values()].sort((a, b) => b.count - a.count)[0];
+
+    return {
+        parameters,
+        distinctCombinations: counts.size,
+        mostFrequent: top
+            ? {
+                gradeThreshold: top.combo.gradeThreshold,
+                thresholds: top.combo.thresholds,
+                weights: top.combo.weights,
+                holdingPeriod: top.combo.holdingPeriod,
+                count: top.count,
+            }
+            : null,
+        consistency: top && selections.length > 0
+            ? parseFloat((top.count / selections.length).toFixed(4))
+            : 0,
+    };
+}
+
+// ─── 창 이동 평가 ─────────────────────────────────────────────────────
+
+/**
+ * 학습 구간 최적 조합 선택 → 다음 검증 구간 평가 (순수 함수)
+ * @param axis        진입 가능 거래일 (오름차순)
+ * @param combos      조합별 전체 기간 거래
+ * @param halvingEta  지정 시 창마다 학습 구간 successive halving으로 후보를 줄인 뒤 선택
+ */
+export function evaluateWalkForward(
+    axis: string[],
+    combos: { combo: SweepCombination; trades: SweepTradeResult[] }[],
+    wf: Required<WalkForwardConfig>,
+    halvingEta?: number
+): Omit<WalkForwardResult, 'id' | 'executedAt' | 'config' | 'profile' | 'walkForward' | 'search'> {
+    const windows: WalkForwardResult['windows'] = [];
+    const oosTrades: SweepTradeResult[] = [];
+    const selections: SweepCombination[] = [];
+    const axisIndex = new Map(axis.map((date, i) => [date, i]));
+    let lastStitchedDate = '';
+
+    for (let start = 0; start + wf.trainBars < axis.length; start += wf.stepBars) {
+        const trainStart = axis[start];
+        const trainEnd = axis[start + wf.trainBars - 1];
+        const testDates = axis.slice(start + wf.trainBars, start + wf.trainBars + wf.testBars);
+        const testStart = testDates[0];
+        const testEnd = testDates[testDates.length - 1];
+
+        let selected: WalkForwardResult['windows'][number]['selected'] = null;
+        let selectedCombo: SweepCombination | null = null;
+        let selectedTrades: SweepTradeResult[] = [];
+        let bestScore = -Infinity;
+
+        let candidates: WindowCandidate[] = combos.map(({ combo, trades }) => ({
+            combo,
+            trades,
+            inSampleTrades: trades.filter(t =>
+                t.entryDate >= trainStart && t.entryDate <= trainEnd && t.exitDate <= trainEnd
+            ),
+        }));
+        if (halvingEta) {
+            candidates = halveCandidates(candidates, date => (axisIndex.get(date) ?? start) - start, wf, halvingEta);
+        }
+
+        for (const { combo, trades, inSampleTrades } of candidates) {
+            if (inSampleTrades.length < wf.minTrades) continue;
+
+            const inSample = calcWindowStats(inSampleTrades);
+            const score = objectiveValue(inSample, wf.objective);
+            // 동점이면 표본이 많은 조합 우선
+            if (score > bestScore || (score === bestScore && selected && inSample.totalTrades > selected.inSample.totalTrades)) {
+                bestScore = score;
+                selected = {
+                    gradeThreshold: combo.gradeThreshold,
+                    thresholds: combo.thresholds,
+                    weights: combo.weights,
+                    holdingPeriod: combo.holdingPeriod,
+                    inSample,
+                };
+                selectedCombo = combo;
+                selectedTrades = trades;
+            }
+        }
+
+        const testTrades = selected
+            ? selectedTrades.filter(t => t.entryDate >= testStart && t.entryDate <= testEnd)
+            : [];
+
+        if (selectedCombo) selections.push(selectedCombo);
+
+        // 검증 구간이 겹치는 설정(stepBars < testBars)에서는 이미 이어붙인 날짜 이후만 사용
+        oosTrades.push(...testTrades.filter(t => t.entryDate > lastStitchedDate));
+        lastStitchedDate = testEnd;
+
+        windows.push({
+            index: windows.length,
+            trainStart,
+            trainEnd,
+            testStart,
+            testEnd,
+            selected,
+            outOfSample: calcWindowStats(testTrades),
+        });
+    }
+
+    // OOS 집계 & 안정성
+    const oosNet = toNetTrades(oosTrades);
+    const inSampleReturns = windows.flatMap(w => w.selected ? [w.selected.inSample.avgReturn] : []);
+    const inSampleAvgReturn = inSampleReturns.length > 0
+        ? parseFloat((inSampleReturns.reduce((a, b) => a + b, 0) / inSampleReturns.length).toFixed(4))
+        : 0;
+    const outOfSample = { totalTrades: oosTrades.length, ...calcReturnSummary(oosNet) };
+
+    return {
+        windows,
+        outOfSample,
+        inSampleAvgReturn,
+        walkForwardEfficiency: inSampleAvgReturn > 0
+            ? parseFloat((outOfSample.avgReturn / inSampleAvgReturn).toFixed(4))
+            : 0,
+        equityCurve: buildEquityCurve(oosNet),
+        parameterStability: calcParameterStability(selections),
+    };
+}
+
+// ─── 메인 Walk-forward 함수 ──────────────────────────────────────────
+
+/**
+ * @param search  후보 조합 탐색 설정 (rankBy 대신 walkForward.objective로 선택)
+ */
+export async function runWalkForward(
+    baseConfig: BacktestConfig,
+    walkForward: Partial<WalkForwardConfig> = {},
+    options: BacktestRunOptions = {},
+    search: Omit<SweepSearchConfig, 'rankBy'> = {}
+): Promise<WalkForwardResult> {
+    const wf: Required<WalkForwardConfig> = {
+        ...DEFAULT_WALK_FORWARD,
+        ...walkForward,
+        stepBars: walkForward.stepBars ?? walkForward.testBars ?? DEFAULT_WALK_FORWARD.stepBars,
+    };
+
+    const strategy = search.strategy ?? 'grid';
+    const seed = search.seed ?? 42;
+
+    const profile = getScoringProfile(baseConfig.profile);
+    const space = listSearchSpace(search, baseConfig.holdingPeriod);
+
+    // 1. OHLCV 1회 조회 → 캐시 (기본: 로컬 저장소)
+    const provider = options.provider ?? createStoreProvider({ market: baseConfig.market, exchange: baseConfig.exchange });
+    const { minBars, range } = resolveOhlcvRange(baseConfig);
+    const ohlcvCache = await loadUniverseOhlcv(baseConfig.universe, provider, minBars, 'WalkForward', { ...options, range });
+
+    const axis = buildEntryDateAxis(ohlcvCache, baseConfig);
+    if (axis.length <= wf.trainBars) {
+        const err = new Error(
+            `Insufficient data for walk-forward: need more than ${wf.trainBars} entry dates, got ${axis.length}`
+        );
+        (err as any).code = 'INSUFFICIENT_DATA';
+        throw err;
+    }
+
+    // 2. 후보 조합별 전체 거래 1회 계산 → 창마다 날짜로 잘라서 재사용
+    const candidates = sampleSearchCandidates(space, search, createRng(seed));
+    const combos: { combo: SweepCombination; trades: SweepTradeResult[] }[] = [];
+    for (const combo of candidates) {
+        combos.push({ combo, trades: runSweepForCombination(ohlcvCache, baseConfig, combo) });
+        await checkpoint(options, { phase: 'sweep', completed: combos.length, total: candidates.length });
+    }
+
+    // 3. 창 이동 평가
+    const result: WalkForwardResult = {
+        id: randomUUID(),
+        executedAt: new Date().toISOString(),
+        config: baseConfig,
+        profile: toProfileRef(profile),
+        walkForward: wf,
+        search: {
+            strategy,
+            searchSpaceSize: space.length,
+            evaluatedCombinations: candidates.length,
+            seed: strategy === 'grid' ? undefined : seed,
+        },
+        ...evaluateWalkForward(axis, combos, wf, strategy === 'successive_halving' ? search.eta ?? 3 : undefined),
+    };
+
+    // 4. 결과 저장
+    await mkdir(RESULTS_DIR, { recursive: true });
+    await writeFile(
+        join(RESULTS_DIR, `walkforward-${result.id}.json`),
+        JSON.stringify(result, null, 2),
+        'utf-8'
+    );
+
+    return result;
+}
@@ -0,0 +1,170 @@
+/**
+ * xlsx.ts
+ *
+ * 최소 XLSX 작성기 (외부 의존성 없음)
+ * - SpreadsheetML 파트를 ZIP(deflate)으로 묶음
+ * - 문자열은 inline string, 숫자는 숫자 셀, 불리언은 불리언 셀, null은 빈 셀
+ * - YYYY-MM-DD 문자열은 날짜 일련번호 + yyyy-mm-dd 서식 (정렬/필터에서 날짜로 동작)
+ * - 첫 행(헤더)은 굵게 + 틀 고정
+ */
+
+import { crc32, deflateRawSync } from 'zlib';
+
+export type XlsxCell = string | number | boolean | null;
+
+export interface XlsxSheet {
+    name: string;             // 31자 이하, []:*?/\ 불가
+    rows: XlsxCell[][];
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // XML 1.0에서 허용되지 않는 제어문자 제거
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+/** 0 → A, 25 → Z, 26 → AA */
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** YYYY-MM-DD → Excel 날짜 일련번호 (1899-12-30 기준 일수), 날짜가 아니면 null */
+function dateSerial(value: string): number | null {
+    const m = ISO_DATE.exec(value);
+    if (!m) return null;
+    const ms = Date.UTC(+m[1], +m[2] - 1, +m[3]);
+    if (new Date(ms).toISOString().slice(0, 10) !== value) return null;
+    return (ms - Date.UTC(1899, 11, 30)) / 86_400_000;
+}
+
+function cellXml(value: XlsxCell, ref: string, header: boolean): string {
+    const style = header ? ' s="1"' : '';
+    if (value == null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+    if (typeof value === 'number') return `<c r="${ref}"${style}><v>${value}</v></c>`;
+    const serial = header || typeof value !== 'string' ? null : dateSerial(value);
+    if (serial !== null) return `<c r="${ref}" s="2"><v>${serial}</v></c>`;
+    if (typeof value === 'boolean') return `<c r="${ref}" t="b"${style}><v>${value ? 1 : 0}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+    const rows = sheet.rows.map((row, r) => {
+        const cells = row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, r === 0)).join('');
+        return `<row r="${r + 1}">${cells}</row>`;
+    }).join('');
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+function workbookParts(sheets: XlsxSheet[]): Record<string, string> {
+    const parts: Record<string, string> = {
+        '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+            + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+            + '<Default Extension="xml" ContentType="application/xml"/>'
+            + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+            + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+            + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+            + '</Types>',
+        '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+            + '</Relationships>',
+        'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+            + `<sheets>${sheets.map((s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>`
+            + '</workbook>',
+        'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+            + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+            + '</Relationships>',
+        // cellXfs 0: 기본, 1: 헤더(굵게), 2: 날짜(numFmt 164)
+        'xl/styles.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+            + '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>'
+            + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+            + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+            + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+            + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+            + '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+            + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>'
+            + '</styleSheet>',
+    };
+    sheets.forEach((sheet, i) => {
+        parts[`xl/worksheets/sheet${i + 1}.xml`] = sheetXml(sheet);
+    });
+    return parts;
+}
+
+/** 1980-01-01 00:00 (DOS 날짜/시각, 빌드마다 같은 바이트가 나오도록 고정) */
+const DOS_EPOCH = (((0 << 9) | (1 << 5) | 1) << 16) >>> 0;
+
+/** ZIP 아카이브 (deflate, 데이터 디스크립터 없음) */
+function zip(files: Record<string, string>): Uint8Array<ArrayBuffer> {
+    const local: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+
+    for (const [path, content] of Object.entries(files)) {
+        const name = Buffer.from(path, 'utf-8');
+        const data = Buffer.from(content, 'utf-8');
+        const compressed = deflateRawSync(data);
+        const crc = crc32(data);
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);             // version needed
+        header.writeUInt16LE(0x0800, 6);         // UTF-8 파일명
+        header.writeUInt16LE(8, 8);              // deflate
+        header.writeUInt32LE(DOS_EPOCH, 10);     // 수정 시각/날짜 (고정)
+        header.writeUInt32LE(crc, 14);
+        header.writeUInt32LE(compressed.length, 18);
+        header.writeUInt32LE(data.length, 22);
+        header.writeUInt16LE(name.length, 26);
+        header.writeUInt16LE(0, 28);
+        local.push(header, name, compressed);
+
+        const entry = Buffer.alloc(46);
+        entry.writeUInt32LE(0x02014b50, 0);
+        entry.writeUInt16LE(20, 4);              // version made by
+        entry.writeUInt16LE(20, 6);
+        entry.writeUInt16LE(0x0800, 8);
+        entry.writeUInt16LE(8, 10);
+        entry.writeUInt32LE(DOS_EPOCH, 12);
+        entry.writeUInt32LE(crc, 16);
+        entry.writeUInt32LE(compressed.length, 20);
+        entry.writeUInt32LE(data.length, 24);
+        entry.writeUInt16LE(name.length, 28);
+        entry.writeUInt32LE(offset, 42);         // 나머지(extra/comment/attrs)는 0
+        central.push(entry, name);
+
+        offset += header.length + name.length + compressed.length;
+    }
+
+    const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(central.length / 2, 8);
+    end.writeUInt16LE(central.length / 2, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return new Uint8Array(Buffer.concat([...local, ...central, end]));
+}
+
+export function buildXlsx(sheets: XlsxSheet[]): Uint8Array<ArrayBuffer> {
+    return zip(workbookParts(sheets));
+}
@@ -2,11 +2,14 @@ import { Hono } from 'hono';
 import { logger } from 'hono/logger';
 import { cors } from 'hono/cors';
 import { serveStatic } from 'hono/bun';
+import { streamSSE } from 'hono/streaming';
 import { initializeRegistrySchema } from './mcp-gateway/registry/schema.js';
 import { registryRoutes } from './mcp-gateway/api/routes.js';
 import { mcpRoutes } from './mcp-gateway/api/mcp.js';
 import { type AnalysisRequest, AnalysisRequestSchema } from './analysis/types.js';
 import { analyze } from './analysis/scorer.js';
+import { refreshMetadataIfStale } from './analysis/metadata.js';
+import { getScoringProfile, hasScoringProfile, listScoringProfiles } from './analysis/scoring-profile.js';
 import { analyzeKrStock } from './tools/korea/analysis.js';
 import { analyzeUsStock } from './tools/us/analysis.js';
 import {
@@ -14,8 +17,40 @@ import {
     saveBacktestResult,
     loadBacktestResult,
     listBacktestResults,
+    updateBacktestResultMeta,
+    deleteBacktestResult,
+    initializeResultSchema,
+    compareBacktestResults,
+    buildExportTables,
+    toCsv,
+    toXlsx,
+    EXPORT_SHEETS,
+    type ExportSheetName,
     runParameterSweep,
+    runWalkForward,
+    validateStrategyRules,
+    initializeUniverseSchema,
+    saveUniverse,
+    loadUniverse,
+    listUniverses,
+    deleteUniverse,
+    getUniverseSymbolsAsOf,
+    parseUniverseCsv,
+    normalizeUniverseMembers,
+    membersInRange,
+    initializeOhlcvSchema,
+    importOhlcvCsv,
+    listStoredSymbols,
+    submitBacktestJob,
+    getBacktestJob,
+    listBacktestJobs,
+    cancelBacktestJob,
+    subscribeBacktestJob,
+    isJobFinished,
     type BacktestConfig,
+    type BacktestResultMeta,
+    type SweepSearchConfig,
+    type WalkForwardConfig,
 } from './backtest/index.js';
 
 const PORT = parseInt(process.env.PORT || '3000');
@@ -28,6 +63,23 @@ import { initializePolicySchema } from './mcp-gateway/policy/schema.js';
 initializePolicySchema();
 import { initializeLogSchema } from './mcp-gateway/logging/service.js';
 initializeLogSchema();
+initializeOhlcvSchema();
+initializeResultSchema();
+initializeUniverseSchema();
+
+// 1-1. 종목 마스터 (KIS 종목정보 파일) 자동 갱신 (STOCK_MASTER_AUTO_REFRESH=true일 때만)
+//      시작 시 + 하루 한 번, 갱신 주기가 지난 경우만 내려받음 (기본은 scripts/refresh-stock-master.ts를 cron 등으로 실행)
+if (process.env.STOCK_MASTER_AUTO_REFRESH === 'true') {
+    const refreshStockMaster = () => refreshMetadataIfStale()
+        .then(result => {
+            if (!result) return;
+            console.log(`[Stock Master] Updated ${result.updated.length} file(s)`);
+            for (const f of result.failed) console.warn(`[Stock Master] ${f.file}: ${f.error}`);
+        })
+        .catch(err => console.warn(`[Stock Master] Refresh failed: ${err}`));
+    refreshStockMaster();
+    setInterval(refreshStockMaster, 24 * 60 * 60 * 1000);
+}
 
 // 2. Setup Hono App
 const app = new Hono();
@@ -47,11 +99,26 @@ app.route('/api/observability', observabilityRoutes);
 app.route('/api/tools', toolCallRoutes);
 app.route('/mcp', mcpRoutes);
 
-// 5. Existing K-Dexter Endpoint
+/** 스코어링 프로파일 이름 검증 (분석/백테스트 공용, 오류 메시지 반환, 정상이면 null) */
+function validateProfile(profile: unknown): string | null {
+    if (profile === undefined) return null;
+    if (typeof profile !== 'string' || !hasScoringProfile(profile)) {
+        const available = listScoringProfiles().map(p => p.name).join(', ');
+        return `unknown profile ${JSON.stringify(profile)} (available: ${available})`;
+    }
+    return null;
+}
+
+// 5. Existing K-Dexter Endpoint (body.profile: 스코어링 프로파일 이름, 미지정 시 default)
 app.post('/k-dexter/analyze', async (c) => {
     try {
         const body = await c.req.json();
 
+        const profileError = validateProfile(body?.profile);
+        if (profileError) {
+            return c.json({ error: `Invalid profile: ${profileError}` }, 400);
+        }
+
         // Validate Input
         const parseResult = AnalysisRequestSchema.safeParse(body);
         if (!parseResult.success) {
@@ -62,7 +129,7 @@ app.post('/k-dexter/analyze', async (c) => {
 
         // Execute Logic
         const start = performance.now();
-        const result = analyze(requestData);
+        const result = analyze(requestData, { profile: getScoringProfile(body.profile) });
         const end = performance.now();
 
         console.log(`[Analyzed] ${requestData.symbol} in ${(end - start).toFixed(2)}ms`);
@@ -80,15 +147,20 @@ app.post('/k-dexter/analyze', async (c) => {
 app.post('/k-dexter/analyze/kr', async (c) => {
     try {
         const body = await c.req.json();
-        const { symbol } = body;
+        const { symbol, profile } = body;
 
         if (!symbol || typeof symbol !== 'string') {
             return c.json({ error: 'Invalid Request', details: '"symbol" field is required (e.g., "005930")' }, 400);
         }
 
+        const profileError = validateProfile(profile);
+        if (profileError) {
+            return c.json({ error: `Invalid profile: ${profileError}` }, 400);
+        }
+
         const start = performance.now();
         // analyzeKrStock은 LangChain tool이므로 invoke로 호출
-        const rawResult = await analyzeKrStock.invoke({ symbol });
+        const rawResult = await analyzeKrStock.invoke({ symbol, profile });
         const end = performance.now();
 
         console.log(`[Auto-Analyzed KR] ${symbol} in ${(end - start).toFixed(2)}ms`);
@@ -107,7 +179,7 @@ app.post('/k-dexter/analyze/kr', async (c) => {
 app.post('/k-dexter/analyze/us', async (c) => {
     try {
         const body = await c.req.json();
-        const { symbol, exchange = 'NAS' } = body;
+        const { symbol, exchange = 'NAS', profile } = body;
 
         if (!symbol || typeof symbol !== 'string') {
             return c.json({ error: 'Invalid Request', details: '"symbol" is required (e.g., "NVDA")' }, 400);
@@ -116,8 +188,13 @@ app.post('/k-dexter/analyze/us', async (c) => {
             return c.json({ error: 'Invalid exchange', details: 'Must be NAS, NYS, or AMS' }, 400);
         }
 
+        const profileError = validateProfile(profile);
+        if (profileError) {
+            return c.json({ error: `Invalid profile: ${profileError}` }, 400);
+        }
+
         const start = performance.now();
-        const rawResult = await analyzeUsStock.invoke({ symbol, exchange });
+        const rawResult = await analyzeUsStock.invoke({ symbol, exchange, profile });
         const end = performance.now();
 
         console.log(`[Auto-Analyzed US] ${symbol} (${exchange}) in ${(end - start).toFixed(2)}ms`);
@@ -137,17 +214,217 @@ app.get('/dashboard', (c) => c.redirect('/dashboard/index.html'));
 
 // 9. Backtest Routes
 
-// 9-1. 백테스트 실행
+/** exitRule 검증 (오류 메시지 반환, 정상이면 null) */
+function validateExitRule(exitRule: BacktestConfig['exitRule']): string | null {
+    if (!exitRule) return null;
+    if (!['fixed', 'bracket', 'trailing_atr', 'partial'].includes(exitRule.mode)) {
+        return 'exitRule.mode must be one of fixed, bracket, trailing_atr, partial';
+    }
+    if (exitRule.sameBarPriority !== undefined && !['stop_first', 'target_first'].includes(exitRule.sameBarPriority)) {
+        return 'exitRule.sameBarPriority must be stop_first or target_first';
+    }
+    const multiple = exitRule.trailingAtrMultiple;
+    if (multiple !== undefined && (typeof multiple !== 'number' || multiple <= 0 || multiple > 10)) {
+        return 'exitRule.trailingAtrMultiple must be between 0 and 10';
+    }
+    const ratio = exitRule.partialRatio;
+    if (ratio !== undefined && (typeof ratio !== 'number' || ratio <= 0 || ratio >= 1)) {
+        return 'exitRule.partialRatio must be between 0 and 1 (exclusive)';
+    }
+    return null;
+}
+
+/** costs 검증 (오류 메시지 반환, 정상이면 null) */
+function validateCosts(costs: BacktestConfig['costs']): string | null {
+    if (!costs) return null;
+    const limits = { commissionBps: 100, sellTaxPct: 1, slippageBps: 100, slippageTicks: 10 } as const;
+    for (const kind of ['stock', 'etf'] as const) {
+        const rule = costs[kind];
+        if (!rule) continue;
+        for (const [field, max] of Object.entries(limits)) {
+            const val = rule[field as keyof typeof limits];
+            if (val !== undefined && (typeof val !== 'number' || val < 0 || val > max)) {
+                return `costs.${kind}.${field} must be between 0 and ${max}`;
+            }
+        }
+    }
+    if (costs.etfSymbols !== undefined
+        && (!Array.isArray(costs.etfSymbols) || costs.etfSymbols.some(s => typeof s !== 'string'))) {
+        return 'costs.etfSymbols must be an array of stock codes';
+    }
+    return null;
+}
+
+/** market/exchange 검증 (오류 메시지 반환, 정상이면 null) */
+function validateMarket(market: unknown, exchange: unknown): string | null {
+    if (market !== undefined && market !== 'KR' && market !== 'US') {
+        return 'market must be KR or US';
+    }
+    if (exchange !== undefined) {
+        if (market !== 'US') return 'exchange is only allowed when market is US';
+        if (!['NAS', 'NYS', 'AMS'].includes(exchange as string)) return 'exchange must be one of NAS, NYS, AMS';
+    }
+    return null;
+}
+
+/** direction 검증 (오류 메시지 반환, 정상이면 null) */
+function validateDirection(direction: unknown): string | null {
+    if (direction !== undefined && !['long', 'short', 'both'].includes(direction as string)) {
+        return 'direction must be one of long, short, both';
+    }
+    return null;
+}
+
+/**
+ * 시장별 종목 형식에 맞지 않는 심볼
+ * - KR: 6자리 숫자 또는 숫자+영문 혼합 (2025년 이후 신규 상장 ETF 포함)
+ * - US: 영문으로 시작하는 티커 (BRK.B 같은 클래스 표기 포함)
+ */
+function findInvalidSymbols(universe: string[], market: BacktestConfig['market']): string[] {
+    const pattern = market === 'US' ? /^[A-Z][A-Z0-9.]{0,9}$/i : /^[A-Z0-9]{6}$/i;
+    return universe.filter(s => typeof s !== 'string' || !pattern.test(s));
+}
+
+/** YYYY-MM-DD / YYYYMMDD → YYYYMMDD */
+function toYmd(date: string | undefined): string | undefined {
+    return date ? date.replace(/-/g, '') : undefined;
+}
+
+/**
+ * universeName → universe/membership/market을 body에 채움 (오류 메시지 반환, 정상이면 null)
+ * 편입 기간은 시그널 구간(startDate~endDate)과 겹치는 것만 남겨 결과 config에 그대로 저장
+ */
+function applyNamedUniverse(
+    body: Partial<Pick<BacktestConfig, 'universe' | 'universeName' | 'membership' | 'market' | 'startDate' | 'endDate'>>
+): string | null {
+    if (body.universeName === undefined) {
+        return body.membership !== undefined ? 'membership can only be set through universeName' : null;
+    }
+    if (typeof body.universeName !== 'string' || !body.universeName.trim()) return 'universeName must be a string';
+    if (body.universe !== undefined) return 'universe and universeName cannot be combined';
+
+    const named = loadUniverse(body.universeName.trim());
+    if (!named) return `universe "${body.universeName}" not found`;
+    const market = named.market ?? 'KR';
+    if (body.market !== undefined && body.market !== market) return `universe "${named.name}" is a ${market} universe`;
+
+    const membership = membersInRange(named.members, {
+        startDate: typeof body.startDate === 'string' ? toYmd(body.startDate) : undefined,
+        endDate: typeof body.endDate === 'string' ? toYmd(body.endDate) : undefined,
+    });
+    if (membership.length === 0) return `universe "${named.name}" has no members in the requested date range`;
+
+    body.universeName = named.name;
+    body.market = market;
+    body.universe = [...new Set(membership.map(m => m.symbol))];
+    body.membership = membership;
+    return null;
+}
+
+/** startDate/endDate 검증 (YYYYMMDD 또는 YYYY-MM-DD, 오류 메시지 반환, 정상이면 null) */
+function validateDateRange(startDate: unknown, endDate: unknown): string | null {
+    for (const [field, value] of [['startDate', startDate], ['endDate', endDate]] as const) {
+        if (value === undefined) continue;
+        if (typeof value !== 'string' || !/^\d{4}-?\d{2}-?\d{2}$/.test(value)) {
+            return `${field} must be YYYYMMDD or YYYY-MM-DD`;
+        }
+        const ymd = toYmd(value)!;
+        const date = new Date(Date.UTC(+ymd.slice(0, 4), +ymd.slice(4, 6) - 1, +ymd.slice(6, 8)));
+        if (date.toISOString().slice(0, 10).replace(/-/g, '') !== ymd) {
+            return `${field} is not a valid date`;
+        }
+    }
+    if (typeof startDate === 'string' && typeof endDate === 'string' && toYmd(startDate)! > toYmd(endDate)!) {
+        return 'startDate must not be after endDate';
+    }
+    return null;
+}
+
+/** 결과 이름/태그 검증 (오류 메시지 반환, 정상이면 null) */
+function validateResultMeta(meta: BacktestResultMeta): string | null {
+    if (meta.name !== undefined && meta.name !== null && (typeof meta.name !== 'string' || meta.name.length > 100)) {
+        return 'name must be a string (max 100 chars)';
+    }
+    if (meta.tags !== undefined && (!Array.isArray(meta.tags) || meta.tags.length > 20
+        || meta.tags.some(t => typeof t !== 'string' || t.trim().length === 0 || t.length > 30))) {
+        return 'tags must be an array of up to 20 non-empty strings (max 30 chars each)';
+    }
+    return null;
+}
+
+/** Parameter Sweep 탐색 설정 검증 (오류 메시지 반환, 정상이면 null) */
+function validateSweepSearch(search: SweepSearchConfig): string | null {
+    const rangeLimits: Record<string, [number, number]> = {
+        gradeThreshold: [0, 20], thresholdB: [0, 20], thresholdC: [0, 20],
+        technicalScoreMax: [0, 10], rrScoreMax: [0, 10], volumeProfileMax: [0, 10], ma60Max: [0, 10],
+        holdingPeriod: [1, 20],
+    };
+    for (const [field, values] of Object.entries(search.ranges ?? {})) {
+        const limit = rangeLimits[field];
+        if (!limit) return `unknown range "${field}"`;
+        if (!Array.isArray(values) || values.length === 0 || values.length > 20) {
+            return `ranges.${field} must be a non-empty array (max 20 values)`;
+        }
+        if (values.some(v => !Number.isInteger(v) || v < limit[0] || v > limit[1])) {
+            return `ranges.${field} values must be integers between ${limit[0]} and ${limit[1]}`;
+        }
+    }
+    if (search.strategy !== undefined && !['grid', 'random', 'successive_halving'].includes(search.strategy)) {
+        return 'strategy must be one of grid, random, successive_halving';
+    }
+    if (search.samples !== undefined && (!Number.isInteger(search.samples) || search.samples < 1 || search.samples > 2000)) {
+        return 'samples must be an integer between 1 and 2000';
+    }
+    if (search.eta !== undefined && (!Number.isInteger(search.eta) || search.eta < 2 || search.eta > 10)) {
+        return 'eta must be an integer between 2 and 10';
+    }
+    if (search.seed !== undefined && !Number.isInteger(search.seed)) {
+        return 'seed must be an integer';
+    }
+    if (search.rankBy !== undefined && !['sharpe', 'winRate', 'avgReturn'].includes(search.rankBy)) {
+        return 'rankBy must be one of sharpe, winRate, avgReturn';
+    }
+    return null;
+}
+
+/**
+ * 백테스트 요청 본문 (run / parameter-sweep / walk-forward 공통)
+ * - 선언형 규칙 트리는 strategyRules로 받음 (sweep의 strategy는 탐색 방식이므로 키를 나눔)
+ */
+type BacktestRequestBody = Omit<BacktestConfig, 'strategy'> & { strategyRules?: BacktestConfig['strategy'] };
+
+/** 백테스트 실행 오류 코드 → HTTP 상태 (요청 값 때문에 생긴 데이터 부족/탐색 설정 오류는 400) */
+function backtestErrorStatus(code: string): 400 | 500 {
+    return code === 'INSUFFICIENT_DATA' || code === 'INVALID_SEARCH' ? 400 : 500;
+}
+
+// 9-1. 백테스트 실행 (?async=true: 즉시 job 반환, 9-8 이하로 진행률 조회)
 app.post('/k-dexter/backtest/run', async (c) => {
     try {
-        const body = await c.req.json() as BacktestConfig;
+        const body = await c.req.json() as BacktestRequestBody & BacktestResultMeta;
+
+        const universeError = applyNamedUniverse(body);
+        if (universeError) {
+            return c.json({ error: `Invalid universe: ${universeError}` }, 400);
+        }
 
         if (!body.universe || !Array.isArray(body.universe) || body.universe.length === 0) {
             return c.json({ error: 'Invalid Request', details: '"universe" must be a non-empty array of stock codes' }, 400);
         }
 
-        // 종목코드 형식 검증 (6자리 숫자 또는 숫자+영문 혼합 - 2025년 이후 신규 상장 ETF 포함)
-        const invalidSymbols = body.universe.filter(s => !/^[A-Z0-9]{6}$/i.test(s));
+        const meta: BacktestResultMeta = { name: body.name, tags: body.tags };
+        const metaError = validateResultMeta(meta);
+        if (metaError) {
+            return c.json({ error: `Invalid result metadata: ${metaError}` }, 400);
+        }
+
+        // 종목코드 형식 검증 (시장별)
+        const marketError = validateMarket(body.market, body.exchange);
+        if (marketError) {
+            return c.json({ error: `Invalid market: ${marketError}` }, 400);
+        }
+
+        const invalidSymbols = findInvalidSymbols(body.universe, body.market);
         if (invalidSymbols.length > 0) {
             return c.json({ error: 'Invalid symbols', details: `Invalid format: ${invalidSymbols.join(', ')}` }, 400);
         }
@@ -164,67 +441,252 @@ app.post('/k-dexter/backtest/run', async (c) => {
             }
         }
 
+        // 포트폴리오 설정 검증
+        const portfolio = body.portfolio;
+        if (portfolio) {
+            if (typeof portfolio.initialCapital !== 'number' || portfolio.initialCapital <= 0) {
+                return c.json({ error: 'Invalid portfolio: initialCapital must be a positive number' }, 400);
+            }
+            if (!Number.isInteger(portfolio.maxPositions) || portfolio.maxPositions < 1 || portfolio.maxPositions > 50) {
+                return c.json({ error: 'Invalid portfolio: maxPositions must be an integer between 1 and 50' }, 400);
+            }
+            const maxPct = portfolio.maxPositionPercent;
+            if (maxPct !== undefined && (typeof maxPct !== 'number' || maxPct <= 0 || maxPct > 100)) {
+                return c.json({ error: 'Invalid portfolio: maxPositionPercent must be between 0 and 100' }, 400);
+            }
+        }
+
+        const exitRuleError = validateExitRule(body.exitRule);
+        if (exitRuleError) {
+            return c.json({ error: `Invalid exitRule: ${exitRuleError}` }, 400);
+        }
+
+        const strategyError = body.strategyRules === undefined ? null : validateStrategyRules(body.strategyRules);
+        if (strategyError) {
+            return c.json({ error: `Invalid strategyRules: ${strategyError}` }, 400);
+        }
+
+        const directionError = validateDirection(body.direction);
+        if (directionError) {
+            return c.json({ error: `Invalid direction: ${directionError}` }, 400);
+        }
+
+        const costsError = validateCosts(body.costs);
+        if (costsError) {
+            return c.json({ error: `Invalid costs: ${costsError}` }, 400);
+        }
+
+        const dateRangeError = validateDateRange(body.startDate, body.endDate);
+        if (dateRangeError) {
+            return c.json({ error: `Invalid date range: ${dateRangeError}` }, 400);
+        }
+
+        const profileError = validateProfile(body.profile);
+        if (profileError) {
+            return c.json({ error: `Invalid profile: ${profileError}` }, 400);
+        }
+
+        // 벤치마크: KR은 KOSPI/KOSDAQ 또는 종목코드 (ETF 포함), US는 티커 (예: SPY)
+        const benchmark = body.benchmark;
+        if (body.market === 'US') {
+            if (benchmark !== undefined
+                && (typeof benchmark !== 'string' || findInvalidSymbols([benchmark.trim()], 'US').length > 0)) {
+                return c.json({ error: 'Invalid benchmark: must be a US ticker (e.g. SPY)' }, 400);
+            }
+        } else if (benchmark !== undefined
+            && (typeof benchmark !== 'string' || !/^(KOSPI|KOSDAQ|[A-Z0-9]{6})$/i.test(benchmark.trim()))) {
+            return c.json({ error: 'Invalid benchmark: must be KOSPI, KOSDAQ or a 6-character stock code' }, 400);
+        }
+
+        const bootstrap = body.bootstrap;
+        if (bootstrap) {
+            const { iterations, confidence, seed } = bootstrap;
+            if (iterations !== undefined && (!Number.isInteger(iterations) || iterations < 100 || iterations > 10000)) {
+                return c.json({ error: 'Invalid bootstrap: iterations must be an integer between 100 and 10000' }, 400);
+            }
+            if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0.5 || confidence >= 1)) {
+                return c.json({ error: 'Invalid bootstrap: confidence must be between 0.5 and 1 (exclusive)' }, 400);
+            }
+            if (seed !== undefined && !Number.isInteger(seed)) {
+                return c.json({ error: 'Invalid bootstrap: seed must be an integer' }, 400);
+            }
+        }
+
         const config: BacktestConfig = {
+            market: body.market,
+            exchange: body.market === 'US' ? body.exchange ?? 'NAS' : undefined,
             universe: body.universe,
+            universeName: body.universeName,
+            membership: body.membership,
             gradeFilter: body.gradeFilter ?? ['A'],
             holdingPeriod: Math.min(20, Math.max(1, body.holdingPeriod ?? 10)),
+            profile: body.profile,
             weights: body.weights,
             thresholds: body.thresholds,
+            portfolio,
+            exitRule: body.exitRule,
+            strategy: body.strategyRules,
+            direction: body.direction,
+            costs: body.costs,
+            benchmark: benchmark?.trim() || undefined,
+            bootstrap,
+            startDate: toYmd(body.startDate),
+            endDate: toYmd(body.endDate),
         };
 
+        if (c.req.query('async') === 'true') {
+            return c.json(submitBacktestJob({ kind: 'run', config, meta }), 202);
+        }
+
         const start = performance.now();
         const result = await runBacktest(config);
         const elapsed = ((performance.now() - start) / 1000).toFixed(1);
 
-        await saveBacktestResult(result);
+        saveBacktestResult(result, meta);
         console.log(`[Backtest] ${result.summary.totalTrades} trades in ${elapsed}s (${body.universe.length} symbols)`);
 
-        return c.json(result);
+        return c.json({ ...result, name: meta.name ?? null, tags: meta.tags ?? [] });
     } catch (e: any) {
         console.error('[Backtest] Error:', e);
         const code = (e as any).code || 'INTERNAL_ERROR';
-        return c.json({ error: e.message, code }, 500);
+        return c.json({ error: e.message, code }, backtestErrorStatus(code));
     }
 });
 
-// 9-2. Parameter Sweep 실행
+// 9-2. Parameter Sweep 실행 (ranges/strategy/samples/eta/seed/rankBy 지정 가능, ?async=true 지원)
 app.post('/k-dexter/backtest/parameter-sweep', async (c) => {
     try {
-        const body = await c.req.json() as BacktestConfig;
+        const body = await c.req.json() as BacktestRequestBody & SweepSearchConfig;
+
+        const universeError = applyNamedUniverse(body);
+        if (universeError) {
+            return c.json({ error: `Invalid universe: ${universeError}` }, 400);
+        }
 
         if (!body.universe || !Array.isArray(body.universe) || body.universe.length === 0) {
             return c.json({ error: 'Invalid Request', details: '"universe" is required' }, 400);
         }
 
-        const invalidSymbols = body.universe.filter(s => !/^[A-Z0-9]{6}$/i.test(s));
+        const marketError = validateMarket(body.market, body.exchange);
+        if (marketError) {
+            return c.json({ error: `Invalid market: ${marketError}` }, 400);
+        }
+
+        const invalidSymbols = findInvalidSymbols(body.universe, body.market);
         if (invalidSymbols.length > 0) {
             return c.json({ error: 'Invalid symbols', details: `Invalid format: ${invalidSymbols.join(', ')}` }, 400);
         }
 
+        const search: SweepSearchConfig = {
+            ranges: body.ranges,
+            strategy: body.strategy,
+            samples: body.samples,
+            eta: body.eta,
+            seed: body.seed,
+            rankBy: body.rankBy,
+        };
+        const searchError = validateSweepSearch(search);
+        if (searchError) {
+            return c.json({ error: `Invalid sweep search: ${searchError}` }, 400);
+        }
+
+        const exitRuleError = validateExitRule(body.exitRule);
+        if (exitRuleError) {
+            return c.json({ error: `Invalid exitRule: ${exitRuleError}` }, 400);
+        }
+
+        const strategyError = body.strategyRules === undefined ? null : validateStrategyRules(body.strategyRules);
+        if (strategyError) {
+            return c.json({ error: `Invalid strategyRules: ${strategyError}` }, 400);
+        }
+
+        const directionError = validateDirection(body.direction);
+        if (directionError) {
+            return c.json({ error: `Invalid direction: ${directionError}` }, 400);
+        }
+
+        const costsError = validateCosts(body.costs);
+        if (costsError) {
+            return c.json({ error: `Invalid costs: ${costsError}` }, 400);
+        }
+
+        const dateRangeError = validateDateRange(body.startDate, body.endDate);
+        if (dateRangeError) {
+            return c.json({ error: `Invalid date range: ${dateRangeError}` }, 400);
+        }
+
+        const profileError = validateProfile(body.profile);
+        if (profileError) {
+            return c.json({ error: `Invalid profile: ${profileError}` }, 400);
+        }
+
         const config: BacktestConfig = {
+            market: body.market,
+            exchange: body.market === 'US' ? body.exchange ?? 'NAS' : undefined,
             universe: body.universe,
+            universeName: body.universeName,
+            membership: body.membership,
             gradeFilter: body.gradeFilter ?? ['A'],
             holdingPeriod: Math.min(20, Math.max(1, body.holdingPeriod ?? 10)),
+            profile: body.profile,
+            exitRule: body.exitRule,
+            strategy: body.strategyRules,
+            direction: body.direction,
+            costs: body.costs,
+            startDate: toYmd(body.startDate),
+            endDate: toYmd(body.endDate),
         };
 
+        if (c.req.query('async') === 'true') {
+            return c.json(submitBacktestJob({ kind: 'parameter-sweep', config, search }), 202);
+        }
+
         const start = performance.now();
-        const result = await runParameterSweep(config);
+        const result = await runParameterSweep(config, {}, search);
         const elapsed = ((performance.now() - start) / 1000).toFixed(1);
 
-        console.log(`[Sweep] ${result.combinations.length} combinations in ${elapsed}s`);
+        console.log(`[Sweep] ${result.search.strategy}: ${result.combinations.length}/${result.search.searchSpaceSize} combinations in ${elapsed}s`);
         return c.json(result);
     } catch (e: any) {
         console.error('[Sweep] Error:', e);
         const code = (e as any).code || 'INTERNAL_ERROR';
-        return c.json({ error: e.message, code }, 500);
+        return c.json({ error: e.message, code }, backtestErrorStatus(code));
     }
 });
 
-// 9-3. 결과 목록
-app.get('/k-dexter/backtest/results', async (c) => {
+// 9-3. 결과 목록 (?limit&offset&from&to&symbol&grade=A,B&minSharpe&tag&name)
+app.get('/k-dexter/backtest/results', (c) => {
     try {
-        const results = await listBacktestResults();
-        return c.json({ results });
+        const q = c.req.query();
+        const num = (v: string | undefined) => (v !== undefined && v !== '' ? Number(v) : undefined);
+        const grades = q.grade ? q.grade.split(',').map(g => g.trim().toUpperCase()) : undefined;
+
+        if (grades?.some(g => !['A', 'B', 'C', 'D'].includes(g))) {
+            return c.json({ error: 'Invalid grade: must be a comma-separated list of A, B, C, D' }, 400);
+        }
+        for (const field of ['limit', 'offset', 'minSharpe'] as const) {
+            const v = num(q[field]);
+            if (v !== undefined && !Number.isFinite(v)) {
+                return c.json({ error: `Invalid ${field}: must be a number` }, 400);
+            }
+        }
+        for (const field of ['from', 'to'] as const) {
+            if (q[field] && Number.isNaN(Date.parse(q[field]))) {
+                return c.json({ error: `Invalid ${field}: must be YYYY-MM-DD or ISO 8601` }, 400);
+            }
+        }
+
+        return c.json(listBacktestResults({
+            limit: num(q.limit),
+            offset: num(q.offset),
+            from: q.from,
+            to: q.to,
+            symbol: q.symbol,
+            grades: grades as ('A' | 'B' | 'C' | 'D')[] | undefined,
+            minSharpe: num(q.minSharpe),
+            tag: q.tag,
+            name: q.name,
+        }));
     } catch (e: any) {
         return c.json({ error: 'Internal Server Error', details: e.message }, 500);
     }
@@ -242,6 +704,365 @@ app.get('/k-dexter/backtest/results/:id', async (c) => {
     }
 });
 
+// 9-5. 로컬 OHLCV 저장소 현황
+app.get('/k-dexter/ohlcv/symbols', (c) => {
+    try {
+        return c.json({ symbols: listStoredSymbols() });
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-6. OHLCV CSV 일괄 임포트 (text/csv 본문, symbol 컬럼 없으면 ?symbol= 필수)
+app.post('/k-dexter/ohlcv/import', async (c) => {
+    try {
+        const csv = await c.req.text();
+        const symbol = c.req.query('symbol');
+        if (!csv.trim()) {
+            return c.json({ error: 'Invalid Request', details: 'CSV body is empty' }, 400);
+        }
+
+        const imported = importOhlcvCsv(csv, symbol);
+        console.log(`[OHLCV] Imported ${imported.reduce((n, r) => n + r.rows, 0)} rows (${imported.length} symbols)`);
+        return c.json({ imported });
+    } catch (e: any) {
+        return c.json({ error: 'Invalid CSV', details: e.message }, 400);
+    }
+});
+
+// 9-7. Walk-forward 검증 (학습 구간 최적 조합 → 다음 미관측 구간 평가, 후보는 ranges/strategy/samples/eta/seed)
+app.post('/k-dexter/backtest/walk-forward', async (c) => {
+    try {
+        const body = await c.req.json() as BacktestRequestBody & Omit<SweepSearchConfig, 'rankBy'> & {
+            walkForward?: Partial<WalkForwardConfig>;
+        };
+
+        const universeError = applyNamedUniverse(body);
+        if (universeError) {
+            return c.json({ error: `Invalid universe: ${universeError}` }, 400);
+        }
+
+        if (!body.universe || !Array.isArray(body.universe) || body.universe.length === 0) {
+            return c.json({ error: 'Invalid Request', details: '"universe" is required' }, 400);
+        }
+
+        const marketError = validateMarket(body.market, body.exchange);
+        if (marketError) {
+            return c.json({ error: `Invalid market: ${marketError}` }, 400);
+        }
+
+        const invalidSymbols = findInvalidSymbols(body.universe, body.market);
+        if (invalidSymbols.length > 0) {
+            return c.json({ error: 'Invalid symbols', details: `Invalid format: ${invalidSymbols.join(', ')}` }, 400);
+        }
+
+        const wf = body.walkForward ?? {};
+        const intFields = [['trainBars', 10, 1000], ['testBars', 1, 250], ['stepBars', 1, 250], ['minTrades', 1, 1000]] as const;
+        for (const [field, min, max] of intFields) {
+            const val = wf[field];
+            if (val !== undefined && (!Number.isInteger(val) || val < min || val > max)) {
+                return c.json({ error: `Invalid walkForward: ${field} must be an integer between ${min} and ${max}` }, 400);
+            }
+        }
+        if (wf.objective !== undefined && !['sharpe', 'winRate', 'avgReturn'].includes(wf.objective)) {
+            return c.json({ error: 'Invalid walkForward: objective must be one of sharpe, winRate, avgReturn' }, 400);
+        }
+
+        // 후보 조합 탐색 설정 (Parameter Sweep과 동일, 순위 기준은 walkForward.objective)
+        const search: Omit<SweepSearchConfig, 'rankBy'> = {
+            ranges: body.ranges,
+            strategy: body.strategy,
+            samples: body.samples,
+            eta: body.eta,
+            seed: body.seed,
+        };
+        const searchError = validateSweepSearch(search);
+        if (searchError) {
+            return c.json({ error: `Invalid sweep search: ${searchError}` }, 400);
+        }
+
+        const exitRuleError = validateExitRule(body.exitRule);
+        if (exitRuleError) {
+            return c.json({ error: `Invalid exitRule: ${exitRuleError}` }, 400);
+        }
+
+        const strategyError = body.strategyRules === undefined ? null : validateStrategyRules(body.strategyRules);
+        if (strategyError) {
+            return c.json({ error: `Invalid strategyRules: ${strategyError}` }, 400);
+        }
+
+        const directionError = validateDirection(body.direction);
+        if (directionError) {
+            return c.json({ error: `Invalid direction: ${directionError}` }, 400);
+        }
+
+        const costsError = validateCosts(body.costs);
+        if (costsError) {
+            return c.json({ error: `Invalid costs: ${costsError}` }, 400);
+        }
+
+        const dateRangeError = validateDateRange(body.startDate, body.endDate);
+        if (dateRangeError) {
+            return c.json({ error: `Invalid date range: ${dateRangeError}` }, 400);
+        }
+
+        const profileError = validateProfile(body.profile);
+        if (profileError) {
+            return c.json({ error: `Invalid profile: ${profileError}` }, 400);
+        }
+
+        const config: BacktestConfig = {
+            market: body.market,
+            exchange: body.market === 'US' ? body.exchange ?? 'NAS' : undefined,
+            universe: body.universe,
+            universeName: body.universeName,
+            membership: body.membership,
+            gradeFilter: body.gradeFilter ?? ['A'],
+            holdingPeriod: Math.min(20, Math.max(1, body.holdingPeriod ?? 10)),
+            profile: body.profile,
+            exitRule: body.exitRule,
+            strategy: body.strategyRules,
+            direction: body.direction,
+            costs: body.costs,
+            startDate: toYmd(body.startDate),
+            endDate: toYmd(body.endDate),
+        };
+
+        const start = performance.now();
+        const result = await runWalkForward(config, wf, {}, search);
+        const elapsed = ((performance.now() - start) / 1000).toFixed(1);
+
+        console.log(`[WalkForward] ${result.windows.length} windows, ${result.outOfSample.totalTrades} OOS trades in ${elapsed}s`);
+        return c.json(result);
+    } catch (e: any) {
+        console.error('[WalkForward] Error:', e);
+        const code = (e as any).code || 'INTERNAL_ERROR';
+        return c.json({ error: e.message, code }, backtestErrorStatus(code));
+    }
+});
+
+// 9-8. 비동기 작업 목록 (최근 제출 순, 메모리 보관분)
+app.get('/k-dexter/backtest/jobs', (c) => {
+    return c.json({ jobs: listBacktestJobs() });
+});
+
+// 9-9. 비동기 작업 상태
+app.get('/k-dexter/backtest/jobs/:id', (c) => {
+    const job = getBacktestJob(c.req.param('id'));
+    if (!job) return c.json({ error: 'Not Found' }, 404);
+    return c.json(job);
+});
+
+// 9-10. 비동기 작업 진행률 스트림 (SSE: status / progress 이벤트, 종료 상태 전송 후 닫힘)
+app.get('/k-dexter/backtest/jobs/:id/events', (c) => {
+    const id = c.req.param('id');
+    const job = getBacktestJob(id);
+    if (!job) return c.json({ error: 'Not Found' }, 404);
+
+    return streamSSE(c, async (stream) => {
+        await stream.writeSSE({ event: 'status', data: JSON.stringify(job) });
+        if (isJobFinished(job)) return;
+
+        await new Promise<void>((resolve) => {
+            // 유휴 연결 종료(프록시/Bun idleTimeout) 방지용 주석 핑
+            const keepAlive = setInterval(() => { stream.write(': ping\n\n').catch(() => { }); }, 5000);
+            const close = () => {
+                clearInterval(keepAlive);
+                unsubscribe();
+                resolve();
+            };
+            const unsubscribe = subscribeBacktestJob(id, (event, current) => {
+                stream.writeSSE({ event, data: JSON.stringify(current) }).catch(() => { });
+                if (event === 'status' && isJobFinished(current)) close();
+            });
+            stream.onAbort(close);
+
+            // 조회~구독 사이에 끝난 경우
+            const latest = getBacktestJob(id);
+            if (!latest || isJobFinished(latest)) {
+                if (latest) stream.writeSSE({ event: 'status', data: JSON.stringify(latest) }).catch(() => { });
+                close();
+            }
+        });
+    });
+});
+
+// 9-11. 비동기 작업 취소
+app.delete('/k-dexter/backtest/jobs/:id', (c) => {
+    const id = c.req.param('id');
+    const before = getBacktestJob(id);
+    if (!before) return c.json({ error: 'Not Found' }, 404);
+    if (isJobFinished(before)) {
+        return c.json({ error: `Job already ${before.status}`, job: before }, 409);
+    }
+    return c.json(cancelBacktestJob(id));
+});
+
+// 9-12. 결과 이름/태그 수정 (지정한 항목만 변경)
+app.patch('/k-dexter/backtest/results/:id', async (c) => {
+    try {
+        const body = await c.req.json() as BacktestResultMeta;
+        const meta: BacktestResultMeta = { name: body.name, tags: body.tags };
+        const metaError = validateResultMeta(meta);
+        if (metaError) {
+            return c.json({ error: `Invalid result metadata: ${metaError}` }, 400);
+        }
+
+        const { id } = c.req.param();
+        if (!updateBacktestResultMeta(id, meta)) return c.json({ error: 'Not Found' }, 404);
+        const result = await loadBacktestResult(id);
+        return c.json({ id, name: result?.name ?? null, tags: result?.tags ?? [] });
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-13. 결과 삭제
+app.delete('/k-dexter/backtest/results/:id', (c) => {
+    try {
+        const { id } = c.req.param();
+        if (!deleteBacktestResult(id)) return c.json({ error: 'Not Found' }, 404);
+        return c.json({ deleted: id });
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-14. 결과 비교 (?ids=기준,비교1,... 2~5개, 첫 번째가 기준)
+app.get('/k-dexter/backtest/compare', async (c) => {
+    try {
+        const ids = (c.req.query('ids') ?? '').split(',').map(id => id.trim()).filter(Boolean);
+        if (ids.length < 2 || ids.length > 5) {
+            return c.json({ error: 'Invalid ids: provide 2 to 5 comma-separated result ids' }, 400);
+        }
+        if (new Set(ids).size !== ids.length) {
+            return c.json({ error: 'Invalid ids: duplicate result id' }, 400);
+        }
+        const invalidIds = ids.filter(id => !/^[0-9a-f-]{36}$/.test(id));
+        if (invalidIds.length > 0) {
+            return c.json({ error: 'Invalid ids', details: `Not a backtest result id: ${invalidIds.join(', ')}` }, 400);
+        }
+
+        const results = await Promise.all(ids.map(id => loadBacktestResult(id)));
+        const missing = ids.filter((_, i) => !results[i]);
+        if (missing.length > 0) {
+            return c.json({ error: 'Not Found', details: `Unknown result ids: ${missing.join(', ')}` }, 404);
+        }
+
+        return c.json(compareBacktestResults(results as NonNullable<typeof results[number]>[]));
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-15. 결과 내보내기 (?format=csv|xlsx, CSV는 &sheet=trades 등 시트 하나)
+app.get('/k-dexter/backtest/results/:id/export', async (c) => {
+    try {
+        const id = c.req.param('id');
+        const format = c.req.query('format') ?? 'xlsx';
+        if (format !== 'csv' && format !== 'xlsx') {
+            return c.json({ error: 'Invalid format: must be csv or xlsx' }, 400);
+        }
+        const sheet = (c.req.query('sheet') ?? 'trades') as ExportSheetName;
+        if (format === 'csv' && !EXPORT_SHEETS.includes(sheet)) {
+            return c.json({ error: `Invalid sheet: must be one of ${EXPORT_SHEETS.join(', ')}` }, 400);
+        }
+
+        // Sweep 결과는 대상 아님
+        const result = id.startsWith('sweep-') ? null : await loadBacktestResult(id);
+        if (!result) return c.json({ error: 'Not Found' }, 404);
+
+        const tables = buildExportTables(result);
+        const baseName = `backtest-${id.slice(0, 8)}`;
+        if (format === 'csv') {
+            return c.body(toCsv(tables.find(t => t.name === sheet)!), 200, {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${baseName}-${sheet}.csv"`,
+            });
+        }
+        return c.body(toXlsx(tables), 200, {
+            'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            'Content-Disposition': `attachment; filename="${baseName}.xlsx"`,
+        });
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-16. 시점별 유니버스 목록
+app.get('/k-dexter/backtest/universes', (c) => {
+    try {
+        return c.json({ universes: listUniverses() });
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-17. 유니버스 조회 (?asOf=YYYYMMDD: 해당 시점 편입 종목만 symbols로 반환)
+app.get('/k-dexter/backtest/universes/:name', (c) => {
+    try {
+        const universe = loadUniverse(c.req.param('name'));
+        if (!universe) return c.json({ error: 'Not Found' }, 404);
+
+        const asOf = c.req.query('asOf');
+        if (asOf === undefined) return c.json(universe);
+        if (!/^\d{4}-?\d{2}-?\d{2}$/.test(asOf)) {
+            return c.json({ error: 'Invalid asOf: must be YYYYMMDD or YYYY-MM-DD' }, 400);
+        }
+        const date = toYmd(asOf)!;
+        return c.json({ ...universe, asOf: date, symbols: getUniverseSymbolsAsOf(universe, date) });
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-18. 유니버스 저장 (같은 이름은 편입 기간 전체 교체)
+//       JSON { description?, market?, members: [{ symbol, effectiveFrom, effectiveTo? }] }
+//       또는 text/csv 본문 (symbol,effective_from,effective_to, ?market=&description=)
+app.put('/k-dexter/backtest/universes/:name', async (c) => {
+    try {
+        const name = c.req.param('name').trim();
+        if (!/^[\w.-]{1,64}$/.test(name)) {
+            return c.json({ error: 'Invalid name: use 1-64 letters, digits, _, . or -' }, 400);
+        }
+
+        const isCsv = (c.req.header('content-type') ?? '').includes('text/csv');
+        const body = isCsv
+            ? { market: c.req.query('market'), description: c.req.query('description'), members: parseUniverseCsv(await c.req.text()) }
+            : await c.req.json();
+
+        const marketError = validateMarket(body.market, undefined);
+        if (marketError) {
+            return c.json({ error: `Invalid market: ${marketError}` }, 400);
+        }
+
+        const members = normalizeUniverseMembers(body.members);
+        const invalidSymbols = findInvalidSymbols([...new Set(members.map(m => m.symbol))], body.market);
+        if (invalidSymbols.length > 0) {
+            return c.json({ error: 'Invalid symbols', details: `Invalid format: ${invalidSymbols.join(', ')}` }, 400);
+        }
+
+        const saved = saveUniverse({ name, description: body.description, market: body.market, members });
+        console.log(`[Universe] Saved ${name}: ${saved.members.length} membership periods`);
+        return c.json(saved);
+    } catch (e: any) {
+        if (e.code === 'INVALID_UNIVERSE' || e instanceof SyntaxError) {
+            return c.json({ error: 'Invalid universe', details: e.message }, 400);
+        }
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
+// 9-19. 유니버스 삭제
+app.delete('/k-dexter/backtest/universes/:name', (c) => {
+    try {
+        if (!deleteUniverse(c.req.param('name'))) return c.json({ error: 'Not Found' }, 404);
+        return c.json({ deleted: true });
+    } catch (e: any) {
+        return c.json({ error: 'Internal Server Error', details: e.message }, 500);
+    }
+});
+
 // 10. Export for Bun
 export default {
     port: PORT,
@@ -4,14 +4,20 @@ import { z } from 'zod';
 import { SMA, RSI } from 'technicalindicators';
 import { fetchCurrentPrice, fetchDailyOHLCV, fetchInvestorTrend } from './kis-client.js';
 import { fetchNaverFinancials } from './kr-daily-financials.js';
+import { getSectorPeerFundamentals, upsertFundamentals } from './fundamentals-cache.js';
+import { getKrIndexTrend, resolveKrMainIndex, type IndexTrendSnapshot } from './index-trend.js';
 import { analyze } from '../../analysis/scorer.js';
+import { getMetadata } from '../../analysis/metadata.js';
+import { getScoringProfile, toProfileRef } from '../../analysis/scoring-profile.js';
 import { calculateATR, calculateMFI, generateTradeSignal, type OhlcvBar } from '../../analysis/signal-generator.js';
 import { AnalysisRequest } from '../../analysis/types.js';
 import { calculateSRIM } from '../../analysis/valuation.js';
 
 export const analyzeKrStock = tool(
-    async ({ symbol }) => {
+    async ({ symbol, profile: profileName }) => {
         try {
+            const profile = getScoringProfile(profileName);
+
             // 1. Fetch Data in Parallel
             const [priceData, ohlcvData, fundamentalData, investorTrend] = await Promise.all([
                 fetchCurrentPrice(symbol),
@@ -68,6 +74,18 @@ export const analyzeKrStock = tool(
                 };
             }
 
+            // 3-a. 시장 지수 추세 (Flow Score, KST 거래일 단위 캐시)
+            // 시장 구분은 종목 마스터 우선, 없으면 KIS 현재가의 대표 시장명
+            // 조회 실패 시 flat으로 계속 진행하고 응답에 오류 표시
+            const mainIndex = resolveKrMainIndex(getMetadata(symbol)?.market ?? priceData.raw?.rprs_mrkt_kor_name);
+            let indexSnapshot: IndexTrendSnapshot | null = null;
+            let indexError: string | undefined;
+            try {
+                indexSnapshot = await getKrIndexTrend(mainIndex);
+            } catch (err) {
+                indexError = String(err);
+            }
+
             // 4. Prepare Fundamental Data
             const combinedFundamentals = {
                 per: (fundamentalData as any).per || parseFloat(priceData.per),
@@ -99,13 +117,36 @@ export const analyzeKrStock = tool(
                     rsi_14: lastRsi,
                 },
                 index_context: {
-                    main_index: 'KOSPI',
-                    index_trend: 'flat', // TODO: Automate KOSPI trend fetching
+                    main_index: mainIndex,
+                    index_trend: indexSnapshot?.trend ?? 'flat',
                 },
                 fundamentals: combinedFundamentals,
             };
 
-            const scorerResult = analyze(request);
+            // 섹터 피어 대비 펀더멘털 채점 (섹터를 모르면 절대 기준)
+            // 조회한 재무지표는 다음 분석의 피어 데이터로 캐시
+            const sector = getMetadata(symbol)?.sector ?? null;
+            let sectorPeers: ReturnType<typeof getSectorPeerFundamentals> = [];
+            if (sector) {
+                try {
+                    upsertFundamentals(symbol, sector, combinedFundamentals);
+                    sectorPeers = getSectorPeerFundamentals(sector, symbol);
+                } catch (err) {
+                    console.warn(`[analyzeKrStock] sector fundamentals cache failed: ${err}`);
+                }
+            }
+
+            // 신뢰도: 데이터 기준일은 마지막 일봉 장마감(15:30 KST), 지수 조회 실패는 감점
+            const lastBarDate: string | undefined = rawRecords[rawRecords.length - 1]?.date;
+            const scorerResult = analyze(request, {
+                profile,
+                sectorPeers: sector ? { sector, peers: sectorPeers } : undefined,
+                dataAsOf: lastBarDate
+                    ? new Date(`${lastBarDate.slice(0, 4)}-${lastBarDate.slice(4, 6)}-${lastBarDate.slice(6, 8)}T15:30:00+09:00`)
+                    : undefined,
+                dataWarnings: indexError ? [`${mainIndex} 지수 추세 조회 실패 → 시장흐름 flat 가정`] : [],
+            });
+            const fundamentalMetrics = scorerResult.fundamental_detail?.metrics;
 
             // 5-a. S-RIM 적정주가 계산
             const srimResult = calculateSRIM({
@@ -117,7 +158,7 @@ export const analyzeKrStock = tool(
 
             // 6. Generate Trade Signal (Entry/Target/Stop-Loss levels)
             const technicalSignal: 'BUY' | 'SELL' | 'NEUTRAL' =
-                scorerResult.scores.total >= 6 ? 'BUY'
+                scorerResult.scores.total >= profile.scorer.judgment.aggressiveBuy ? 'BUY'
                     : scorerResult.scores.total <= -2 ? 'SELL'
                         : 'NEUTRAL';
 
@@ -141,12 +182,14 @@ export const analyzeKrStock = tool(
                     macdHistogram: null,
                 },
                 Math.max(0, Math.min(100, 50 + scorerResult.scores.total * 6)),
-                technicalSignal
+                technicalSignal,
+                profile.swingGrade
             );
 
             // 7. Return Unified Result
             return JSON.stringify({
                 symbol,
+                profile: toProfileRef(profile),     // 스코어 / 스윙 등급에 적용한 프로파일
                 fundamentals: {
                     per: combinedFundamentals.per,
                     pbr: combinedFundamentals.pbr,
@@ -156,6 +199,15 @@ export const analyzeKrStock = tool(
                     roe: combinedFundamentals.roe,
                     debt_ratio: combinedFundamentals.debt_ratio,
                     op_margin: combinedFundamentals.op_margin,
+                    sector,
+                    peer_count: sectorPeers.length,
+                    peer_median: {
+                        per: fundamentalMetrics?.per.peer_median ?? null,
+                        pbr: fundamentalMetrics?.pbr.peer_median ?? null,
+                        roe: fundamentalMetrics?.roe.peer_median ?? null,
+                        debt_ratio: fundamentalMetrics?.debt_ratio.peer_median ?? null,
+                        op_margin: fundamentalMetrics?.op_margin.peer_median ?? null,
+                    },
                 },
                 technicals: {
                     ma20: lastMa20,
@@ -166,6 +218,16 @@ export const analyzeKrStock = tool(
                     atr,
                 },
                 investor_trend_ratios,
+                index_context: {
+                    main_index: mainIndex,
+                    index_trend: request.index_context.index_trend,
+                    date: indexSnapshot?.date ?? null,
+                    close: indexSnapshot?.close ?? null,
+                    ma20: indexSnapshot?.ma20 ?? null,
+                    ma60: indexSnapshot?.ma60 ?? null,
+                    change_20d_pct: indexSnapshot?.change20dPct ?? null,
+                    ...(indexError && { error: indexError }),
+                },
                 scorer: scorerResult,
                 trade_signal: {
                     signal: tradeSignal.signal,
@@ -188,6 +250,7 @@ export const analyzeKrStock = tool(
         description: '한국 주식의 종합 분석(기술적 + 재무적)을 수행합니다. 매매 전략, 상세 스코어, 진입가/손절가/목표가를 제공합니다.',
         schema: z.object({
             symbol: z.string().describe('Stock symbol (e.g., 005930)'),
+            profile: z.string().optional().describe('Scoring profile name (e.g., default, conservative, momentum)'),
         }),
     }
 );
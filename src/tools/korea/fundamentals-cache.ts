@@ -0,0 +1,118 @@
+/**
+ * fundamentals-cache.ts
+ *
+ * 섹터 피어 비교용 재무지표 로컬 캐시 (gateway SQLite DB 공유)
+ * - analyzeKrStock이 조회한 종목의 PER/PBR/ROE/부채비율/영업이익률을 섹터와 함께 저장
+ * - scripts/cache-sector-fundamentals.ts로 섹터 전체를 미리 채워둘 수 있음
+ * - 섹터명은 종목 마스터(getMetadata) 기준
+ */
+
+import { db } from '../../mcp-gateway/db.js';
+import type { Fundamentals } from '../../analysis/types.js';
+
+/** 피어 재무지표 최대 보관 기간 (분기 실적 2회분) */
+export const FUNDAMENTALS_MAX_AGE_DAYS = 180;
+
+export interface CachedFundamentals extends Fundamentals {
+    symbol: string;
+    sector: string;
+    updatedAt: string;
+}
+
+/** sector_fundamentals 행 (빈 값은 NULL) */
+interface SectorFundamentalsRow {
+    symbol: string;
+    sector: string;
+    per: number | null;
+    pbr: number | null;
+    roe: number | null;
+    debt_ratio: number | null;
+    op_margin: number | null;
+    updated_at: string;
+}
+
+let schemaInitialized = false;
+
+export function initializeFundamentalsSchema() {
+    if (schemaInitialized) return;
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS sector_fundamentals (
+            symbol TEXT PRIMARY KEY,
+            sector TEXT NOT NULL,
+            per REAL,
+            pbr REAL,
+            roe REAL,
+            debt_ratio REAL,
+            op_margin REAL,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sector_fundamentals_sector ON sector_fundamentals(sector);`);
+
+    schemaInitialized = true;
+    console.log('✅ Sector Fundamentals Cache Schema Initialized');
+}
+
+/** NaN/Infinity/undefined → NULL */
+function finiteOrNull(value: number | undefined): number | null {
+    return value !== undefined && Number.isFinite(value) ? value : null;
+}
+
+/** 종목 재무지표 저장 (같은 종목은 덮어씀) */
+export function upsertFundamentals(symbol: string, sector: string, fundamentals: Fundamentals) {
+    initializeFundamentalsSchema();
+    db.run(
+        `INSERT INTO sector_fundamentals (symbol, sector, per, pbr, roe, debt_ratio, op_margin, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(symbol) DO UPDATE SET
+            sector = excluded.sector, per = excluded.per, pbr = excluded.pbr, roe = excluded.roe,
+            debt_ratio = excluded.debt_ratio, op_margin = excluded.op_margin, updated_at = excluded.updated_at`,
+        [
+            symbol.toUpperCase(),
+            sector,
+            finiteOrNull(fundamentals.per),
+            finiteOrNull(fundamentals.pbr),
+            finiteOrNull(fundamentals.roe),
+            finiteOrNull(fundamentals.debt_ratio),
+            finiteOrNull(fundamentals.op_margin),
+        ]
+    );
+}
+
+/**
+ * 같은 섹터 피어 재무지표 (maxAgeDays 이내 갱신분만, excludeSymbol 제외)
+ * 빈 값(NULL)은 필드에서 빠짐
+ */
+export function getSectorPeerFundamentals(
+    sector: string,
+    excludeSymbol?: string,
+    maxAgeDays = FUNDAMENTALS_MAX_AGE_DAYS
+): CachedFundamentals[] {
+    initializeFundamentalsSchema();
+    const rows = db.query(
+        `SELECT symbol, sector, per, pbr, roe, debt_ratio, op_margin, updated_at
+         FROM sector_fundamentals
+         WHERE sector = ? AND symbol != ? AND updated_at >= datetime('now', ?)
+         ORDER BY symbol`
+    ).all(sector, (excludeSymbol ?? '').toUpperCase(), `-${maxAgeDays} days`) as SectorFundamentalsRow[];
+
+    return rows.map(row => {
+        const peer: CachedFundamentals = { symbol: row.symbol, sector: row.sector, updatedAt: row.updated_at };
+        for (const key of ['per', 'pbr', 'roe', 'debt_ratio', 'op_margin'] as const) {
+            const value = row[key];
+            if (value !== null) peer[key] = value;
+        }
+        return peer;
+    });
+}
+
+/** 캐시 삭제 (symbols 미지정 시 전체) */
+export function deleteFundamentals(symbols?: string[]) {
+    initializeFundamentalsSchema();
+    if (!symbols) {
+        db.run('DELETE FROM sector_fundamentals');
+        return;
+    }
+    for (const symbol of symbols) db.run('DELETE FROM sector_fundamentals WHERE symbol = ?', [symbol.toUpperCase()]);
+}
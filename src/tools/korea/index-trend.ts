@@ -0,0 +1,116 @@
+/**
+ * index-trend.ts
+ *
+ * 국내 종목 Flow Score용 시장 지수 추세 (KOSPI / KOSDAQ)
+ * - 종목의 대표 시장(KIS 현재가 rprs_mrkt_kor_name)으로 지수 선택
+ * - 지수 자체의 MA20/MA60 배열로 추세 판정
+ * - KIS 지수 일봉은 지수별로 KST 거래일 단위 메모리 캐시 (같은 날 여러 종목 분석 시 1회 조회)
+ */
+
+import { fetchIndexDailyOHLCV, getKSTDateString } from './kis-client.js';
+import type { AnalysisRequest } from '../../analysis/types.js';
+
+export type KrMainIndex = 'KOSPI' | 'KOSDAQ';
+export type IndexTrend = AnalysisRequest['index_context']['index_trend'];
+
+/** KIS 업종코드 */
+const INDEX_CODES: Record<KrMainIndex, string> = {
+    KOSPI: '0001',
+    KOSDAQ: '1001',
+};
+
+/** MA60 + 여유분 */
+const INDEX_LOOKBACK_BARS = 80;
+
+/** 지수 추세 스냅샷 (분석 응답 index_context로 노출) */
+export interface IndexTrendSnapshot {
+    index: KrMainIndex;
+    trend: IndexTrend;
+    date: string;             // 마지막 봉 YYYYMMDD (장중이면 당일 현재값)
+    close: number;
+    ma20: number | null;      // 60봉 미만이면 null
+    ma60: number | null;
+    change20dPct: number | null;  // 20거래일 전 종가 대비 %
+}
+
+/** 지수 일봉 조회 함수 (과거→최신 종가 + 날짜), 테스트에서 교체 */
+export type IndexBarsLoader = (index: KrMainIndex) => Promise<{ date: string; close: number }[]>;
+
+/**
+ * 대표 시장명 → 지수
+ * KIS 값 예: 'KOSPI200', 'KOSDAQ', 'KSQ150' (코스닥 계열이 아니면 KOSPI)
+ */
+export function resolveKrMainIndex(marketName?: string | null): KrMainIndex {
+    return /KOSDAQ|KSQ|코스닥/i.test(marketName ?? '') ? 'KOSDAQ' : 'KOSPI';
+}
+
+function average(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * 지수 종가(과거→최신) → 추세
+ * - up:   종가 > MA20 > MA60 (정배열)
+ * - down: 종가 < MA20 < MA60 (역배열)
+ * - 그 외 / 60봉 미만: flat
+ */
+export function deriveIndexTrend(index: KrMainIndex, bars: { date: string; close: number }[]): IndexTrendSnapshot | null {
+    if (bars.length === 0) return null;
+
+    const closes = bars.map(b => b.close);
+    const last = bars[bars.length - 1];
+    const round = (v: number) => parseFloat(v.toFixed(2));
+    if (closes.length < 60) {
+        return { index, trend: 'flat', date: last.date, close: last.close, ma20: null, ma60: null, change20dPct: null };
+    }
+
+    const ma20 = average(closes.slice(-20));
+    const ma60 = average(closes.slice(-60));
+    const base = closes[closes.length - 21];
+    const trend: IndexTrend =
+        last.close > ma20 && ma20 > ma60 ? 'up'
+            : last.close < ma20 && ma20 < ma60 ? 'down'
+                : 'flat';
+
+    return {
+        index,
+        trend,
+        date: last.date,
+        close: last.close,
+        ma20: round(ma20),
+        ma60: round(ma60),
+        change20dPct: round((last.close / base - 1) * 100),
+    };
+}
+
+/** KIS 업종 지수 일봉 (응답은 최신→과거 문자열) */
+const fetchKisIndexBars: IndexBarsLoader = async (index) => {
+    const raw = await fetchIndexDailyOHLCV(INDEX_CODES[index], INDEX_LOOKBACK_BARS);
+    return [...raw.output2]
+        .reverse()
+        .map(r => ({ date: r.date, close: Number(r.close) }))
+        .filter(b => Number.isFinite(b.close) && b.close > 0);
+};
+
+const cache = new Map<KrMainIndex, { tradingDay: string; snapshot: Promise<IndexTrendSnapshot | null> }>();
+
+/**
+ * 지수 추세 (KST 거래일 단위 캐시)
+ * 조회 중인 요청도 공유, 실패는 캐시하지 않음 (다음 분석에서 재시도)
+ */
+export function getKrIndexTrend(index: KrMainIndex, loader: IndexBarsLoader = fetchKisIndexBars): Promise<IndexTrendSnapshot | null> {
+    const tradingDay = getKSTDateString(0);
+    const cached = cache.get(index);
+    if (cached && cached.tradingDay === tradingDay) return cached.snapshot;
+
+    const snapshot = loader(index).then(bars => deriveIndexTrend(index, bars));
+    cache.set(index, { tradingDay, snapshot });
+    snapshot.catch(() => {
+        if (cache.get(index)?.snapshot === snapshot) cache.delete(index);
+    });
+    return snapshot;
+}
+
+export function clearIndexTrendCache() {
+    cache.clear();
+}
@@ -94,7 +94,7 @@ async function getAccessToken(): Promise<string> {
 }
 
 // --- Helper for KST Date ---
-function getKSTDateString(offsetDays: number = 0): string {
+export function getKSTDateString(offsetDays: number = 0): string {
   const now = new Date();
   const targetDate = new Date(now.getTime() + (offsetDays * 24 * 60 * 60 * 1000));
   const kstMs = targetDate.getTime() + (targetDate.getTimezoneOffset() * 60000) + (9 * 60 * 60 * 1000);
@@ -102,6 +102,50 @@ function getKSTDateString(offsetDays: number = 0): string {
   return kstDate.toISOString().slice(0, 10).replace(/-/g, '');
 }
 
+/** YYYYMMDD 날짜를 offsetDays만큼 이동 (달력일) */
+export function shiftDateString(ymd: string, offsetDays: number): string {
+  const date = new Date(Date.UTC(+ymd.slice(0, 4), +ymd.slice(4, 6) - 1, +ymd.slice(6, 8) + offsetDays));
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * 일봉 조회 구간
+ * - startDate 지정 시: startDate 이전 period개(지표 워밍업) + startDate~endDate 전체
+ * - endDate만 지정 시: endDate 이전 최근 period개
+ */
+export interface DailyOHLCVRange {
+  startDate?: string;   // YYYYMMDD
+  endDate?: string;     // YYYYMMDD (미지정 시 오늘)
+}
+
+/** KIS 일봉 레코드 (응답 문자열 그대로, 최신→과거) */
+export interface KisDailyBar {
+  date: string;     // YYYYMMDD
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+}
+
+/** 페이지네이션 안전 상한 (100건 × 200회 ≈ 80년) */
+const MAX_OHLCV_PAGES = 200;
+
+/** 목표 구간을 다 채웠는지 (records: 최신→과거) */
+function hasEnoughBars(records: { date: string }[], period: number, range: DailyOHLCVRange): boolean {
+  if (!range.startDate) return records.length >= period;
+  const beforeStart = records.filter(r => r.date < range.startDate!).length;
+  return beforeStart >= period;
+}
+
+/** 요청 구간 밖 레코드 정리 (records: 최신→과거) */
+function trimToRange<T extends { date: string }>(records: T[], period: number, range: DailyOHLCVRange): T[] {
+  if (!range.startDate) return period > 0 ? records.slice(0, period) : records;
+  const inRange = records.filter(r => r.date >= range.startDate!);
+  const warmup = records.filter(r => r.date < range.startDate!).slice(0, period);
+  return [...inRange, ...warmup];
+}
+
 // --- Core API Functions (Exported for internal use) ---
 
 export async function fetchCurrentPrice(symbol: string) {
@@ -152,21 +196,19 @@ export async function fetchCurrentPrice(symbol: string) {
   }
 }
 
-export async function fetchDailyOHLCV(symbol: string, period: number = 60) {
-  logDebug(`[KIS] Fetching Daily OHLCV for ${symbol} (target period: ${period})...`);
+export async function fetchDailyOHLCV(symbol: string, period: number = 60, range: DailyOHLCVRange = {}) {
+  logDebug(`[KIS] Fetching Daily OHLCV for ${symbol} (target period: ${period}, range: ${range.startDate ?? '-'}~${range.endDate ?? '-'})...`);
   try {
     const token = await getAccessToken();
     let records: any[] = [];
-    let endDate = getKSTDateString(0);
-    // Request a bit more than needed in the date range to likely cover holidays
-    // But since we loop, the date range in strict API call matters less if we just slide the window
-    // KIS API returns max 100 per call.
+    let endDate = range.endDate ?? getKSTDateString(0);
+    // KIS API returns max 100 per call, so slide the [startDate, endDate] window back page by page.
 
     let loopCount = 0;
-    while (records.length < period && loopCount < 5) {
+    while (!hasEnoughBars(records, period, range) && loopCount < MAX_OHLCV_PAGES) {
       loopCount++;
-      // Sufficient start date buffer
-      const startDate = getKSTDateString(-(period * 2 + 100)); // Just a loose lower bound
+      // 200 calendar days always hold more than one page (100 trading days)
+      const startDate = shiftDateString(endDate, -200);
 
       const response = await fetchWithTimeout(
         `${KIS_BASE_URL}/uapi/domestic-stock/v1/quotations/inquire-daily-itemchartprice?FID_COND_MRKT_DIV_CODE=J&FID_INPUT_ISCD=${symbol}&FID_INPUT_DATE_1=${startDate}&FID_INPUT_DATE_2=${endDate}&FID_PERIOD_DIV_CODE=D&FID_ORG_ADJ_PRC=0`,
@@ -185,8 +227,8 @@ export async function fetchDailyOHLCV(symbol: string, period: number = 60) {
       const data = await response.json();
       if (data.rt_cd !== '0') throw new Error(`KIS API Error: ${data.msg1 || JSON.stringify(data)}`);
 
-      let batch = data.output2 || [];
-      if (batch.length === 0) break;
+      let batch = (data.output2 || []).filter((r: any) => r.stck_bsop_date);
+      if (batch.length === 0) break; // reached the listing date
 
       // Map fields
       batch = batch.map((r: any) => ({
@@ -200,27 +242,13 @@ export async function fetchDailyOHLCV(symbol: string, period: number = 60) {
 
       records = [...records, ...batch];
 
-      if (batch.length < 90) {
-        // If less than typical max(100), we probably reached end of history
-        break;
-      }
-
       // Prepare next endDate: 1 day before the last record's date
-      const lastDateStr = batch[batch.length - 1].date; // YYYYMMDD
-      const lastDate = new Date(
-        parseInt(lastDateStr.substring(0, 4)),
-        parseInt(lastDateStr.substring(4, 6)) - 1,
-        parseInt(lastDateStr.substring(6, 8))
-      );
-      lastDate.setDate(lastDate.getDate() - 1);
-      endDate = lastDate.toISOString().slice(0, 10).replace(/-/g, '');
+      endDate = shiftDateString(batch[batch.length - 1].date, -1);
     }
 
-    if (period > 0 && records.length > period) {
-      records = records.slice(0, period);
-    }
+    records = trimToRange(records, period, range);
 
-    logDebug(`[KIS] Daily OHLCV fetched. ${records.length} records.`);
+    logDebug(`[KIS] Daily OHLCV fetched. ${records.length} records (${loopCount} pages).`);
     return { output2: records };
   } catch (error) {
     logDebug(`[KIS] Error fetchDailyOHLCV: ${error}`);
@@ -228,6 +256,67 @@ export async function fetchDailyOHLCV(symbol: string, period: number = 60) {
   }
 }
 
+/**
+ * 업종(지수) 일봉 조회 (KOSPI: 0001, KOSDAQ: 1001)
+ * 반환 형식은 fetchDailyOHLCV와 동일 (output2: 최신→과거, 문자열 필드)
+ */
+export async function fetchIndexDailyOHLCV(indexCode: string, period: number = 60, range: DailyOHLCVRange = {}) {
+  logDebug(`[KIS] Fetching Index Daily OHLCV for ${indexCode} (target period: ${period}, range: ${range.startDate ?? '-'}~${range.endDate ?? '-'})...`);
+  try {
+    const token = await getAccessToken();
+    let records: KisDailyBar[] = [];
+    let endDate = range.endDate ?? getKSTDateString(0);
+
+    let loopCount = 0;
+    while (!hasEnoughBars(records, period, range) && loopCount < MAX_OHLCV_PAGES) {
+      loopCount++;
+      // 지수 차트는 1회 최대 50건 내외 → 100 달력일 창
+      const startDate = shiftDateString(endDate, -100);
+
+      const response = await fetchWithTimeout(
+        `${KIS_BASE_URL}/uapi/domestic-stock/v1/quotations/inquire-daily-indexchartprice?FID_COND_MRKT_DIV_CODE=U&FID_INPUT_ISCD=${indexCode}&FID_INPUT_DATE_1=${startDate}&FID_INPUT_DATE_2=${endDate}&FID_PERIOD_DIV_CODE=D`,
+        {
+          headers: {
+            authorization: `Bearer ${token}`,
+            appkey: process.env.KIS_APP_KEY!,
+            appsecret: process.env.KIS_APP_SECRET!,
+            tr_id: 'FHKUP03500100',
+          },
+        },
+        30000
+      );
+
+      if (!response.ok) throw new Error(`API Error: ${response.status}`);
+      const data = await response.json();
+      if (data.rt_cd !== '0') throw new Error(`KIS API Error: ${data.msg1 || JSON.stringify(data)}`);
+
+      const batch: KisDailyBar[] = (data.output2 || [])
+        .filter((r: any) => r.stck_bsop_date)
+        .map((r: any) => ({
+          date: r.stck_bsop_date,
+          close: r.bstp_nmix_prpr,
+          open: r.bstp_nmix_oprc,
+          high: r.bstp_nmix_hgpr,
+          low: r.bstp_nmix_lwpr,
+          volume: r.acml_vol,
+        }));
+      if (batch.length === 0) break;
+
+      records = [...records, ...batch];
+
+      endDate = shiftDateString(batch[batch.length - 1].date, -1);
+    }
+
+    records = trimToRange(records, period, range);
+
+    logDebug(`[KIS] Index Daily OHLCV fetched. ${records.length} records (${loopCount} pages).`);
+    return { output2: records };
+  } catch (error) {
+    logDebug(`[KIS] Error fetchIndexDailyOHLCV: ${error}`);
+    throw error;
+  }
+}
+
 export async function fetchInvestorTrend(symbol: string) {
   logDebug(`[KIS] Fetching Investor Trend for ${symbol}...`);
   try {
@@ -310,42 +399,59 @@ export async function fetchUsCurrentPrice(symbol: string, exchange: string = 'NA
   }
 }
 
-export async function fetchUsDailyOHLCV(symbol: string, exchange: string = 'NAS', period: number = 120) {
-  logDebug(`[KIS] Fetching US Daily OHLCV for ${symbol} (${exchange})...`);
+/**
+ * 해외주식 일봉 조회 (1회 최대 100건 → BYMD를 과거로 옮기며 반복)
+ * 반환 output2는 과거→최신 순, 숫자 필드 (국내 fetchDailyOHLCV와 반대)
+ */
+export async function fetchUsDailyOHLCV(symbol: string, exchange: string = 'NAS', period: number = 120, range: DailyOHLCVRange = {}) {
+  logDebug(`[KIS] Fetching US Daily OHLCV for ${symbol} (${exchange}, target period: ${period}, range: ${range.startDate ?? '-'}~${range.endDate ?? '-'})...`);
   try {
     const token = await getAccessToken();
-    const endDate = getKSTDateString(0);
+    let records: any[] = [];   // 최신→과거
+    let endDate = range.endDate ?? getKSTDateString(0);
 
-    const response = await fetchWithTimeout(
-      `${KIS_BASE_URL}/uapi/overseas-price/v1/quotations/dailyprice?AUTH=&EXCD=${exchange}&SYMB=${symbol}&GUBN=0&BYMD=${endDate}&MODP=1`,
-      {
-        headers: {
-          authorization: `Bearer ${token}`,
-          appkey: process.env.KIS_APP_KEY!,
-          appsecret: process.env.KIS_APP_SECRET!,
-          tr_id: 'HHDFS76240000',
-        },
+    let loopCount = 0;
+    while (!hasEnoughBars(records, period, range) && loopCount < MAX_OHLCV_PAGES) {
+      loopCount++;
+      const response = await fetchWithTimeout(
+        `${KIS_BASE_URL}/uapi/overseas-price/v1/quotations/dailyprice?AUTH=&EXCD=${exchange}&SYMB=${symbol}&GUBN=0&BYMD=${endDate}&MODP=1`,
+        {
+          headers: {
+            authorization: `Bearer ${token}`,
+            appkey: process.env.KIS_APP_KEY!,
+            appsecret: process.env.KIS_APP_SECRET!,
+            tr_id: 'HHDFS76240000',
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`KIS API Error: ${response.status} ${response.statusText} - ${errorText}`);
       }
-    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`KIS API Error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+      const data = await response.json();
+      if (data.rt_cd !== '0') {
+        throw new Error(`KIS API Error: ${data.msg1}`);
+      }
 
-    const data = await response.json();
-    if (data.rt_cd !== '0') {
-      throw new Error(`KIS API Error: ${data.msg1}`);
+      const batch = (data.output2 || [])
+        .filter((item: any) => item.xymd && item.xymd <= endDate)
+        .map((item: any) => ({
+          date: item.xymd,
+          open: parseFloat(item.open),
+          high: parseFloat(item.high),
+          low: parseFloat(item.low),
+          close: parseFloat(item.clos),
+          volume: parseInt(item.tvol, 10),
+        }));
+      if (batch.length === 0) break; // reached the listing date
+
+      records = [...records, ...batch];
+      endDate = shiftDateString(batch[batch.length - 1].date, -1);
     }
 
-    const dailyData = data.output2.slice(0, period).reverse().map((item: any) => ({
-      date: item.xymd,
-      open: parseFloat(item.open),
-      high: parseFloat(item.high),
-      low: parseFloat(item.low),
-      close: parseFloat(item.clos),
-      volume: parseInt(item.tvol, 10),
-    }));
+    const dailyData = trimToRange(records, period, range).reverse();
 
     return {
       output2: dailyData,
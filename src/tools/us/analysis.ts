@@ -12,57 +12,17 @@ import { z } from 'zod';
 import { SMA, RSI } from 'technicalindicators';
 import { fetchUsCurrentPrice, fetchUsDailyOHLCV } from '../korea/kis-client.js';
 import { calculateATR, generateTradeSignal } from '../../analysis/signal-generator.js';
-
-// 미국 주식 기술 스코어 (펀더멘털 없이 trend/momentum/risk 3가지)
-function scoreUsStock(
-    price: number,
-    ma20: number, ma60: number, ma120: number,
-    rsi: number,
-    avgVol5: number, avgVol20: number,
-    atr: number
-): { scores: Record<string, number>; state: string; confidence_level: string } {
-    let trend = 0;
-    if (price > ma20) trend++;
-    if (price > ma60) trend++;
-    if (price > ma120) trend++;
-
-    let momentum = 0;
-    if (rsi > 50 && rsi < 70) momentum++;
-    else if (rsi <= 30) momentum++;        // 과매도 반등 기대
-    else if (rsi >= 70) momentum--;        // 과매수 조정 주의
-    if (avgVol5 > avgVol20 * 1.2) momentum++;  // 거래량 급증
-
-    let risk = 0;
-    const atrPct = (atr / price) * 100;
-    if (atrPct > 5) risk--;                // 고변동성 페널티
-    else if (atrPct < 2) risk++;           // 저변동성 안정적
-
-    const total = trend + momentum + risk;
-
-    const state =
-        total >= 5 ? '강한 상승 추세' :
-            total >= 3 ? '상승 추세' :
-                total >= 1 ? '중립 (약상승)' :
-                    total === 0 ? '중립' :
-                        total >= -1 ? '중립 (약하락)' :
-                            '하락 추세';
-
-    const confidence_level =
-        Math.abs(total) >= 4 ? 'HIGH' :
-            Math.abs(total) >= 2 ? 'MEDIUM' : 'LOW';
-
-    return {
-        scores: { trend, momentum, risk, total },
-        state,
-        confidence_level,
-    };
-}
+import { scoreUsStock } from '../../analysis/scorer.js';
+import { getScoringProfile, toProfileRef } from '../../analysis/scoring-profile.js';
 
 type Exchange = 'NAS' | 'NYS' | 'AMS';
 
 export const analyzeUsStock = tool(
-    async ({ symbol, exchange = 'NAS' }) => {
+    async ({ symbol, exchange = 'NAS', profile: profileName }) => {
         try {
+            // US 스코어(scoreUsStock)는 자체 기준, 프로파일은 스윙 등급에만 적용
+            const profile = getScoringProfile(profileName);
+
             // 1. KIS 해외 가격 + OHLCV 병렬 조회
             const [priceData, ohlcvData] = await Promise.all([
                 fetchUsCurrentPrice(symbol, exchange),
@@ -134,13 +94,15 @@ export const analyzeUsStock = tool(
                     macdHistogram: null,
                 },
                 Math.max(0, Math.min(100, 50 + scorerResult.scores.total * 8)),
-                technicalSignal
+                technicalSignal,
+                profile.swingGrade
             );
 
             // 6. 응답 조립
             return JSON.stringify({
                 symbol,
                 exchange,
+                profile: toProfileRef(profile),
                 price: currentPrice,
                 change: priceData.diff,
                 changeRate: priceData.rate,
@@ -176,6 +138,7 @@ export const analyzeUsStock = tool(
             symbol: z.string().describe('US 티커 (예: NVDA, AAPL, TSLA)'),
             exchange: z.enum(['NAS', 'NYS', 'AMS']).default('NAS')
                 .describe('거래소 (NAS: 나스닥, NYS: 뉴욕, AMS: 아멕스)'),
+            profile: z.string().optional().describe('스코어링 프로파일 이름 (예: default, conservative, momentum)'),
         }),
     }
 );
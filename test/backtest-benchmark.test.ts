@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { calcRelativeStats, compareWithBenchmark, normalizeBenchmarkSymbol } from "../src/backtest/benchmark.js";
+import type { BacktestTrade, OhlcvRecord } from "../src/backtest/types.js";
+
+function bar(date: string, close: number): OhlcvRecord {
+    return { date, open: close, high: close, low: close, close, volume: 1000 };
+}
+
+const indexBars = [
+    bar("20250102", 100),
+    bar("20250103", 102),
+    bar("20250106", 101),
+    bar("20250107", 105),
+    bar("20250108", 110),
+];
+
+function trade(entryDate: string, exitDate: string, netReturnPct: number, returnPct = netReturnPct): BacktestTrade {
+    return { symbol: "005930", entryDate, exitDate, returnPct, netReturnPct } as BacktestTrade;
+}
+
+describe("Benchmark Comparison", () => {
+    test("normalizes index aliases but keeps stock codes", () => {
+        expect(normalizeBenchmarkSymbol(" kospi ")).toBe("KOSPI");
+        expect(normalizeBenchmarkSymbol("Kosdaq")).toBe("KOSDAQ");
+        expect(normalizeBenchmarkSymbol("069500")).toBe("069500");
+    });
+
+    test("a strategy that is exactly 2x the benchmark has beta 2 and zero alpha", () => {
+        const stats = calcRelativeStats([2, -4, 6, 1], [1, -2, 3, 0.5]);
+        expect(stats.beta).toBeCloseTo(2, 4);
+        expect(stats.alpha).toBeCloseTo(0, 4);
+        expect(stats.observations).toBe(4);
+        expect(stats.trackingError).toBeGreaterThan(0);
+    });
+
+    test("trade mode compounds net trade returns by exit date and compares every metric on that series", () => {
+        // engine의 거래별 equityCurve (gross 단순 합산) → 비교에 쓰지 않음
+        const grossCurve = [
+            { date: "20250106", cumulativeReturn: 3.5 },
+            { date: "20250108", cumulativeReturn: 9 },
+        ];
+        const trades = [trade("20250103", "20250106", 3, 3.5), trade("20250107", "20250108", 5, 5.5)];
+        const result = compareWithBenchmark("KOSPI", indexBars, grossCurve, trades, false)!;
+
+        // 기준가: 첫 진입일(01-03) 전날 종가 100
+        expect(result.summary.startDate).toBe("20250103");
+        expect(result.equityCurve).toEqual([
+            { date: "20250106", cumulativeReturn: 1 },
+            { date: "20250108", cumulativeReturn: 10 },
+        ]);
+        // net 1.03 × 1.05 = +8.15%
+        expect(result.summary.strategyReturn).toBe(8.15);
+        expect(result.summary.benchmarkReturn).toBe(10);
+        expect(result.summary.excessReturn).toBe(-1.85);
+        expect(result.summary.observations).toBe(2);
+
+        // 베타/알파도 같은 구간 수익률 쌍 (3 vs 1, 5 vs 110/101-1)
+        const expected = calcRelativeStats([3, 5], [1, (110 / 101 - 1) * 100]);
+        expect(result.summary.beta).toBeCloseTo(expected.beta, 3);
+        expect(result.summary.alpha).toBeCloseTo(expected.alpha, 3);
+    });
+
+    test("portfolio mode uses daily compounded returns and fills holidays with the last close", () => {
+        const equityCurve = [
+            { date: "20250103", cumulativeReturn: 1 },
+            { date: "20250104", cumulativeReturn: 1 },
+            { date: "20250106", cumulativeReturn: 2 },
+        ];
+        const result = compareWithBenchmark("069500", indexBars, equityCurve, [trade("20250103", "20250106", 1)], true)!;
+
+        expect(result.equityCurve.map(p => p.cumulativeReturn)).toEqual([2, 2, 1]);
+        expect(result.summary.observations).toBe(3);
+        expect(result.summary.excessReturn).toBe(1);
+    });
+
+    test("returns null without trades or benchmark history before the start date", () => {
+        expect(compareWithBenchmark("KOSPI", indexBars, [], [], false)).toBeNull();
+        const early = [trade("20250102", "20250103", 1)];
+        expect(compareWithBenchmark("KOSPI", indexBars, [{ date: "20250103", cumulativeReturn: 1 }], early, false)).toBeNull();
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { calcBootstrapSummary } from "../src/backtest/stats.js";
+import type { BacktestTrade } from "../src/backtest/types.js";
+
+function trades(returns: number[]): BacktestTrade[] {
+    return returns.map((returnPct, i) => ({
+        symbol: "005930",
+        exitDate: `202501${String(i + 1).padStart(2, "0")}`,
+        returnPct,
+        netReturnPct: returnPct,
+    }) as BacktestTrade);
+}
+
+describe("Bootstrap Confidence Intervals", () => {
+    const sample = trades([3, -2, 5, -1, 4, -3, 2, 1, -2, 6, 0.5, -1.5]);
+
+    test("intervals bracket the point estimate and are reproducible by seed", () => {
+        const a = calcBootstrapSummary(sample, { iterations: 500, seed: 7 });
+        const b = calcBootstrapSummary(sample, { iterations: 500, seed: 7 });
+        expect(a).toEqual(b);
+
+        for (const ci of [a.winRate, a.avgReturn, a.sharpeRatio, a.profitFactor]) {
+            expect(ci.lower).toBeLessThanOrEqual(ci.estimate);
+            expect(ci.upper).toBeGreaterThanOrEqual(ci.estimate);
+        }
+        expect(a.winRate.estimate).toBeCloseTo(58.3333, 4);
+        expect(a.maxDrawdown.upper).toBeLessThanOrEqual(0);
+        expect(a.probPositiveExpectancy).toBeGreaterThan(0.5);
+        expect(a.probPositiveExpectancy).toBeLessThan(1);
+    });
+
+    test("a wider confidence level gives a wider interval", () => {
+        const narrow = calcBootstrapSummary(sample, { confidence: 0.5 });
+        const wide = calcBootstrapSummary(sample, { confidence: 0.99 });
+        expect(wide.avgReturn.upper - wide.avgReturn.lower)
+            .toBeGreaterThan(narrow.avgReturn.upper - narrow.avgReturn.lower);
+    });
+
+    test("all-losing trades have zero probability of positive expectancy", () => {
+        const result = calcBootstrapSummary(trades([-1, -2, -0.5]), { iterations: 200 });
+        expect(result.probPositiveExpectancy).toBe(0);
+        expect(result.winRate.upper).toBe(0);
+        expect(result.maxDrawdown.estimate).toBe(-3.5);
+    });
+
+    test("no trades yields empty intervals", () => {
+        const result = calcBootstrapSummary([]);
+        expect(result.avgReturn).toEqual({ estimate: 0, lower: 0, upper: 0 });
+        expect(result.probPositiveExpectancy).toBe(0);
+    });
+});
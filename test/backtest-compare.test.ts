@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { compareBacktestResults } from "../src/backtest/compare.js";
+import type { BacktestResult, BacktestTrade } from "../src/backtest/types.js";
+
+function trade(symbol: string, entryDate: string, returnPct: number): BacktestTrade {
+    const exitPrice = 100 * (1 + returnPct / 100);
+    return {
+        symbol, entryDate, entryPrice: 100, exitDate: entryDate, exitPrice, exitReason: "holding_period", holdingDays: 1,
+        swingGrade: "A", gradeScore: 7, technicalScore: 3, rrScore: 2, volumeProfileScore: 1, ma60Score: 1,
+        returnPct, netReturnPct: returnPct - 0.3, peakPrice: Math.max(100, exitPrice),
+        maxFavorableExcursion: Math.max(0, returnPct), maxAdverseExcursion: Math.min(0, returnPct),
+        targetAchieved: false, stopLossHit: false, expectedRR: 2,
+        targetPrice: 110, target2Price: 116, stopLossPrice: 95, positionSizePercent: 20,
+    };
+}
+
+function result(id: string, overrides: Partial<BacktestResult>): BacktestResult {
+    return {
+        id,
+        executedAt: "2026-01-05T09:00:00.000Z",
+        config: { universe: ["005930"], gradeFilter: ["A"], holdingPeriod: 10 },
+        summary: { totalTrades: 2, winRate: 50, sharpeRatio: 0.5 } as BacktestResult["summary"],
+        gradeBreakdown: [{ grade: "A", tradeCount: 2, winRate: 50, avgReturn: 1, targetHitRate: 0 }] as BacktestResult["gradeBreakdown"],
+        factorCorrelation: [],
+        equityCurve: [],
+        trades: [],
+        ...overrides,
+    };
+}
+
+describe("Backtest Comparison", () => {
+    const base = result("base", {
+        name: "기준",
+        equityCurve: [
+            { date: "20260102", cumulativeReturn: 1 },
+            { date: "20260105", cumulativeReturn: 2 },
+        ] as BacktestResult["equityCurve"],
+        trades: [trade("005930", "20260102", 2), trade("005930", "20260105", -1)],
+    });
+    const other = result("other", {
+        config: { universe: ["005930"], gradeFilter: ["A", "B"], holdingPeriod: 5 },
+        summary: { totalTrades: 3, winRate: 66.6667, sharpeRatio: 0.8, net: { sharpeRatio: 0.6 } } as BacktestResult["summary"],
+        gradeBreakdown: [{ grade: "A", tradeCount: 3, winRate: 66.6667, avgReturn: 1.5, targetHitRate: 0 }] as BacktestResult["gradeBreakdown"],
+        equityCurve: [
+            { date: "20260101", cumulativeReturn: 0.5 },
+            { date: "20260105", cumulativeReturn: 3 },
+        ] as BacktestResult["equityCurve"],
+        trades: [trade("005930", "20260105", -1), trade("000660", "20260103", 4)],
+    });
+    const cmp = compareBacktestResults([base, other]);
+
+    test("summary deltas are relative to the first result, missing metrics are null", () => {
+        const byMetric = Object.fromEntries(cmp.summary.map(s => [s.metric, s]));
+        expect(byMetric.sharpeRatio.deltas).toEqual([0, 0.3]);
+        expect(byMetric.winRate.deltas).toEqual([0, 16.6667]);
+        expect(byMetric["net.sharpeRatio"].values).toEqual([null, 0.6]);
+        expect(byMetric["net.sharpeRatio"].deltas).toEqual([null, null]);
+        expect(byMetric.profitFactor).toBeUndefined();
+        expect(cmp.runs.map(r => r.name)).toEqual(["기준", null]);
+    });
+
+    test("config diff lists only differing paths", () => {
+        expect(cmp.configDiff).toEqual([
+            { path: "gradeFilter", values: [["A"], ["A", "B"]] },
+            { path: "holdingPeriod", values: [10, 5] },
+        ]);
+    });
+
+    test("equity curves are aligned on the union of dates", () => {
+        expect(cmp.equityCurves.dates).toEqual(["20260101", "20260102", "20260105"]);
+        expect(cmp.equityCurves.series).toEqual([[null, 1, 2], [0.5, 0.5, 3]]);
+    });
+
+    test("grade deltas and trades unique to one run", () => {
+        const a = cmp.gradeDeltas.find(g => g.grade === "A")!;
+        expect(a.deltas[1]).toEqual({ tradeCount: 1, winRate: 16.6667, avgReturn: 0.5 });
+        expect(cmp.gradeDeltas.find(g => g.grade === "B")!.runs).toEqual([
+            { tradeCount: 0, winRate: 0, avgReturn: 0 },
+            { tradeCount: 0, winRate: 0, avgReturn: 0 },
+        ]);
+        expect(cmp.uniqueTrades.map(u => u.trades.map(t => `${t.symbol}|${t.entryDate}`))).toEqual([
+            ["005930|20260102"],
+            ["000660|20260103"],
+        ]);
+    });
+});
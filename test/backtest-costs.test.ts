@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import {
+    calcNetReturnPct,
+    getTickSize,
+    resolveCostModel,
+    ZERO_COST_MODEL,
+} from "../src/backtest/costs.js";
+
+describe("Transaction Costs", () => {
+    test("uses KRX tick sizes, with a flat 5 won tick for ETFs", () => {
+        expect(getTickSize(1_500)).toBe(1);
+        expect(getTickSize(10_000)).toBe(10);
+        expect(getTickSize(70_000)).toBe(100);
+        expect(getTickSize(600_000)).toBe(1_000);
+        expect(getTickSize(70_000, true)).toBe(5);
+    });
+
+    test("uses US tick sizes and defaults when the market is US", () => {
+        expect(getTickSize(150, false, "US")).toBe(0.01);
+        expect(getTickSize(0.5, true, "US")).toBe(0.0001);
+
+        const model = resolveCostModel({ stock: { slippageTicks: 0 } }, "US");
+        expect(model.market).toBe("US");
+        expect(model.stock.commissionBps).toBe(25);
+        expect(model.stock.sellTaxPct).toBe(0.00278);
+        expect(model.etf.slippageTicks).toBe(1);
+    });
+
+    test("net return deducts commission, sell tax and tick slippage on both sides", () => {
+        const model = resolveCostModel();
+        const net = calcNetReturnPct({ symbol: "005930", entryPrice: 10_000, exitPrice: 11_000 }, model);
+
+        const buy = 10_010 * (1 + 1.5 / 10_000);
+        const sell = 10_990 * (1 - 1.5 / 10_000 - 0.2 / 100);
+        expect(net).toBeCloseTo((sell / buy - 1) * 100, 4);
+        expect(calcNetReturnPct({ symbol: "005930", entryPrice: 10_000, exitPrice: 11_000 }, ZERO_COST_MODEL)).toBe(10);
+    });
+
+    test("ETF symbols use the ETF rule set (no sell tax)", () => {
+        const model = resolveCostModel({
+            stock: { slippageTicks: 0 },
+            etf: { slippageTicks: 0, commissionBps: 0 },
+            etfSymbols: ["069500"],
+        });
+        expect(calcNetReturnPct({ symbol: "069500", entryPrice: 10_000, exitPrice: 10_000 }, model)).toBe(0);
+        expect(calcNetReturnPct({ symbol: "005930", entryPrice: 10_000, exitPrice: 10_000 }, model)).toBeLessThan(-0.2);
+    });
+
+    test("partial exits are charged at each exit price", () => {
+        const partialExit = { date: "20250103", price: 11_000, ratio: 0.5 };
+        const net = calcNetReturnPct(
+            { symbol: "005930", entryPrice: 10_000, exitPrice: 10_500, partialExit },
+            ZERO_COST_MODEL
+        );
+        expect(net).toBe(5);
+    });
+});
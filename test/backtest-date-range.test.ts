@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { runBacktest, simDateBounds, WARMUP_BARS } from "../src/backtest/engine.js";
+import { calcPeriodBreakdown } from "../src/backtest/stats.js";
+import type { BacktestTrade, OhlcvDateRange, OhlcvProvider, OhlcvRecord } from "../src/backtest/types.js";
+
+function dailyBars(count: number, from = Date.UTC(2023, 0, 1)): OhlcvRecord[] {
+    return Array.from({ length: count }, (_, i) => {
+        const close = 10_000 + i * 15 + (i % 5) * 40;
+        const date = new Date(from + i * 86_400_000).toISOString().slice(0, 10).replace(/-/g, "");
+        return { date, open: close - 10, high: close + 60, low: close - 60, close, volume: 100_000 + (i % 7) * 1000 };
+    });
+}
+
+describe("Backtest Date Range", () => {
+    const bars = dailyBars(800);
+
+    test("simDateBounds keeps signals inside startDate/endDate after warmup", () => {
+        expect(simDateBounds(bars, 10)).toEqual({ from: WARMUP_BARS, to: 800 - 12 });
+
+        const { from, to } = simDateBounds(bars, 10, { startDate: "20230901", endDate: "20240131" });
+        expect(bars[from].date).toBe("20230901");
+        expect(bars[to].date).toBe("20240131");
+
+        // 워밍업 이전 startDate는 워밍업 이후부터
+        expect(simDateBounds(bars, 10, { startDate: "20230101" }).from).toBe(WARMUP_BARS);
+        expect(simDateBounds(bars, 10, { startDate: "20300101" }).from).toBeGreaterThan(simDateBounds(bars, 10).to);
+    });
+
+    test("runBacktest passes the range to the provider and breaks results down by year and month", async () => {
+        const requests: { minBars: number; range?: OhlcvDateRange }[] = [];
+        const provider: OhlcvProvider = {
+            name: "memory",
+            async getDailyBars(_symbol, minBars, range) {
+                requests.push({ minBars, range });
+                return bars;
+            },
+        };
+
+        const result = await runBacktest(
+            { universe: ["AAA"], gradeFilter: ["A", "B", "C", "D"], holdingPeriod: 5, startDate: "20231101", endDate: "20240229" },
+            { provider }
+        );
+
+        expect(requests).toEqual([{ minBars: WARMUP_BARS, range: { startDate: "20231101", endDate: "20240229" } }]);
+        expect(result.trades.length).toBeGreaterThan(0);
+        // 진입은 시그널 다음 봉
+        expect(result.trades.every(t => t.entryDate > "20231101" && t.entryDate <= "20240301")).toBe(true);
+        expect(result.periodBreakdown!.yearly.map(p => p.period)).toEqual(["2023", "2024"]);
+        expect(result.periodBreakdown!.monthly.reduce((sum, p) => sum + p.tradeCount, 0)).toBe(result.trades.length);
+    });
+
+    test("calcPeriodBreakdown groups by entry date", () => {
+        const trade = (entryDate: string, returnPct: number, swingGrade: BacktestTrade["swingGrade"]) =>
+            ({ entryDate, returnPct, netReturnPct: returnPct - 0.5, swingGrade }) as BacktestTrade;
+        const { yearly, monthly } = calcPeriodBreakdown([
+            trade("20231228", 2, "A"),
+            trade("20240103", -1, "B"),
+            trade("20240115", 0.3, "A"),
+        ]);
+
+        expect(yearly).toEqual([
+            { period: "2023", tradeCount: 1, winRate: 100, avgReturn: 2, netWinRate: 100, netAvgReturn: 1.5, gradeCounts: { A: 1, B: 0, C: 0, D: 0 } },
+            { period: "2024", tradeCount: 2, winRate: 50, avgReturn: -0.35, netWinRate: 0, netAvgReturn: -0.85, gradeCounts: { A: 1, B: 1, C: 0, D: 0 } },
+        ]);
+        expect(monthly.map(p => p.period)).toEqual(["2023-12", "2024-01"]);
+    });
+});
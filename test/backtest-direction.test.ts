@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { calcSwingGrade } from "../src/analysis/signal-generator.js";
+import { calcNetReturnPct, DEFAULT_COST_MODEL, ZERO_COST_MODEL } from "../src/backtest/costs.js";
+import { runBacktest } from "../src/backtest/engine.js";
+import { resolveExit, type ExitLevels } from "../src/backtest/exit-rules.js";
+import { simulatePortfolio } from "../src/backtest/portfolio.js";
+import type { BacktestTrade, OhlcvProvider, OhlcvRecord } from "../src/backtest/types.js";
+
+function bar(open: number, high: number, low: number, close: number, i = 0): OhlcvRecord {
+    return { date: `202501${String(i + 2).padStart(2, "0")}`, open, high, low, close, volume: 1000 };
+}
+
+function dailyBars(count: number): OhlcvRecord[] {
+    return Array.from({ length: count }, (_, i) => {
+        const close = 20_000 - i * 15 + Math.sin(i / 4) * 400;
+        const date = new Date(Date.UTC(2024, 0, 1) + i * 86_400_000).toISOString().slice(0, 10).replace(/-/g, "");
+        return { date, open: close + 20, high: close + 80, low: close - 80, close, volume: 100_000 + (i % 9) * 5_000 };
+    });
+}
+
+const SHORT_LEVELS: ExitLevels = { entryPrice: 100, stopLossPrice: 105, targetPrice: 90, target2Price: 80, atr: 2 };
+
+describe("Short / Both Direction", () => {
+    test("short exits mirror the long bracket: target below, stop above, gaps fill at the open", () => {
+        const falling = [bar(100, 101, 95, 96, 0), bar(96, 97, 89, 90, 1)];
+        expect(resolveExit(falling, SHORT_LEVELS, { mode: "bracket" }, "short"))
+            .toMatchObject({ exitIndex: 1, exitPrice: 90, exitReason: "target" });
+
+        const gapUp = [bar(100, 101, 99, 100, 0), bar(108, 110, 107, 109, 1)];
+        expect(resolveExit(gapUp, SHORT_LEVELS, { mode: "bracket" }, "short"))
+            .toMatchObject({ exitIndex: 1, exitPrice: 108, exitReason: "stop_loss" });
+
+        const partial = resolveExit([bar(100, 100, 89, 92, 0), bar(92, 101, 91, 100, 1)], SHORT_LEVELS, { mode: "partial" }, "short");
+        expect(partial).toMatchObject({ exitIndex: 1, exitReason: "breakeven_stop", partialExit: { index: 0, price: 90, ratio: 0.5 } });
+        expect(partial.exitPrice).toBe(95);
+    });
+
+    test("short grading favours weak technicals, price below POC and below MA60", () => {
+        const vp = { pricePosition: "below_poc" } as any;
+        const short = calcSwingGrade(20, 3, vp, 90, 100, undefined, undefined, "short");
+        expect(short.breakdown).toEqual({ technicalScore: 3, rrScore: 2, volumeProfileScore: 2, ma60Score: 1 });
+        expect(short.grade).toBe("A");
+        expect(calcSwingGrade(20, 3, vp, 90, 100).score).toBe(2);
+    });
+
+    test("short net return sells at entry and buys back at exit", () => {
+        const short = { symbol: "005930", direction: "short" as const, entryPrice: 10_000, exitPrice: 9_000 };
+        expect(calcNetReturnPct(short, ZERO_COST_MODEL)).toBe(10);
+        const net = calcNetReturnPct(short, DEFAULT_COST_MODEL);
+        expect(net).toBeLessThan(10);
+        expect(net).toBeGreaterThan(9.5);
+    });
+
+    test("portfolio holds shorts against full cash collateral", () => {
+        const dates = ["20250102", "20250103", "20250106"];
+        const cache = new Map([["AAA", dates.map((date, i) => ({ date, open: 1000, high: 1000, low: 900, close: [1000, 950, 900][i], volume: 1 }))]]);
+        const short: BacktestTrade = {
+            symbol: "AAA", direction: "short", entryDate: "20250102", entryPrice: 1000, exitDate: "20250106", exitPrice: 900,
+            exitReason: "holding_period", holdingDays: 3,
+            swingGrade: "A", gradeScore: 7, technicalScore: 3, rrScore: 2, volumeProfileScore: 2, ma60Score: 1,
+            returnPct: 10, netReturnPct: 10, peakPrice: 1000, maxFavorableExcursion: 10, maxAdverseExcursion: 0,
+            targetAchieved: false, stopLossHit: false, expectedRR: 2, targetPrice: 900, target2Price: 850, stopLossPrice: 1050,
+            positionSizePercent: 50,
+        };
+        const { trades, portfolio } = simulatePortfolio([short], cache, { initialCapital: 1_000_000, maxPositions: 1 }, ZERO_COST_MODEL);
+
+        expect(trades[0].quantity).toBe(500);
+        expect(portfolio.equityCurve.map(p => p.equity)).toEqual([1_000_000, 1_025_000, 1_050_000]);
+        expect(portfolio.finalEquity).toBe(1_050_000);
+    });
+
+    test("both direction simulates long and short trades with direction-consistent levels", async () => {
+        const bars = dailyBars(300);
+        const provider: OhlcvProvider = { name: "memory", getDailyBars: async () => bars };
+        const result = await runBacktest({
+            universe: ["005930"], direction: "both", gradeFilter: ["A", "B", "C", "D"], holdingPeriod: 10,
+        }, { provider });
+
+        const shorts = result.trades.filter(t => t.direction === "short");
+        const longs = result.trades.filter(t => t.direction === "long");
+        expect(shorts.length).toBeGreaterThan(0);
+        expect(longs.length).toBe(shorts.length);
+        const withRR = shorts.filter(t => t.expectedRR > 0);
+        expect(withRR.length).toBeGreaterThan(0);
+        for (const t of withRR) {
+            expect(t.targetPrice).toBeLessThanOrEqual(t.entryPrice);
+            expect(t.stopLossPrice).toBeGreaterThanOrEqual(t.entryPrice);
+        }
+        for (const t of shorts) {
+            expect(t.returnPct).toBeCloseTo((t.entryPrice - t.exitPrice) / t.entryPrice * 100, 3);
+            expect(t.maxFavorableExcursion).toBeGreaterThanOrEqual(0);
+            expect(t.maxAdverseExcursion).toBeLessThanOrEqual(0);
+        }
+        // downtrend series → shorts should outperform longs
+        const avg = (ts: BacktestTrade[]) => ts.reduce((s, t) => s + t.returnPct, 0) / ts.length;
+        expect(avg(shorts)).toBeGreaterThan(avg(longs));
+    });
+});
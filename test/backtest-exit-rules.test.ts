@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { resolveExit, type ExitLevels } from "../src/backtest/exit-rules.js";
+import type { OhlcvRecord } from "../src/backtest/types.js";
+
+function bar(open: number, high: number, low: number, close: number, i = 0): OhlcvRecord {
+    return { date: `202501${String(i + 2).padStart(2, "0")}`, open, high, low, close, volume: 1000 };
+}
+
+const LEVELS: ExitLevels = { entryPrice: 100, stopLossPrice: 95, targetPrice: 110, target2Price: 120, atr: 2 };
+
+describe("Exit Rules", () => {
+    test("fixed mode exits at the last close of the holding period", () => {
+        const bars = [bar(100, 112, 94, 101, 0), bar(101, 103, 99, 102, 1)];
+        const out = resolveExit(bars, LEVELS, { mode: "fixed" });
+        expect(out).toEqual({ exitIndex: 1, exitPrice: 102, exitReason: "holding_period" });
+    });
+
+    test("bracket fills gaps at the open and resolves same-bar hits by priority", () => {
+        const gapDown = [bar(100, 101, 99, 100, 0), bar(90, 92, 88, 91, 1)];
+        expect(resolveExit(gapDown, LEVELS, { mode: "bracket" })).toMatchObject({ exitIndex: 1, exitPrice: 90, exitReason: "stop_loss" });
+
+        const both = [bar(100, 111, 94, 100, 0)];
+        expect(resolveExit(both, LEVELS, { mode: "bracket", sameBarPriority: "stop_first" }).exitReason).toBe("stop_loss");
+        expect(resolveExit(both, LEVELS, { mode: "bracket", sameBarPriority: "target_first" })).toMatchObject({ exitPrice: 110, exitReason: "target" });
+    });
+
+    test("trailing ATR stop only ratchets up from prior bars", () => {
+        const bars = [
+            bar(100, 108, 99, 107, 0),   // trail → 108 - 2×3 = 102
+            bar(107, 107, 101, 103, 1),  // low 101 ≤ 102 → trailing stop
+            bar(103, 130, 103, 129, 2),
+        ];
+        const out = resolveExit(bars, LEVELS, { mode: "trailing_atr", trailingAtrMultiple: 3 });
+        expect(out).toMatchObject({ exitIndex: 1, exitPrice: 102, exitReason: "trailing_stop" });
+    });
+
+    test("partial takes profit at target1 and moves the rest to breakeven", () => {
+        const bars = [
+            bar(100, 111, 99, 109, 0),  // target1 110 → 50% out
+            bar(109, 112, 99, 100, 1),  // breakeven 100 hit
+        ];
+        const out = resolveExit(bars, LEVELS, { mode: "partial", partialRatio: 0.5 });
+        expect(out.exitReason).toBe("breakeven_stop");
+        expect(out.partialExit).toEqual({ index: 0, price: 110, ratio: 0.5 });
+        expect(out.exitPrice).toBe(105); // 0.5×110 + 0.5×100
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { inflateRawSync } from "zlib";
+import { buildExportTables, toCsv, toXlsx } from "../src/backtest/export.js";
+import type { BacktestResult, BacktestTrade } from "../src/backtest/types.js";
+
+const result = {
+    id: "00000000-0000-0000-0000-000000000000",
+    executedAt: "2026-01-05T09:00:00.000Z",
+    config: { universe: ["005930"], gradeFilter: ["A"], holdingPeriod: 10 },
+    summary: { totalTrades: 1, winRate: 100, avgReturn: 2.5, net: { winRate: 100, avgReturn: 2.2 } },
+    gradeBreakdown: [{ grade: "A", tradeCount: 1, winRate: 100, avgReturn: 2.5, targetHitRate: 100 }],
+    factorCorrelation: [],
+    equityCurve: [{ date: "20260105", cumulativeReturn: 2.5 }],
+    trades: [{
+        symbol: "005930", entryDate: "20260102", entryPrice: 100, exitDate: "20260105", exitPrice: 102.5,
+        exitReason: "target", swingGrade: "A", returnPct: 2.5, netReturnPct: 2.2, targetAchieved: true, stopLossHit: false,
+    } as BacktestTrade],
+} as unknown as BacktestResult;
+
+/** 로컬 파일 헤더를 순서대로 읽어 { 경로: 내용 } (데이터 디스크립터 없는 ZIP 전제) */
+function unzip(bytes: Uint8Array): Record<string, string> {
+    const buf = Buffer.from(bytes);
+    const files: Record<string, string> = {};
+    let offset = 0;
+    while (buf.readUInt32LE(offset) === 0x04034b50) {
+        const size = buf.readUInt32LE(offset + 18);
+        const nameLength = buf.readUInt16LE(offset + 26);
+        const name = buf.toString("utf-8", offset + 30, offset + 30 + nameLength);
+        const start = offset + 30 + nameLength;
+        files[name] = inflateRawSync(buf.subarray(start, start + size)).toString("utf-8");
+        offset = start + size;
+    }
+    return files;
+}
+
+describe("Backtest Export", () => {
+    const tables = buildExportTables(result);
+
+    test("builds every sheet with bilingual headers and typed cells", () => {
+        expect(tables.map(t => t.name)).toEqual(["summary", "gradeBreakdown", "factorCorrelation", "equityCurve", "trades"]);
+        const trades = tables.find(t => t.name === "trades")!;
+        expect(trades.headers[0]).toBe("종목 (Symbol)");
+        const row = trades.rows[0];
+        expect(row.slice(0, 6)).toEqual(["005930", "long", "2026-01-02", 100, "2026-01-05", 102.5]);
+        expect(row[18]).toBe(true);
+    });
+
+    test("CSV keeps numbers unquoted and escapes text", () => {
+        const csv = toCsv({ name: "trades", headers: ["a", "b", "c"], rows: [['x,"y"', 1.5, false], [null, -2, true]] });
+        expect(csv).toBe('\uFEFFa,b,c\r\n"x,""y""",1.5,false\r\n,-2,true\r\n');
+    });
+
+    test("XLSX has one worksheet per table with numeric and boolean cells", () => {
+        const files = unzip(toXlsx(tables));
+        expect(files["xl/workbook.xml"]).toContain('<sheet name="trades" sheetId="5" r:id="rId5"/>');
+        const sheet = files["xl/worksheets/sheet5.xml"];
+        expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">005930</t></is></c>');
+        expect(sheet).toContain('<c r="D2"><v>100</v></c>');
+        expect(sheet).toContain('<c r="S2" t="b"><v>1</v></c>');
+    });
+
+    test("XLSX writes ISO dates as date-formatted serial numbers", () => {
+        const files = unzip(toXlsx(tables));
+        // 2026-01-02 = 1899-12-30 + 46024일
+        expect(files["xl/worksheets/sheet5.xml"]).toContain('<c r="C2" s="2"><v>46024</v></c>');
+        expect(files["xl/styles.xml"]).toContain('<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>');
+        expect(files["xl/styles.xml"]).toContain('<cellXfs count="3">');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import {
+    createFixtureProvider,
+    diffGoldenSnapshot,
+    runGoldenSuite,
+    type GoldenSnapshot,
+} from "../src/backtest/golden.js";
+import type { OhlcvRecord } from "../src/backtest/types.js";
+
+function snapshot(trades: { symbol: string; entryDate: string; returnPct: number }[], winRate: number): GoldenSnapshot {
+    return { summary: { winRate, totalTrades: trades.length }, trades } as unknown as GoldenSnapshot;
+}
+
+describe("Golden-file Regression", () => {
+    test("checked-in fixtures reproduce the expected snapshots", async () => {
+        const reports = await runGoldenSuite();
+        expect(reports.length).toBeGreaterThan(0);
+        for (const report of reports) {
+            // print the drifted paths on failure instead of a bare status mismatch
+            expect({ name: report.name, status: report.status, drifts: report.drifts.slice(0, 5) })
+                .toEqual({ name: report.name, status: "pass", drifts: [] });
+        }
+    }, 60_000);
+
+    test("reports drifts beyond the tolerance and matches trades by key", () => {
+        const a = { symbol: "AAA", entryDate: "20240102", returnPct: 1.5 };
+        const b = { symbol: "BBB", entryDate: "20240103", returnPct: -2 };
+        const c = { symbol: "CCC", entryDate: "20240104", returnPct: 3 };
+
+        expect(diffGoldenSnapshot(snapshot([a, b], 50), snapshot([a, { ...b, returnPct: -2.004 }], 50.001),
+            { absolute: 0.01, relative: 0 })).toEqual([]);
+
+        // removing the first trade must not shift every later trade
+        expect(diffGoldenSnapshot(snapshot([a, b], 50), snapshot([b, c], 55))).toEqual([
+            { path: "summary.winRate", kind: "changed", expected: 50, actual: 55, delta: 5 },
+            { path: "trades[AAA:long:20240102]", kind: "removed", expected: a },
+            { path: "trades[CCC:long:20240104]", kind: "added", actual: c },
+        ]);
+
+        expect(diffGoldenSnapshot(snapshot([a], 100), snapshot([a], 110), { absolute: 0, relative: 0.05 }))
+            .toEqual([{ path: "summary.winRate", kind: "changed", expected: 100, actual: 110, delta: 10 }]);
+    });
+
+    test("fixture provider returns warmup bars before the requested range", async () => {
+        const bars: OhlcvRecord[] = ["20240102", "20240103", "20240104", "20240105"]
+            .map(date => ({ date, open: 1, high: 1, low: 1, close: 1, volume: 1 }));
+        const provider = createFixtureProvider(new Map([["AAA", bars]]));
+
+        const ranged = await provider.getDailyBars("AAA", 1, { startDate: "20240104", endDate: "20240104" });
+        expect(ranged.map(b => b.date)).toEqual(["20240103", "20240104"]);
+        expect((await provider.getDailyBars("AAA", 2)).map(b => b.date)).toEqual(["20240104", "20240105"]);
+        expect(await provider.getDailyBars("ZZZ", 2)).toEqual([]);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { SMA, RSI } from "technicalindicators";
+import { calculateATR } from "../src/analysis/signal-generator.js";
+import { calculateVolumeProfile } from "../src/analysis/volume-profile.js";
+import { simulateTrade } from "../src/backtest/engine.js";
+import { buildIndicatorSeries } from "../src/backtest/indicator-series.js";
+import type { OhlcvRecord } from "../src/backtest/types.js";
+
+function makeBars(n: number, seed = 7): OhlcvRecord[] {
+    let s = seed;
+    const rnd = () => { s = (s * 1664525 + 1013904223) % 4294967296; return s / 4294967296; };
+    const bars: OhlcvRecord[] = [];
+    let price = 20_000;
+    for (let i = 0; i < n; i++) {
+        const open = price * (1 + (rnd() - 0.5) * 0.02);
+        const close = open * (1 + (rnd() - 0.48) * 0.04);
+        const high = Math.max(open, close) * (1 + rnd() * 0.015);
+        const low = Math.min(open, close) * (1 - rnd() * 0.015);
+        bars.push({ date: String(20240000 + i), open, high, low, close, volume: Math.round(1e6 * (0.5 + rnd())) });
+        price = close;
+    }
+    return bars;
+}
+
+const last = (arr: number[]) => arr[arr.length - 1];
+
+describe("Indicator Series", () => {
+    const bars = makeBars(200);
+    const series = buildIndicatorSeries(bars);
+
+    test("matches per-simDate slice computation exactly", () => {
+        for (const i of [120, 121, 150, 199]) {
+            const slice = bars.slice(0, i + 1);
+            const closes = slice.map(b => b.close);
+            const snap = series.at(i);
+
+            expect(snap.ma20).toBe(last(SMA.calculate({ period: 20, values: closes })));
+            expect(snap.ma60).toBe(last(SMA.calculate({ period: 60, values: closes })));
+            expect(snap.ma120).toBe(last(SMA.calculate({ period: 120, values: closes })));
+            expect(snap.rsi).toBe(last(RSI.calculate({ period: 14, values: closes })));
+            expect(snap.atr).toBe(calculateATR(slice, 14));
+            expect(snap.recentHigh).toBe(Math.max(...slice.slice(-60).map(b => b.high)));
+            expect(snap.volumeProfile).toEqual(calculateVolumeProfile(slice.slice(-60), slice[i].close, 50, 60));
+        }
+    });
+
+    test("short histories fall back like calculateATR", () => {
+        const short = makeBars(10);
+        expect(buildIndicatorSeries(short).at(9).atr).toBe(calculateATR(short, 14));
+    });
+
+    test("values at index i never change when later bars change (no look-ahead)", () => {
+        const altered = bars.map((b, i) => i > 150 ? { ...b, close: b.close * 3, high: b.high * 3, volume: 1 } : b);
+        const alteredSeries = buildIndicatorSeries(altered);
+        for (const i of [120, 140, 150]) {
+            expect(alteredSeries.at(i)).toEqual(series.at(i));
+        }
+        expect(alteredSeries.at(151)).not.toEqual(series.at(151));
+    });
+
+    test("simulateTrade signals ignore bars after the holding window", () => {
+        const simDate = 140;
+        const holdingPeriod = 10;
+        const altered = bars.map((b, i) => i > simDate + holdingPeriod ? { ...b, open: 1, high: 1, low: 1, close: 1 } : b);
+
+        const original = simulateTrade("AAA", bars, simDate, { holdingPeriod })!.trade;
+        const shifted = simulateTrade("AAA", altered, simDate, { holdingPeriod })!.trade;
+        expect(shifted).toEqual(original);
+    });
+});
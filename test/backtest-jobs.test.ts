@@ -0,0 +1,158 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import {
+    cancelBacktestJob,
+    getBacktestJob,
+    isJobFinished,
+    listBacktestJobs,
+    submitBacktestJob,
+    subscribeBacktestJob,
+} from "../src/backtest/jobs.js";
+import { deleteBacktestResult, loadBacktestResult } from "../src/backtest/result-store.js";
+import type { BacktestConfig, BacktestJob, BacktestJobStatus, OhlcvProvider, OhlcvRecord } from "../src/backtest/types.js";
+
+function trendBars(count: number): OhlcvRecord[] {
+    return Array.from({ length: count }, (_, i) => {
+        const close = 10_000 + i * 20 + (i % 5) * 30;
+        const date = new Date(Date.UTC(2024, 0, 1) + i * 86_400_000).toISOString().slice(0, 10).replace(/-/g, "");
+        return { date, open: close - 10, high: close + 50, low: close - 50, close, volume: 100_000 + (i % 7) * 1000 };
+    });
+}
+
+const provider: OhlcvProvider = {
+    name: "memory",
+    async getDailyBars() {
+        return trendBars(160);
+    },
+};
+
+const emptyProvider: OhlcvProvider = {
+    name: "empty",
+    async getDailyBars() {
+        return [];
+    },
+};
+
+/** 첫 종목 조회에서 멈추는 provider (release 호출 시 진행) */
+function gatedProvider() {
+    let release = () => { };
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const requested: string[] = [];
+    let onRequest = () => { };
+    const started = new Promise<void>(resolve => { onRequest = resolve; });
+    const gated: OhlcvProvider = {
+        name: "gated",
+        async getDailyBars(symbol) {
+            requested.push(symbol);
+            onRequest();
+            await gate;
+            return trendBars(160);
+        },
+    };
+    return { provider: gated, requested, started, release };
+}
+
+const config: BacktestConfig = { universe: ["AAA", "BBB"], gradeFilter: ["A", "B", "C", "D"], holdingPeriod: 5 };
+
+/** 작업 종료까지 대기 (이미 끝났으면 즉시) */
+function waitForJob(id: string): Promise<BacktestJob> {
+    return new Promise(resolve => {
+        const unsubscribe = subscribeBacktestJob(id, (_event, job) => {
+            if (!isJobFinished(job)) return;
+            unsubscribe();
+            resolve(job);
+        });
+        const job = getBacktestJob(id)!;
+        if (isJobFinished(job)) resolve(job);
+    });
+}
+
+// 공유 DB에 저장된 결과는 끝나면 삭제
+const savedResultIds: string[] = [];
+
+describe("Backtest Job Queue", () => {
+    afterAll(() => {
+        for (const id of savedResultIds) deleteBacktestResult(id);
+    });
+
+    test("runs a submitted job to completion and persists the result", async () => {
+        const statuses: BacktestJobStatus[] = [];
+        const submitted = submitBacktestJob({ kind: "run", config }, { provider });
+        expect(submitted.status).toBe("queued");
+
+        subscribeBacktestJob(submitted.id, (event, job) => {
+            if (event === "status") statuses.push(job.status);
+        });
+        const job = await waitForJob(submitted.id);
+
+        expect(statuses).toEqual(["running", "completed"]);
+        expect(job.startedAt).toBeDefined();
+        expect(job.finishedAt).toBeDefined();
+        expect(job.progress?.phase).toBe("simulate");
+        expect(job.resultId).toBeDefined();
+        savedResultIds.push(job.resultId!);
+
+        const stored = await loadBacktestResult(job.resultId!);
+        expect(stored?.config.universe).toEqual(["AAA", "BBB"]);
+    });
+
+    test("removes listeners once a job finishes", async () => {
+        const events: string[] = [];
+        const submitted = submitBacktestJob({ kind: "run", config }, { provider: emptyProvider });
+        subscribeBacktestJob(submitted.id, (event, job) => events.push(`${event}:${job.status}`));
+        await waitForJob(submitted.id);
+        const count = events.length;
+
+        // 끝난 작업에는 구독되지 않고, 취소해도 더 이상 이벤트가 오지 않음
+        const late: string[] = [];
+        subscribeBacktestJob(submitted.id, event => late.push(event));
+        cancelBacktestJob(submitted.id);
+
+        expect(events.at(-1)).toBe("status:failed");
+        expect(events).toHaveLength(count);
+        expect(late).toEqual([]);
+    });
+
+    test("records the error of a failed job", async () => {
+        const submitted = submitBacktestJob({ kind: "run", config }, { provider: emptyProvider });
+        const job = await waitForJob(submitted.id);
+
+        expect(job.status).toBe("failed");
+        expect(job.error?.code).toBe("INSUFFICIENT_DATA");
+        expect(job.resultId).toBeUndefined();
+    });
+
+    test("cancels queued and running jobs", async () => {
+        const gated = gatedProvider();
+        const running = submitBacktestJob({ kind: "run", config }, { provider: gated.provider });
+        const queued = submitBacktestJob({ kind: "run", config }, { provider });
+
+        // 대기 중 취소: 실행되지 않고 바로 종료
+        expect(cancelBacktestJob(queued.id)?.status).toBe("cancelled");
+
+        // 실행 중 취소: 다음 진행 지점에서 signal을 보고 나머지 종목을 조회하지 않음
+        await gated.started;
+        expect(getBacktestJob(running.id)?.status).toBe("running");
+        expect(cancelBacktestJob(running.id)?.status).toBe("cancelled");
+        gated.release();
+        // 큐는 직렬이라 뒤에 넣은 작업이 끝나면 취소된 실행도 정리됨
+        const sentinel = submitBacktestJob({ kind: "run", config }, { provider: emptyProvider });
+        await waitForJob(sentinel.id);
+
+        expect(gated.requested).toEqual(["AAA"]);
+        expect(getBacktestJob(running.id)?.status).toBe("cancelled");
+        expect(getBacktestJob(running.id)?.resultId).toBeUndefined();
+        expect(getBacktestJob(queued.id)?.status).toBe("cancelled");
+        expect(getBacktestJob(queued.id)?.startedAt).toBeUndefined();
+    });
+
+    test("prunes the oldest finished jobs", async () => {
+        const first = submitBacktestJob({ kind: "run", config }, { provider: emptyProvider });
+        let last = first;
+        for (let i = 0; i < 100; i++) last = submitBacktestJob({ kind: "run", config }, { provider: emptyProvider });
+        await waitForJob(last.id);
+
+        expect(getBacktestJob(first.id)).toBeNull();
+        expect(getBacktestJob(last.id)?.status).toBe("failed");
+        expect(listBacktestJobs().filter(isJobFinished).length).toBeLessThanOrEqual(100);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { listSweepCombinations } from "../src/backtest/parameter-sweep.js";
+
+describe("Parameter Sweep Ranges", () => {
+    test("default ranges keep the original 4x3x3x3x3 grid with derived B/C cutoffs", () => {
+        const combos = listSweepCombinations({}, 10);
+        expect(combos.length).toBe(324);
+        expect(combos[0]).toEqual({
+            gradeThreshold: 5,
+            thresholds: { A: 5, B: 3, C: 1 },
+            weights: { technicalScoreMax: 2, rrScoreMax: 1, volumeProfileMax: 1, ma60Max: 0 },
+            holdingPeriod: 10,
+        });
+    });
+
+    test("user ranges override each dimension and drop cutoffs that are not A > B > C", () => {
+        const combos = listSweepCombinations({
+            gradeThreshold: [6],
+            thresholdB: [4, 6],
+            thresholdC: [2, 4],
+            technicalScoreMax: [3],
+            rrScoreMax: [2],
+            volumeProfileMax: [2],
+            ma60Max: [1],
+            holdingPeriod: [5, 10, 15],
+        });
+
+        // B=6 (not < A) and C=4 with B=4 (not < B) are skipped → only 6/4/2
+        expect(new Set(combos.map(c => `${c.thresholds.A}/${c.thresholds.B}/${c.thresholds.C}`))).toEqual(new Set(["6/4/2"]));
+        expect(combos.map(c => c.holdingPeriod)).toEqual([5, 10, 15]);
+    });
+});
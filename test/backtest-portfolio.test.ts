@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { ZERO_COST_MODEL } from "../src/backtest/costs.js";
+import { simulatePortfolio } from "../src/backtest/portfolio.js";
+import type { BacktestTrade, OhlcvRecord } from "../src/backtest/types.js";
+
+const DATES = ["20250102", "20250103", "20250106", "20250107", "20250108"];
+
+function flatBars(price: number): OhlcvRecord[] {
+    return DATES.map(date => ({ date, open: price, high: price, low: price, close: price, volume: 1000 }));
+}
+
+function trade(symbol: string, entryDate: string, exitDate: string, entryPrice: number, exitPrice: number, extra: Partial<BacktestTrade> = {}): BacktestTrade {
+    return {
+        symbol, entryDate, entryPrice, exitDate, exitPrice,
+        swingGrade: "A", gradeScore: 7, technicalScore: 3, rrScore: 2, volumeProfileScore: 2, ma60Score: 1,
+        returnPct: (exitPrice - entryPrice) / entryPrice * 100,
+        netReturnPct: (exitPrice - entryPrice) / entryPrice * 100,
+        exitReason: "holding_period", holdingDays: 3, target2Price: exitPrice,
+        peakPrice: exitPrice, maxFavorableExcursion: 0, maxAdverseExcursion: 0,
+        targetAchieved: false, stopLossHit: false, expectedRR: 2,
+        targetPrice: exitPrice, stopLossPrice: entryPrice * 0.95,
+        positionSizePercent: 50,
+        ...extra,
+    };
+}
+
+describe("Portfolio Simulation", () => {
+    const cache = new Map([["AAA", flatBars(1000)], ["BBB", flatBars(1000)], ["CCC", flatBars(1000)]]);
+
+    test("sizes positions from positionSizePercent and tracks cash-aware equity", () => {
+        const { trades, portfolio } = simulatePortfolio(
+            [trade("AAA", "20250102", "20250106", 1000, 1100)],
+            cache,
+            { initialCapital: 1_000_000, maxPositions: 3 },
+            ZERO_COST_MODEL
+        );
+
+        expect(trades[0].quantity).toBe(500);          // 50% of 1,000,000 at 1,000
+        expect(portfolio.finalEquity).toBe(1_050_000);  // +100 × 500 shares
+        expect(portfolio.totalReturnPct).toBe(5);
+        expect(portfolio.equityCurve[0].cash).toBe(500_000);
+    });
+
+    test("blocks re-entry while holding and respects max concurrent positions", () => {
+        const { trades, portfolio } = simulatePortfolio(
+            [
+                trade("AAA", "20250102", "20250107", 1000, 1000),
+                trade("AAA", "20250103", "20250108", 1000, 1000),    // still holding AAA
+                trade("BBB", "20250103", "20250108", 1000, 1000, { gradeScore: 8 }),
+                trade("CCC", "20250103", "20250108", 1000, 1000),    // limit reached
+            ],
+            cache,
+            { initialCapital: 1_000_000, maxPositions: 2, maxPositionPercent: 20 },
+            ZERO_COST_MODEL
+        );
+
+        expect(trades.map(t => t.symbol)).toEqual(["AAA", "BBB"]);
+        expect(portfolio.skippedSignals).toEqual({ maxPositions: 1, alreadyHolding: 1, insufficientCash: 0 });
+    });
+
+    test("skips signals when cash cannot buy a single share", () => {
+        const { portfolio } = simulatePortfolio(
+            [trade("AAA", "20250102", "20250106", 1000, 1000)],
+            cache,
+            { initialCapital: 500, maxPositions: 1 },
+            ZERO_COST_MODEL
+        );
+        expect(portfolio.executedTrades).toBe(0);
+        expect(portfolio.skippedSignals.insufficientCash).toBe(1);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { runBacktest } from "../src/backtest/engine.js";
+import { runWalkForward } from "../src/backtest/walk-forward.js";
+import type { BacktestConfig, BacktestProgress, OhlcvProvider, OhlcvRecord } from "../src/backtest/types.js";
+
+function trendBars(count: number): OhlcvRecord[] {
+    return Array.from({ length: count }, (_, i) => {
+        const close = 10_000 + i * 20 + (i % 5) * 30;
+        const date = new Date(Date.UTC(2024, 0, 1) + i * 86_400_000).toISOString().slice(0, 10).replace(/-/g, "");
+        return { date, open: close - 10, high: close + 50, low: close - 50, close, volume: 100_000 + (i % 7) * 1000 };
+    });
+}
+
+const provider: OhlcvProvider = {
+    name: "memory",
+    async getDailyBars() {
+        return trendBars(160);
+    },
+};
+
+const config: BacktestConfig = { universe: ["AAA", "BBB", "CCC"], gradeFilter: ["A", "B", "C", "D"], holdingPeriod: 5 };
+
+describe("Backtest Progress & Cancellation", () => {
+    test("reports per-symbol load and simulate progress", async () => {
+        const events: BacktestProgress[] = [];
+        await runBacktest(config, {
+            provider,
+            onProgress: p => events.push(p),
+        });
+
+        expect(events.filter(e => e.phase === "load").map(e => e.symbol)).toEqual(["AAA", "BBB", "CCC"]);
+        expect(events.filter(e => e.phase === "simulate").map(e => e.completed)).toEqual([1, 2, 3]);
+        expect(events.every(e => e.total === 3)).toBe(true);
+    });
+
+    test("aborting the signal stops the run with a CANCELLED error", async () => {
+        const controller = new AbortController();
+        const events: BacktestProgress[] = [];
+        const run = runBacktest(config, {
+            provider,
+            signal: controller.signal,
+            onProgress: p => {
+                events.push(p);
+                if (p.phase === "load" && p.completed === 1) controller.abort();
+            },
+        });
+
+        await expect(run).rejects.toMatchObject({ code: "CANCELLED" });
+        expect(events).toHaveLength(1);
+    });
+});
+
+describe("Walk-forward Progress & Cancellation", () => {
+    const search = { ranges: { gradeThreshold: [7], technicalScoreMax: [3], rrScoreMax: [2], volumeProfileMax: [2], ma60Max: [1], holdingPeriod: [3, 5] } };
+
+    test("reports load progress and stops between candidate combinations", async () => {
+        const controller = new AbortController();
+        const events: BacktestProgress[] = [];
+        const run = runWalkForward(config, { trainBars: 10, testBars: 5 }, {
+            provider,
+            signal: controller.signal,
+            onProgress: p => {
+                events.push(p);
+                if (p.phase === "sweep" && p.completed === 1) controller.abort();
+            },
+        }, search);
+
+        await expect(run).rejects.toMatchObject({ code: "CANCELLED" });
+        expect(events.filter(e => e.phase === "load").map(e => e.symbol)).toEqual(["AAA", "BBB", "CCC"]);
+        expect(events.filter(e => e.phase === "sweep")).toEqual([{ phase: "sweep", completed: 1, total: 2 }]);
+    });
+});
@@ -0,0 +1,77 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { randomUUID } from "crypto";
+import {
+    deleteBacktestResult,
+    listBacktestResults,
+    loadBacktestResult,
+    saveBacktestResult,
+    updateBacktestResultMeta,
+} from "../src/backtest/result-store.js";
+import type { BacktestResult } from "../src/backtest/types.js";
+
+// 공유 DB를 쓰므로 고유 태그로 이 테스트가 만든 결과만 조회하고 끝나면 삭제
+const RUN_TAG = `test-${randomUUID()}`;
+const created: string[] = [];
+
+function result(universe: string[], gradeFilter: BacktestResult["config"]["gradeFilter"], sharpeRatio: number, executedAt: string): BacktestResult {
+    const id = randomUUID();
+    created.push(id);
+    return {
+        id,
+        executedAt,
+        config: { universe, gradeFilter, holdingPeriod: 10 },
+        summary: { totalTrades: 10, winRate: 50, sharpeRatio } as BacktestResult["summary"],
+        gradeBreakdown: [],
+        factorCorrelation: [],
+        equityCurve: [],
+        trades: [],
+    };
+}
+
+afterAll(() => {
+    for (const id of created) deleteBacktestResult(id);
+});
+
+describe("Backtest Result Store", () => {
+    const a = result(["005930", "000660"], ["A"], 0.8, "2026-01-05T09:00:00.000Z");
+    const b = result(["005930"], ["A", "B"], 0.2, "2026-02-10T09:00:00.000Z");
+    const c = result(["035720"], ["A", "B"], 1.1, "2026-03-15T09:00:00.000Z");
+    saveBacktestResult(a, { name: "삼성 A급", tags: [RUN_TAG, "kospi"] });
+    saveBacktestResult(b, { tags: [RUN_TAG] });
+    saveBacktestResult(c, { name: "카카오", tags: [RUN_TAG] });
+
+    test("filters by symbol, grade, min Sharpe and date range", () => {
+        const ids = (q: Parameters<typeof listBacktestResults>[0]) =>
+            listBacktestResults({ tag: RUN_TAG, ...q }).results.map(r => r.id);
+
+        expect(ids({})).toEqual([c.id, b.id, a.id]);
+        expect(ids({ symbol: "005930" })).toEqual([b.id, a.id]);
+        expect(ids({ grades: ["B"] })).toEqual([c.id, b.id]);
+        expect(ids({ minSharpe: 0.5 })).toEqual([c.id, a.id]);
+        expect(ids({ from: "2026-02-01", to: "2026-03-15" })).toEqual([c.id, b.id]);
+        expect(ids({ name: "삼성" })).toEqual([a.id]);
+    });
+
+    test("paginates with total count", () => {
+        const page = listBacktestResults({ tag: RUN_TAG, limit: 2, offset: 2 });
+        expect(page.total).toBe(3);
+        expect(page.results.map(r => r.id)).toEqual([a.id]);
+    });
+
+    test("loads full results with metadata and updates name/tags", async () => {
+        expect(updateBacktestResultMeta(b.id, { name: "renamed", tags: [RUN_TAG, "keep", "keep"] })).toBe(true);
+        const loaded = await loadBacktestResult(b.id);
+        expect(loaded?.name).toBe("renamed");
+        expect(loaded?.tags).toEqual(["keep", RUN_TAG].sort());
+        expect(loaded?.config.universe).toEqual(["005930"]);
+    });
+
+    test("import mode keeps existing rows and delete removes them", () => {
+        expect(saveBacktestResult({ ...a, summary: { ...a.summary, sharpeRatio: 9 } }, {}, true)).toBe(false);
+        expect(listBacktestResults({ tag: RUN_TAG, minSharpe: 5 }).total).toBe(0);
+
+        expect(deleteBacktestResult(c.id)).toBe(true);
+        expect(deleteBacktestResult(c.id)).toBe(false);
+        expect(listBacktestResults({ tag: RUN_TAG }).total).toBe(2);
+    });
+});
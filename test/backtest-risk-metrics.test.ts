@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { buildNetCompoundedCurve, calcRiskMetrics, TRADING_DAYS_PER_YEAR } from "../src/backtest/stats.js";
+import type { BacktestTrade } from "../src/backtest/types.js";
+
+function trade(entryDate: string, exitDate: string, returnPct: number, holdingDays: number): BacktestTrade {
+    const entryPrice = 10_000;
+    return {
+        symbol: "005930", entryDate, exitDate, entryPrice,
+        exitPrice: entryPrice * (1 + returnPct / 100),
+        stopLossPrice: 9_500, expectedRR: 2, returnPct, netReturnPct: returnPct - 0.5, holdingDays,
+    } as BacktestTrade;
+}
+
+/** 2024-01-01부터 평일만 n일 */
+function weekdays(n: number): string[] {
+    const days: string[] = [];
+    for (let t = Date.UTC(2024, 0, 1); days.length < n; t += 86_400_000) {
+        const d = new Date(t);
+        if (d.getUTCDay() !== 0 && d.getUTCDay() !== 6) days.push(d.toISOString().slice(0, 10).replace(/-/g, ""));
+    }
+    return days;
+}
+
+function yearsOf(from: string, to: string): number {
+    const toMs = (d: string) => Date.UTC(+d.slice(0, 4), +d.slice(4, 6) - 1, +d.slice(6, 8));
+    return (toMs(to) - toMs(from)) / 86_400_000 / 365.25;
+}
+
+describe("Risk Metrics", () => {
+    const days = weekdays(300);
+    const trades = [
+        trade(days[0], days[4], 5, 5),
+        trade(days[10], days[14], -2.5, 5),
+        trade(days[12], days[16], -1, 5),
+        trade(days[30], days[39], 10, 10),
+        trade(days[250], days[259], -5, 10),
+    ];
+
+    test("computes time-based metrics on the trading-day axis", () => {
+        const risk = calcRiskMetrics(trades, days);
+
+        // 5 + 10 = 15일 보유 구간 (days[10]~[16]은 7일) → 5 + 7 + 10 + 10 = 32일 / 260일
+        expect(risk.exposurePct).toBeCloseTo(32 / 260 * 100, 2);
+        expect(risk.avgHoldingDays).toBe(7);
+        expect(risk.longestLosingStreak).toBe(2);
+        // 1R = 500원, 비용 0.5% = 50원 = 0.1R: (+0.9, -0.6, -0.3, +1.9, -1.1) / 5
+        expect(risk.expectancyR).toBeCloseTo(0.16, 4);
+        expect(risk.avgExpectedRR).toBe(2);
+
+        // 최종 지수 = net 수익률(4.5, -3, -1.5, 9.5, -5.5) 복리, 기간 = 달력일 / 365.25
+        const final = [4.5, -3, -1.5, 9.5, -5.5].reduce((acc, r) => acc * (1 + r / 100), 1);
+        expect(risk.years).toBeCloseTo(yearsOf(days[0], days[259]), 3);
+        expect(risk.cagr).toBeCloseTo((Math.pow(final, 1 / risk.years) - 1) * 100, 2);
+        expect(risk.calmarRatio).toBeGreaterThan(0);
+        expect(risk.ulcerIndex).toBeGreaterThan(0);
+    });
+
+    test("annualizes Sharpe from daily index returns", () => {
+        const risk = calcRiskMetrics(trades, days);
+
+        const curve = new Map(buildNetCompoundedCurve(trades).map(p => [p.date, 100 + p.cumulativeReturn]));
+        let level = 100;
+        const index = days.slice(0, 260).map(d => (level = curve.get(d) ?? level));
+        const returns = index.slice(1).map((v, i) => v / index[i] - 1);
+        const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+        const std = Math.sqrt(returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1));
+        expect(risk.annualizedSharpe).toBeCloseTo(mean / std * Math.sqrt(TRADING_DAYS_PER_YEAR), 3);
+        expect(risk.sortinoRatio).toBeGreaterThan(0);
+    });
+
+    test("measures CAGR and drawdown-based metrics after costs", () => {
+        const gross = calcRiskMetrics(trades.map(t => ({ ...t, netReturnPct: t.returnPct })), days);
+        const net = calcRiskMetrics(trades, days);
+
+        // 비용 없으면 5, -2.5, -1, 10, -5 복리
+        const grossFinal = [5, -2.5, -1, 10, -5].reduce((acc, r) => acc * (1 + r / 100), 1);
+        expect(gross.cagr).toBeCloseTo((Math.pow(grossFinal, 1 / gross.years) - 1) * 100, 2);
+        expect(net.cagr).toBeLessThan(gross.cagr);
+        expect(net.calmarRatio).toBeLessThan(gross.calmarRatio);
+        expect(net.ulcerIndex).toBeGreaterThan(gross.ulcerIndex);
+        expect(net.sortinoRatio).toBeLessThan(gross.sortinoRatio);
+    });
+
+    test("uses the portfolio equity curve when given", () => {
+        const curve = [{ date: days[4], cumulativeReturn: 10 }, { date: days[259], cumulativeReturn: 21 }];
+        const risk = calcRiskMetrics(trades, days, curve);
+        expect(risk.cagr).toBeCloseTo((Math.pow(1.21, 1 / risk.years) - 1) * 100, 2);
+    });
+
+    test("returns zeros without trades", () => {
+        const risk = calcRiskMetrics([], days);
+        expect(risk.cagr).toBe(0);
+        expect(risk.longestLosingStreak).toBe(0);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { evaluateRule, validateStrategyRules } from "../src/backtest/strategy-rules.js";
+import { runBacktest } from "../src/backtest/engine.js";
+import { getIndicatorSeries } from "../src/backtest/indicator-series.js";
+import type { OhlcvProvider, OhlcvRecord, RuleNode, StrategyRules } from "../src/backtest/types.js";
+
+function dailyBars(count: number): OhlcvRecord[] {
+    return Array.from({ length: count }, (_, i) => {
+        const close = 10_000 + i * 10 + Math.sin(i / 4) * 400;
+        const date = new Date(Date.UTC(2024, 0, 1) + i * 86_400_000).toISOString().slice(0, 10).replace(/-/g, "");
+        return { date, open: close - 20, high: close + 80, low: close - 80, close, volume: 100_000 + (i % 9) * 5_000 };
+    });
+}
+
+const example: RuleNode = {
+    all: [
+        { field: "rsi", op: "<", value: 35 },
+        { field: "close", op: ">", value: { field: "ma60" } },
+        { field: "vp.pricePosition", op: "==", value: "above_poc" },
+    ],
+};
+
+describe("Strategy Rules", () => {
+    const bars = dailyBars(300);
+    const provider: OhlcvProvider = { name: "memory", getDailyBars: async () => bars };
+
+    test("validates rule trees with zod", () => {
+        expect(validateStrategyRules({ entry: example, exit: { field: "returnPct", op: ">=", value: 5 } })).toBeNull();
+        expect(validateStrategyRules({ entry: { any: [{ field: "macd", op: "<", value: 0 }] } })).toContain("entry.any.0.field");
+        expect(validateStrategyRules({ entry: { field: "rsi", op: "<", value: "low" } })).toContain("number");
+        expect(validateStrategyRules({ entry: { field: "vp.pricePosition", op: ">", value: "above_poc" } })).toContain("== and !=");
+        expect(validateStrategyRules({ entry: { field: "holdingDays", op: ">", value: 3 } })).toContain("only available in exit rules");
+        expect(validateStrategyRules({ entry: { all: [] } })).not.toBeNull();
+    });
+
+    test("evaluates conditions against the indicator snapshot; missing values never match", () => {
+        const ind = getIndicatorSeries(bars).at(200);
+        const ctx = { bar: bars[200], ind };
+        expect(evaluateRule({ field: "close", op: "==", value: bars[200].close }, ctx)).toBe(true);
+        expect(evaluateRule({ field: "ma20", op: ">", value: { field: "ma120" } }, ctx)).toBe(ind.ma20! > ind.ma120!);
+        expect(evaluateRule({ any: [{ field: "rsi", op: "<", value: 0 }, { not: { field: "rsi", op: "<", value: 0 } }] }, ctx)).toBe(true);
+
+        const early = { bar: bars[10], ind: getIndicatorSeries(bars).at(10) };
+        expect(evaluateRule({ field: "ma120", op: ">", value: 0 }, early)).toBe(false);
+        expect(evaluateRule({ field: "grade", op: "==", value: "A" }, early)).toBe(false);
+    });
+
+    test("entry rules replace the grade filter and exit rules close at that bar's close", async () => {
+        const series = getIndicatorSeries(bars);
+        const strategy: StrategyRules = {
+            entry: { field: "rsi", op: "<", value: 45 },
+            exit: { field: "returnPct", op: ">=", value: 1 },
+        };
+        const result = await runBacktest(
+            { universe: ["AAA"], gradeFilter: [], holdingPeriod: 10, strategy },
+            { provider }
+        );
+
+        expect(result.config.strategy).toEqual(strategy);
+        expect(result.trades.length).toBeGreaterThan(0);
+        for (const t of result.trades) {
+            const entryIdx = bars.findIndex(b => b.date === t.entryDate);
+            expect(series.at(entryIdx - 1).rsi!).toBeLessThan(45);
+            if (t.exitReason === "rule") {
+                const exitBar = bars.find(b => b.date === t.exitDate)!;
+                expect(t.exitPrice).toBeCloseTo(exitBar.close, 4);
+                expect(t.returnPct).toBeGreaterThanOrEqual(1);
+            }
+        }
+        expect(result.trades.some(t => t.exitReason === "rule")).toBe(true);
+    });
+});
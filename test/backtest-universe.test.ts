@@ -0,0 +1,114 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { randomUUID } from "crypto";
+import { runBacktest } from "../src/backtest/engine.js";
+import {
+    createMembershipFilter,
+    deleteUniverse,
+    getUniverseSymbolsAsOf,
+    listUniverses,
+    loadUniverse,
+    membersInRange,
+    normalizeUniverseMembers,
+    parseUniverseCsv,
+    saveUniverse,
+} from "../src/backtest/universe-store.js";
+import type { BacktestConfig, OhlcvProvider, OhlcvRecord } from "../src/backtest/types.js";
+
+function dailyBars(count: number): OhlcvRecord[] {
+    return Array.from({ length: count }, (_, i) => {
+        const close = 10_000 + i * 10 + Math.sin(i / 4) * 400;
+        const date = new Date(Date.UTC(2024, 0, 1) + i * 86_400_000).toISOString().slice(0, 10).replace(/-/g, "");
+        return { date, open: close - 20, high: close + 80, low: close - 80, close, volume: 100_000 + (i % 9) * 5_000 };
+    });
+}
+
+// 공유 DB를 쓰므로 고유 이름으로 만들고 끝나면 삭제
+const NAME = `test-${randomUUID().slice(0, 8)}`;
+
+describe("Point-in-time Universes", () => {
+    afterAll(() => {
+        deleteUniverse(NAME);
+    });
+
+    test("parses CSV membership and rejects overlapping periods", () => {
+        const members = parseUniverseCsv("symbol,effective_from,effective_to\n000660,2024-01-01,\n005930,20240101,20240630\n005930,20240801,\n");
+        expect(members).toEqual([
+            { symbol: "000660", effectiveFrom: "20240101", effectiveTo: null },
+            { symbol: "005930", effectiveFrom: "20240101", effectiveTo: "20240630" },
+            { symbol: "005930", effectiveFrom: "20240801", effectiveTo: null },
+        ]);
+        expect(() => normalizeUniverseMembers([
+            { symbol: "005930", effectiveFrom: "20240101", effectiveTo: "20240630" },
+            { symbol: "005930", effectiveFrom: "20240601" },
+        ])).toThrow("overlapping");
+        expect(() => parseUniverseCsv("symbol,from\n005930,20240101")).toThrow("effective_from");
+
+        const isMember = createMembershipFilter(members);
+        expect(isMember("005930", "20240630")).toBe(true);
+        expect(isMember("005930", "20240715")).toBe(false);
+        expect(isMember("005930", "20250101")).toBe(true);
+        expect(isMember("035420", "20240301")).toBe(false);
+        expect(membersInRange(members, { startDate: "20240701", endDate: "20240731" }).map(m => m.symbol)).toEqual(["000660"]);
+    });
+
+    test("stores universes with as-of lookups", () => {
+        saveUniverse({
+            name: NAME,
+            description: "test",
+            members: [
+                { symbol: "005930", effectiveFrom: "20200101" },
+                { symbol: "999990", effectiveFrom: "20200101", effectiveTo: "20221231" },
+            ],
+        });
+        const universe = loadUniverse(NAME)!;
+        expect(universe.market).toBe("KR");
+        expect(getUniverseSymbolsAsOf(universe, "20220601")).toEqual(["005930", "999990"]);
+        expect(getUniverseSymbolsAsOf(universe, "20230102")).toEqual(["005930"]);
+        expect(listUniverses().find(u => u.name === NAME)).toMatchObject({ symbolCount: 2, currentCount: 1 });
+    });
+
+    test("only signals on member dates and skips symbols without enough data", async () => {
+        const bars = dailyBars(300);
+        const data: Record<string, OhlcvRecord[]> = { "005930": bars, "999990": [], "888880": bars.slice(0, 60) };
+        const provider: OhlcvProvider = { name: "memory", getDailyBars: async symbol => data[symbol] };
+        const joined = bars[200].date;
+
+        const result = await runBacktest({
+            universe: ["005930", "999990", "888880"],
+            membership: [
+                { symbol: "005930", effectiveFrom: joined },
+                { symbol: "999990", effectiveFrom: "20240101", effectiveTo: "20240301" },
+                { symbol: "888880", effectiveFrom: "20240101", effectiveTo: "20240301" },
+            ],
+            gradeFilter: ["A", "B", "C", "D"],
+            holdingPeriod: 5,
+        }, { provider });
+
+        expect(result.trades.length).toBeGreaterThan(0);
+        expect(result.trades.every(t => t.symbol === "005930" && t.entryDate > joined)).toBe(true);
+        expect(result.skippedSymbols).toEqual([
+            { symbol: "999990", reason: "no_data", bars: 0 },
+            { symbol: "888880", reason: "insufficient_data", bars: 60 },
+        ]);
+
+        await expect(runBacktest({ universe: ["999990"], gradeFilter: ["A"], holdingPeriod: 5 }, { provider }))
+            .rejects.toMatchObject({ code: "INSUFFICIENT_DATA" });
+    });
+
+    test("skips symbols whose bars lie outside the requested range", async () => {
+        const bars = dailyBars(300);
+        const provider: OhlcvProvider = { name: "memory", getDailyBars: async () => bars };
+        const config: BacktestConfig = { universe: ["005930"], gradeFilter: ["A", "B", "C", "D"], holdingPeriod: 5 };
+
+        // 저장 데이터(2024-01 ~ 2024-10) 이후 구간만 요청
+        await expect(runBacktest({ ...config, startDate: "20300101" }, { provider }))
+            .rejects.toMatchObject({ code: "INSUFFICIENT_DATA" });
+
+        // 000660은 2024-07에 끝나 9월 이후 시그널일이 없음
+        const result = await runBacktest(
+            { ...config, universe: ["005930", "000660"], startDate: "20240901" },
+            { provider: { name: "memory", getDailyBars: async symbol => symbol === "005930" ? bars : bars.slice(0, 200) } }
+        );
+        expect(result.skippedSymbols).toEqual([{ symbol: "000660", reason: "insufficient_data", bars: 200 }]);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { runBacktest, simulateTrade } from "../src/backtest/engine.js";
+import { resolveCostModel } from "../src/backtest/costs.js";
+import { scoreUsStock } from "../src/analysis/scorer.js";
+import type { OhlcvProvider, OhlcvRecord } from "../src/backtest/types.js";
+
+/** 달러 가격대 상승 추세 일봉 (소수점 가격) */
+function usBars(count: number): OhlcvRecord[] {
+    return Array.from({ length: count }, (_, i) => {
+        const close = 100 + i * 0.37 + (i % 5) * 0.9;
+        const date = new Date(Date.UTC(2024, 0, 1) + i * 86_400_000).toISOString().slice(0, 10).replace(/-/g, "");
+        return { date, open: close - 0.25, high: close + 1.3, low: close - 1.3, close, volume: 2_000_000 + (i % 7) * 50_000 };
+    });
+}
+
+describe("US Market Backtest", () => {
+    const bars = usBars(300);
+
+    test("prices are kept in cents and US costs are applied", () => {
+        const params = { holdingPeriod: 5, market: "US" as const, costs: resolveCostModel(undefined, "US") };
+        const trade = simulateTrade("AAPL", bars, 200, params)!.trade;
+
+        for (const price of [trade.targetPrice, trade.target2Price, trade.stopLossPrice]) {
+            expect(Number.isInteger(price)).toBe(false);
+            expect(Math.round(price * 100) / 100).toBe(price);
+        }
+
+        // 수수료 25bp + $0.01 슬리피지 (양방향) + SEC fee
+        const buy = (trade.entryPrice + 0.01) * (1 + 25 / 10_000);
+        const sell = (trade.exitPrice - 0.01) * (1 - 25 / 10_000 - 0.00278 / 100);
+        expect(trade.netReturnPct).toBeCloseTo((sell / buy - 1) * 100, 4);
+    });
+
+    test("technical score comes from scoreUsStock", () => {
+        const us = simulateTrade("AAPL", bars, 200, { holdingPeriod: 5, market: "US" })!.trade;
+        const kr = simulateTrade("AAPL", bars, 200, { holdingPeriod: 5 })!.trade;
+
+        // 저변동성 상승 추세: US는 risk 가점까지 받아 50 + total×8 ≥ 70 → 기술점수 만점
+        const { scores } = scoreUsStock(110, 105, 100, 95, 60, 2_500_000, 2_000_000, 1);
+        expect(scores).toEqual({ trend: 3, momentum: 2, risk: 1, total: 6 });
+        expect(us.technicalScore).toBeGreaterThanOrEqual(kr.technicalScore);
+    });
+
+    test("runBacktest uses US defaults when market is US", async () => {
+        const provider: OhlcvProvider = { name: "memory", getDailyBars: async () => bars };
+        const result = await runBacktest(
+            { market: "US", exchange: "NYS", universe: ["IBM"], gradeFilter: ["A", "B", "C", "D"], holdingPeriod: 5 },
+            { provider }
+        );
+
+        expect(result.trades.length).toBeGreaterThan(0);
+        const t = result.trades[0];
+        const buy = (t.entryPrice + 0.01) * (1 + 25 / 10_000);
+        const sell = (t.exitPrice - 0.01) * (1 - 25 / 10_000 - 0.00278 / 100);
+        expect(t.netReturnPct).toBeCloseTo((sell / buy - 1) * 100, 4);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_WALK_FORWARD, evaluateWalkForward } from "../src/backtest/walk-forward.js";
+import type { SweepTradeResult } from "../src/backtest/parameter-sweep.js";
+
+const AXIS = Array.from({ length: 12 }, (_, i) => `202501${String(i + 1).padStart(2, "0")}`);
+
+function trade(entryIdx: number, exitIdx: number, ret: number): SweepTradeResult {
+    return { symbol: "AAA", entryDate: AXIS[entryIdx], exitDate: AXIS[exitIdx] ?? "20250199", returnPct: ret, netReturnPct: ret };
+}
+
+const weights = (tech: number) => ({ technicalScoreMax: tech, rrScoreMax: 2, volumeProfileMax: 2, ma60Max: 1 });
+
+describe("Walk-forward Evaluation", () => {
+    const wf = { ...DEFAULT_WALK_FORWARD, trainBars: 4, testBars: 2, stepBars: 2, objective: "avgReturn" as const, minTrades: 2 };
+
+    // "good" wins in the first training window only; "steady" is flat everywhere
+    const combos = [
+        {
+            combo: { gradeThreshold: 7, thresholds: { A: 7, B: 5, C: 3 }, weights: weights(3), holdingPeriod: 10 },
+            trades: [trade(0, 1, 5), trade(1, 2, 5), trade(2, 3, 5), trade(4, 5, -4), trade(5, 6, -4), trade(6, 7, -4)],
+        },
+        {
+            combo: { gradeThreshold: 6, thresholds: { A: 6, B: 4, C: 2 }, weights: weights(2), holdingPeriod: 10 },
+            trades: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(i => trade(i, i + 1, 1)),
+        },
+    ];
+
+    test("only trades closed inside the training window are used for selection", () => {
+        const result = evaluateWalkForward(AXIS, combos, wf);
+        const first = result.windows[0];
+
+        expect([first.trainStart, first.trainEnd, first.testStart, first.testEnd])
+            .toEqual(["20250101", "20250104", "20250105", "20250106"]);
+        expect(first.selected?.gradeThreshold).toBe(7);
+        expect(first.selected?.inSample.totalTrades).toBe(3);   // trade(3→4) exits after trainEnd
+        expect(first.outOfSample.avgReturn).toBe(-4);           // evaluated on unseen window
+    });
+
+    test("stitches out-of-sample trades and reports parameter stability", () => {
+        const result = evaluateWalkForward(AXIS, combos, wf);
+
+        expect(result.windows.map(w => w.testStart)).toEqual(["20250105", "20250107", "20250109", "20250111"]);
+        expect(result.outOfSample.totalTrades).toBe(result.windows.reduce((acc, w) => acc + w.outOfSample.totalTrades, 0));
+        expect(result.equityCurve.length).toBeGreaterThan(0);
+
+        const thresholds = result.parameterStability.parameters.find(p => p.parameter === "gradeThreshold")!;
+        expect(thresholds.values[0]).toBe(7);
+        expect(thresholds.changes).toBeGreaterThanOrEqual(1);
+        expect(result.parameterStability.consistency).toBeLessThan(1);
+    });
+
+    test("treats holding periods and B/C thresholds as distinct selections", () => {
+        // same A cutline and weights, only the holding period differs
+        const byHoldingPeriod = combos.map((c, i) => ({
+            ...c,
+            combo: { ...combos[0].combo, holdingPeriod: [5, 20][i] },
+        }));
+        const result = evaluateWalkForward(AXIS, byHoldingPeriod, wf);
+
+        expect(result.windows[0].selected?.holdingPeriod).toBe(5);
+        expect(result.windows[1].selected?.holdingPeriod).toBe(20);
+        expect(result.windows[0].selected?.thresholds).toEqual({ A: 7, B: 5, C: 3 });
+        expect(result.parameterStability.distinctCombinations).toBe(2);
+        expect(result.parameterStability.consistency).toBeLessThan(1);
+
+        const holding = result.parameterStability.parameters.find(p => p.parameter === "holdingPeriod")!;
+        expect(holding.values.slice(0, 2)).toEqual([5, 20]);
+        expect(holding.changes).toBeGreaterThanOrEqual(1);
+        expect(result.parameterStability.parameters.map(p => p.parameter)).toContain("thresholdB");
+    });
+
+    test("successive halving screens candidates on thinned training-window trades", () => {
+        // "odd" has the best full in-sample return but no trades on the coarse (every 2nd day) rung
+        const odd = {
+            combo: { gradeThreshold: 8, thresholds: { A: 8, B: 6, C: 4 }, weights: weights(4), holdingPeriod: 10 },
+            trades: [trade(1, 2, 9)],
+        };
+        const oneTrade = { ...wf, minTrades: 1 };
+
+        expect(evaluateWalkForward(AXIS, [...combos, odd], oneTrade).windows[0].selected?.gradeThreshold).toBe(8);
+        expect(evaluateWalkForward(AXIS, [...combos, odd], oneTrade, 2).windows[0].selected?.gradeThreshold).toBe(7);
+    });
+
+    test("windows without enough training trades stay flat", () => {
+        const result = evaluateWalkForward(AXIS, combos, { ...wf, minTrades: 50 });
+        expect(result.windows.every(w => w.selected === null)).toBe(true);
+        expect(result.outOfSample.totalTrades).toBe(0);
+        expect(result.parameterStability.mostFrequent).toBeNull();
+    });
+});
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+    clearIndexTrendCache,
+    deriveIndexTrend,
+    getKrIndexTrend,
+    resolveKrMainIndex,
+    type IndexBarsLoader,
+} from "../src/tools/korea/index-trend.js";
+
+function indexBars(count: number, step: number): { date: string; close: number }[] {
+    return Array.from({ length: count }, (_, i) => ({ date: String(20250101 + i), close: 2500 + i * step }));
+}
+
+describe("KR Index Trend", () => {
+    beforeEach(() => clearIndexTrendCache());
+
+    test("picks KOSDAQ for KOSDAQ-listed market names, otherwise KOSPI", () => {
+        expect(resolveKrMainIndex("KOSPI200")).toBe("KOSPI");
+        expect(resolveKrMainIndex("KSQ150")).toBe("KOSDAQ");
+        expect(resolveKrMainIndex("KOSDAQ")).toBe("KOSDAQ");
+        expect(resolveKrMainIndex(undefined)).toBe("KOSPI");
+    });
+
+    test("derives the trend from the index's own MA20/MA60 alignment", () => {
+        const up = deriveIndexTrend("KOSPI", indexBars(80, 5))!;
+        expect(up).toMatchObject({ index: "KOSPI", trend: "up", close: 2895, ma20: 2847.5, ma60: 2747.5 });
+        expect(up.change20dPct).toBeCloseTo((2895 / 2795 - 1) * 100, 2);
+
+        expect(deriveIndexTrend("KOSDAQ", indexBars(80, -3))!.trend).toBe("down");
+
+        // close dipped under MA20 while MA20 > MA60 → mixed alignment
+        const dip = indexBars(80, 5);
+        dip[dip.length - 1].close = 2800;
+        expect(deriveIndexTrend("KOSPI", dip)!.trend).toBe("flat");
+
+        expect(deriveIndexTrend("KOSPI", indexBars(30, 5))).toMatchObject({ trend: "flat", ma20: null, ma60: null });
+        expect(deriveIndexTrend("KOSPI", [])).toBeNull();
+    });
+
+    test("fetches each index once per trading day and retries after a failure", async () => {
+        let calls = 0;
+        const loader: IndexBarsLoader = async () => { calls++; return indexBars(80, 5); };
+        const [a, b] = await Promise.all([getKrIndexTrend("KOSPI", loader), getKrIndexTrend("KOSPI", loader)]);
+        await getKrIndexTrend("KOSPI", loader);
+        expect(a).toBe(b);
+        expect(calls).toBe(1);
+
+        await getKrIndexTrend("KOSDAQ", loader);
+        expect(calls).toBe(2);
+
+        const failing: IndexBarsLoader = async () => { calls++; throw new Error("KIS down"); };
+        clearIndexTrendCache();
+        await expect(getKrIndexTrend("KOSPI", failing)).rejects.toThrow("KIS down");
+        expect((await getKrIndexTrend("KOSPI", loader))!.trend).toBe("up");
+        expect(calls).toBe(4);
+    });
+});
@@ -0,0 +1,98 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { db } from "../src/mcp-gateway/db.js";
+import {
+    backfillOhlcvFromKis,
+    getStoredOhlcv,
+    getStoredRange,
+    initializeOhlcvSchema,
+    normalizeKisOhlcv,
+    parseOhlcvCsv,
+    upsertOhlcv,
+} from "../src/backtest/ohlcv-store.js";
+import type { OhlcvDateRange, OhlcvRecord } from "../src/backtest/types.js";
+
+describe("OHLCV Store CSV Import", () => {
+    test("groups rows by symbol column and normalizes dates", () => {
+        const csv = [
+            "symbol,date,open,high,low,close,volume",
+            "005930,2025-01-02,100,110,95,105,1000",
+            "005930,20250103,105,112,101,110,1200",
+            "000660,2025-01-02,200,210,190,205,500",
+        ].join("\n");
+
+        const parsed = parseOhlcvCsv(csv);
+        expect([...parsed.keys()]).toEqual(["005930", "000660"]);
+        expect(parsed.get("005930")!.map(r => r.date)).toEqual(["20250102", "20250103"]);
+        expect(parsed.get("000660")![0]).toEqual({
+            date: "20250102", open: 200, high: 210, low: 190, close: 205, volume: 500,
+        });
+    });
+
+    test("uses default symbol when the file has no symbol column", () => {
+        const csv = "\uFEFFDate,Open,High,Low,Close,Volume\r\n20250102,1,2,0.5,1.5,10\r\n";
+        const parsed = parseOhlcvCsv(csv, "069500");
+        expect(parsed.get("069500")!.length).toBe(1);
+    });
+
+    test("rejects missing columns, missing symbol and bad values", () => {
+        expect(() => parseOhlcvCsv("date,open,high,low,close\n20250102,1,2,0,1", "X")).toThrow("volume");
+        expect(() => parseOhlcvCsv("date,open,high,low,close,volume\n20250102,1,2,0,1,1")).toThrow("symbol");
+        expect(() => parseOhlcvCsv("date,open,high,low,close,volume\n20250102,1,abc,0,1,1", "X")).toThrow("line 2");
+    });
+});
+
+describe("KIS OHLCV Normalization", () => {
+    test("reverses newest-first KIS rows into ascending numeric records", () => {
+        const records = normalizeKisOhlcv([
+            { date: "20250103", open: "105", high: "112", low: "101", close: "110", volume: "1200" },
+            { date: "20250102", open: "100", high: "110", low: "95", close: "105", volume: "1000" },
+        ]);
+        expect(records.map(r => r.date)).toEqual(["20250102", "20250103"]);
+        expect(records[1].close).toBe(110);
+    });
+});
+
+describe("KIS OHLCV Backfill", () => {
+    const symbol = "ZZBACKFILL";
+
+    // Weekday bars 2023-01-02 ~ 2025-03-31 standing in for the KIS history
+    const calendar: OhlcvRecord[] = [];
+    for (let t = Date.UTC(2023, 0, 2); t <= Date.UTC(2025, 2, 31); t += 86_400_000) {
+        const d = new Date(t);
+        if (d.getUTCDay() === 0 || d.getUTCDay() === 6) continue;
+        const date = d.toISOString().slice(0, 10).replace(/-/g, "");
+        calendar.push({ date, open: 100, high: 101, low: 99, close: 100, volume: 1000 });
+    }
+
+    // Same trimming as the KIS client: newest `period` bars up to endDate (plus startDate~endDate when given)
+    const calls: { period: number; range: OhlcvDateRange }[] = [];
+    const fetchBars = async (_symbol: string, period: number, range: OhlcvDateRange = {}) => {
+        calls.push({ period, range });
+        const upToEnd = calendar.filter(b => !range.endDate || b.date <= range.endDate);
+        if (!range.startDate) return upToEnd.slice(-period);
+        const warmup = upToEnd.filter(b => b.date < range.startDate!).slice(-period);
+        return [...warmup, ...upToEnd.filter(b => b.date >= range.startDate!)];
+    };
+
+    afterAll(() => {
+        db.run("DELETE FROM ohlcv_daily WHERE symbol = ?", [symbol]);
+    });
+
+    test("an endDate-only range older than the stored bars is filled without leaving a gap", async () => {
+        initializeOhlcvSchema();
+        upsertOhlcv(symbol, calendar.filter(b => b.date >= "20250102"), "csv");
+
+        const fetched = await backfillOhlcvFromKis(symbol, 130, { endDate: "20240628" }, {}, fetchBars);
+
+        expect(fetched).toBe(true);
+        expect(calls.length).toBe(1);
+        expect(getStoredOhlcv(symbol, { endDate: "20240628" }).length).toBeGreaterThanOrEqual(130);
+
+        // Stored history stays contiguous from the oldest fetched bar through the original data
+        const range = getStoredRange(symbol)!;
+        expect(range.count).toBe(calendar.filter(b => b.date >= range.firstDate).length);
+
+        // Enough history is now stored → no further KIS call
+        expect(await backfillOhlcvFromKis(symbol, 130, { endDate: "20240628" }, {}, fetchBars)).toBe(false);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { analyze, calculateConfidence } from "../src/analysis/scorer.js";
+import { ConfidenceLevel, type AnalysisRequest } from "../src/analysis/types.js";
+
+const now = new Date("2026-02-11T09:00:00+09:00");
+
+const baseRequest: AnalysisRequest = {
+    symbol: "TSEM",
+    market: "US",
+    timestamp: "2026-02-10T22:58:00+09:00",
+    price: 100,
+    moving_averages: { ma20: 90, ma60: 80, ma120: 70 },
+    volume: { avg_5d: 120, avg_20d: 100 },
+    momentum: { rsi_14: 60 },
+    index_context: { main_index: "NASDAQ", index_trend: "up" },
+    fundamentals: { per: 8, pbr: 0.9, roe: 12, debt_ratio: 50, op_margin: 10 },
+};
+
+const strongScores = { trend: 3, momentum: 2, flow: 1, risk: 0, fundamental: 3, total: 9 };
+
+describe("Scorer Confidence", () => {
+    test("complete, consistent, fresh input far from a boundary is HIGH", () => {
+        const result = calculateConfidence(baseRequest, strongScores, { now });
+        expect(result.level).toBe(ConfidenceLevel.HIGH);
+        expect(result.reasons).toHaveLength(1);
+    });
+
+    test("each weakness adds a reason and lowers the level", () => {
+        // Two missing fundamentals → MEDIUM
+        const partial = { ...baseRequest, fundamentals: { per: 8, pbr: 0.9, roe: 12 } };
+        const missing = calculateConfidence(partial, strongScores, { now });
+        expect(missing.level).toBe(ConfidenceLevel.MEDIUM);
+        expect(missing.reasons[0]).toContain("2개 누락 (op_margin, debt_ratio)");
+
+        // Trend up but market flow down, total right on the BUY_DIPS boundary → MEDIUM
+        const mixed = calculateConfidence(baseRequest, { ...strongScores, momentum: 0, flow: -1, fundamental: 1, total: 3 }, { now });
+        expect(mixed.level).toBe(ConfidenceLevel.MEDIUM);
+        expect(mixed.reasons).toEqual(["하위 점수 불일치: 추세 긍정 vs 시장흐름 부정", "총점 3점이 판단 경계(3점)에 인접"]);
+
+        // One point short of a threshold counts as near the boundary too
+        expect(calculateConfidence(baseRequest, { ...strongScores, total: 5 }, { now }).reasons[0]).toContain("경계(6점)");
+
+        // Week-old data alone is worth two penalty points; a fetch warning tips it to LOW
+        const stale = calculateConfidence(baseRequest, strongScores, {
+            now,
+            dataAsOf: new Date("2026-02-02T15:30:00+09:00"),
+            dataWarnings: ["KOSPI 지수 추세 조회 실패 → 시장흐름 flat 가정"],
+        });
+        expect(stale.level).toBe(ConfidenceLevel.LOW);
+        expect(stale.reasons).toEqual(["데이터 기준 시각이 8일 경과", "KOSPI 지수 추세 조회 실패 → 시장흐름 flat 가정"]);
+    });
+
+    test("analyze() reports the computed level and reasons", () => {
+        // No fundamentals at all (-2) and total 5 sits just under the 6-point threshold (-1) → LOW
+        const { fundamentals, ...withoutFundamentals } = baseRequest;
+        const result = analyze(withoutFundamentals, { now });
+        expect(result.confidence_level).toBe(ConfidenceLevel.LOW);
+        expect(result.confidence_reasons[0]).toContain("5개 누락");
+
+        expect(analyze(baseRequest, { now }).confidence_reasons.length).toBeGreaterThan(0);
+    });
+});
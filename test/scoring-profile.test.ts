@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { analyze, calculateMomentumScore } from "../src/analysis/scorer.js";
+import {
+    DEFAULT_SCORING_PROFILE,
+    getScoringProfile,
+    loadScoringProfiles,
+    parseScoringProfile,
+    reloadScoringProfiles,
+} from "../src/analysis/scoring-profile.js";
+import { calcSwingGrade } from "../src/analysis/signal-generator.js";
+import type { AnalysisRequest } from "../src/analysis/types.js";
+import { runBacktest } from "../src/backtest/engine.js";
+
+const dir = mkdtempSync(join(tmpdir(), "scoring-profile-"));
+
+describe("Scoring Profiles", () => {
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+        reloadScoringProfiles();
+    });
+
+    test("merges partial profile files over the built-in defaults and validates them", () => {
+        const profile = parseScoringProfile({ version: 2, scorer: { rsi: { min: 45 } } }, "tight");
+        expect(profile).toMatchObject({ name: "tight", version: "2", scorer: { rsi: { min: 45, max: 65 } } });
+        expect(profile.swingGrade).toEqual(DEFAULT_SCORING_PROFILE.swingGrade);
+
+        expect(() => parseScoringProfile({ scorer: {} }, "x")).toThrow("version is required");
+        expect(() => parseScoringProfile({ version: "1", scorer: { rsi: { low: 30 } } }, "x")).toThrow("scorer.rsi.low");
+        expect(() => parseScoringProfile({ version: "1", scorer: { judgment: { buyDips: 7 } } }, "x"))
+            .toThrow("aggressiveBuy > buyDips > hold");
+        expect(() => parseScoringProfile({ version: "1", swingGrade: { rrBands: { high: "3" } } }, "x"))
+            .toThrow("must be a number");
+    });
+
+    test("loads JSON and YAML files, skipping invalid ones", () => {
+        writeFileSync(join(dir, "default.json"), JSON.stringify({ version: "1.1.0" }));
+        writeFileSync(join(dir, "momentum.yaml"), "version: '2025.1'\nscorer:\n  rsi:\n    min: 50\n    max: 70\n");
+        writeFileSync(join(dir, "broken.json"), JSON.stringify({ version: "1", scorer: { rsi: { min: 80 } } }));
+        writeFileSync(join(dir, "notes.txt"), "ignored");
+
+        const profiles = loadScoringProfiles(dir);
+        expect([...profiles.keys()].sort()).toEqual(["default", "momentum"]);
+        expect(profiles.get("default")!.version).toBe("1.1.0");
+        expect(profiles.get("momentum")!.scorer.rsi).toEqual({ min: 50, max: 70 });
+
+        reloadScoringProfiles(dir);
+        expect(getScoringProfile().version).toBe("1.1.0");
+        try {
+            getScoringProfile("missing");
+            throw new Error("expected UNKNOWN_PROFILE");
+        } catch (err: any) {
+            expect(err.code).toBe("UNKNOWN_PROFILE");
+            expect(err.message).toContain("available: default, momentum");
+        }
+    });
+
+    test("profile thresholds drive the scorer and swing grade", () => {
+        const momentum = parseScoringProfile({
+            version: "1",
+            scorer: { rsi: { min: 50, max: 70 }, judgment: { aggressiveBuy: 5 } },
+            swingGrade: { technicalBands: { high: 65 }, rrBands: { high: 2.5, mid: 1.5 } },
+        }, "momentum");
+
+        // RSI 68 is past the default band but inside the momentum band
+        expect(calculateMomentumScore(68, 100, 200)).toBe(0);
+        expect(calculateMomentumScore(68, 100, 200, momentum.scorer.rsi)).toBe(1);
+
+        // technical 66 + R/R 2.6: partial credit by default, full credit under momentum bands
+        expect(calcSwingGrade(66, 2.6, null, 100, 90).score).toBe(2 + 1 + 1);
+        expect(calcSwingGrade(66, 2.6, null, 100, 90, undefined, undefined, "long", momentum.swingGrade).score).toBe(3 + 2 + 1);
+
+        const request: AnalysisRequest = {
+            symbol: "TSEM",
+            market: "US",
+            timestamp: new Date().toISOString(),
+            price: 100,
+            moving_averages: { ma20: 90, ma60: 80, ma120: 70 },
+            volume: { avg_5d: 120, avg_20d: 100 },
+            momentum: { rsi_14: 68 },
+            index_context: { main_index: "NASDAQ", index_trend: "up" },
+        };
+        // default: trend 3 + momentum 1 + flow 1 + risk -1 = 4 → BUY_DIPS
+        const byDefault = analyze(request, { profile: DEFAULT_SCORING_PROFILE });
+        expect(byDefault.strategy.short_term).toBe("추격 매수 자제");
+        expect(byDefault.profile).toEqual({ name: "default", version: "1.0.0" });
+
+        // momentum: RSI 68 scores +1 → total 5 reaches its aggressiveBuy cutoff
+        const byMomentum = analyze(request, { profile: momentum });
+        expect(byMomentum.scores.total).toBe(5);
+        expect(byMomentum.strategy.short_term).toBe("적극 매수 유효");
+        expect(byMomentum.profile).toEqual({ name: "momentum", version: "1" });
+    });
+
+    test("backtests reject unknown profiles before loading data", async () => {
+        let loaded = false;
+        const provider = { name: "stub", getDailyBars: async () => { loaded = true; return []; } };
+        await expect(runBacktest({ universe: ["005930"], gradeFilter: ["A"], holdingPeriod: 10, profile: "nope" }, { provider }))
+            .rejects.toThrow('Unknown scoring profile "nope"');
+        expect(loaded).toBe(false);
+    });
+});
@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { analyze, calculateFundamentalScore, calculateSectorFundamentalScore } from "../src/analysis/scorer.js";
+import type { AnalysisRequest } from "../src/analysis/types.js";
+import {
+    deleteFundamentals,
+    getSectorPeerFundamentals,
+    upsertFundamentals,
+} from "../src/tools/korea/fundamentals-cache.js";
+
+// Bank-like peers: high leverage and low PBR are normal for the sector
+const bankPeers = [
+    { per: 5, pbr: 0.4, roe: 8, debt_ratio: 1100, op_margin: 30 },
+    { per: 6, pbr: 0.5, roe: 9, debt_ratio: 1200, op_margin: 32 },
+    { per: 7, pbr: 0.6, roe: 10, debt_ratio: 1300, op_margin: 35 },
+    { per: 8, pbr: 0.7, roe: 11, debt_ratio: 1400, op_margin: 38 },
+    { per: 9, pbr: 0.8, roe: 12, debt_ratio: 1500, op_margin: 40 },
+];
+
+describe("Sector-relative Fundamental Score", () => {
+    test("scores each metric by percentile against sector peers", () => {
+        const bank = { per: 5.5, pbr: 0.75, roe: 11.5, debt_ratio: 1250, op_margin: 31 };
+        // Absolute cutoffs penalise the leverage but reward a PBR/margin that is merely typical for banks
+        expect(calculateFundamentalScore(bank)).toBe(3);
+
+        const { score, detail } = calculateSectorFundamentalScore(bank, bankPeers, "은행");
+        expect(score).toBe(2);
+        expect(detail).toMatchObject({ sector: "은행", peer_count: 5 });
+        expect(detail.metrics.per).toEqual({ value: 5.5, peer_median: 7, percentile: 20, points: 1, basis: "sector" });
+        expect(detail.metrics.pbr).toMatchObject({ peer_median: 0.6, percentile: 80, points: 0 });
+        expect(detail.metrics.roe).toMatchObject({ percentile: 80, points: 1 });
+        expect(detail.metrics.op_margin).toMatchObject({ percentile: 20, points: 0 });
+        expect(detail.metrics.debt_ratio).toMatchObject({ peer_median: 1300, percentile: 40, points: 0 });
+
+        // Top-decile leverage within the sector still costs a point
+        const levered = calculateSectorFundamentalScore({ ...bank, debt_ratio: 1600 }, bankPeers, "은행");
+        expect(levered.detail.metrics.debt_ratio).toMatchObject({ percentile: 100, points: -1 });
+    });
+
+    test("falls back to absolute cutoffs per metric when peers are too few", () => {
+        const biotech = { per: -20, pbr: 3, roe: -15, debt_ratio: 40, op_margin: -80 };
+        const peers = [{ per: 30, roe: 5 }, { per: 40, roe: 6 }];
+
+        const { score, detail } = calculateSectorFundamentalScore(biotech, peers, "의약품");
+        expect(score).toBe(calculateFundamentalScore(biotech));
+        // Loss-making PER is not comparable; the median is still shown
+        expect(detail.metrics.per).toEqual({ value: -20, peer_median: 35, percentile: null, points: 0, basis: "absolute" });
+        expect(detail.metrics.op_margin).toMatchObject({ peer_median: null, basis: "absolute" });
+
+        expect(calculateSectorFundamentalScore(undefined, bankPeers, "은행").score).toBe(0);
+    });
+
+    test("analyze() reports fundamental_detail only when peers are supplied", () => {
+        const request: AnalysisRequest = {
+            symbol: "TEST",
+            market: "KR",
+            timestamp: new Date().toISOString(),
+            price: 100,
+            moving_averages: { ma20: 95, ma60: 90, ma120: 85 },
+            volume: { avg_5d: 1000, avg_20d: 1000 },
+            momentum: { rsi_14: 50 },
+            index_context: { main_index: "KOSPI", index_trend: "flat" },
+            fundamentals: { per: 5.5, pbr: 0.75, roe: 11.5, debt_ratio: 1250, op_margin: 31 },
+        };
+        expect(analyze(request).fundamental_detail).toBeUndefined();
+        expect(analyze(request).scores.fundamental).toBe(3);
+
+        const withPeers = analyze(request, { sectorPeers: { sector: "은행", peers: bankPeers } });
+        expect(withPeers.scores.fundamental).toBe(2);
+        expect(withPeers.fundamental_detail?.metrics.pbr.peer_median).toBe(0.6);
+    });
+});
+
+describe("Sector Fundamentals Cache", () => {
+    const symbols = ["ZZTEST1", "ZZTEST2", "ZZTEST3"];
+    const sector = "__test_sector__";
+
+    afterAll(() => deleteFundamentals(symbols));
+
+    test("stores peers by sector and excludes the analysed symbol", () => {
+        upsertFundamentals("zztest1", sector, { per: 10, roe: 5 });
+        upsertFundamentals("ZZTEST2", sector, { per: NaN, roe: 7, debt_ratio: 50 });
+        upsertFundamentals("ZZTEST3", "__other__", { per: 12 });
+        // Re-upsert moves the symbol to the latest sector
+        upsertFundamentals("ZZTEST3", sector, { per: 14 });
+
+        const peers = getSectorPeerFundamentals(sector, "zztest1");
+        expect(peers.map(p => p.symbol)).toEqual(["ZZTEST2", "ZZTEST3"]);
+        expect(peers[0]).toMatchObject({ roe: 7, debt_ratio: 50 });
+        expect(peers[0].per).toBeUndefined();
+        expect(getSectorPeerFundamentals("__other__")).toEqual([]);
+    });
+});
@@ -0,0 +1,80 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getMetadata, reloadMetadata } from "../src/analysis/metadata.js";
+import { calculateRiskScore } from "../src/analysis/scorer.js";
+import {
+    extractZipEntry,
+    isDefensiveSector,
+    loadStockMaster,
+    parseKisDomesticMaster,
+    parseKrxSectorCsv,
+} from "../src/analysis/stock-master.js";
+import { buildXlsx } from "../src/backtest/xlsx.js";
+
+/** KIS .mst row: short code (9) + standard code (12) + name + fixed-width tail */
+function mstRow(symbol: string, name: string, codes: [string, string, string], tailLength: number): string {
+    const tail = `ST3${codes.join("")}`.padEnd(tailLength, "0");
+    return `${symbol.padEnd(9)}KR7${symbol}000${name}   ${tail}`;
+}
+
+const dir = mkdtempSync(join(tmpdir(), "stock-master-"));
+
+describe("Stock Master Metadata", () => {
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+        reloadMetadata();
+    });
+
+    test("parses KIS domestic master rows and KRX sector CSV", () => {
+        const kospi = [mstRow("005930", "삼성전자", ["0027", "0013", "0000"], 228), mstRow("017670", "SK텔레콤", ["0020", "0000", "0000"], 228)].join("\n");
+        expect(parseKisDomesticMaster(kospi, "KOSPI", 228)).toEqual([
+            { symbol: "005930", name: "삼성전자", market: "KOSPI", industryCode: "0013", sector: "전기전자" },
+            { symbol: "017670", name: "SK텔레콤", market: "KOSPI", industryCode: "0020", sector: "통신업" },
+        ]);
+
+        const krx = parseKrxSectorCsv('종목코드,종목명,시장구분,업종명,종가\n"097950","CJ제일제당","KOSPI","음식료·담배","251,500"\n');
+        expect(krx).toEqual([{ symbol: "097950", name: "CJ제일제당", market: "KOSPI", sector: "음식료·담배" }]);
+        expect(() => parseKrxSectorCsv("종목코드,종목명\n005930,삼성전자")).toThrow("업종명");
+    });
+
+    test("flags defensive sectors without matching cyclical look-alikes", () => {
+        expect(isDefensiveSector("음식료·담배")).toBe(true);
+        expect(isDefensiveSector("전기가스업")).toBe(true);
+        expect(isDefensiveSector("통신업")).toBe(true);
+        expect(isDefensiveSector("Consumer Staples")).toBe(true);
+        expect(isDefensiveSector("통신장비")).toBe(false);
+        expect(isDefensiveSector("전기전자")).toBe(false);
+        expect(isDefensiveSector(undefined)).toBe(false);
+    });
+
+    test("merges master, KRX sectors and overrides behind getMetadata", () => {
+        writeFileSync(join(dir, "kospi_code.mst"), [
+            mstRow("005930", "삼성전자", ["0027", "0013", "0000"], 228),
+            mstRow("097950", "CJ제일제당", ["0027", "0005", "0000"], 228),
+        ].join("\n"));
+        writeFileSync(join(dir, "kosdaq_code.mst"), mstRow("035760", "CJ ENM", ["1026", "0000", "0000"], 222));
+        writeFileSync(join(dir, "krx_sector.csv"), "종목코드,업종명\n035760,방송서비스\n");
+        writeFileSync(join(dir, "overrides.json"), JSON.stringify({ "005930": { isDefensive: true }, ko: { sector: "Beverages" } }));
+
+        expect(loadStockMaster(dir).size).toBe(4);
+        reloadMetadata(dir);
+
+        expect(getMetadata("097950")).toMatchObject({ name: "CJ제일제당", market: "KOSPI", sector: "음식료품", isDefensive: true });
+        expect(getMetadata("035760")).toMatchObject({ market: "KOSDAQ", sector: "방송서비스", industryCode: "1026", isDefensive: false });
+        expect(getMetadata("005930")).toMatchObject({ sector: "전기전자", isDefensive: true });
+        // US built-in defaults still apply when the master has no sector
+        expect(getMetadata("MSFT")).toMatchObject({ sector: "Software", isDefensive: true });
+        expect(getMetadata("KO")).toMatchObject({ sector: "Beverages", isDefensive: true });
+
+        expect(calculateRiskScore("097950", 100, 90)).toBe(1);
+        expect(calculateRiskScore("035760", 100, 90)).toBe(0);
+    });
+
+    test("extracts deflated entries from a zip archive", () => {
+        const zip = buildXlsx([{ name: "s", rows: [["a"]] }]);
+        expect(new TextDecoder().decode(extractZipEntry(zip, "[Content_Types].xml")!)).toContain("<Types");
+        expect(extractZipEntry(zip, "missing.mst")).toBeNull();
+    });
+});